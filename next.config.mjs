@@ -9,11 +9,16 @@ const EBM_ASSET_GLOBS = [
   './node_modules/pdfjs-dist/**/*',
   'node_modules/pdfjs-dist/**/*',
 ];
+// tesseract.js starts its worker and WASM core from files resolved at runtime.
+const OCR_ASSET_GLOBS = [
+  './node_modules/tesseract.js/**/*',
+  './node_modules/tesseract.js-core/**/*',
+];
 const OUTPUT_TRACING_TARGETS = ['/api/chat', '/api/uploads', 'app/api/chat/route', 'app/api/uploads/route'];
 
 const buildOutputFileTracingIncludes = () => {
   return OUTPUT_TRACING_TARGETS.reduce((acc, route) => {
-    acc[route] = EBM_ASSET_GLOBS;
+    acc[route] = [...EBM_ASSET_GLOBS, ...OCR_ASSET_GLOBS];
     return acc;
   }, /** @type {Record<string, string[]>} */ ({}));
 };
@@ -57,7 +62,7 @@ const nextConfig = {
     NEXT_PUBLIC_ENABLE_COPILOT_TOGGLE:
       process.env.COPILOT_TOGGLE ?? 'false',
   },
-  serverExternalPackages: ['pdf-parse', '@napi-rs/canvas', 'pdfjs-dist'],
+  serverExternalPackages: ['pdf-parse', '@napi-rs/canvas', 'pdfjs-dist', 'tesseract.js'],
   webpack: (config, { isServer }) => {
     if (isServer) {
       config.externals = config.externals || [];
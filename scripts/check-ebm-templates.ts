@@ -0,0 +1,46 @@
+import path from 'node:path';
+
+import {
+  DEFAULT_FIXTURE_ROOT,
+  runTemplateFixtures,
+} from '../src/lib/ebm/templateHarness';
+
+const main = async () => {
+  const root = process.argv[2]
+    ? path.resolve(process.argv[2])
+    : DEFAULT_FIXTURE_ROOT;
+  const results = await runTemplateFixtures(root);
+
+  if (results.length === 0) {
+    console.error(`No template fixtures found in ${root}`);
+    process.exit(1);
+  }
+
+  let failed = 0;
+
+  for (const result of results) {
+    const label = `${result.fixture} (${path.relative(process.cwd(), result.file)})`;
+
+    if (result.failures.length === 0) {
+      console.log(`✓ ${label} → ${result.selectedTemplate ?? '(none)'}`);
+      continue;
+    }
+
+    failed += 1;
+    console.error(`✗ ${label}`);
+    result.failures.forEach((failure) => console.error(`    ${failure}`));
+  }
+
+  console.log(
+    `\n${results.length - failed}/${results.length} fixtures passed.`,
+  );
+
+  if (failed > 0) {
+    process.exit(1);
+  }
+};
+
+main().catch((error) => {
+  console.error('Failed to run EBM template fixtures:', error);
+  process.exit(1);
+});
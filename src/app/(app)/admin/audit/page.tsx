@@ -0,0 +1,98 @@
+import { Metadata } from 'next';
+
+import {
+  AuditLogTable,
+  auditActionLabels,
+  auditTargetLabels,
+  type AuditLogFilters,
+} from '@/components/admin/AuditLogTable';
+import { getAuditLog, requireAdminSession } from '@/lib/admin/server';
+import type { AuditAction, AuditTargetType } from '@/types/audit';
+
+const PAGE_SIZE = 25;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const UUID_PATTERN =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export const metadata: Metadata = {
+  title: 'Admin · Audit log',
+};
+
+interface AdminAuditPageProps {
+  searchParams?: Promise<Record<string, string | string[] | undefined>>;
+}
+
+const firstValue = (value?: string | string[]) =>
+  Array.isArray(value) ? value[0] : value;
+
+const parseFilters = (
+  params?: Record<string, string | string[] | undefined>,
+): AuditLogFilters => {
+  const action = firstValue(params?.action);
+  const targetType = firstValue(params?.targetType);
+  const actorId = firstValue(params?.actorId);
+  const targetId = firstValue(params?.targetId);
+  const from = firstValue(params?.from);
+  const to = firstValue(params?.to);
+
+  return {
+    action:
+      action && action in auditActionLabels
+        ? (action as AuditAction)
+        : undefined,
+    targetType:
+      targetType && targetType in auditTargetLabels
+        ? (targetType as AuditTargetType)
+        : undefined,
+    actorId: actorId && UUID_PATTERN.test(actorId) ? actorId : undefined,
+    targetId: targetId || undefined,
+    from: from && DATE_PATTERN.test(from) ? from : undefined,
+    to: to && DATE_PATTERN.test(to) ? to : undefined,
+  };
+};
+
+export default async function AdminAuditPage({
+  searchParams,
+}: AdminAuditPageProps) {
+  await requireAdminSession();
+
+  const resolvedSearchParams = searchParams ? await searchParams : undefined;
+  const filters = parseFilters(resolvedSearchParams);
+  const page = Math.max(
+    1,
+    Number.parseInt(firstValue(resolvedSearchParams?.page) ?? '', 10) || 1,
+  );
+
+  const data = await getAuditLog({
+    action: filters.action,
+    targetType: filters.targetType,
+    actorId: filters.actorId,
+    targetId: filters.targetId,
+    from: filters.from ? new Date(`${filters.from}T00:00:00Z`) : undefined,
+    // Inclusive of the whole end day.
+    to: filters.to ? new Date(`${filters.to}T23:59:59.999Z`) : undefined,
+    limit: PAGE_SIZE,
+    offset: (page - 1) * PAGE_SIZE,
+  });
+
+  return (
+    <section className="space-y-6">
+      <div>
+        <h1 className="text-2xl font-semibold text-black dark:text-white">
+          Audit log
+        </h1>
+        <p className="text-sm text-black/60 dark:text-white/60">
+          Who changed users, model providers and settings, including
+          impersonated sessions.
+        </p>
+      </div>
+      <AuditLogTable
+        entries={data.entries}
+        total={data.total}
+        page={page}
+        limit={data.limit}
+        filters={filters}
+      />
+    </section>
+  );
+}
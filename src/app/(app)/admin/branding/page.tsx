@@ -0,0 +1,29 @@
+import { Metadata } from 'next';
+
+import { ExportBrandingForm } from '@/components/admin/ExportBrandingForm';
+import { requireAdminSession } from '@/lib/admin/server';
+import { getExportBranding } from '@/lib/export/branding';
+
+export const metadata: Metadata = {
+  title: 'Admin · Branding',
+};
+
+export default async function AdminBrandingPage() {
+  await requireAdminSession();
+  const branding = await getExportBranding();
+
+  return (
+    <section className="space-y-6">
+      <div>
+        <h1 className="text-2xl font-semibold text-black dark:text-white">
+          Branding
+        </h1>
+        <p className="text-sm text-black/60 dark:text-white/60">
+          Logo, header, footer, and disclaimer applied to exported
+          conversations.
+        </p>
+      </div>
+      <ExportBrandingForm branding={branding} />
+    </section>
+  );
+}
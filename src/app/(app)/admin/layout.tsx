@@ -1,5 +1,6 @@
 import { redirect } from 'next/navigation';
 
+import { AdminNav } from '@/components/admin/AdminNav';
 import { requireAdminPermission } from '@/lib/auth/permissions';
 
 export default async function AdminLayout({
@@ -14,5 +15,10 @@ export default async function AdminLayout({
     redirect('/');
   }
 
-  return <div className="flex flex-col gap-8 p-6 lg:p-8">{children}</div>;
+  return (
+    <div className="flex flex-col gap-8 p-6 lg:p-8">
+      <AdminNav />
+      {children}
+    </div>
+  );
 }
@@ -0,0 +1,55 @@
+import { Metadata } from 'next';
+
+import { UsageDashboard } from '@/components/admin/UsageDashboard';
+import {
+  getOrgUsage,
+  requireAdminSession,
+  USAGE_PERIOD_DAYS,
+} from '@/lib/admin/server';
+
+const DEFAULT_DAYS = 30;
+
+export const metadata: Metadata = {
+  title: 'Admin · Usage',
+};
+
+interface AdminUsagePageProps {
+  searchParams?: Promise<Record<string, string | string[] | undefined>>;
+}
+
+const parseDaysParam = (value?: string | string[]) => {
+  const raw = Array.isArray(value) ? value[0] : value;
+  const parsed = Number.parseInt(raw ?? '', 10);
+
+  return (USAGE_PERIOD_DAYS as readonly number[]).includes(parsed)
+    ? parsed
+    : DEFAULT_DAYS;
+};
+
+export default async function AdminUsagePage({
+  searchParams,
+}: AdminUsagePageProps) {
+  await requireAdminSession();
+
+  const resolvedSearchParams = searchParams ? await searchParams : undefined;
+  const days = parseDaysParam(resolvedSearchParams?.days);
+  const usage = await getOrgUsage(days);
+
+  return (
+    <section className="space-y-6">
+      <div>
+        <h1 className="text-2xl font-semibold text-black dark:text-white">
+          Usage
+        </h1>
+        <p className="text-sm text-black/60 dark:text-white/60">
+          Model calls, tokens and estimated provider cost across the workspace.
+        </p>
+      </div>
+      <UsageDashboard
+        usage={usage}
+        days={days}
+        periodOptions={[...USAGE_PERIOD_DAYS]}
+      />
+    </section>
+  );
+}
@@ -19,6 +19,7 @@ export default async function AppLayout({
     redirect('/sign-in');
   }
 
+  await configManager.loadModelProviders();
   const setupComplete = configManager.isSetupComplete();
   const configSections = configManager.getUIConfigSections();
   const registry = new ModelRegistry();
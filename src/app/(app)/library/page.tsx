@@ -1,21 +1,94 @@
 'use client';
 
 import DeleteChat from '@/components/DeleteChat';
+import SharedLinks from '@/components/SharedLinks';
+import UploadedFiles from '@/components/UploadedFiles';
+import ChatProjectSelect from '@/components/Projects/ChatProjectSelect';
 import { cn, formatTimeDifference } from '@/lib/utils';
-import { BookOpenText, ClockIcon } from 'lucide-react';
+import { BookOpenText, ClockIcon, Search } from 'lucide-react';
 import Link from 'next/link';
-import { useEffect, useState } from 'react';
-import type { ChatListItem } from '@/lib/types/chat';
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { toast } from 'sonner';
+import { useDebounce } from '@/lib/hooks/useDebounce';
+import type { ChatListItem, ChatListPage } from '@/lib/types/chat';
+import type { ProjectListItem } from '@/types/project';
+
+const FOCUS_MODE_OPTIONS = [
+  { key: '', label: 'All focus modes' },
+  { key: 'webSearch', label: 'All' },
+  { key: 'academicSearch', label: 'Academic' },
+  { key: 'writingAssistant', label: 'Writing' },
+  { key: 'wolframAlphaSearch', label: 'Wolfram Alpha' },
+  { key: 'youtubeSearch', label: 'Youtube' },
+  { key: 'redditSearch', label: 'Reddit' },
+  { key: 'ebmValidator', label: 'EBM Validator' },
+];
+
+type ChatFilters = {
+  q: string;
+  focusMode: string;
+  from: string;
+  to: string;
+};
+
+const EMPTY_FILTERS: ChatFilters = { q: '', focusMode: '', from: '', to: '' };
+
+const filterInputClassName =
+  'rounded-full border border-light-200/70 bg-white px-3 py-2 text-sm text-black shadow-sm transition focus:border-sky-500 focus:outline-none dark:border-dark-200/70 dark:bg-dark-secondary dark:text-white';
+
+const Spinner = () => (
+  <svg
+    aria-hidden="true"
+    className="w-8 h-8 text-light-200 fill-light-secondary dark:text-[#202020] animate-spin dark:fill-[#ffffff3b]"
+    viewBox="0 0 100 101"
+    fill="none"
+    xmlns="http://www.w3.org/2000/svg"
+  >
+    <path
+      d="M100 50.5908C100.003 78.2051 78.1951 100.003 50.5908 100C22.9765 99.9972 0.997224 78.018 1 50.4037C1.00281 22.7993 22.8108 0.997224 50.4251 1C78.0395 1.00281 100.018 22.8108 100 50.4251ZM9.08164 50.594C9.06312 73.3997 27.7909 92.1272 50.5966 92.1457C73.4023 92.1642 92.1298 73.4365 92.1483 50.6308C92.1669 27.8251 73.4392 9.0973 50.6335 9.07878C27.8278 9.06026 9.10003 27.787 9.08164 50.594Z"
+      fill="currentColor"
+    />
+    <path
+      d="M93.9676 39.0409C96.393 38.4037 97.8624 35.9116 96.9801 33.5533C95.1945 28.8227 92.871 24.3692 90.0681 20.348C85.6237 14.1775 79.4473 9.36872 72.0454 6.45794C64.6435 3.54717 56.3134 2.65431 48.3133 3.89319C45.869 4.27179 44.3768 6.77534 45.014 9.20079C45.6512 11.6262 48.1343 13.0956 50.5786 12.717C56.5073 11.8281 62.5542 12.5399 68.0406 14.7911C73.527 17.0422 78.2187 20.7487 81.5841 25.4923C83.7976 28.5886 85.4467 32.059 86.4416 35.7474C87.1273 38.1189 89.5423 39.6781 91.9676 39.0409Z"
+      fill="currentFill"
+    />
+  </svg>
+);
+
+const buildChatsUrl = (filters: ChatFilters, cursor?: string | null) => {
+  const params = new URLSearchParams();
+
+  Object.entries(filters).forEach(([key, value]) => {
+    if (value.trim()) {
+      params.set(key, value.trim());
+    }
+  });
+
+  if (cursor) {
+    params.set('cursor', cursor);
+  }
+
+  const query = params.toString();
+  return `/api/chats${query ? `?${query}` : ''}`;
+};
 
 const Page = () => {
   const [chats, setChats] = useState<ChatListItem[]>([]);
   const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [searchTerm, setSearchTerm] = useState('');
+  const [filters, setFilters] = useState<ChatFilters>(EMPTY_FILTERS);
+  const [projects, setProjects] = useState<ProjectListItem[]>([]);
 
-  useEffect(() => {
-    const fetchChats = async () => {
-      setLoading(true);
+  const requestIdRef = useRef(0);
+  const sentinelRef = useRef<HTMLDivElement | null>(null);
+
+  const fetchPage = useCallback(
+    async (cursor: string | null) => {
+      const requestId = ++requestIdRef.current;
 
-      const res = await fetch(`/api/chats`, {
+      const res = await fetch(buildChatsUrl(filters, cursor), {
         method: 'GET',
         headers: {
           'Content-Type': 'application/json',
@@ -24,33 +97,90 @@ const Page = () => {
 
       const data = await res.json();
 
-      setChats(data.chats);
-      setLoading(false);
-    };
+      // Ignore pages that arrive after the filters have changed.
+      if (requestId !== requestIdRef.current) {
+        return;
+      }
+
+      if (!res.ok) {
+        throw new Error(data.message ?? 'Failed to load chats');
+      }
+
+      const page = data as ChatListPage;
+      setChats((prev) => (cursor ? [...prev, ...page.chats] : page.chats));
+      setNextCursor(page.nextCursor);
+    },
+    [filters],
+  );
 
-    fetchChats();
+  useEffect(() => {
+    fetch('/api/projects')
+      .then((res) => (res.ok ? res.json() : { projects: [] }))
+      .then((data) => setProjects(data.projects))
+      .catch(() => setProjects([]));
   }, []);
 
-  return loading ? (
-    <div className="flex flex-row items-center justify-center min-h-screen">
-      <svg
-        aria-hidden="true"
-        className="w-8 h-8 text-light-200 fill-light-secondary dark:text-[#202020] animate-spin dark:fill-[#ffffff3b]"
-        viewBox="0 0 100 101"
-        fill="none"
-        xmlns="http://www.w3.org/2000/svg"
-      >
-        <path
-          d="M100 50.5908C100.003 78.2051 78.1951 100.003 50.5908 100C22.9765 99.9972 0.997224 78.018 1 50.4037C1.00281 22.7993 22.8108 0.997224 50.4251 1C78.0395 1.00281 100.018 22.8108 100 50.4251ZM9.08164 50.594C9.06312 73.3997 27.7909 92.1272 50.5966 92.1457C73.4023 92.1642 92.1298 73.4365 92.1483 50.6308C92.1669 27.8251 73.4392 9.0973 50.6335 9.07878C27.8278 9.06026 9.10003 27.787 9.08164 50.594Z"
-          fill="currentColor"
-        />
-        <path
-          d="M93.9676 39.0409C96.393 38.4037 97.8624 35.9116 96.9801 33.5533C95.1945 28.8227 92.871 24.3692 90.0681 20.348C85.6237 14.1775 79.4473 9.36872 72.0454 6.45794C64.6435 3.54717 56.3134 2.65431 48.3133 3.89319C45.869 4.27179 44.3768 6.77534 45.014 9.20079C45.6512 11.6262 48.1343 13.0956 50.5786 12.717C56.5073 11.8281 62.5542 12.5399 68.0406 14.7911C73.527 17.0422 78.2187 20.7487 81.5841 25.4923C83.7976 28.5886 85.4467 32.059 86.4416 35.7474C87.1273 38.1189 89.5423 39.6781 91.9676 39.0409Z"
-          fill="currentFill"
-        />
-      </svg>
-    </div>
-  ) : (
+  useEffect(() => {
+    setLoading(true);
+    fetchPage(null)
+      .catch((err) => toast.error(err.message))
+      .finally(() => setLoading(false));
+  }, [fetchPage]);
+
+  const loadMore = useCallback(async () => {
+    if (!nextCursor || loadingMore) {
+      return;
+    }
+
+    setLoadingMore(true);
+    try {
+      await fetchPage(nextCursor);
+    } catch (err: any) {
+      toast.error(err.message);
+    } finally {
+      setLoadingMore(false);
+    }
+  }, [fetchPage, loadingMore, nextCursor]);
+
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (!sentinel || !nextCursor) {
+      return;
+    }
+
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries.some((entry) => entry.isIntersecting)) {
+          loadMore();
+        }
+      },
+      { rootMargin: '200px' },
+    );
+
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [loadMore, nextCursor]);
+
+  const debouncedSearch = useDebounce((value: string) => {
+    setFilters((prev) => ({ ...prev, q: value }));
+  }, 300);
+
+  const handleSearchChange = (value: string) => {
+    setSearchTerm(value);
+    debouncedSearch(value.trim());
+  };
+
+  const updateFilter = (key: Exclude<keyof ChatFilters, 'q'>, value: string) =>
+    setFilters((prev) => ({ ...prev, [key]: value }));
+
+  const hasFilters = Object.values(filters).some(Boolean);
+
+  const clearFilters = () => {
+    setSearchTerm('');
+    setFilters(EMPTY_FILTERS);
+  };
+
+  return (
     <div>
       <div className="flex flex-col pt-4">
         <div className="flex items-center">
@@ -59,48 +189,136 @@ const Page = () => {
         </div>
         <hr className="border-t border-[#2B2C2C] my-4 w-full" />
       </div>
-      {chats.length === 0 && (
-        <div className="flex flex-row items-center justify-center min-h-screen">
-          <p className="text-black/70 dark:text-white/70 text-sm">
-            No chats found.
-          </p>
+      <div className="flex flex-col gap-3 lg:flex-row lg:items-center">
+        <div className="relative w-full lg:max-w-sm">
+          <Search className="pointer-events-none absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-black/40 dark:text-white/40" />
+          <input
+            value={searchTerm}
+            onChange={(event) => handleSearchChange(event.target.value)}
+            placeholder="Search titles and messages"
+            className={cn(
+              filterInputClassName,
+              'w-full pl-9 placeholder:text-black/40 dark:placeholder:text-white/40',
+            )}
+          />
         </div>
-      )}
-      {chats.length > 0 && (
-        <div className="flex flex-col pb-20 lg:pb-2">
-          {chats.map((chat, i) => (
-            <div
-              className={cn(
-                'flex flex-col space-y-4 py-6',
-                i !== chats.length - 1
-                  ? 'border-b border-white-200 dark:border-dark-200'
-                  : '',
-              )}
-              key={i}
-            >
-              <Link
-                href={`/c/${chat.id}`}
-                className="text-black dark:text-white lg:text-xl font-medium truncate transition duration-200 hover:text-[#24A0ED] dark:hover:text-[#24A0ED] cursor-pointer"
-              >
-                {chat.title}
-              </Link>
-              <div className="flex flex-row items-center justify-between w-full">
-                <div className="flex flex-row items-center space-x-1 lg:space-x-1.5 text-black/70 dark:text-white/70">
-                  <ClockIcon size={15} />
-                  <p className="text-xs">
-                    {formatTimeDifference(new Date(), chat.createdAt)} Ago
-                  </p>
-                </div>
-                <DeleteChat
-                  chatId={chat.id}
-                  chats={chats}
-                  setChats={setChats}
-                />
-              </div>
-            </div>
+        <select
+          value={filters.focusMode}
+          onChange={(event) => updateFilter('focusMode', event.target.value)}
+          className={filterInputClassName}
+          aria-label="Focus mode"
+        >
+          {FOCUS_MODE_OPTIONS.map((option) => (
+            <option key={option.key} value={option.key}>
+              {option.label}
+            </option>
           ))}
+        </select>
+        <div className="flex items-center gap-2">
+          <input
+            type="date"
+            value={filters.from}
+            max={filters.to || undefined}
+            onChange={(event) => updateFilter('from', event.target.value)}
+            className={filterInputClassName}
+            aria-label="From date"
+          />
+          <span className="text-sm text-black/60 dark:text-white/60">to</span>
+          <input
+            type="date"
+            value={filters.to}
+            min={filters.from || undefined}
+            onChange={(event) => updateFilter('to', event.target.value)}
+            className={filterInputClassName}
+            aria-label="To date"
+          />
+        </div>
+        {hasFilters && (
+          <button
+            type="button"
+            onClick={clearFilters}
+            className="text-sm text-black/70 hover:underline dark:text-white/70"
+          >
+            Clear filters
+          </button>
+        )}
+      </div>
+      {loading ? (
+        <div className="flex flex-row items-center justify-center min-h-[50vh]">
+          <Spinner />
         </div>
+      ) : (
+        <>
+          {chats.length === 0 && (
+            <div className="flex flex-row items-center justify-center min-h-[50vh]">
+              <p className="text-black/70 dark:text-white/70 text-sm">
+                {hasFilters ? 'No chats match your search.' : 'No chats found.'}
+              </p>
+            </div>
+          )}
+          {chats.length > 0 && (
+            <div className="flex flex-col pb-20 lg:pb-2">
+              {chats.map((chat, i) => (
+                <div
+                  className={cn(
+                    'flex flex-col space-y-4 py-6',
+                    i !== chats.length - 1
+                      ? 'border-b border-white-200 dark:border-dark-200'
+                      : '',
+                  )}
+                  key={chat.id}
+                >
+                  <Link
+                    href={`/c/${chat.id}`}
+                    className="text-black dark:text-white lg:text-xl font-medium truncate transition duration-200 hover:text-[#24A0ED] dark:hover:text-[#24A0ED] cursor-pointer"
+                  >
+                    {chat.title}
+                  </Link>
+                  <div className="flex flex-row items-center justify-between w-full">
+                    <div className="flex flex-row items-center space-x-1 lg:space-x-1.5 text-black/70 dark:text-white/70">
+                      <ClockIcon size={15} />
+                      <p className="text-xs">
+                        {formatTimeDifference(new Date(), chat.createdAt)} Ago
+                      </p>
+                    </div>
+                    <div className="flex flex-row items-center space-x-3">
+                      {projects.length > 0 && (
+                        <ChatProjectSelect
+                          chatId={chat.id}
+                          projectId={chat.projectId ?? null}
+                          projects={projects}
+                          onChange={(projectId) =>
+                            setChats((prev) =>
+                              prev.map((item) =>
+                                item.id === chat.id
+                                  ? { ...item, projectId }
+                                  : item,
+                              ),
+                            )
+                          }
+                        />
+                      )}
+                      <DeleteChat
+                        chatId={chat.id}
+                        chats={chats}
+                        setChats={setChats}
+                      />
+                    </div>
+                  </div>
+                </div>
+              ))}
+              <div ref={sentinelRef} className="h-px" />
+              {loadingMore && (
+                <div className="flex justify-center py-4">
+                  <Spinner />
+                </div>
+              )}
+            </div>
+          )}
+        </>
       )}
+      <UploadedFiles />
+      <SharedLinks />
     </div>
   );
 };
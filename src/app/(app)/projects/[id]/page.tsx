@@ -0,0 +1,301 @@
+'use client';
+
+import { ClockIcon, FolderKanban, Loader2, Plus, Trash } from 'lucide-react';
+import Link from 'next/link';
+import { useParams, useRouter } from 'next/navigation';
+import { useCallback, useEffect, useState } from 'react';
+import { toast } from 'sonner';
+import ProjectFiles from '@/components/Projects/ProjectFiles';
+import { formatTimeDifference } from '@/lib/utils';
+import type { ChatListItem, ChatListPage } from '@/lib/types/chat';
+import type { ProjectListItem } from '@/types/project';
+
+const inputClassName =
+  'w-full rounded-xl border border-light-200/70 bg-white px-3 py-2 text-sm text-black outline-none transition focus:border-sky-500 disabled:opacity-60 dark:border-dark-200/70 dark:bg-dark-secondary dark:text-white';
+
+const Page = () => {
+  const { id } = useParams<{ id: string }>();
+  const router = useRouter();
+
+  const [project, setProject] = useState<ProjectListItem | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [deleting, setDeleting] = useState(false);
+  const [name, setName] = useState('');
+  const [description, setDescription] = useState('');
+  const [instructions, setInstructions] = useState('');
+
+  const [chats, setChats] = useState<ChatListItem[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [loadingChats, setLoadingChats] = useState(false);
+
+  const applyProject = (next: ProjectListItem) => {
+    setProject(next);
+    setName(next.name);
+    setDescription(next.description ?? '');
+    setInstructions(next.instructions);
+  };
+
+  const fetchChats = useCallback(
+    async (cursor: string | null) => {
+      setLoadingChats(true);
+      try {
+        const params = new URLSearchParams({ projectId: id });
+        if (cursor) {
+          params.set('cursor', cursor);
+        }
+        const res = await fetch(`/api/chats?${params.toString()}`);
+        const data = await res.json();
+        if (!res.ok) {
+          throw new Error(data.message ?? 'Failed to load chats');
+        }
+        const page = data as ChatListPage;
+        setChats((prev) => (cursor ? [...prev, ...page.chats] : page.chats));
+        setNextCursor(page.nextCursor);
+      } catch (err: any) {
+        toast.error(err.message);
+      } finally {
+        setLoadingChats(false);
+      }
+    },
+    [id],
+  );
+
+  useEffect(() => {
+    const fetchProject = async () => {
+      try {
+        const res = await fetch(`/api/projects/${id}`);
+        const data = await res.json();
+        if (!res.ok) {
+          throw new Error(data.message ?? 'Failed to load project');
+        }
+        applyProject(data.project);
+      } catch (err: any) {
+        toast.error(err.message);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchProject();
+    fetchChats(null);
+  }, [id, fetchChats]);
+
+  const updateProject = async (body: Record<string, unknown>) => {
+    const res = await fetch(`/api/projects/${id}`, {
+      method: 'PATCH',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(body),
+    });
+    const data = await res.json();
+    if (!res.ok) {
+      throw new Error(data.message ?? 'Failed to update project');
+    }
+    applyProject(data.project);
+  };
+
+  const saveDetails = async (event: React.FormEvent) => {
+    event.preventDefault();
+    setSaving(true);
+    try {
+      await updateProject({
+        name: name.trim(),
+        description: description.trim() || null,
+        instructions,
+      });
+      toast.success('Project saved.');
+    } catch (err: any) {
+      toast.error(err.message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const updateFiles = async (fileIds: string[]) => {
+    try {
+      await updateProject({ fileIds });
+      return true;
+    } catch (err: any) {
+      toast.error(err.message);
+      return false;
+    }
+  };
+
+  const deleteProject = async () => {
+    if (
+      !window.confirm(
+        'Delete this project? Its chats are kept and moved out of the project.',
+      )
+    ) {
+      return;
+    }
+
+    setDeleting(true);
+    try {
+      const res = await fetch(`/api/projects/${id}`, { method: 'DELETE' });
+      if (res.status != 200) {
+        throw new Error('Failed to delete project');
+      }
+      toast.success('Project deleted.');
+      router.push('/projects');
+    } catch (err: any) {
+      toast.error(err.message);
+      setDeleting(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex min-h-screen items-center justify-center">
+        <Loader2 className="h-6 w-6 animate-spin text-black/50 dark:text-white/50" />
+      </div>
+    );
+  }
+
+  if (!project) {
+    return (
+      <div className="flex min-h-screen flex-col items-center justify-center gap-2">
+        <p className="text-sm text-black/70 dark:text-white/70">
+          Project not found.
+        </p>
+        <Link href="/projects" className="text-sm text-sky-500 hover:underline">
+          Back to projects
+        </Link>
+      </div>
+    );
+  }
+
+  return (
+    <div className="pb-20 lg:pb-6">
+      <div className="flex flex-col pt-4">
+        <div className="flex items-center justify-between gap-3">
+          <div className="flex min-w-0 items-center">
+            <FolderKanban className="shrink-0" />
+            <h1 className="truncate p-2 text-3xl font-medium">
+              {project.name}
+            </h1>
+          </div>
+          <Link
+            href={`/?project=${project.id}`}
+            className="inline-flex shrink-0 items-center gap-1.5 rounded-full bg-sky-600 px-4 py-2 text-sm font-semibold text-white shadow-sm transition hover:bg-sky-700"
+          >
+            <Plus size={16} />
+            New chat
+          </Link>
+        </div>
+        <hr className="border-t border-[#2B2C2C] my-4 w-full" />
+      </div>
+
+      <div className="grid grid-cols-1 gap-8 lg:grid-cols-2">
+        <form onSubmit={saveDetails} className="space-y-3">
+          <h2 className="text-lg font-medium text-black dark:text-white">
+            Details
+          </h2>
+          <input
+            value={name}
+            onChange={(event) => setName(event.target.value)}
+            maxLength={100}
+            required
+            disabled={saving}
+            className={inputClassName}
+            aria-label="Project name"
+          />
+          <input
+            value={description}
+            onChange={(event) => setDescription(event.target.value)}
+            placeholder="Short description (optional)"
+            maxLength={500}
+            disabled={saving}
+            className={inputClassName}
+          />
+          <label className="block space-y-1.5">
+            <span className="text-sm font-medium text-black dark:text-white">
+              Project instructions
+            </span>
+            <textarea
+              value={instructions}
+              onChange={(event) => setInstructions(event.target.value)}
+              rows={6}
+              maxLength={4000}
+              disabled={saving}
+              placeholder="e.g. The client is a VAT-registered importer in Kigali. Answer with reference to the 2023 VAT law."
+              className={inputClassName}
+            />
+            <span className="block text-xs text-black/60 dark:text-white/60">
+              Applied to every chat in this project, alongside your personal
+              instructions.
+            </span>
+          </label>
+          <div className="flex items-center justify-between">
+            <button
+              type="button"
+              onClick={deleteProject}
+              disabled={deleting}
+              className="inline-flex items-center gap-1.5 text-sm text-red-500 hover:underline disabled:opacity-60"
+            >
+              <Trash size={14} />
+              Delete project
+            </button>
+            <button
+              type="submit"
+              disabled={saving || !name.trim()}
+              className="inline-flex items-center gap-2 rounded-full bg-sky-600 px-4 py-2 text-sm font-semibold text-white shadow-sm transition hover:bg-sky-700 disabled:cursor-not-allowed disabled:opacity-60"
+            >
+              {saving ? <Loader2 className="h-4 w-4 animate-spin" /> : 'Save'}
+            </button>
+          </div>
+        </form>
+
+        <ProjectFiles files={project.files} onChange={updateFiles} />
+      </div>
+
+      <div className="mt-8 space-y-2">
+        <h2 className="text-lg font-medium text-black dark:text-white">
+          Chats
+        </h2>
+        {chats.length === 0 && !loadingChats && (
+          <p className="text-sm text-black/70 dark:text-white/70">
+            No chats in this project yet.
+          </p>
+        )}
+        <div className="flex flex-col">
+          {chats.map((chat) => (
+            <div
+              key={chat.id}
+              className="flex items-center justify-between gap-3 border-b border-light-200 py-3 dark:border-dark-200"
+            >
+              <Link
+                href={`/c/${chat.id}`}
+                className="truncate font-medium text-black transition duration-200 hover:text-[#24A0ED] dark:text-white dark:hover:text-[#24A0ED]"
+              >
+                {chat.title}
+              </Link>
+              <span className="flex shrink-0 items-center gap-1 text-xs text-black/70 dark:text-white/70">
+                <ClockIcon size={14} />
+                {formatTimeDifference(new Date(), chat.createdAt)} Ago
+              </span>
+            </div>
+          ))}
+        </div>
+        {loadingChats && (
+          <div className="flex justify-center py-3">
+            <Loader2 className="h-5 w-5 animate-spin text-black/50 dark:text-white/50" />
+          </div>
+        )}
+        {nextCursor && !loadingChats && (
+          <button
+            type="button"
+            onClick={() => fetchChats(nextCursor)}
+            className="text-sm text-sky-500 hover:underline"
+          >
+            Load more
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default Page;
@@ -0,0 +1,160 @@
+'use client';
+
+import { FolderKanban, Loader2, MessagesSquare, Paperclip } from 'lucide-react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { useEffect, useState } from 'react';
+import { toast } from 'sonner';
+import { formatTimeDifference } from '@/lib/utils';
+import type { ProjectListItem } from '@/types/project';
+
+const inputClassName =
+  'w-full rounded-xl border border-light-200/70 bg-white px-3 py-2 text-sm text-black outline-none transition focus:border-sky-500 disabled:opacity-60 dark:border-dark-200/70 dark:bg-dark-secondary dark:text-white';
+
+const Page = () => {
+  const router = useRouter();
+  const [projects, setProjects] = useState<ProjectListItem[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [creating, setCreating] = useState(false);
+  const [name, setName] = useState('');
+  const [description, setDescription] = useState('');
+
+  useEffect(() => {
+    const fetchProjects = async () => {
+      try {
+        const res = await fetch('/api/projects');
+        const data = await res.json();
+        if (!res.ok) {
+          throw new Error(data.message ?? 'Failed to load projects');
+        }
+        setProjects(data.projects);
+      } catch (err: any) {
+        toast.error(err.message);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchProjects();
+  }, []);
+
+  const createProject = async (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!name.trim()) {
+      return;
+    }
+
+    setCreating(true);
+    try {
+      const res = await fetch('/api/projects', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          name: name.trim(),
+          description: description.trim() || null,
+        }),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        throw new Error(data.message ?? 'Failed to create project');
+      }
+      router.push(`/projects/${data.project.id}`);
+    } catch (err: any) {
+      toast.error(err.message);
+      setCreating(false);
+    }
+  };
+
+  return (
+    <div>
+      <div className="flex flex-col pt-4">
+        <div className="flex items-center">
+          <FolderKanban />
+          <h1 className="text-3xl font-medium p-2">Projects</h1>
+        </div>
+        <hr className="border-t border-[#2B2C2C] my-4 w-full" />
+      </div>
+      <form
+        onSubmit={createProject}
+        className="flex flex-col gap-3 rounded-2xl border border-light-200/70 bg-light-primary p-4 dark:border-dark-200/70 dark:bg-dark-primary lg:flex-row"
+      >
+        <input
+          value={name}
+          onChange={(event) => setName(event.target.value)}
+          placeholder="Project name, e.g. client engagement"
+          maxLength={100}
+          disabled={creating}
+          className={inputClassName}
+        />
+        <input
+          value={description}
+          onChange={(event) => setDescription(event.target.value)}
+          placeholder="Short description (optional)"
+          maxLength={500}
+          disabled={creating}
+          className={inputClassName}
+        />
+        <button
+          type="submit"
+          disabled={creating || !name.trim()}
+          className="inline-flex shrink-0 items-center justify-center gap-2 rounded-full bg-sky-600 px-4 py-2 text-sm font-semibold text-white shadow-sm transition hover:bg-sky-700 disabled:cursor-not-allowed disabled:opacity-60"
+        >
+          {creating ? (
+            <Loader2 className="h-4 w-4 animate-spin" />
+          ) : (
+            'Create project'
+          )}
+        </button>
+      </form>
+      {loading ? (
+        <div className="flex justify-center py-10">
+          <Loader2 className="h-6 w-6 animate-spin text-black/50 dark:text-white/50" />
+        </div>
+      ) : projects.length === 0 ? (
+        <p className="py-10 text-center text-sm text-black/70 dark:text-white/70">
+          No projects yet. Create one to group chats and share files and
+          instructions across them.
+        </p>
+      ) : (
+        <div className="grid grid-cols-1 gap-3 py-6 pb-20 md:grid-cols-2 lg:pb-6">
+          {projects.map((project) => (
+            <Link
+              key={project.id}
+              href={`/projects/${project.id}`}
+              className="flex flex-col gap-2 rounded-2xl border border-light-200/70 bg-light-primary p-4 transition hover:border-sky-500 dark:border-dark-200/70 dark:bg-dark-primary"
+            >
+              <p className="truncate text-lg font-medium text-black dark:text-white">
+                {project.name}
+              </p>
+              {project.description && (
+                <p className="line-clamp-2 text-sm text-black/70 dark:text-white/70">
+                  {project.description}
+                </p>
+              )}
+              <div className="flex flex-row items-center gap-4 text-xs text-black/60 dark:text-white/60">
+                <span className="flex items-center gap-1">
+                  <MessagesSquare size={14} />
+                  {project.chatCount}{' '}
+                  {project.chatCount === 1 ? 'chat' : 'chats'}
+                </span>
+                <span className="flex items-center gap-1">
+                  <Paperclip size={14} />
+                  {project.files.length}{' '}
+                  {project.files.length === 1 ? 'file' : 'files'}
+                </span>
+                <span>
+                  Updated {formatTimeDifference(new Date(), project.updatedAt)}{' '}
+                  ago
+                </span>
+              </div>
+            </Link>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default Page;
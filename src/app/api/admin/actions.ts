@@ -2,16 +2,20 @@
 
 import { headers } from 'next/headers';
 
+import { recordAuditEvent } from '@/lib/audit';
 import { auth, getSession } from '@/lib/auth/server';
 import { requireAdminPermission } from '@/lib/auth/permissions';
 import { getUser } from '@/lib/user/server';
+import { getExportBranding, saveExportBranding } from '@/lib/export/branding';
 import {
   DEFAULT_USER_ROLE,
   userRolesInfo,
 } from '@/lib/auth/roles';
 import {
+  UpdateExportBrandingSchema,
   UpdateUserBanStatusSchema,
   UpdateUserRoleSchema,
+  type UpdateExportBrandingActionState,
   type UpdateUserBanStatusActionState,
   type UpdateUserRoleActionState,
 } from './validations';
@@ -52,6 +56,7 @@ export async function updateUserRolesAction(
 
     const resolvedRole = role ?? DEFAULT_USER_ROLE;
     const requestHeaders = await headers();
+    const previousUser = await getUser(userId);
 
     await auth.api.setRole({
       body: { userId, role: resolvedRole },
@@ -65,6 +70,14 @@ export async function updateUserRolesAction(
 
     const user = await getUser(userId);
 
+    await recordAuditEvent({
+      action: 'user.role_updated',
+      target: { type: 'user', id: userId },
+      actorId: session.user.id,
+      before: { role: previousUser?.role ?? null },
+      after: { role: resolvedRole },
+    });
+
     return {
       success: true,
       message: `Role updated to ${userRolesInfo[resolvedRole].label}.`,
@@ -115,6 +128,8 @@ export async function updateUserBanStatusAction(
   try {
     await requireAdminPermission('update user status');
 
+    const previousUser = await getUser(userId);
+
     const requestHeaders = await headers();
 
     if (banned) {
@@ -139,6 +154,20 @@ export async function updateUserBanStatusAction(
 
     const user = await getUser(userId);
 
+    await recordAuditEvent({
+      action: banned ? 'user.unbanned' : 'user.banned',
+      target: { type: 'user', id: userId },
+      actorId: session.user.id,
+      before: {
+        banned: previousUser?.banned ?? banned,
+        banReason: previousUser?.banReason ?? null,
+      },
+      after: {
+        banned: user?.banned ?? !banned,
+        banReason: user?.banReason ?? null,
+      },
+    });
+
     return {
       success: true,
       message: banned
@@ -154,3 +183,55 @@ export async function updateUserBanStatusAction(
     };
   }
 }
+
+export async function updateExportBrandingAction(
+  _prevState: UpdateExportBrandingActionState | undefined,
+  formData: FormData,
+): Promise<UpdateExportBrandingActionState> {
+  const parsed = UpdateExportBrandingSchema.safeParse(
+    Object.fromEntries(formData),
+  );
+
+  if (!parsed.success) {
+    return {
+      success: false,
+      message: parsed.error.issues[0]?.message ?? 'Invalid branding settings',
+    };
+  }
+
+  const session = await getSession();
+
+  if (!session?.user) {
+    return {
+      success: false,
+      message: 'User is not authenticated',
+    };
+  }
+
+  try {
+    await requireAdminPermission('update export branding');
+
+    const previousBranding = await getExportBranding();
+    await saveExportBranding(parsed.data, session.user.id);
+
+    await recordAuditEvent({
+      action: 'branding.updated',
+      target: { type: 'branding' },
+      actorId: session.user.id,
+      before: previousBranding,
+      after: parsed.data,
+    });
+
+    return {
+      success: true,
+      message: 'Export branding saved.',
+      branding: parsed.data,
+    };
+  } catch (error) {
+    console.error('Failed to update export branding', error);
+    return {
+      success: false,
+      message: 'Failed to update export branding',
+    };
+  }
+}
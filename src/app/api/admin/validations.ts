@@ -2,6 +2,7 @@ import { z } from 'zod';
 
 import { USER_ROLES, type UserRole } from '@/lib/auth/roles';
 import type { UserActionState } from '@/app/api/user/validations';
+import type { ExportBranding } from '@/types/export';
 
 const ROLE_VALUES = Object.values(USER_ROLES) as [UserRole, ...UserRole[]];
 
@@ -20,3 +21,28 @@ export const UpdateUserBanStatusSchema = z.object({
 
 export type UpdateUserRoleActionState = UserActionState;
 export type UpdateUserBanStatusActionState = UserActionState;
+
+const LOGO_URL_PATTERN = /^(https?:\/\/|data:image\/(png|jpe?g);base64,)/i;
+
+export const UpdateExportBrandingSchema = z.object({
+  firmName: z.string().trim().min(1, 'Firm name is required').max(120),
+  logoUrl: z
+    .string()
+    .trim()
+    .max(1_500_000, 'Logo is too large')
+    .refine(
+      (value) => value === '' || LOGO_URL_PATTERN.test(value),
+      'Logo must be an http(s) URL or a PNG/JPEG data URL',
+    ),
+  headerText: z.string().trim().max(200),
+  footerText: z.string().trim().max(200),
+  disclaimer: z.string().trim().max(1000),
+  accentColor: z
+    .string()
+    .trim()
+    .regex(/^#[0-9a-f]{6}$/i, 'Accent colour must be a hex value like #24A0ED'),
+});
+
+export type UpdateExportBrandingActionState =
+  | { success: true; message?: string; branding: ExportBranding }
+  | { success: false; message: string };
@@ -3,15 +3,30 @@ import { AIMessage, BaseMessage, HumanMessage } from '@langchain/core/messages';
 import { EventEmitter } from 'stream';
 import db from '@/lib/db';
 import { messageRepository } from '@/lib/db/pg/repositories/message-repository';
+import { uploadedFileRepository } from '@/lib/db/pg/repositories/uploaded-file-repository';
 import { chats, messages as messagesSchema } from '@/lib/db/schema';
-import { and, eq, gt } from 'drizzle-orm';
+import { and, eq } from 'drizzle-orm';
 import { getFileDetails } from '@/lib/utils/files';
 import { searchHandlers } from '@/lib/search';
 import { z } from 'zod';
 import ModelRegistry from '@/lib/models/registry';
 import { ModelWithProvider } from '@/lib/models/types';
 import { getSessionFromRequest } from '@/lib/auth/session';
-import { getEntitlementForSession } from '@/lib/entitlements';
+import {
+  entitlementError,
+  getEbmValidationPeriodStart,
+  getEntitlementForSession,
+  isChatModelAllowed,
+  isFocusModeAllowed,
+} from '@/lib/entitlements';
+import { ebmValidationRepository } from '@/lib/db/pg/repositories/ebm-validation-repository';
+import { canUseMcpTools } from '@/lib/auth/client-permissions';
+import { loadMcpToolset, type McpToolset } from '@/lib/mcp/tools';
+import type { McpToolCall } from '@/lib/types/mcp';
+import {
+  mergeSystemInstructions,
+  resolveChatProject,
+} from '@/lib/projects/server';
 import logger from '@/lib/logger';
 
 type ChatRecord = typeof chats.$inferSelect;
@@ -35,6 +50,8 @@ const messageSchema = z.object({
   messageId: z.string().min(1, 'Message ID is required'),
   chatId: z.string().min(1, 'Chat ID is required'),
   content: z.string().min(1, 'Message content is required'),
+  // The answer this question follows; omitted for the first question.
+  parentMessageId: z.string().min(1).nullable().optional(),
 });
 
 const chatModelSchema: z.ZodType<ModelWithProvider> = z.object({
@@ -82,9 +99,11 @@ const bodySchema = z.object({
     .optional()
     .default([]),
   files: z.array(z.string()).optional().default([]),
+  pageNumbers: z.array(z.number().int().positive()).optional(),
   chatModel: chatModelSchema,
   embeddingModel: embeddingModelSchema,
   systemInstructions: z.string().nullable().optional().default(''),
+  projectId: z.string().uuid().nullable().optional(),
 });
 
 type Message = z.infer<typeof messageSchema>;
@@ -114,12 +133,14 @@ const handleEmitterEvents = async (
   writer: WritableStreamDefaultWriter,
   encoder: TextEncoder,
   chatId: string,
+  humanMessageId: string,
 ) => {
   let receivedMessage = '';
   const aiMessageId = crypto.randomBytes(7).toString('hex');
   let hasAssistantResponse = false;
   let encounteredError = false;
   let writerClosed = false;
+  const toolCalls: McpToolCall[] = [];
 
   const writeEvent = (payload: Record<string, unknown>) => {
     if (writerClosed) {
@@ -159,43 +180,73 @@ const handleEmitterEvents = async (
         .values({
           chatId: chatId,
           messageId: sourceMessageId,
+          parentMessageId: aiMessageId,
           role: 'source',
           sources: parsedData.data,
           createdAt: new Date(),
         })
         .execute();
+    } else if (parsedData.type === 'progress') {
+      writeEvent({
+        type: 'progress',
+        data: parsedData.data,
+        messageId: aiMessageId,
+      });
+    } else if (
+      parsedData.type === 'toolCall' ||
+      parsedData.type === 'toolResult'
+    ) {
+      writeEvent({
+        type: parsedData.type,
+        data: parsedData.data,
+        messageId: aiMessageId,
+      });
+
+      if (parsedData.type === 'toolResult') {
+        toolCalls.push(parsedData.data);
+      }
     } else if (parsedData.type === 'error') {
       encounteredError = true;
       writeEvent({
         type: 'error',
         data: parsedData.data,
+        ...(parsedData.code ? { code: parsedData.code } : {}),
       });
       closeWriter();
     }
   });
-  stream.on('end', () => {
+  stream.on('end', async () => {
     if (encounteredError) {
       closeWriter();
       return;
     }
 
+    // Saved before the client hears the answer ended, so a follow-up that
+    // names this answer as its parent can find it.
+    if (hasAssistantResponse && receivedMessage.trim().length > 0) {
+      try {
+        await db
+          .insert(messagesSchema)
+          .values({
+            content: receivedMessage,
+            chatId: chatId,
+            messageId: aiMessageId,
+            parentMessageId: humanMessageId,
+            role: 'assistant',
+            toolCalls,
+            createdAt: new Date(),
+          })
+          .execute();
+      } catch (error) {
+        chatLogger.error('Failed to save assistant message.', error);
+      }
+    }
+
     writeEvent({
       type: 'messageEnd',
       messageId: aiMessageId,
     });
     closeWriter();
-
-    if (hasAssistantResponse && receivedMessage.trim().length > 0) {
-      db.insert(messagesSchema)
-        .values({
-          content: receivedMessage,
-          chatId: chatId,
-          messageId: aiMessageId,
-          role: 'assistant',
-          createdAt: new Date(),
-        })
-        .execute();
-    }
   });
   stream.on('error', (data) => {
     encounteredError = true;
@@ -222,6 +273,7 @@ const handleHistorySave = async (
   focusMode: string,
   files: string[],
   userId: string,
+  projectId: string | null,
 ) => {
   const fileData = files.length
     ? await Promise.all(files.map((fileId) => getFileDetails(fileId)))
@@ -237,6 +289,7 @@ const handleHistorySave = async (
         focusMode: focusMode,
         files: fileData,
         userId,
+        projectId,
       })
       .execute();
   } else if (JSON.stringify(existingChat.files ?? []) != JSON.stringify(fileData)) {
@@ -247,6 +300,8 @@ const handleHistorySave = async (
       .where(and(eq(chats.id, message.chatId), eq(chats.userId, userId)));
   }
 
+  await uploadedFileRepository.attachToChat(files, userId, message.chatId);
+
   const messageExists = await db.query.messages.findFirst({
     where: and(
       eq(messagesSchema.messageId, humanMessageId),
@@ -254,6 +309,8 @@ const handleHistorySave = async (
     ),
   });
 
+  // Regenerating an answer reuses the question; the new answer becomes a
+  // sibling of the earlier ones instead of replacing them.
   if (!messageExists) {
     await db
       .insert(messagesSchema)
@@ -261,20 +318,11 @@ const handleHistorySave = async (
         content: message.content,
         chatId: message.chatId,
         messageId: humanMessageId,
+        parentMessageId: message.parentMessageId ?? null,
         role: 'user',
         createdAt: new Date(),
       })
       .execute();
-  } else {
-    await db
-      .delete(messagesSchema)
-      .where(
-        and(
-          gt(messagesSchema.id, messageExists.id),
-          eq(messagesSchema.chatId, message.chatId),
-        ),
-      )
-      .execute();
   }
 };
 
@@ -291,7 +339,7 @@ export const POST = async (req: Request) => {
     }
 
     const userId = session.user.id;
-    const { entitlement } = getEntitlementForSession(session);
+    const { tier, entitlement } = await getEntitlementForSession(session);
 
     if (entitlement.maxMessagesPerDay !== null && userId) {
       const since = new Date(
@@ -320,6 +368,60 @@ export const POST = async (req: Request) => {
     const body = parseBody.data as Body;
     const { message } = body;
 
+    if (!isFocusModeAllowed(entitlement, body.focusMode)) {
+      return Response.json(
+        entitlementError(
+          'focus_mode_not_allowed',
+          tier,
+          'This focus mode is not available on your plan.',
+        ),
+        { status: 403 },
+      );
+    }
+
+    if (!isChatModelAllowed(entitlement, body.chatModel.key)) {
+      return Response.json(
+        entitlementError(
+          'model_not_allowed',
+          tier,
+          'This model is not available on your plan. Choose another model to continue.',
+        ),
+        { status: 403 },
+      );
+    }
+
+    if (body.optimizationMode === 'quality' && !entitlement.allowQualityMode) {
+      return Response.json(
+        entitlementError(
+          'quality_mode_not_allowed',
+          tier,
+          'Quality mode is not available on your plan. Switch to Speed or Balanced.',
+        ),
+        { status: 403 },
+      );
+    }
+
+    if (
+      body.focusMode === 'ebmValidator' &&
+      entitlement.maxEbmValidationsPerMonth !== null
+    ) {
+      const validationsThisMonth = await ebmValidationRepository.countSince(
+        userId,
+        getEbmValidationPeriodStart(),
+      );
+
+      if (validationsThisMonth >= entitlement.maxEbmValidationsPerMonth) {
+        return Response.json(
+          entitlementError(
+            'ebm_validation_limit_reached',
+            tier,
+            'You have used all EBM validations included in your plan this month.',
+          ),
+          { status: 429 },
+        );
+      }
+    }
+
     const existingChat = await db.query.chats.findFirst({
       where: eq(chats.id, message.chatId),
     });
@@ -337,6 +439,26 @@ export const POST = async (req: Request) => {
       );
     }
 
+    // A parent outside this chat would be saved but never reached when the
+    // active branch is resolved, so the question would silently disappear.
+    if (message.parentMessageId) {
+      const parentMessage = existingChat
+        ? await db.query.messages.findFirst({
+            where: and(
+              eq(messagesSchema.messageId, message.parentMessageId),
+              eq(messagesSchema.chatId, message.chatId),
+            ),
+          })
+        : undefined;
+
+      if (!parentMessage) {
+        return Response.json(
+          { message: 'Parent message not found in this chat' },
+          { status: 400 },
+        );
+      }
+    }
+
     const registry = new ModelRegistry();
 
     chatLogger.debug('Loading models with providers.', {
@@ -348,10 +470,15 @@ export const POST = async (req: Request) => {
 
     const modelLoadStart = Date.now();
     const [llm, embedding] = await Promise.all([
-      registry.loadChatModel(body.chatModel.providerId, body.chatModel.key),
+      registry.loadChatModel(body.chatModel.providerId, body.chatModel.key, {
+        feature: 'chat',
+        userId,
+        chatId: message.chatId,
+      }),
       registry.loadEmbeddingModel(
         body.embeddingModel.providerId,
         body.embeddingModel.key,
+        { feature: 'chat', userId, chatId: message.chatId },
       ),
     ]);
     chatLogger.info('Models loaded', { durationMs: Date.now() - modelLoadStart });
@@ -371,6 +498,26 @@ export const POST = async (req: Request) => {
       }
     });
 
+    const project = await resolveChatProject({
+      userId,
+      chatProjectId: existingChat?.projectId ?? null,
+      requestedProjectId: body.projectId ?? null,
+      isNewChat: !existingChat,
+    });
+
+    if (!existingChat && body.projectId && !project) {
+      return Response.json({ message: 'Project not found' }, { status: 404 });
+    }
+
+    // Project files are available to every chat in the project without being
+    // attached to the chat itself.
+    const fileIds = Array.from(
+      new Set([
+        ...body.files,
+        ...(project?.files.map((file) => file.fileId) ?? []),
+      ]),
+    );
+
     const handler = searchHandlers[body.focusMode];
 
     if (!handler) {
@@ -382,6 +529,15 @@ export const POST = async (req: Request) => {
       );
     }
 
+    let toolset: McpToolset | undefined;
+    if (canUseMcpTools(session.user.role)) {
+      try {
+        toolset = await loadMcpToolset(userId);
+      } catch (err) {
+        chatLogger.warn('Failed to load MCP tools, continuing without them.', err);
+      }
+    }
+
     const searchStartTime = Date.now();
     chatLogger.info('Starting search and answer', { 
       focusMode: body.focusMode,
@@ -395,15 +551,28 @@ export const POST = async (req: Request) => {
       llm,
       embedding,
       body.optimizationMode,
-      body.files,
-      body.systemInstructions as string,
+      fileIds,
+      mergeSystemInstructions(project, body.systemInstructions ?? ''),
+      {
+        userId,
+        chatId: message.chatId,
+        toolset,
+        entitlement,
+        pageNumbers: body.pageNumbers,
+      },
     );
 
     const responseStream = new TransformStream();
     const writer = responseStream.writable.getWriter();
     const encoder = new TextEncoder();
 
-    handleEmitterEvents(stream, writer, encoder, message.chatId);
+    handleEmitterEvents(
+      stream,
+      writer,
+      encoder,
+      message.chatId,
+      humanMessageId,
+    );
     handleHistorySave(
       existingChat,
       message,
@@ -411,6 +580,7 @@ export const POST = async (req: Request) => {
       body.focusMode,
       body.files,
       userId,
+      project?.id ?? null,
     );
 
     return new Response(responseStream.readable, {
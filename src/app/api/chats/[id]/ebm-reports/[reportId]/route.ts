@@ -0,0 +1,102 @@
+import db from '@/lib/db';
+import { chats, messages } from '@/lib/db/schema';
+import { and, eq, sql } from 'drizzle-orm';
+import { getSessionFromRequest } from '@/lib/auth/session';
+import {
+  EBM_REPORT_FORMATS,
+  loadBatchReport,
+  renderBatchReportCsv,
+  renderBatchReportXlsx,
+  type EbmReportFormat,
+} from '@/lib/ebm';
+import { FileNotFoundError } from '@/lib/storage/file-storage/errors';
+import logger from '@/lib/logger';
+
+export const runtime = 'nodejs';
+
+const reportsLogger = logger.withDefaults({ tag: 'api:ebm-reports' });
+
+const XLSX_CONTENT_TYPE =
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+
+export const GET = async (
+  req: Request,
+  { params }: { params: Promise<{ id: string; reportId: string }> },
+) => {
+  try {
+    const session = await getSessionFromRequest(req);
+
+    if (!session) {
+      return Response.json({ message: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id, reportId } = await params;
+    const format = (new URL(req.url).searchParams.get('format') ??
+      'csv') as EbmReportFormat;
+
+    if (!EBM_REPORT_FORMATS.includes(format)) {
+      return Response.json(
+        { message: `Format must be one of: ${EBM_REPORT_FORMATS.join(', ')}` },
+        { status: 400 },
+      );
+    }
+
+    const chatExists = await db.query.chats.findFirst({
+      where: and(eq(chats.id, id), eq(chats.userId, session.user.id)),
+    });
+
+    if (!chatExists) {
+      return Response.json({ message: 'Chat not found' }, { status: 404 });
+    }
+
+    // Reports are attached to a chat through the source message that
+    // announced them, so a report ID only resolves within its own chat.
+    const sourceMessage = await db.query.messages.findFirst({
+      where: and(
+        eq(messages.chatId, id),
+        eq(messages.role, 'source'),
+        sql`${messages.sources} @> ${JSON.stringify([{ metadata: { reportId } }])}::jsonb`,
+      ),
+    });
+
+    if (!sourceMessage) {
+      return Response.json({ message: 'Report not found' }, { status: 404 });
+    }
+
+    const report = await loadBatchReport(reportId);
+    const fileName = `ebm-reconciliation-${reportId}`;
+
+    if (format === 'json') {
+      return Response.json(report, {
+        headers: {
+          'Content-Disposition': `attachment; filename="${fileName}.json"`,
+        },
+      });
+    }
+
+    if (format === 'xlsx') {
+      return new Response(new Uint8Array(renderBatchReportXlsx(report)), {
+        headers: {
+          'Content-Type': XLSX_CONTENT_TYPE,
+          'Content-Disposition': `attachment; filename="${fileName}.xlsx"`,
+        },
+      });
+    }
+
+    return new Response(renderBatchReportCsv(report), {
+      headers: {
+        'Content-Type': 'text/csv; charset=utf-8',
+        'Content-Disposition': `attachment; filename="${fileName}.csv"`,
+      },
+    });
+  } catch (err) {
+    if (err instanceof FileNotFoundError) {
+      return Response.json({ message: 'Report not found' }, { status: 404 });
+    }
+    reportsLogger.error('Failed to export EBM report.', err);
+    return Response.json(
+      { message: 'An error has occurred.' },
+      { status: 500 },
+    );
+  }
+};
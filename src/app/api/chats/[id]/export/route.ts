@@ -0,0 +1,87 @@
+import db from '@/lib/db';
+import { chats, messages } from '@/lib/db/schema';
+import { and, asc, eq } from 'drizzle-orm';
+import { getSessionFromRequest } from '@/lib/auth/session';
+import {
+  CHAT_EXPORT_FORMATS,
+  buildChatExportDocument,
+  getExportBranding,
+  renderChatExport,
+} from '@/lib/export';
+import logger from '@/lib/logger';
+import { resolveActiveBranch } from '@/lib/utils/branches';
+import type { ChatExportFormat } from '@/types/export';
+
+export const runtime = 'nodejs';
+
+const exportLogger = logger.withDefaults({ tag: 'api:chat-export' });
+
+const toFileName = (title: string) =>
+  title
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 60) || 'chat';
+
+export const GET = async (
+  req: Request,
+  { params }: { params: Promise<{ id: string }> },
+) => {
+  try {
+    const session = await getSessionFromRequest(req);
+
+    if (!session) {
+      return Response.json({ message: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const format = (new URL(req.url).searchParams.get('format') ??
+      'pdf') as ChatExportFormat;
+
+    if (!CHAT_EXPORT_FORMATS.includes(format)) {
+      return Response.json(
+        { message: `Format must be one of: ${CHAT_EXPORT_FORMATS.join(', ')}` },
+        { status: 400 },
+      );
+    }
+
+    const chat = await db.query.chats.findFirst({
+      where: and(eq(chats.id, id), eq(chats.userId, session.user.id)),
+    });
+
+    if (!chat) {
+      return Response.json({ message: 'Chat not found' }, { status: 404 });
+    }
+
+    const chatMessages = await db.query.messages.findMany({
+      where: eq(messages.chatId, id),
+      orderBy: asc(messages.id),
+    });
+
+    const document = buildChatExportDocument({
+      title: chat.title,
+      createdAt: chat.createdAt,
+      messages: resolveActiveBranch(chatMessages),
+      branding: await getExportBranding(),
+    });
+
+    const rendered = await renderChatExport(document, format);
+    const body =
+      typeof rendered.body === 'string'
+        ? rendered.body
+        : new Uint8Array(rendered.body);
+
+    return new Response(body, {
+      headers: {
+        'Content-Type': rendered.contentType,
+        'Content-Disposition': `attachment; filename="${toFileName(chat.title)}.${rendered.extension}"`,
+      },
+    });
+  } catch (err) {
+    exportLogger.error('Failed to export chat.', err);
+    return Response.json(
+      { message: 'An error has occurred.' },
+      { status: 500 },
+    );
+  }
+};
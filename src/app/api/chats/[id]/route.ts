@@ -1,7 +1,11 @@
+import { z } from 'zod';
 import db from '@/lib/db';
 import { chats, messages } from '@/lib/db/schema';
-import { and, eq } from 'drizzle-orm';
+import { and, asc, eq } from 'drizzle-orm';
+import { chatRepository } from '@/lib/db/pg/repositories/chat-repository';
+import { projectRepository } from '@/lib/db/pg/repositories/project-repository';
 import { getSessionFromRequest } from '@/lib/auth/session';
+import { deleteChatUploadedFiles } from '@/lib/uploads/server';
 import logger from '@/lib/logger';
 
 const chatsLogger = logger.withDefaults({ tag: 'api:chats' });
@@ -27,8 +31,10 @@ export const GET = async (
       return Response.json({ message: 'Chat not found' }, { status: 404 });
     }
 
+    // Every version of every message; the client picks the branch to show.
     const chatMessages = await db.query.messages.findMany({
       where: eq(messages.chatId, id),
+      orderBy: asc(messages.id),
     });
 
     return Response.json(
@@ -47,6 +53,62 @@ export const GET = async (
   }
 };
 
+const updateChatSchema = z.object({
+  projectId: z.string().uuid().nullable(),
+});
+
+export const PATCH = async (
+  req: Request,
+  { params }: { params: Promise<{ id: string }> },
+) => {
+  try {
+    const session = await getSessionFromRequest(req);
+
+    if (!session) {
+      return Response.json({ message: 'Unauthorized' }, { status: 401 });
+    }
+
+    const parsed = updateChatSchema.safeParse(
+      await req.json().catch(() => ({})),
+    );
+
+    if (!parsed.success) {
+      return Response.json(
+        {
+          message: 'Invalid request body',
+          error: parsed.error.errors.map((e) => ({
+            path: e.path.join('.'),
+            message: e.message,
+          })),
+        },
+        { status: 400 },
+      );
+    }
+
+    const { id } = await params;
+    const { projectId } = parsed.data;
+
+    if (
+      projectId &&
+      !(await projectRepository.findById(projectId, session.user.id))
+    ) {
+      return Response.json({ message: 'Project not found' }, { status: 404 });
+    }
+
+    if (!(await chatRepository.setProject(id, session.user.id, projectId))) {
+      return Response.json({ message: 'Chat not found' }, { status: 404 });
+    }
+
+    return Response.json({ chat: { id, projectId } }, { status: 200 });
+  } catch (err) {
+    chatsLogger.error('Failed to update chat.', err);
+    return Response.json(
+      { message: 'An error has occurred.' },
+      { status: 500 },
+    );
+  }
+};
+
 export const DELETE = async (
   req: Request,
   { params }: { params: Promise<{ id: string }> },
@@ -68,6 +130,7 @@ export const DELETE = async (
       return Response.json({ message: 'Chat not found' }, { status: 404 });
     }
 
+    await deleteChatUploadedFiles(id);
     await db
       .delete(chats)
       .where(and(eq(chats.id, id), eq(chats.userId, session.user.id)))
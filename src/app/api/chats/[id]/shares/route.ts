@@ -0,0 +1,120 @@
+import { z } from 'zod';
+import { addDays } from 'date-fns';
+import { and, eq } from 'drizzle-orm';
+import db from '@/lib/db';
+import { chats } from '@/lib/db/schema';
+import { chatShareRepository } from '@/lib/db/pg/repositories/chat-share-repository';
+import { getSessionFromRequest } from '@/lib/auth/session';
+import { canShareChats } from '@/lib/auth/client-permissions';
+import logger from '@/lib/logger';
+
+export const runtime = 'nodejs';
+
+const sharesLogger = logger.withDefaults({ tag: 'api:chat-shares' });
+
+const MAX_EXPIRY_DAYS = 365;
+
+const bodySchema = z.object({
+  expiresInDays: z
+    .number()
+    .int()
+    .positive()
+    .max(
+      MAX_EXPIRY_DAYS,
+      `Links can expire after at most ${MAX_EXPIRY_DAYS} days`,
+    )
+    .nullable()
+    .optional(),
+});
+
+const findOwnedChat = (id: string, userId: string) =>
+  db.query.chats.findFirst({
+    where: and(eq(chats.id, id), eq(chats.userId, userId)),
+  });
+
+export const GET = async (
+  req: Request,
+  { params }: { params: Promise<{ id: string }> },
+) => {
+  try {
+    const session = await getSessionFromRequest(req);
+
+    if (!session) {
+      return Response.json({ message: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+
+    if (!(await findOwnedChat(id, session.user.id))) {
+      return Response.json({ message: 'Chat not found' }, { status: 404 });
+    }
+
+    const shares = await chatShareRepository.listByUser(session.user.id, id);
+
+    return Response.json({ shares }, { status: 200 });
+  } catch (err) {
+    sharesLogger.error('Failed to list chat shares.', err);
+    return Response.json(
+      { message: 'An error has occurred.' },
+      { status: 500 },
+    );
+  }
+};
+
+export const POST = async (
+  req: Request,
+  { params }: { params: Promise<{ id: string }> },
+) => {
+  try {
+    const session = await getSessionFromRequest(req);
+
+    if (!session) {
+      return Response.json({ message: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!canShareChats(session.user.role)) {
+      return Response.json(
+        { message: 'You do not have permission to share chats' },
+        { status: 403 },
+      );
+    }
+
+    const parsed = bodySchema.safeParse(await req.json().catch(() => ({})));
+
+    if (!parsed.success) {
+      return Response.json(
+        {
+          message: 'Invalid request body',
+          error: parsed.error.errors.map((e) => ({
+            path: e.path.join('.'),
+            message: e.message,
+          })),
+        },
+        { status: 400 },
+      );
+    }
+
+    const { id } = await params;
+    const chat = await findOwnedChat(id, session.user.id);
+
+    if (!chat) {
+      return Response.json({ message: 'Chat not found' }, { status: 404 });
+    }
+
+    const { expiresInDays } = parsed.data;
+    const share = await chatShareRepository.create({
+      chatId: chat.id,
+      chatTitle: chat.title,
+      userId: session.user.id,
+      expiresAt: expiresInDays ? addDays(new Date(), expiresInDays) : null,
+    });
+
+    return Response.json({ share }, { status: 201 });
+  } catch (err) {
+    sharesLogger.error('Failed to create chat share.', err);
+    return Response.json(
+      { message: 'An error has occurred.' },
+      { status: 500 },
+    );
+  }
+};
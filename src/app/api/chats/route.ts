@@ -1,11 +1,34 @@
-import db from '@/lib/db';
-import { chats } from '@/lib/db/schema';
-import { eq, desc } from 'drizzle-orm';
+import { z } from 'zod';
+import { addDays } from 'date-fns';
+import {
+  chatRepository,
+  decodeChatCursor,
+} from '@/lib/db/pg/repositories/chat-repository';
 import { getSessionFromRequest } from '@/lib/auth/session';
 import logger from '@/lib/logger';
 
+export const runtime = 'nodejs';
+
 const chatsLogger = logger.withDefaults({ tag: 'api:chats' });
 
+const DEFAULT_PAGE_SIZE = 30;
+const MAX_PAGE_SIZE = 100;
+
+const querySchema = z.object({
+  q: z.string().trim().max(200).optional(),
+  focusMode: z.string().trim().min(1).optional(),
+  projectId: z.string().uuid().optional(),
+  from: z.string().date('from must be a YYYY-MM-DD date').optional(),
+  to: z.string().date('to must be a YYYY-MM-DD date').optional(),
+  cursor: z.string().min(1).optional(),
+  limit: z.coerce
+    .number()
+    .int()
+    .positive()
+    .max(MAX_PAGE_SIZE)
+    .default(DEFAULT_PAGE_SIZE),
+});
+
 export const GET = async (req: Request) => {
   try {
     const session = await getSessionFromRequest(req);
@@ -14,12 +37,46 @@ export const GET = async (req: Request) => {
       return Response.json({ message: 'Unauthorized' }, { status: 401 });
     }
 
-    const userChats = await db.query.chats.findMany({
-      where: eq(chats.userId, session.user.id),
-      orderBy: desc(chats.createdAt),
+    const { searchParams } = new URL(req.url);
+    const parsed = querySchema.safeParse(
+      Object.fromEntries(
+        Array.from(searchParams.entries()).filter(([, value]) => value !== ''),
+      ),
+    );
+
+    if (!parsed.success) {
+      return Response.json(
+        {
+          message: 'Invalid query parameters',
+          error: parsed.error.errors.map((e) => ({
+            path: e.path.join('.'),
+            message: e.message,
+          })),
+        },
+        { status: 400 },
+      );
+    }
+
+    const { q, focusMode, projectId, from, to, cursor, limit } = parsed.data;
+    const decodedCursor = cursor ? decodeChatCursor(cursor) : null;
+
+    if (cursor && !decodedCursor) {
+      return Response.json({ message: 'Invalid cursor' }, { status: 400 });
+    }
+
+    const page = await chatRepository.search({
+      userId: session.user.id,
+      query: q || undefined,
+      focusMode,
+      projectId,
+      from: from ? new Date(`${from}T00:00:00.000Z`) : undefined,
+      // The end date is inclusive, so match everything before the next day.
+      to: to ? addDays(new Date(`${to}T00:00:00.000Z`), 1) : undefined,
+      cursor: decodedCursor,
+      limit,
     });
 
-    return Response.json({ chats: userChats }, { status: 200 });
+    return Response.json(page, { status: 200 });
   } catch (err) {
     chatsLogger.error('Failed to fetch chats.', err);
     return Response.json(
@@ -3,6 +3,7 @@ import ModelRegistry from '@/lib/models/registry';
 import { NextRequest, NextResponse } from 'next/server';
 import { ConfigModelProvider } from '@/lib/config/types';
 import { getSessionFromRequest } from '@/lib/auth/session';
+import { recordAuditEvent } from '@/lib/audit';
 import { isEditorRole } from '@/lib/auth/roles';
 import logger from '@/lib/logger';
 
@@ -25,6 +26,7 @@ export const GET = async (req: NextRequest) => {
       return NextResponse.json({ message: 'Forbidden' }, { status: 403 });
     }
 
+    await configManager.loadModelProviders();
     const values = configManager.getCurrentConfig();
     const fields = configManager.getUIConfigSections();
 
@@ -82,8 +84,20 @@ export const POST = async (req: NextRequest) => {
       );
     }
 
+    // Keyed by the setting's own name so secret-looking fields are redacted.
+    const field = body.key.split('.').pop()!;
+    const previousValue = configManager.getConfig(body.key) ?? null;
+
     configManager.updateConfig(body.key, body.value);
 
+    await recordAuditEvent({
+      action: 'config.updated',
+      target: { type: 'config', id: body.key },
+      actorId: session.user.id,
+      before: { [field]: previousValue },
+      after: { [field]: body.value },
+    });
+
     return Response.json(
       {
         message: 'Config updated successfully.',
@@ -18,7 +18,7 @@ export const POST = async (req: NextRequest) => {
       return Response.json({ message: 'Forbidden' }, { status: 403 });
     }
 
-    configManager.markSetupComplete();
+    await configManager.markSetupComplete();
 
     return Response.json(
       {
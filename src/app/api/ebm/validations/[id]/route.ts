@@ -0,0 +1,50 @@
+import { z } from 'zod';
+import { getSessionFromRequest } from '@/lib/auth/session';
+import { ebmValidationRepository } from '@/lib/db/pg/repositories/ebm-validation-repository';
+import logger from '@/lib/logger';
+
+export const runtime = 'nodejs';
+
+const validationsLogger = logger.withDefaults({ tag: 'api:ebm-validations' });
+
+export const GET = async (
+  req: Request,
+  { params }: { params: Promise<{ id: string }> },
+) => {
+  try {
+    const session = await getSessionFromRequest(req);
+
+    if (!session) {
+      return Response.json({ message: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+
+    if (!z.string().uuid().safeParse(id).success) {
+      return Response.json(
+        { message: 'Validation not found' },
+        { status: 404 },
+      );
+    }
+
+    const validation = await ebmValidationRepository.findById(
+      session.user.id,
+      id,
+    );
+
+    if (!validation) {
+      return Response.json(
+        { message: 'Validation not found' },
+        { status: 404 },
+      );
+    }
+
+    return Response.json({ validation }, { status: 200 });
+  } catch (err) {
+    validationsLogger.error('Failed to fetch EBM validation.', err);
+    return Response.json(
+      { message: 'An error has occurred.' },
+      { status: 500 },
+    );
+  }
+};
@@ -0,0 +1,65 @@
+import { z } from 'zod';
+import { getSessionFromRequest } from '@/lib/auth/session';
+import { ebmValidationRepository } from '@/lib/db/pg/repositories/ebm-validation-repository';
+import { normalizeTin } from '@/lib/ebm/normalizers';
+import logger from '@/lib/logger';
+
+export const runtime = 'nodejs';
+
+const validationsLogger = logger.withDefaults({ tag: 'api:ebm-validations' });
+
+const isoDate = z
+  .string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, 'Dates must use the yyyy-MM-dd format');
+
+const querySchema = z.object({
+  sellerTin: z.string().trim().min(1).transform(normalizeTin).optional(),
+  buyerTin: z.string().trim().min(1).transform(normalizeTin).optional(),
+  invoiceNumber: z.string().trim().min(1).optional(),
+  status: z.enum(['validated', 'issues', 'failed']).optional(),
+  chatId: z.string().min(1).optional(),
+  reportId: z.string().min(1).optional(),
+  issuedFrom: isoDate.optional(),
+  issuedTo: isoDate.optional(),
+  limit: z.coerce.number().int().positive().optional(),
+  offset: z.coerce.number().int().nonnegative().optional(),
+});
+
+export const GET = async (req: Request) => {
+  try {
+    const session = await getSessionFromRequest(req);
+
+    if (!session) {
+      return Response.json({ message: 'Unauthorized' }, { status: 401 });
+    }
+
+    const searchParams = new URL(req.url).searchParams;
+    const parsed = querySchema.safeParse(Object.fromEntries(searchParams));
+
+    if (!parsed.success) {
+      return Response.json(
+        {
+          message: 'Invalid query parameters',
+          error: parsed.error.errors.map((e) => ({
+            path: e.path.join('.'),
+            message: e.message,
+          })),
+        },
+        { status: 400 },
+      );
+    }
+
+    const result = await ebmValidationRepository.list(
+      session.user.id,
+      parsed.data,
+    );
+
+    return Response.json(result, { status: 200 });
+  } catch (err) {
+    validationsLogger.error('Failed to list EBM validations.', err);
+    return Response.json(
+      { message: 'An error has occurred.' },
+      { status: 500 },
+    );
+  }
+};
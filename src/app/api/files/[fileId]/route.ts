@@ -0,0 +1,37 @@
+import { getSessionFromRequest } from '@/lib/auth/session';
+import { deleteUploadedFileForUser } from '@/lib/uploads/server';
+import logger from '@/lib/logger';
+
+const filesLogger = logger.withDefaults({ tag: 'api:files' });
+
+export const DELETE = async (
+  req: Request,
+  { params }: { params: Promise<{ fileId: string }> },
+) => {
+  try {
+    const session = await getSessionFromRequest(req);
+
+    if (!session) {
+      return Response.json({ message: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { fileId } = await params;
+
+    const deleted = await deleteUploadedFileForUser(fileId, session.user.id);
+
+    if (!deleted) {
+      return Response.json({ message: 'File not found' }, { status: 404 });
+    }
+
+    return Response.json(
+      { message: 'File deleted successfully' },
+      { status: 200 },
+    );
+  } catch (err) {
+    filesLogger.error('Failed to delete uploaded file.', err);
+    return Response.json(
+      { message: 'An error has occurred.' },
+      { status: 500 },
+    );
+  }
+};
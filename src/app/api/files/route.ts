@@ -0,0 +1,25 @@
+import { getSessionFromRequest } from '@/lib/auth/session';
+import { uploadedFileRepository } from '@/lib/db/pg/repositories/uploaded-file-repository';
+import logger from '@/lib/logger';
+
+const filesLogger = logger.withDefaults({ tag: 'api:files' });
+
+export const GET = async (req: Request) => {
+  try {
+    const session = await getSessionFromRequest(req);
+
+    if (!session) {
+      return Response.json({ message: 'Unauthorized' }, { status: 401 });
+    }
+
+    const files = await uploadedFileRepository.listByUser(session.user.id);
+
+    return Response.json({ files }, { status: 200 });
+  } catch (err) {
+    filesLogger.error('Failed to list uploaded files.', err);
+    return Response.json(
+      { message: 'An error has occurred.' },
+      { status: 500 },
+    );
+  }
+};
@@ -0,0 +1,45 @@
+import crypto from 'crypto';
+import { sweepOrphanedUploads } from '@/lib/uploads/server';
+import logger from '@/lib/logger';
+
+const filesLogger = logger.withDefaults({ tag: 'api:files' });
+
+export const dynamic = 'force-dynamic';
+
+const isAuthorized = (req: Request) => {
+  const secret = process.env.CRON_SECRET;
+
+  if (!secret) {
+    return false;
+  }
+
+  const expected = Buffer.from(`Bearer ${secret}`);
+  const actual = Buffer.from(req.headers.get('authorization') ?? '');
+
+  return (
+    expected.length === actual.length &&
+    crypto.timingSafeEqual(expected, actual)
+  );
+};
+
+/**
+ * Entry point for external schedulers (e.g. Vercel Cron) on deployments
+ * where the in-process sweeper cannot run.
+ */
+export const GET = async (req: Request) => {
+  try {
+    if (!isAuthorized(req)) {
+      return Response.json({ message: 'Unauthorized' }, { status: 401 });
+    }
+
+    const result = await sweepOrphanedUploads();
+
+    return Response.json(result, { status: 200 });
+  } catch (err) {
+    filesLogger.error('Failed to sweep orphaned uploads.', err);
+    return Response.json(
+      { message: 'An error has occurred.' },
+      { status: 500 },
+    );
+  }
+};
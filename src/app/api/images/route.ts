@@ -41,6 +41,7 @@ export const POST = async (req: Request) => {
     const llm = await registry.loadChatModel(
       body.chatModel.providerId,
       body.chatModel.key,
+      { feature: 'images', userId: session.user.id },
     );
 
     const images = await handleImageSearch(
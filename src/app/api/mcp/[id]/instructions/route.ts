@@ -0,0 +1,122 @@
+import { z } from 'zod';
+import { getSessionFromRequest } from '@/lib/auth/session';
+import { mcpCustomizationRepository } from '@/lib/db/pg/repositories/mcp-customization-repository';
+import { mcpRepository } from '@/lib/db/pg/repositories/mcp-repository';
+import { canAccessMcpServer } from '@/lib/mcp/access';
+import logger from '@/lib/logger';
+import {
+  McpInstructionsSchema,
+  formatValidationError,
+} from '../../validations';
+
+export const runtime = 'nodejs';
+
+const mcpLogger = logger.withDefaults({ tag: 'api:mcp' });
+
+const findAccessibleServer = async (
+  id: string,
+  user: { id: string; role?: string | null },
+) => {
+  if (!z.string().uuid().safeParse(id).success) {
+    return null;
+  }
+
+  const server = await mcpRepository.selectById(id);
+  return server && canAccessMcpServer(server, user) ? server : null;
+};
+
+const serverNotFound = () =>
+  Response.json({ message: 'MCP server not found' }, { status: 404 });
+
+export const GET = async (
+  req: Request,
+  { params }: { params: Promise<{ id: string }> },
+) => {
+  try {
+    const session = await getSessionFromRequest(req);
+
+    if (!session) {
+      return Response.json({ message: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const server = await findAccessibleServer(id, session.user);
+
+    if (!server) {
+      return serverNotFound();
+    }
+
+    const instructions = await mcpCustomizationRepository.get(
+      session.user.id,
+      server.id,
+    );
+
+    return Response.json({ instructions }, { status: 200 });
+  } catch (err) {
+    mcpLogger.error('Failed to fetch MCP instructions.', err);
+    return Response.json(
+      { message: 'An error has occurred.' },
+      { status: 500 },
+    );
+  }
+};
+
+export const PUT = async (
+  req: Request,
+  { params }: { params: Promise<{ id: string }> },
+) => {
+  try {
+    const session = await getSessionFromRequest(req);
+
+    if (!session) {
+      return Response.json({ message: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const server = await findAccessibleServer(id, session.user);
+
+    if (!server) {
+      return serverNotFound();
+    }
+
+    const parsed = McpInstructionsSchema.safeParse(
+      await req.json().catch(() => ({})),
+    );
+
+    if (!parsed.success) {
+      return Response.json(
+        {
+          message: 'Invalid request body',
+          error: formatValidationError(parsed.error),
+        },
+        { status: 400 },
+      );
+    }
+
+    await Promise.all([
+      mcpCustomizationRepository.saveServerPrompt(
+        session.user.id,
+        server.id,
+        parsed.data.serverPrompt,
+      ),
+      mcpCustomizationRepository.replaceToolPrompts(
+        session.user.id,
+        server.id,
+        parsed.data.tools,
+      ),
+    ]);
+
+    const instructions = await mcpCustomizationRepository.get(
+      session.user.id,
+      server.id,
+    );
+
+    return Response.json({ instructions }, { status: 200 });
+  } catch (err) {
+    mcpLogger.error('Failed to save MCP instructions.', err);
+    return Response.json(
+      { message: 'An error has occurred.' },
+      { status: 500 },
+    );
+  }
+};
@@ -0,0 +1,49 @@
+import { z } from 'zod';
+import { getSessionFromRequest } from '@/lib/auth/session';
+import { mcpRepository } from '@/lib/db/pg/repositories/mcp-repository';
+import { canAccessMcpServer, toClientServerInfo } from '@/lib/mcp/access';
+import { mcpClientsManager } from '@/lib/mcp/manager';
+import logger from '@/lib/logger';
+
+export const runtime = 'nodejs';
+
+const mcpLogger = logger.withDefaults({ tag: 'api:mcp' });
+
+/** Reconnects to the server and reloads its tool list. */
+export const POST = async (
+  req: Request,
+  { params }: { params: Promise<{ id: string }> },
+) => {
+  try {
+    const session = await getSessionFromRequest(req);
+
+    if (!session) {
+      return Response.json({ message: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const server = z.string().uuid().safeParse(id).success
+      ? await mcpRepository.selectById(id)
+      : null;
+
+    if (!server || !canAccessMcpServer(server, session.user)) {
+      return Response.json(
+        { message: 'MCP server not found' },
+        { status: 404 },
+      );
+    }
+
+    const info = await mcpClientsManager.refresh(server);
+
+    return Response.json(
+      { server: toClientServerInfo(info, server, session.user) },
+      { status: 200 },
+    );
+  } catch (err) {
+    mcpLogger.error('Failed to refresh MCP server.', err);
+    return Response.json(
+      { message: 'An error has occurred.' },
+      { status: 500 },
+    );
+  }
+};
@@ -0,0 +1,159 @@
+import { z } from 'zod';
+import { getSessionFromRequest } from '@/lib/auth/session';
+import { isAdminRole } from '@/lib/auth/roles';
+import { mcpRepository } from '@/lib/db/pg/repositories/mcp-repository';
+import {
+  canAccessMcpServer,
+  canEditMcpServer,
+  toClientServerInfo,
+} from '@/lib/mcp/access';
+import { mcpClientsManager } from '@/lib/mcp/manager';
+import logger from '@/lib/logger';
+import { isMCPStdioConfig } from '@/lib/types/mcp';
+import { UpdateMcpServerSchema, formatValidationError } from '../validations';
+
+export const runtime = 'nodejs';
+
+const mcpLogger = logger.withDefaults({ tag: 'api:mcp' });
+
+const serverNotFound = () =>
+  Response.json({ message: 'MCP server not found' }, { status: 404 });
+
+const findServer = async (id: string) =>
+  z.string().uuid().safeParse(id).success ? mcpRepository.selectById(id) : null;
+
+export const GET = async (
+  req: Request,
+  { params }: { params: Promise<{ id: string }> },
+) => {
+  try {
+    const session = await getSessionFromRequest(req);
+
+    if (!session) {
+      return Response.json({ message: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const server = await findServer(id);
+
+    if (!server || !canAccessMcpServer(server, session.user)) {
+      return serverNotFound();
+    }
+
+    const info = await mcpClientsManager.getServerInfo(server);
+
+    return Response.json(
+      { server: toClientServerInfo(info, server, session.user) },
+      { status: 200 },
+    );
+  } catch (err) {
+    mcpLogger.error('Failed to fetch MCP server.', err);
+    return Response.json(
+      { message: 'An error has occurred.' },
+      { status: 500 },
+    );
+  }
+};
+
+export const PATCH = async (
+  req: Request,
+  { params }: { params: Promise<{ id: string }> },
+) => {
+  try {
+    const session = await getSessionFromRequest(req);
+
+    if (!session) {
+      return Response.json({ message: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const server = await findServer(id);
+
+    if (!server || !canAccessMcpServer(server, session.user)) {
+      return serverNotFound();
+    }
+
+    if (!canEditMcpServer(server, session.user)) {
+      return Response.json({ message: 'Forbidden' }, { status: 403 });
+    }
+
+    const parsed = UpdateMcpServerSchema.safeParse(
+      await req.json().catch(() => ({})),
+    );
+
+    if (!parsed.success) {
+      return Response.json(
+        {
+          message: 'Invalid request body',
+          error: formatValidationError(parsed.error),
+        },
+        { status: 400 },
+      );
+    }
+
+    if (
+      parsed.data.config &&
+      isMCPStdioConfig(parsed.data.config) &&
+      !isAdminRole(session.user.role)
+    ) {
+      return Response.json(
+        { message: 'Only administrators can add command-based MCP servers.' },
+        { status: 403 },
+      );
+    }
+
+    const updated = await mcpRepository.update(id, parsed.data);
+
+    if (!updated) {
+      return serverNotFound();
+    }
+
+    const info = await mcpClientsManager.getServerInfo(updated);
+
+    return Response.json(
+      { server: toClientServerInfo(info, updated, session.user) },
+      { status: 200 },
+    );
+  } catch (err) {
+    mcpLogger.error('Failed to update MCP server.', err);
+    return Response.json(
+      { message: 'An error has occurred.' },
+      { status: 500 },
+    );
+  }
+};
+
+export const DELETE = async (
+  req: Request,
+  { params }: { params: Promise<{ id: string }> },
+) => {
+  try {
+    const session = await getSessionFromRequest(req);
+
+    if (!session) {
+      return Response.json({ message: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const server = await findServer(id);
+
+    if (!server || !canAccessMcpServer(server, session.user)) {
+      return serverNotFound();
+    }
+
+    if (!canEditMcpServer(server, session.user)) {
+      return Response.json({ message: 'Forbidden' }, { status: 403 });
+    }
+
+    await mcpRepository.deleteById(id);
+    await mcpClientsManager.remove(id);
+
+    return Response.json({ message: 'MCP server deleted' }, { status: 200 });
+  } catch (err) {
+    mcpLogger.error('Failed to delete MCP server.', err);
+    return Response.json(
+      { message: 'An error has occurred.' },
+      { status: 500 },
+    );
+  }
+};
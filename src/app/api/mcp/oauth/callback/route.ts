@@ -0,0 +1,112 @@
+import { getSessionFromRequest } from '@/lib/auth/session';
+import { mcpOAuthRepository } from '@/lib/db/pg/repositories/mcp-oauth-repository';
+import { mcpRepository } from '@/lib/db/pg/repositories/mcp-repository';
+import { canEditMcpServer } from '@/lib/mcp/access';
+import { mcpClientsManager } from '@/lib/mcp/manager';
+import logger from '@/lib/logger';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+const oauthLogger = logger.withDefaults({ tag: 'api:mcp:oauth' });
+
+type CallbackResult = {
+  type: 'mcp-oauth';
+  serverId: string | null;
+  success: boolean;
+  message: string;
+};
+
+/**
+ * The authorization popup reports back to the settings UI that opened it and
+ * closes itself; opened directly, it returns to the app.
+ */
+const renderResult = (result: CallbackResult, status = 200) => {
+  const payload = JSON.stringify(result).replace(/</g, '\\u003c');
+  const html = `<!doctype html>
+<html>
+  <head><meta charset="utf-8"><title>MCP authorization</title></head>
+  <body style="font-family: sans-serif; padding: 2rem;">
+    <p id="message"></p>
+    <script>
+      const result = ${payload};
+      document.getElementById('message').textContent = result.message;
+      if (window.opener) {
+        window.opener.postMessage(result, window.location.origin);
+        window.close();
+      } else {
+        setTimeout(() => window.location.replace('/'), 1500);
+      }
+    </script>
+  </body>
+</html>`;
+
+  return new Response(html, {
+    status,
+    headers: {
+      'Content-Type': 'text/html; charset=utf-8',
+      'Cache-Control': 'no-store',
+    },
+  });
+};
+
+const failure = (message: string, status: number, serverId?: string) =>
+  renderResult(
+    { type: 'mcp-oauth', serverId: serverId ?? null, success: false, message },
+    status,
+  );
+
+export const GET = async (req: Request) => {
+  try {
+    const session = await getSessionFromRequest(req);
+
+    if (!session) {
+      return failure('You need to be signed in to authorize MCP servers.', 401);
+    }
+
+    const { searchParams } = new URL(req.url);
+    const code = searchParams.get('code');
+    const state = searchParams.get('state');
+    const providerError = searchParams.get('error');
+
+    if (!state) {
+      return failure('The authorization response is missing its state.', 400);
+    }
+
+    const oauthSession = await mcpOAuthRepository.selectByState(state);
+    const server = oauthSession
+      ? await mcpRepository.selectById(oauthSession.mcpServerId)
+      : null;
+
+    if (!server || !canEditMcpServer(server, session.user)) {
+      return failure('This authorization request is no longer valid.', 404);
+    }
+
+    if (providerError || !code) {
+      oauthLogger.warn('MCP authorization was declined.', {
+        serverId: server.id,
+        error: providerError,
+      });
+      return failure(
+        searchParams.get('error_description') ?? 'Authorization was declined.',
+        400,
+        server.id,
+      );
+    }
+
+    const info = await mcpClientsManager.finishAuthorization(server, code);
+
+    return renderResult({
+      type: 'mcp-oauth',
+      serverId: server.id,
+      success: info.status === 'connected',
+      message:
+        info.status === 'connected'
+          ? `${server.name} is connected. You can close this window.`
+          : `${server.name} was authorized but could not connect.`,
+    });
+  } catch (err) {
+    oauthLogger.error('Failed to complete MCP authorization.', err);
+    return failure('An error has occurred.', 500);
+  }
+};
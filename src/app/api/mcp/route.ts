@@ -0,0 +1,116 @@
+import { getSessionFromRequest } from '@/lib/auth/session';
+import { canManageMcpServers } from '@/lib/auth/client-permissions';
+import { isAdminRole } from '@/lib/auth/roles';
+import { mcpRepository } from '@/lib/db/pg/repositories/mcp-repository';
+import { toClientServerInfo } from '@/lib/mcp/access';
+import { mcpClientsManager } from '@/lib/mcp/manager';
+import logger from '@/lib/logger';
+import { isMCPStdioConfig } from '@/lib/types/mcp';
+import { CreateMcpServerSchema, formatValidationError } from './validations';
+
+export const runtime = 'nodejs';
+
+const mcpLogger = logger.withDefaults({ tag: 'api:mcp' });
+
+export const GET = async (req: Request) => {
+  try {
+    const session = await getSessionFromRequest(req);
+
+    if (!session) {
+      return Response.json({ message: 'Unauthorized' }, { status: 401 });
+    }
+
+    const servers = await mcpRepository.selectAccessibleByUser(session.user.id);
+
+    const infos = await Promise.all(
+      servers.map(async (server) =>
+        toClientServerInfo(
+          await mcpClientsManager.getServerInfo(server),
+          server,
+          session.user,
+        ),
+      ),
+    );
+
+    return Response.json(
+      {
+        servers: infos,
+        canCreate:
+          canManageMcpServers(session.user.role) &&
+          process.env.NOT_ALLOW_ADD_MCP_SERVERS !== '1',
+        canUseStdio: isAdminRole(session.user.role),
+      },
+      { status: 200 },
+    );
+  } catch (err) {
+    mcpLogger.error('Failed to list MCP servers.', err);
+    return Response.json(
+      { message: 'An error has occurred.' },
+      { status: 500 },
+    );
+  }
+};
+
+export const POST = async (req: Request) => {
+  try {
+    const session = await getSessionFromRequest(req);
+
+    if (!session) {
+      return Response.json({ message: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!canManageMcpServers(session.user.role)) {
+      return Response.json({ message: 'Forbidden' }, { status: 403 });
+    }
+
+    if (process.env.NOT_ALLOW_ADD_MCP_SERVERS === '1') {
+      return Response.json(
+        { message: 'Adding MCP servers is disabled on this instance.' },
+        { status: 403 },
+      );
+    }
+
+    const parsed = CreateMcpServerSchema.safeParse(
+      await req.json().catch(() => ({})),
+    );
+
+    if (!parsed.success) {
+      return Response.json(
+        {
+          message: 'Invalid request body',
+          error: formatValidationError(parsed.error),
+        },
+        { status: 400 },
+      );
+    }
+
+    // Stdio servers run arbitrary commands on the host.
+    if (
+      isMCPStdioConfig(parsed.data.config) &&
+      !isAdminRole(session.user.role)
+    ) {
+      return Response.json(
+        { message: 'Only administrators can add command-based MCP servers.' },
+        { status: 403 },
+      );
+    }
+
+    const server = await mcpRepository.save({
+      ...parsed.data,
+      userId: session.user.id,
+    });
+
+    const info = await mcpClientsManager.getServerInfo(server);
+
+    return Response.json(
+      { server: toClientServerInfo(info, server, session.user) },
+      { status: 201 },
+    );
+  } catch (err) {
+    mcpLogger.error('Failed to create MCP server.', err);
+    return Response.json(
+      { message: 'An error has occurred.' },
+      { status: 500 },
+    );
+  }
+};
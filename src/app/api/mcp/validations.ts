@@ -0,0 +1,54 @@
+import { z } from 'zod';
+import { MCPServerConfigSchema } from '@/lib/types/mcp';
+
+const MAX_NAME_LENGTH = 100;
+const MAX_INSTRUCTIONS_LENGTH = 4000;
+
+const nameSchema = z
+  .string()
+  .trim()
+  .min(1, 'Server name is required')
+  .max(
+    MAX_NAME_LENGTH,
+    `Server names are limited to ${MAX_NAME_LENGTH} characters`,
+  );
+
+const visibilitySchema = z.enum(['public', 'private']);
+
+export const CreateMcpServerSchema = z.object({
+  name: nameSchema,
+  config: MCPServerConfigSchema,
+  visibility: visibilitySchema.optional(),
+});
+
+export const UpdateMcpServerSchema = z.object({
+  name: nameSchema.optional(),
+  config: MCPServerConfigSchema.optional(),
+  enabled: z.boolean().optional(),
+  visibility: visibilitySchema.optional(),
+});
+
+const instructionsSchema = z
+  .string()
+  .max(
+    MAX_INSTRUCTIONS_LENGTH,
+    `Instructions are limited to ${MAX_INSTRUCTIONS_LENGTH} characters`,
+  );
+
+export const McpInstructionsSchema = z.object({
+  serverPrompt: instructionsSchema.default(''),
+  tools: z
+    .array(
+      z.object({
+        toolName: z.string().min(1),
+        prompt: instructionsSchema,
+      }),
+    )
+    .default([]),
+});
+
+export const formatValidationError = (error: z.ZodError) =>
+  error.errors.map((e) => ({
+    path: e.path.join('.'),
+    message: e.message,
+  }));
@@ -12,8 +12,8 @@ export const config = {
 
 const latencyLogger = logger.withDefaults({ tag: 'api:openai-latency' });
 
-const resolveDefaultChatModel = () => {
-  const providers = getConfiguredModelProviders();
+const resolveDefaultChatModel = async () => {
+  const providers = await getConfiguredModelProviders();
 
   if (!providers || providers.length === 0) {
     throw new Error('No model providers are configured');
@@ -57,7 +57,7 @@ export const GET = async (req: Request) => {
       return Response.json({ message: 'Unauthorized' }, { status: 401 });
     }
 
-    const { providerId, modelKey } = resolveDefaultChatModel();
+    const { providerId, modelKey } = await resolveDefaultChatModel();
 
     const registry = new ModelRegistry();
     const llm = await registry.loadChatModel(providerId, modelKey);
@@ -0,0 +1,145 @@
+import { z } from 'zod';
+import { projectRepository } from '@/lib/db/pg/repositories/project-repository';
+import { getSessionFromRequest } from '@/lib/auth/session';
+import { getFileDetails } from '@/lib/utils/files';
+import logger from '@/lib/logger';
+import type { ProjectFile } from '@/types/project';
+import { UpdateProjectSchema, formatValidationError } from '../validations';
+
+export const runtime = 'nodejs';
+
+const projectsLogger = logger.withDefaults({ tag: 'api:projects' });
+
+const projectNotFound = () =>
+  Response.json({ message: 'Project not found' }, { status: 404 });
+
+export const GET = async (
+  req: Request,
+  { params }: { params: Promise<{ id: string }> },
+) => {
+  try {
+    const session = await getSessionFromRequest(req);
+
+    if (!session) {
+      return Response.json({ message: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+
+    if (!z.string().uuid().safeParse(id).success) {
+      return projectNotFound();
+    }
+
+    const project = await projectRepository.findById(id, session.user.id);
+
+    if (!project) {
+      return projectNotFound();
+    }
+
+    return Response.json({ project }, { status: 200 });
+  } catch (err) {
+    projectsLogger.error('Failed to fetch project.', err);
+    return Response.json(
+      { message: 'An error has occurred.' },
+      { status: 500 },
+    );
+  }
+};
+
+export const PATCH = async (
+  req: Request,
+  { params }: { params: Promise<{ id: string }> },
+) => {
+  try {
+    const session = await getSessionFromRequest(req);
+
+    if (!session) {
+      return Response.json({ message: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+
+    if (!z.string().uuid().safeParse(id).success) {
+      return projectNotFound();
+    }
+
+    const parsed = UpdateProjectSchema.safeParse(
+      await req.json().catch(() => ({})),
+    );
+
+    if (!parsed.success) {
+      return Response.json(
+        {
+          message: 'Invalid request body',
+          error: formatValidationError(parsed.error),
+        },
+        { status: 400 },
+      );
+    }
+
+    const { fileIds, ...fields } = parsed.data;
+    let files: ProjectFile[] | undefined;
+
+    if (fileIds) {
+      try {
+        files = await Promise.all(
+          Array.from(new Set(fileIds)).map((fileId) => getFileDetails(fileId)),
+        );
+      } catch (error) {
+        projectsLogger.warn('Project file lookup failed.', { id, error });
+        return Response.json(
+          { message: 'One or more files could not be found' },
+          { status: 400 },
+        );
+      }
+    }
+
+    const project = await projectRepository.update(id, session.user.id, {
+      ...fields,
+      files,
+    });
+
+    if (!project) {
+      return projectNotFound();
+    }
+
+    return Response.json({ project }, { status: 200 });
+  } catch (err) {
+    projectsLogger.error('Failed to update project.', err);
+    return Response.json(
+      { message: 'An error has occurred.' },
+      { status: 500 },
+    );
+  }
+};
+
+export const DELETE = async (
+  req: Request,
+  { params }: { params: Promise<{ id: string }> },
+) => {
+  try {
+    const session = await getSessionFromRequest(req);
+
+    if (!session) {
+      return Response.json({ message: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+
+    if (!z.string().uuid().safeParse(id).success) {
+      return projectNotFound();
+    }
+
+    if (!(await projectRepository.remove(id, session.user.id))) {
+      return projectNotFound();
+    }
+
+    return Response.json({ message: 'Project deleted' }, { status: 200 });
+  } catch (err) {
+    projectsLogger.error('Failed to delete project.', err);
+    return Response.json(
+      { message: 'An error has occurred.' },
+      { status: 500 },
+    );
+  }
+};
@@ -0,0 +1,65 @@
+import { projectRepository } from '@/lib/db/pg/repositories/project-repository';
+import { getSessionFromRequest } from '@/lib/auth/session';
+import logger from '@/lib/logger';
+import { CreateProjectSchema, formatValidationError } from './validations';
+
+export const runtime = 'nodejs';
+
+const projectsLogger = logger.withDefaults({ tag: 'api:projects' });
+
+export const GET = async (req: Request) => {
+  try {
+    const session = await getSessionFromRequest(req);
+
+    if (!session) {
+      return Response.json({ message: 'Unauthorized' }, { status: 401 });
+    }
+
+    const projects = await projectRepository.listByUser(session.user.id);
+
+    return Response.json({ projects }, { status: 200 });
+  } catch (err) {
+    projectsLogger.error('Failed to list projects.', err);
+    return Response.json(
+      { message: 'An error has occurred.' },
+      { status: 500 },
+    );
+  }
+};
+
+export const POST = async (req: Request) => {
+  try {
+    const session = await getSessionFromRequest(req);
+
+    if (!session) {
+      return Response.json({ message: 'Unauthorized' }, { status: 401 });
+    }
+
+    const parsed = CreateProjectSchema.safeParse(
+      await req.json().catch(() => ({})),
+    );
+
+    if (!parsed.success) {
+      return Response.json(
+        {
+          message: 'Invalid request body',
+          error: formatValidationError(parsed.error),
+        },
+        { status: 400 },
+      );
+    }
+
+    const project = await projectRepository.create({
+      userId: session.user.id,
+      ...parsed.data,
+    });
+
+    return Response.json({ project }, { status: 201 });
+  } catch (err) {
+    projectsLogger.error('Failed to create project.', err);
+    return Response.json(
+      { message: 'An error has occurred.' },
+      { status: 500 },
+    );
+  }
+};
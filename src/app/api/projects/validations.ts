@@ -0,0 +1,55 @@
+import { z } from 'zod';
+
+const MAX_NAME_LENGTH = 100;
+const MAX_DESCRIPTION_LENGTH = 500;
+const MAX_INSTRUCTIONS_LENGTH = 4000;
+const MAX_PROJECT_FILES = 50;
+
+const nameSchema = z
+  .string()
+  .trim()
+  .min(1, 'Project name is required')
+  .max(
+    MAX_NAME_LENGTH,
+    `Project names are limited to ${MAX_NAME_LENGTH} characters`,
+  );
+
+const descriptionSchema = z
+  .string()
+  .trim()
+  .max(MAX_DESCRIPTION_LENGTH)
+  .nullable()
+  .optional();
+
+const instructionsSchema = z
+  .string()
+  .max(
+    MAX_INSTRUCTIONS_LENGTH,
+    `Instructions are limited to ${MAX_INSTRUCTIONS_LENGTH} characters`,
+  )
+  .optional();
+
+export const CreateProjectSchema = z.object({
+  name: nameSchema,
+  description: descriptionSchema,
+  instructions: instructionsSchema,
+});
+
+export const UpdateProjectSchema = z.object({
+  name: nameSchema.optional(),
+  description: descriptionSchema,
+  instructions: instructionsSchema,
+  fileIds: z
+    .array(z.string().min(1))
+    .max(
+      MAX_PROJECT_FILES,
+      `Projects can hold at most ${MAX_PROJECT_FILES} files`,
+    )
+    .optional(),
+});
+
+export const formatValidationError = (error: z.ZodError) =>
+  error.errors.map((e) => ({
+    path: e.path.join('.'),
+    message: e.message,
+  }));
@@ -3,6 +3,10 @@ import { isEditorRole } from '@/lib/auth/roles';
 import ModelRegistry from '@/lib/models/registry';
 import { Model } from '@/lib/models/types';
 import { NextRequest } from 'next/server';
+import {
+  ProviderNotFoundError,
+  ReadOnlyProviderError,
+} from '@/lib/config/errors';
 import logger from '@/lib/logger';
 
 const providerLogger = logger.withDefaults({ tag: 'api:providers' });
@@ -40,7 +44,7 @@ export const POST = async (
 
     const registry = new ModelRegistry();
 
-    await registry.addProviderModel(id, body.type, body);
+    await registry.addProviderModel(id, body.type, body, session.user.id);
 
     return Response.json(
       {
@@ -50,7 +54,15 @@ export const POST = async (
         status: 200,
       },
     );
-  } catch (err) {
+  } catch (err: any) {
+    if (err instanceof ReadOnlyProviderError) {
+      return Response.json({ message: err.message }, { status: 403 });
+    }
+
+    if (err instanceof ProviderNotFoundError) {
+      return Response.json({ message: 'Provider not found.' }, { status: 404 });
+    }
+
     providerLogger.error('Failed to add provider model.', err);
     return Response.json(
       {
@@ -95,10 +107,23 @@ export const DELETE = async (
 
     const registry = new ModelRegistry();
 
-    await registry.removeProviderModel(id, body.type, body.key);
+    await registry.removeProviderModel(
+      id,
+      body.type,
+      body.key,
+      session.user.id,
+    );
 
     return Response.json({ message: 'Model deleted successfully' }, { status: 200 });
-  } catch (err) {
+  } catch (err: any) {
+    if (err instanceof ReadOnlyProviderError) {
+      return Response.json({ message: err.message }, { status: 403 });
+    }
+
+    if (err instanceof ProviderNotFoundError) {
+      return Response.json({ message: 'Provider not found.' }, { status: 404 });
+    }
+
     providerLogger.error('Failed to delete provider model.', err);
     return Response.json(
       {
@@ -2,6 +2,10 @@ import ModelRegistry from '@/lib/models/registry';
 import { NextRequest } from 'next/server';
 import { getSessionFromRequest } from '@/lib/auth/session';
 import { isEditorRole } from '@/lib/auth/roles';
+import {
+  ProviderNotFoundError,
+  ReadOnlyProviderError,
+} from '@/lib/config/errors';
 import logger from '@/lib/logger';
 
 const providerLogger = logger.withDefaults({ tag: 'api:providers' });
@@ -35,7 +39,7 @@ export const DELETE = async (
     }
 
     const registry = new ModelRegistry();
-    await registry.removeProvider(id);
+    await registry.removeProvider(id, session.user.id);
 
     return Response.json(
       {
@@ -46,6 +50,14 @@ export const DELETE = async (
       },
     );
   } catch (err: any) {
+    if (err instanceof ReadOnlyProviderError) {
+      return Response.json({ message: err.message }, { status: 403 });
+    }
+
+    if (err instanceof ProviderNotFoundError) {
+      return Response.json({ message: 'Provider not found.' }, { status: 404 });
+    }
+
     providerLogger.error('Failed to delete provider.', err);
     return Response.json(
       {
@@ -90,7 +102,12 @@ export const PATCH = async (
 
     const registry = new ModelRegistry();
 
-    const updatedProvider = await registry.updateProvider(id, name, config);
+    const updatedProvider = await registry.updateProvider(
+      id,
+      name,
+      config,
+      session.user.id,
+    );
 
     return Response.json(
       {
@@ -101,6 +118,14 @@ export const PATCH = async (
       },
     );
   } catch (err: any) {
+    if (err instanceof ReadOnlyProviderError) {
+      return Response.json({ message: err.message }, { status: 403 });
+    }
+
+    if (err instanceof ProviderNotFoundError) {
+      return Response.json({ message: 'Provider not found.' }, { status: 404 });
+    }
+
     providerLogger.error('Failed to update provider.', err);
     return Response.json(
       {
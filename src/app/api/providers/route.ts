@@ -71,7 +71,12 @@ export const POST = async (req: NextRequest) => {
 
     const registry = new ModelRegistry();
 
-    const newProvider = await registry.addProvider(type, name, config);
+    const newProvider = await registry.addProvider(
+      type,
+      name,
+      config,
+      session.user.id,
+    );
 
     return Response.json(
       {
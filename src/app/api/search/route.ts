@@ -1,4 +1,12 @@
 import { getSessionFromRequest } from '@/lib/auth/session';
+import {
+  entitlementError,
+  getEbmValidationPeriodStart,
+  getEntitlementForSession,
+  isChatModelAllowed,
+  isFocusModeAllowed,
+} from '@/lib/entitlements';
+import { ebmValidationRepository } from '@/lib/db/pg/repositories/ebm-validation-repository';
 import { AIMessage, BaseMessage, HumanMessage } from '@langchain/core/messages';
 import { MetaSearchAgentType } from '@/lib/search/metaSearchAgent';
 import { searchHandlers } from '@/lib/search';
@@ -9,7 +17,7 @@ import logger from '@/lib/logger';
 const searchLogger = logger.withDefaults({ tag: 'api:search' });
 
 interface ChatRequestBody {
-  optimizationMode: 'speed' | 'balanced';
+  optimizationMode: 'speed' | 'balanced' | 'quality';
   focusMode: string;
   chatModel: ModelWithProvider;
   embeddingModel: ModelWithProvider;
@@ -30,6 +38,9 @@ export const POST = async (req: Request) => {
       );
     }
 
+    const userId = session.user.id;
+    const { tier, entitlement } = await getEntitlementForSession(session);
+
     const body: ChatRequestBody = await req.json();
 
     if (!body.focusMode || !body.query) {
@@ -43,6 +54,60 @@ export const POST = async (req: Request) => {
     body.optimizationMode = body.optimizationMode || 'balanced';
     body.stream = body.stream || false;
 
+    if (!isFocusModeAllowed(entitlement, body.focusMode)) {
+      return Response.json(
+        entitlementError(
+          'focus_mode_not_allowed',
+          tier,
+          'This focus mode is not available on your plan.',
+        ),
+        { status: 403 },
+      );
+    }
+
+    if (!isChatModelAllowed(entitlement, body.chatModel.key)) {
+      return Response.json(
+        entitlementError(
+          'model_not_allowed',
+          tier,
+          'This model is not available on your plan. Choose another model to continue.',
+        ),
+        { status: 403 },
+      );
+    }
+
+    if (body.optimizationMode === 'quality' && !entitlement.allowQualityMode) {
+      return Response.json(
+        entitlementError(
+          'quality_mode_not_allowed',
+          tier,
+          'Quality mode is not available on your plan. Switch to Speed or Balanced.',
+        ),
+        { status: 403 },
+      );
+    }
+
+    if (
+      body.focusMode === 'ebmValidator' &&
+      entitlement.maxEbmValidationsPerMonth !== null
+    ) {
+      const validationsThisMonth = await ebmValidationRepository.countSince(
+        userId,
+        getEbmValidationPeriodStart(),
+      );
+
+      if (validationsThisMonth >= entitlement.maxEbmValidationsPerMonth) {
+        return Response.json(
+          entitlementError(
+            'ebm_validation_limit_reached',
+            tier,
+            'You have used all EBM validations included in your plan this month.',
+          ),
+          { status: 429 },
+        );
+      }
+    }
+
     const history: BaseMessage[] = body.history.map((msg) => {
       return msg[0] === 'human'
         ? new HumanMessage({ content: msg[1] })
@@ -52,10 +117,14 @@ export const POST = async (req: Request) => {
     const registry = new ModelRegistry();
 
     const [llm, embeddings] = await Promise.all([
-      registry.loadChatModel(body.chatModel.providerId, body.chatModel.key),
+      registry.loadChatModel(body.chatModel.providerId, body.chatModel.key, {
+        feature: 'search',
+        userId,
+      }),
       registry.loadEmbeddingModel(
         body.embeddingModel.providerId,
         body.embeddingModel.key,
+        { feature: 'search', userId },
       ),
     ]);
 
@@ -73,6 +142,7 @@ export const POST = async (req: Request) => {
       body.optimizationMode,
       [],
       body.systemInstructions || '',
+      { userId, entitlement },
     );
 
     if (!body.stream) {
@@ -169,6 +239,15 @@ export const POST = async (req: Request) => {
                   }) + '\n',
                 ),
               );
+            } else if (parsedData.type === 'progress') {
+              controller.enqueue(
+                encoder.encode(
+                  JSON.stringify({
+                    type: 'progress',
+                    data: parsedData.data,
+                  }) + '\n',
+                ),
+              );
             }
           } catch (error) {
             controller.error(error);
@@ -0,0 +1,42 @@
+import { z } from 'zod';
+import { getSessionFromRequest } from '@/lib/auth/session';
+import { chatShareRepository } from '@/lib/db/pg/repositories/chat-share-repository';
+import logger from '@/lib/logger';
+
+const sharesLogger = logger.withDefaults({ tag: 'api:shares' });
+
+export const DELETE = async (
+  req: Request,
+  { params }: { params: Promise<{ shareId: string }> },
+) => {
+  try {
+    const session = await getSessionFromRequest(req);
+
+    if (!session) {
+      return Response.json({ message: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { shareId } = await params;
+
+    if (!z.string().uuid().safeParse(shareId).success) {
+      return Response.json({ message: 'Share not found' }, { status: 404 });
+    }
+
+    const revoked = await chatShareRepository.revoke(shareId, session.user.id);
+
+    if (!revoked) {
+      return Response.json({ message: 'Share not found' }, { status: 404 });
+    }
+
+    return Response.json(
+      { message: 'Share link revoked successfully' },
+      { status: 200 },
+    );
+  } catch (err) {
+    sharesLogger.error('Failed to revoke share.', err);
+    return Response.json(
+      { message: 'An error has occurred.' },
+      { status: 500 },
+    );
+  }
+};
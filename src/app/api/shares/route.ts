@@ -0,0 +1,25 @@
+import { getSessionFromRequest } from '@/lib/auth/session';
+import { chatShareRepository } from '@/lib/db/pg/repositories/chat-share-repository';
+import logger from '@/lib/logger';
+
+const sharesLogger = logger.withDefaults({ tag: 'api:shares' });
+
+export const GET = async (req: Request) => {
+  try {
+    const session = await getSessionFromRequest(req);
+
+    if (!session) {
+      return Response.json({ message: 'Unauthorized' }, { status: 401 });
+    }
+
+    const shares = await chatShareRepository.listByUser(session.user.id);
+
+    return Response.json({ shares }, { status: 200 });
+  } catch (err) {
+    sharesLogger.error('Failed to list shares.', err);
+    return Response.json(
+      { message: 'An error has occurred.' },
+      { status: 500 },
+    );
+  }
+};
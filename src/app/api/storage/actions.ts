@@ -1,7 +1,10 @@
 'use server';
 
+import { promises as fs, constants as fsConstants } from 'node:fs';
+
 import { IS_VERCEL_ENV } from '@/lib/constants/runtime';
 import { storageDriver } from '@/lib/storage';
+import { resolveLocalStorageRoot } from '@/lib/storage/file-storage/local-file-storage';
 
 interface StorageCheckResult {
   isValid: boolean;
@@ -13,7 +16,9 @@ export async function getStorageInfoAction() {
   return {
     type: storageDriver,
     supportsDirectUpload:
-      storageDriver === 'vercel-blob' || storageDriver === 's3',
+      storageDriver === 'vercel-blob' ||
+      storageDriver === 's3' ||
+      storageDriver === 'local',
   };
 }
 
@@ -64,11 +69,43 @@ export async function checkStorageAction(): Promise<StorageCheckResult> {
     return { isValid: true };
   }
 
-  if (!['vercel-blob', 's3'].includes(storageDriver)) {
+  if (storageDriver === 'local') {
+    if (
+      !process.env.FILE_STORAGE_LOCAL_SECRET &&
+      !process.env.BETTER_AUTH_SECRET
+    ) {
+      return {
+        isValid: false,
+        error: 'No secret available to sign local storage URLs',
+        solution:
+          'Set FILE_STORAGE_LOCAL_SECRET (or BETTER_AUTH_SECRET) to a long random value.',
+      };
+    }
+
+    const root = resolveLocalStorageRoot();
+
+    try {
+      await fs.mkdir(root, { recursive: true });
+      await fs.access(root, fsConstants.R_OK | fsConstants.W_OK);
+    } catch {
+      return {
+        isValid: false,
+        error: `Local storage directory is not writable: ${root}`,
+        solution:
+          'Point FILE_STORAGE_LOCAL_DIR at a directory the server can read and write,\n' +
+          'or mount a volume there when running in a container.',
+      };
+    }
+
+    return { isValid: true };
+  }
+
+  if (!['vercel-blob', 's3', 'local'].includes(storageDriver)) {
     return {
       isValid: false,
       error: `Invalid storage driver: ${storageDriver}`,
-      solution: "FILE_STORAGE_TYPE must be either 'vercel-blob' or 's3'",
+      solution:
+        "FILE_STORAGE_TYPE must be one of 'vercel-blob', 's3' or 'local'",
     };
   }
 
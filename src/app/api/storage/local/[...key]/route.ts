@@ -0,0 +1,188 @@
+import { NextResponse } from 'next/server';
+
+import { getSession } from '@/lib/auth/server';
+import logger from '@/lib/logger';
+import { serverFileStorage, storageDriver } from '@/lib/storage';
+import { FileNotFoundError } from '@/lib/storage/file-storage/errors';
+import {
+  verifyLocalSignature,
+  type LocalSignedOperation,
+} from '@/lib/storage/file-storage/local-file-storage';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+const localStorageLogger = logger.withDefaults({ tag: 'api:storage:local' });
+
+type RouteContext = { params: Promise<{ key: string[] }> };
+
+const resolveKey = async ({ params }: RouteContext) => {
+  const { key } = await params;
+  return key.join('/');
+};
+
+const hasValidSignature = (
+  request: Request,
+  operation: LocalSignedOperation,
+  key: string,
+) => {
+  const { searchParams } = new URL(request.url);
+  return verifyLocalSignature(
+    operation,
+    key,
+    searchParams.get('expires'),
+    searchParams.get('signature'),
+    searchParams.get('maxSize'),
+  );
+};
+
+const toAsciiFilename = (filename: string) =>
+  filename.replace(/[^\x20-\x7e]/g, '_').replace(/"/g, '');
+
+/**
+ * Content types a browser may render in place. Anything else (HTML, SVG,
+ * scripts) is served as a download, since files come from users and are
+ * served from the app's own origin.
+ */
+const INLINE_CONTENT_TYPES = new Set([
+  'application/pdf',
+  'image/gif',
+  'image/jpeg',
+  'image/png',
+  'image/webp',
+]);
+
+const isInlineContentType = (contentType: string) =>
+  INLINE_CONTENT_TYPES.has(contentType.split(';')[0].trim().toLowerCase());
+
+class UploadTooLargeError extends Error {
+  constructor(maxSize: number) {
+    super(`Uploads to this URL may be at most ${maxSize} bytes.`);
+    this.name = 'UploadTooLargeError';
+  }
+}
+
+/**
+ * Buffers the request body, giving up as soon as it passes `maxSize` so an
+ * oversized upload is never held in memory.
+ */
+const readBodyWithLimit = async (request: Request, maxSize: number) => {
+  const declaredLength = Number(request.headers.get('content-length'));
+  if (declaredLength > maxSize) {
+    throw new UploadTooLargeError(maxSize);
+  }
+
+  if (!request.body) {
+    return Buffer.alloc(0);
+  }
+
+  const reader = request.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) {
+      break;
+    }
+
+    size += value.byteLength;
+    if (size > maxSize) {
+      await reader.cancel();
+      throw new UploadTooLargeError(maxSize);
+    }
+    chunks.push(value);
+  }
+
+  return Buffer.concat(chunks);
+};
+
+/**
+ * Serves files kept by the local storage driver. Signed links work for anyone
+ * until they expire; unsigned source URLs are only served to signed-in users,
+ * mirroring the unguessable public URLs of the cloud drivers.
+ */
+export async function GET(request: Request, context: RouteContext) {
+  if (storageDriver !== 'local') {
+    return NextResponse.json({ error: 'Not found' }, { status: 404 });
+  }
+
+  const key = await resolveKey(context);
+
+  if (!hasValidSignature(request, 'download', key)) {
+    const session = await getSession();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+  }
+
+  try {
+    const metadata = await serverFileStorage.getMetadata(key);
+
+    if (!metadata) {
+      return NextResponse.json({ error: 'File not found' }, { status: 404 });
+    }
+
+    const buffer = await serverFileStorage.download(key);
+    const disposition = isInlineContentType(metadata.contentType)
+      ? 'inline'
+      : 'attachment';
+
+    return new Response(new Uint8Array(buffer), {
+      headers: {
+        'Content-Type': metadata.contentType,
+        'Content-Length': String(buffer.byteLength),
+        'Content-Disposition': `${disposition}; filename="${toAsciiFilename(metadata.filename)}"`,
+        'Cache-Control': 'private, max-age=300',
+        'Content-Security-Policy': 'sandbox',
+        'X-Content-Type-Options': 'nosniff',
+      },
+    });
+  } catch (error) {
+    if (error instanceof FileNotFoundError) {
+      return NextResponse.json({ error: 'File not found' }, { status: 404 });
+    }
+    localStorageLogger.error('Failed to serve file.', error);
+    return NextResponse.json({ error: 'Failed to read file' }, { status: 500 });
+  }
+}
+
+/** Receives uploads for URLs issued by `createUploadUrl`. */
+export async function PUT(request: Request, context: RouteContext) {
+  if (storageDriver !== 'local') {
+    return NextResponse.json({ error: 'Not found' }, { status: 404 });
+  }
+
+  const key = await resolveKey(context);
+  // Upload URLs always carry a size limit, covered by the signature.
+  const signedMaxSize = new URL(request.url).searchParams.get('maxSize');
+
+  if (signedMaxSize === null || !hasValidSignature(request, 'upload', key)) {
+    return NextResponse.json(
+      { error: 'Upload URL is invalid or has expired' },
+      { status: 403 },
+    );
+  }
+
+  try {
+    const buffer = await readBodyWithLimit(request, Number(signedMaxSize));
+
+    const result = await serverFileStorage.upload(buffer, {
+      key,
+      filename: key.split('/').pop() ?? key,
+      contentType:
+        request.headers.get('content-type') || 'application/octet-stream',
+    });
+
+    return NextResponse.json({ key: result.key, metadata: result.metadata });
+  } catch (error) {
+    if (error instanceof UploadTooLargeError) {
+      return NextResponse.json({ error: error.message }, { status: 413 });
+    }
+    localStorageLogger.error('Failed to store uploaded file.', error);
+    return NextResponse.json(
+      { error: 'Failed to upload file' },
+      { status: 500 },
+    );
+  }
+}
@@ -2,6 +2,7 @@ import { handleUpload, type HandleUploadBody } from '@vercel/blob/client';
 import { NextResponse } from 'next/server';
 
 import { getSession } from '@/lib/auth/server';
+import { getEntitlementForSession } from '@/lib/entitlements';
 import logger from '@/lib/logger';
 import { serverFileStorage, storageDriver } from '@/lib/storage';
 
@@ -62,7 +63,10 @@ const handleVercelBlobUpload = async (
   return NextResponse.json(jsonResponse);
 };
 
-const handleGenericUpload = async (request: GenericUploadRequest) => {
+const handleGenericUpload = async (
+  request: GenericUploadRequest,
+  maxSizeBytes: number,
+) => {
   if (typeof serverFileStorage.createUploadUrl !== 'function') {
     storageUploadUrlLogger.info(
       'Storage driver does not support direct upload URLs. Returning fallback.',
@@ -74,6 +78,7 @@ const handleGenericUpload = async (request: GenericUploadRequest) => {
     filename: request.filename || 'file',
     contentType: request.contentType || 'application/octet-stream',
     expiresInSeconds: DEFAULT_UPLOAD_EXPIRES_SECONDS,
+    maxSizeBytes,
   });
 
   if (!uploadUrl) {
@@ -122,7 +127,11 @@ export async function POST(request: Request) {
       return await handleVercelBlobUpload(body, request, session.user.id);
     }
 
-    return await handleGenericUpload(body as GenericUploadRequest);
+    const { entitlement } = await getEntitlementForSession(session);
+    return await handleGenericUpload(
+      body as GenericUploadRequest,
+      entitlement.maxUploadSizeBytes,
+    );
   } catch (error) {
     storageUploadUrlLogger.error('Failed to create upload URL.', error);
     return NextResponse.json(
@@ -72,6 +72,7 @@ export const POST = async (req: Request) => {
     const llm = await registry.loadChatModel(
       body.chatModel.providerId,
       body.chatModel.key,
+      { feature: 'suggestions', userId: session.user.id },
     );
 
     const normalizedHistory = rawHistory
@@ -1,23 +1,21 @@
-import { NextResponse } from 'next/server';
-import fs from 'fs/promises';
-import path from 'path';
-import os from 'os';
+import { after, NextResponse } from 'next/server';
 import crypto from 'crypto';
-import { PDFLoader } from '@langchain/community/document_loaders/fs/pdf';
-import { DocxLoader } from '@langchain/community/document_loaders/fs/docx';
-import { RecursiveCharacterTextSplitter } from '@langchain/textsplitters';
-import { Document } from '@langchain/core/documents';
+import type { Readable } from 'stream';
+import JSZip from 'jszip';
 import ModelRegistry from '@/lib/models/registry';
 import { getSessionFromRequest } from '@/lib/auth/session';
-import { serverFileStorage } from '@/lib/storage';
 import {
-  buildEmbeddingsKey,
-  buildExtractedKey,
-  buildOriginalKey,
-  buildPagesKey,
-  writeJsonToStorage,
-} from '@/lib/storage/uploaded-files';
+  entitlementError,
+  getEntitlementForSession,
+  type Entitlement,
+  type EntitlementTier,
+} from '@/lib/entitlements';
+import { serverFileStorage } from '@/lib/storage';
+import { uploadedFileRepository } from '@/lib/db/pg/repositories/uploaded-file-repository';
+import { buildOriginalKey } from '@/lib/storage/uploaded-files';
 import { getContentTypeFromFilename } from '@/lib/storage/file-storage/storage-utils';
+import { drainIngestionQueue, enqueueIngestion } from '@/lib/uploads/ingestion';
+import { IMAGE_UPLOAD_EXTENSIONS } from '@/lib/uploads/loaders';
 import logger from '@/lib/logger';
 
 const uploadsLogger = logger.withDefaults({ tag: 'api:uploads' });
@@ -28,10 +26,159 @@ interface FileRes {
   fileId: string;
 }
 
-const splitter = new RecursiveCharacterTextSplitter({
-  chunkSize: 500,
-  chunkOverlap: 100,
-});
+interface UploadEntry {
+  name: string;
+  buffer: Buffer;
+  contentType?: string;
+}
+
+const SUPPORTED_EXTENSIONS = [
+  'pdf',
+  'docx',
+  'txt',
+  'csv',
+  'xlsx',
+  'xls',
+  'pptx',
+  'html',
+  'htm',
+  'eml',
+  ...IMAGE_UPLOAD_EXTENSIONS,
+];
+
+const ARCHIVE_EXTENSIONS = new Set(['zip']);
+
+const getExtension = (fileName: string) =>
+  fileName.split('.').pop()?.toLowerCase() ?? '';
+
+const formatMegabytes = (bytes: number) =>
+  `${Math.round((bytes / (1024 * 1024)) * 10) / 10} MB`;
+
+/** Rejects uploads whose size or file count exceed the caller's plan. */
+const checkUploadEntitlement = (
+  tier: EntitlementTier,
+  entitlement: Entitlement,
+  uploads: { name: string; size: number }[],
+) => {
+  if (uploads.length > entitlement.maxFilesPerUpload) {
+    return NextResponse.json(
+      entitlementError(
+        'upload_limit_reached',
+        tier,
+        `Your plan allows up to ${entitlement.maxFilesPerUpload} files per upload.`,
+      ),
+      { status: 400 },
+    );
+  }
+
+  const oversized = uploads.find(
+    (upload) => upload.size > entitlement.maxUploadSizeBytes,
+  );
+  if (oversized) {
+    return NextResponse.json(
+      entitlementError(
+        'upload_too_large',
+        tier,
+        `${oversized.name} is larger than the ${formatMegabytes(entitlement.maxUploadSizeBytes)} your plan allows per file.`,
+      ),
+      { status: 413 },
+    );
+  }
+
+  return null;
+};
+
+class ArchiveTooLargeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ArchiveTooLargeError';
+  }
+}
+
+interface ArchiveLimits {
+  /** Most supported members the archive may contain. */
+  maxEntries: number;
+  /** Largest expanded size accepted for any one member. */
+  maxEntryBytes: number;
+  /** Budget for all members of the archive together. */
+  maxTotalBytes: number;
+}
+
+/**
+ * Inflates one member, giving up as soon as it grows past `maxBytes`. Sizes
+ * in the ZIP directory can lie, so only the inflated bytes are counted.
+ */
+const inflateEntry = (entry: JSZip.JSZipObject, maxBytes: number) =>
+  new Promise<Buffer>((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    const stream = entry.nodeStream('nodebuffer') as Readable;
+
+    const onData = (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > maxBytes) {
+        // Destroying releases the inflater's buffers; the error listener
+        // stays so anything the stream emits afterwards is still handled.
+        stream.off('data', onData);
+        stream.destroy();
+        chunks.length = 0;
+        reject(
+          new ArchiveTooLargeError(`${entry.name} is too large once extracted.`),
+        );
+        return;
+      }
+      chunks.push(chunk);
+    };
+
+    stream.on('data', onData);
+    stream.on('error', reject);
+    stream.on('end', () => resolve(Buffer.concat(chunks)));
+  });
+
+/**
+ * Expands a ZIP upload into its supported members. Folders, macOS resource
+ * forks and dotfiles are skipped; nested archives are not expanded. Members
+ * are inflated one at a time so a ZIP bomb stops at the size limits instead
+ * of filling the heap.
+ */
+const expandArchive = async (
+  buffer: Buffer,
+  limits: ArchiveLimits,
+): Promise<UploadEntry[]> => {
+  const archive = await JSZip.loadAsync(buffer);
+  const members = Object.values(archive.files).filter((entry) => {
+    if (entry.dir) return false;
+    const baseName = entry.name.split('/').pop() ?? '';
+    if (!baseName || baseName.startsWith('.') || entry.name.startsWith('__MACOSX/')) {
+      return false;
+    }
+    return SUPPORTED_EXTENSIONS.includes(getExtension(baseName));
+  });
+
+  if (members.length > limits.maxEntries) {
+    throw new ArchiveTooLargeError(
+      `${members.length} files in the archive exceed the ${limits.maxEntries} your plan still allows from archives in this upload.`,
+    );
+  }
+
+  const entries: UploadEntry[] = [];
+  let totalBytes = 0;
+
+  for (const entry of members) {
+    const entryBuffer = await inflateEntry(
+      entry,
+      Math.min(limits.maxEntryBytes, limits.maxTotalBytes - totalBytes),
+    );
+    totalBytes += entryBuffer.length;
+    entries.push({
+      name: entry.name.split('/').pop()!,
+      buffer: entryBuffer,
+      contentType: getContentTypeFromFilename(entry.name),
+    });
+  }
+
+  return entries;
+};
 
 export async function POST(req: Request) {
   try {
@@ -44,6 +191,8 @@ export async function POST(req: Request) {
       );
     }
 
+    const { tier, entitlement } = await getEntitlementForSession(session);
+
     const formData = await req.formData();
 
     const files = formData.getAll('files') as File[];
@@ -57,15 +206,22 @@ export async function POST(req: Request) {
       );
     }
 
-    const registry = new ModelRegistry();
-
-    const model = await registry.loadEmbeddingModel(embedding_model_provider, embedding_model);
+    // Embedding happens in the background; loading the model here turns a
+    // bad provider or model into an upload error instead of failed jobs.
+    await new ModelRegistry().loadEmbeddingModel(
+      embedding_model_provider,
+      embedding_model,
+    );
 
     const processedFiles: FileRes[] = [];
 
     const invalidFile = files.find((file) => {
-      const extension = file.name.split('.').pop()?.toLowerCase();
-      return !extension || !['pdf', 'docx', 'txt'].includes(extension);
+      const extension = getExtension(file.name);
+      return (
+        !extension ||
+        (!SUPPORTED_EXTENSIONS.includes(extension) &&
+          !ARCHIVE_EXTENSIONS.has(extension))
+      );
     });
 
     if (invalidFile) {
@@ -75,99 +231,109 @@ export async function POST(req: Request) {
       );
     }
 
+    const uploadLimitResponse = checkUploadEntitlement(
+      tier,
+      entitlement,
+      files.map((file) => ({ name: file.name, size: file.size })),
+    );
+    if (uploadLimitResponse) {
+      return uploadLimitResponse;
+    }
+
+    const entries: UploadEntry[] = [];
+    // Each archive counted as one file above; its members are limited by
+    // the plan's archive allowance, and may not add up to more bytes than
+    // the plan would accept as separate files in one upload.
+    let remainingEntries = entitlement.maxArchiveEntriesPerUpload;
+    let remainingBytes =
+      entitlement.maxUploadSizeBytes * entitlement.maxFilesPerUpload;
+
     for (const file of files) {
-      const fileExtension = file.name.split('.').pop()!.toLowerCase();
-      const fileId = crypto.randomBytes(16).toString('hex');
       const buffer = Buffer.from(await file.arrayBuffer());
 
-      const tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'soraai-'));
-      const tempFilePath = path.join(tempDir, `${fileId}.${fileExtension}`);
+      if (!ARCHIVE_EXTENSIONS.has(getExtension(file.name))) {
+        entries.push({ name: file.name, buffer, contentType: file.type });
+        remainingBytes -= buffer.length;
+        continue;
+      }
 
       try {
-        await fs.writeFile(tempFilePath, buffer);
-
-        let docs: Document[] = [];
-        let pageRecords: { pageNumber: number; text: string }[] = [];
-        if (fileExtension === 'pdf') {
-          const loader = new PDFLoader(tempFilePath);
-          docs = await loader.load();
-          pageRecords = docs.map((doc, index) => ({
-            pageNumber:
-              (doc.metadata as Record<string, any>)?.pageNumber ??
-              (doc.metadata as Record<string, any>)?.loc?.pageNumber ??
-              index + 1,
-            text: doc.pageContent,
-          }));
-        } else if (fileExtension === 'docx') {
-          const loader = new DocxLoader(tempFilePath);
-          docs = await loader.load();
-          pageRecords = [
-            {
-              pageNumber: 1,
-              text: docs.map((doc) => doc.pageContent).join('\n\n'),
-            },
-          ];
-        } else if (fileExtension === 'txt') {
-          const text = await fs.readFile(tempFilePath, 'utf-8');
-          docs = [
-            new Document({ pageContent: text, metadata: { title: file.name } }),
-          ];
-          pageRecords = [
-            {
-              pageNumber: 1,
-              text,
-            },
-          ];
+        const expanded = await expandArchive(buffer, {
+          maxEntries: remainingEntries,
+          maxEntryBytes: entitlement.maxUploadSizeBytes,
+          maxTotalBytes: Math.max(remainingBytes, 0),
+        });
+        entries.push(...expanded);
+        remainingEntries -= expanded.length;
+        remainingBytes -= expanded.reduce(
+          (total, entry) => total + entry.buffer.length,
+          0,
+        );
+      } catch (error) {
+        if (error instanceof ArchiveTooLargeError) {
+          return NextResponse.json({ message: error.message }, { status: 413 });
         }
-
-        const splitted = await splitter.splitDocuments(docs);
-
-        const originalKey = buildOriginalKey(fileId, fileExtension);
-        await serverFileStorage.upload(buffer, {
-          key: originalKey,
-          filename: `${fileId}.${fileExtension}`,
-          contentType:
-            file.type || getContentTypeFromFilename(file.name),
+        uploadsLogger.warn('Failed to read uploaded archive.', {
+          fileName: file.name,
+          error,
         });
+        return NextResponse.json(
+          { message: `Could not read archive ${file.name}` },
+          { status: 400 },
+        );
+      }
+    }
 
-        const extractedKey = buildExtractedKey(fileId);
-        await writeJsonToStorage(extractedKey, {
-          title: file.name,
-          contents: splitted.map((doc) => doc.pageContent),
-        });
+    if (entries.length === 0) {
+      return NextResponse.json(
+        { message: 'No supported files found in upload' },
+        { status: 400 },
+      );
+    }
 
-        if (pageRecords.length === 0) {
-          pageRecords = docs.map((doc, index) => ({
-            pageNumber: index + 1,
-            text: doc.pageContent,
-          }));
-        }
+    for (const file of entries) {
+      const fileExtension = getExtension(file.name);
+      const fileId = crypto.randomBytes(16).toString('hex');
+      const contentType =
+        file.contentType || getContentTypeFromFilename(file.name);
 
-        const pagesKey = buildPagesKey(fileId);
-        await writeJsonToStorage(pagesKey, {
-          title: file.name,
-          pages: pageRecords,
-        });
+      // Recorded before anything is stored so a partially written upload is
+      // still found and removed by the orphan sweep.
+      await uploadedFileRepository.create({
+        id: fileId,
+        userId: session.user.id,
+        name: file.name,
+        extension: fileExtension,
+        contentType,
+        size: file.buffer.length,
+      });
 
-        const embeddings = await model.embedDocuments(
-          splitted.map((doc) => doc.pageContent),
-        );
-        const embeddingsKey = buildEmbeddingsKey(fileId);
-        await writeJsonToStorage(embeddingsKey, {
-          title: file.name,
-          embeddings,
-        });
+      await serverFileStorage.upload(file.buffer, {
+        key: buildOriginalKey(fileId, fileExtension),
+        filename: file.name,
+        contentType,
+      });
 
-        processedFiles.push({
-          fileName: file.name,
-          fileExtension: fileExtension,
-          fileId,
-        });
-      } finally {
-        await fs.rm(tempDir, { recursive: true, force: true });
-      }
+      await enqueueIngestion({
+        fileId,
+        userId: session.user.id,
+        fileName: file.name,
+        extension: fileExtension,
+        embeddingProviderId: embedding_model_provider,
+        embeddingModelKey: embedding_model,
+      });
+
+      processedFiles.push({
+        fileName: file.name,
+        fileExtension: fileExtension,
+        fileId,
+      });
     }
 
+    // Extraction and embedding continue after the response; progress is
+    // read from /api/uploads/status.
+    after(drainIngestionQueue());
+
     return NextResponse.json({
       files: processedFiles,
     });
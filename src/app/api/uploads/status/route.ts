@@ -0,0 +1,124 @@
+import { after } from 'next/server';
+import { getSessionFromRequest } from '@/lib/auth/session';
+import {
+  drainIngestionQueue,
+  getIngestionProgress,
+} from '@/lib/uploads/ingestion';
+import logger from '@/lib/logger';
+import type { IngestionProgress } from '@/types/ingestion';
+
+const statusLogger = logger.withDefaults({ tag: 'api:uploads:status' });
+
+const MAX_FILE_IDS = 100;
+const STREAM_POLL_INTERVAL_MS = 1000;
+/** Streams end after this long; EventSource reconnects on its own. */
+const STREAM_MAX_DURATION_MS = 5 * 60 * 1000;
+
+const isFinished = (progress: IngestionProgress[]) =>
+  progress.every(
+    (job) => job.status === 'completed' || job.status === 'failed',
+  );
+
+const parseFileIds = (req: Request) =>
+  Array.from(
+    new Set(
+      (new URL(req.url).searchParams.get('ids') ?? '')
+        .split(',')
+        .map((id) => id.trim())
+        .filter((id) => /^[0-9a-f]{32}$/.test(id)),
+    ),
+  ).slice(0, MAX_FILE_IDS);
+
+/**
+ * Streams progress as server-sent events until every job has finished.
+ * An event is only sent when something changed.
+ */
+const streamProgress = (req: Request, fileIds: string[], userId: string) => {
+  const encoder = new TextEncoder();
+  const startedAt = Date.now();
+
+  const stream = new ReadableStream<Uint8Array>({
+    start: async (controller) => {
+      let lastPayload = '';
+
+      try {
+        while (!req.signal.aborted) {
+          const files = await getIngestionProgress(fileIds, userId);
+          const payload = JSON.stringify({ files });
+
+          if (payload !== lastPayload) {
+            controller.enqueue(encoder.encode(`data: ${payload}\n\n`));
+            lastPayload = payload;
+          }
+
+          if (
+            isFinished(files) ||
+            Date.now() - startedAt > STREAM_MAX_DURATION_MS
+          ) {
+            break;
+          }
+
+          await new Promise((resolve) =>
+            setTimeout(resolve, STREAM_POLL_INTERVAL_MS),
+          );
+        }
+      } catch (err) {
+        statusLogger.error('Failed to stream upload progress.', err);
+      } finally {
+        controller.close();
+      }
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      Connection: 'keep-alive',
+      'Cache-Control': 'no-cache, no-transform',
+    },
+  });
+};
+
+/**
+ * Reports ingestion progress for `?ids=<fileId>,...`, with an entry for every
+ * ID; files that cannot be found are reported as failed. Returns JSON, or a
+ * server-sent event stream when the client accepts `text/event-stream`.
+ */
+export const GET = async (req: Request) => {
+  try {
+    const session = await getSessionFromRequest(req);
+
+    if (!session) {
+      return Response.json({ message: 'Unauthorized' }, { status: 401 });
+    }
+
+    const fileIds = parseFileIds(req);
+
+    if (fileIds.length === 0) {
+      return Response.json(
+        { message: 'No file IDs provided' },
+        { status: 400 },
+      );
+    }
+
+    const files = await getIngestionProgress(fileIds, session.user.id);
+
+    // Serverless instances stop when their request ends, so anyone waiting
+    // on queued work also gives the queue a chance to drain.
+    if (files.some((job) => job.status === 'queued')) {
+      after(drainIngestionQueue());
+    }
+
+    if (req.headers.get('accept')?.includes('text/event-stream')) {
+      return streamProgress(req, fileIds, session.user.id);
+    }
+
+    return Response.json({ files }, { status: 200 });
+  } catch (err) {
+    statusLogger.error('Failed to read upload progress.', err);
+    return Response.json(
+      { message: 'An error has occurred.' },
+      { status: 500 },
+    );
+  }
+};
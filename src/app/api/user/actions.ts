@@ -2,9 +2,11 @@
 
 import { headers } from 'next/headers';
 
+import { recordAuditEvent } from '@/lib/audit';
 import { auth, getSession } from '@/lib/auth/server';
 import { requireAdminPermission } from '@/lib/auth/permissions';
 import {
+  getUser,
   getUserAccountInfo,
   updateUserImage,
   updateUserProfileDetails,
@@ -209,11 +211,25 @@ export async function deleteUserAction(
   try {
     await requireAdminPermission('delete users');
 
+    const deletedUser = await getUser(parsed.data.userId);
+
     await auth.api.removeUser({
       body: { userId: parsed.data.userId },
       headers: await headers(),
     });
 
+    await recordAuditEvent({
+      action: 'user.deleted',
+      target: { type: 'user', id: parsed.data.userId },
+      before: deletedUser
+        ? {
+            name: deletedUser.name,
+            email: deletedUser.email,
+            role: deletedUser.role ?? null,
+          }
+        : null,
+    });
+
     return {
       success: true,
       message: 'User deleted successfully',
@@ -0,0 +1,70 @@
+import type { Metadata } from 'next';
+import Link from 'next/link';
+import { format } from 'date-fns';
+import { Link2Off } from 'lucide-react';
+
+import SharedChat from '@/components/SharedChat';
+import { getSharedChat } from '@/lib/share/server';
+
+export const metadata: Metadata = {
+  title: 'Shared conversation - Sora AI',
+  robots: { index: false, follow: false },
+};
+
+const UNAVAILABLE_MESSAGES = {
+  not_found: 'This share link does not exist.',
+  revoked: 'The owner has revoked this share link.',
+  expired: 'This share link has expired.',
+} as const;
+
+export default async function SharedChatPage({
+  params,
+}: {
+  params: Promise<{ token: string }>;
+}) {
+  const { token } = await params;
+  const result = await getSharedChat(token);
+
+  return (
+    <div className="min-h-screen w-full bg-light-primary dark:bg-dark-primary">
+      <header className="sticky top-0 z-40 border-b border-light-200/50 bg-light-primary/95 backdrop-blur-sm dark:border-dark-200/30 dark:bg-dark-primary/95">
+        <div className="mx-auto flex max-w-screen-lg items-center justify-between px-4 py-4 lg:px-6">
+          <Link
+            href="/"
+            className="text-sm font-semibold text-black/80 dark:text-white/80"
+          >
+            Sora AI
+          </Link>
+          <span className="rounded-full bg-light-secondary px-3 py-1 text-xs text-black/60 dark:bg-dark-secondary dark:text-white/60">
+            Read-only
+          </span>
+        </div>
+      </header>
+
+      <main className="mx-auto max-w-screen-lg px-4 pt-8 lg:px-6">
+        {result.status === 'active' ? (
+          <>
+            <div className="mb-10 space-y-1">
+              <h1 className="text-3xl font-medium text-black dark:text-white">
+                {result.chat.title}
+              </h1>
+              <p className="text-xs text-black/60 dark:text-white/60">
+                Started {format(result.chat.createdAt, 'PPP')}
+                {result.expiresAt &&
+                  ` · Link expires ${format(result.expiresAt, 'PPP p')}`}
+              </p>
+            </div>
+            <SharedChat messages={result.messages} />
+          </>
+        ) : (
+          <div className="flex min-h-[60vh] flex-col items-center justify-center gap-3 text-center">
+            <Link2Off className="text-black/40 dark:text-white/40" size={32} />
+            <p className="text-sm text-black/70 dark:text-white/70">
+              {UNAVAILABLE_MESSAGES[result.status]}
+            </p>
+          </div>
+        )}
+      </main>
+    </div>
+  );
+}
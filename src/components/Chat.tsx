@@ -7,7 +7,14 @@ import MessageBoxLoading from './MessageBoxLoading';
 import { useChat } from '@/lib/hooks/useChat';
 
 const Chat = () => {
-  const { sections, chatTurns, loading, messageAppeared } = useChat();
+  const {
+    sections,
+    chatTurns,
+    loading,
+    messageAppeared,
+    researchProgress,
+    toolCalls,
+  } = useChat();
 
   const [dividerWidth, setDividerWidth] = useState(0);
   const dividerRef = useRef<HTMLDivElement | null>(null);
@@ -71,7 +78,9 @@ const Chat = () => {
           </Fragment>
         );
       })}
-      {loading && !messageAppeared && <MessageBoxLoading />}
+      {loading && !messageAppeared && (
+        <MessageBoxLoading progress={researchProgress} toolCalls={toolCalls} />
+      )}
       <div ref={messageEnd} className="h-0" />
       {dividerWidth > 0 && (
         <div
@@ -12,10 +12,12 @@ import { authClient } from '@/lib/auth/client';
 import { isEditorRole } from '@/lib/auth/roles';
 import { type SupportedLocaleCode } from '@/lib/constants/locales';
 import { useLocale } from 'next-intl';
+import type { McpToolCall } from '@/lib/types/mcp';
 
 export interface BaseMessage {
   chatId: string;
   messageId: string;
+  parentMessageId?: string | null;
   createdAt: Date;
 }
 
@@ -23,6 +25,7 @@ export interface AssistantMessage extends BaseMessage {
   role: 'assistant';
   content: string;
   suggestions?: string[];
+  toolCalls?: McpToolCall[];
 }
 
 export interface UserMessage extends BaseMessage {
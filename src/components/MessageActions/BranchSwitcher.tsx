@@ -0,0 +1,47 @@
+import { ChevronLeft, ChevronRight } from 'lucide-react';
+
+const BranchSwitcher = ({
+  versions,
+  currentId,
+  onSelect,
+  disabled = false,
+}: {
+  versions: string[];
+  currentId: string;
+  onSelect: (messageId: string) => void;
+  disabled?: boolean;
+}) => {
+  const index = versions.indexOf(currentId);
+
+  if (versions.length < 2 || index === -1) {
+    return null;
+  }
+
+  return (
+    <div className="flex flex-row items-center text-xs font-medium text-black/70 dark:text-white/70">
+      <button
+        type="button"
+        aria-label="Previous version"
+        disabled={disabled || index === 0}
+        onClick={() => onSelect(versions[index - 1])}
+        className="p-1.5 rounded-lg hover:bg-light-secondary dark:hover:bg-dark-secondary transition duration-200 hover:text-black dark:hover:text-white disabled:opacity-40 disabled:pointer-events-none"
+      >
+        <ChevronLeft size={16} />
+      </button>
+      <span className="tabular-nums">
+        {index + 1}/{versions.length}
+      </span>
+      <button
+        type="button"
+        aria-label="Next version"
+        disabled={disabled || index === versions.length - 1}
+        onClick={() => onSelect(versions[index + 1])}
+        className="p-1.5 rounded-lg hover:bg-light-secondary dark:hover:bg-dark-secondary transition duration-200 hover:text-black dark:hover:text-white disabled:opacity-40 disabled:pointer-events-none"
+      >
+        <ChevronRight size={16} />
+      </button>
+    </div>
+  );
+};
+
+export default BranchSwitcher;
@@ -0,0 +1,44 @@
+import { FileSpreadsheet, FileText } from 'lucide-react';
+import { Section } from '@/lib/hooks/useChat';
+
+const EbmReportExport = ({
+  section,
+  chatId,
+}: {
+  section: Section;
+  chatId: string;
+}) => {
+  const reportSource = section.sourceMessage?.sources.find(
+    (source) => source.metadata?.type === 'ebm-batch-report',
+  );
+  const reportId = reportSource?.metadata?.reportId;
+
+  if (!reportId) {
+    return null;
+  }
+
+  const baseUrl = `/api/chats/${chatId}/ebm-reports/${reportId}`;
+
+  return (
+    <div className="flex flex-row items-center gap-2 pt-4">
+      <a
+        href={`${baseUrl}?format=csv`}
+        download
+        className="flex flex-row items-center gap-1.5 px-3 py-2 text-sm text-black/70 dark:text-white/70 rounded-xl bg-light-secondary dark:bg-dark-secondary hover:text-black dark:hover:text-white transition duration-200"
+      >
+        <FileText size={16} />
+        Export CSV
+      </a>
+      <a
+        href={`${baseUrl}?format=xlsx`}
+        download
+        className="flex flex-row items-center gap-1.5 px-3 py-2 text-sm text-black/70 dark:text-white/70 rounded-xl bg-light-secondary dark:bg-dark-secondary hover:text-black dark:hover:text-white transition duration-200"
+      >
+        <FileSpreadsheet size={16} />
+        Export XLSX
+      </a>
+    </div>
+  );
+};
+
+export default EbmReportExport;
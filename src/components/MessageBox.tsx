@@ -1,7 +1,8 @@
 'use client';
 
 /* eslint-disable @next/next/no-img-element */
-import React, { MutableRefObject } from 'react';
+import React, { MutableRefObject, useState } from 'react';
+import TextareaAutosize from 'react-textarea-autosize';
 import { cn } from '@/lib/utils';
 import {
   BookCopy,
@@ -10,10 +11,13 @@ import {
   StopCircle,
   Layers3,
   Plus,
+  Pencil,
 } from 'lucide-react';
 import Markdown, { MarkdownToJSX } from 'markdown-to-jsx';
 import Copy from './MessageActions/Copy';
 import Rewrite from './MessageActions/Rewrite';
+import BranchSwitcher from './MessageActions/BranchSwitcher';
+import EbmReportExport from './MessageActions/EbmReportExport';
 import MessageSources from './MessageSources';
 import SearchImages from './SearchImages';
 import SearchVideos from './SearchVideos';
@@ -21,6 +25,7 @@ import { useSpeech } from 'react-text-to-speech';
 import ThinkBox from './ThinkBox';
 import { useChat, Section } from '@/lib/hooks/useChat';
 import Citation from './Citation';
+import ToolCalls from './ToolCalls';
 
 const ThinkTagProcessor = ({
   children,
@@ -45,7 +50,17 @@ const MessageBox = ({
   dividerRef?: MutableRefObject<HTMLDivElement | null>;
   isLast: boolean;
 }) => {
-  const { loading, chatTurns, sendMessage, rewrite } = useChat();
+  const {
+    loading,
+    chatTurns,
+    sendMessage,
+    rewrite,
+    editMessage,
+    selectBranch,
+    chatId,
+  } = useChat();
+  const [isEditing, setIsEditing] = useState(false);
+  const [draft, setDraft] = useState('');
 
   const parsedMessage = section.parsedAssistantMessage || '';
   const speechMessage = section.speechMessage || '';
@@ -69,13 +84,84 @@ const MessageBox = ({
     },
   };
 
+  const submitEdit = () => {
+    if (!draft.trim()) return;
+
+    setIsEditing(false);
+    editMessage(section.userMessage.messageId, draft);
+  };
+
   return (
     <div className="space-y-6">
       <div className={'w-full pt-8 break-words'}>
         <div className={'flex justify-end w-full'}>
-          <h2 className="text-black dark:text-white font-medium text-xl text-left lg:w-9/12">
-            {section.userMessage.content}
-          </h2>
+          {isEditing ? (
+            <form
+              className="flex flex-col w-full lg:w-9/12 space-y-2"
+              onSubmit={(e) => {
+                e.preventDefault();
+                submitEdit();
+              }}
+            >
+              <TextareaAutosize
+                autoFocus
+                value={draft}
+                onChange={(e) => setDraft(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter' && !e.shiftKey) {
+                    e.preventDefault();
+                    submitEdit();
+                  } else if (e.key === 'Escape') {
+                    setIsEditing(false);
+                  }
+                }}
+                className="w-full resize-none rounded-xl border border-light-200 dark:border-dark-200 bg-light-secondary dark:bg-dark-secondary px-4 py-3 text-black dark:text-white focus:outline-none"
+              />
+              <div className="flex flex-row justify-end space-x-2">
+                <button
+                  type="button"
+                  onClick={() => setIsEditing(false)}
+                  className="px-3 py-1.5 text-sm rounded-xl text-black/70 dark:text-white/70 hover:bg-light-secondary dark:hover:bg-dark-secondary transition duration-200"
+                >
+                  Cancel
+                </button>
+                <button
+                  type="submit"
+                  disabled={!draft.trim() || loading}
+                  className="px-3 py-1.5 text-sm rounded-xl bg-[#24A0ED] text-white hover:bg-opacity-85 transition duration-200 disabled:opacity-50"
+                >
+                  Send
+                </button>
+              </div>
+            </form>
+          ) : (
+            <div className="group flex flex-col items-end lg:w-9/12">
+              <h2 className="w-full text-black dark:text-white font-medium text-xl text-left">
+                {section.userMessage.content}
+              </h2>
+              <div className="flex flex-row items-center space-x-1 pt-1">
+                <BranchSwitcher
+                  versions={section.questionVersions}
+                  currentId={section.userMessage.messageId}
+                  onSelect={selectBranch}
+                  disabled={loading}
+                />
+                {!loading && (
+                  <button
+                    type="button"
+                    aria-label="Edit question"
+                    onClick={() => {
+                      setDraft(section.userMessage.content);
+                      setIsEditing(true);
+                    }}
+                    className="p-1.5 text-black/70 dark:text-white/70 rounded-lg opacity-0 group-hover:opacity-100 focus:opacity-100 hover:bg-light-secondary dark:hover:bg-dark-secondary transition duration-200 hover:text-black dark:hover:text-white"
+                  >
+                    <Pencil size={14} />
+                  </button>
+                )}
+              </div>
+            </div>
+          )}
         </div>
       </div>
 
@@ -101,6 +187,10 @@ const MessageBox = ({
 
           {section.assistantMessage && (
             <>
+              {section.assistantMessage.toolCalls &&
+                section.assistantMessage.toolCalls.length > 0 && (
+                  <ToolCalls calls={section.assistantMessage.toolCalls} />
+                )}
               <Markdown
                 className={cn(
                   'prose prose-h1:mb-3 prose-h2:mb-2 prose-h2:mt-6 prose-h2:font-[800] prose-h3:mt-4 prose-h3:mb-1.5 prose-h3:font-[600] dark:prose-invert prose-p:leading-relaxed prose-pre:p-0 font-[400]',
@@ -118,6 +208,12 @@ const MessageBox = ({
                       rewrite={rewrite}
                       messageId={section.assistantMessage.messageId}
                     />
+                    <BranchSwitcher
+                      versions={section.answerVersions}
+                      currentId={section.assistantMessage.messageId}
+                      onSelect={selectBranch}
+                      disabled={loading}
+                    />
                   </div>
                   <div className="flex flex-row items-center space-x-1">
                     <Copy
@@ -155,6 +251,9 @@ const MessageBox = ({
                       </h3>
                     </div>
                     <MessageSources sources={section.sourceMessage.sources} />
+                    {chatId && (
+                      <EbmReportExport section={section} chatId={chatId} />
+                    )}
                   </div>
                 )}
 
@@ -1,4 +1,61 @@
-const MessageBoxLoading = () => {
+import { Check, Loader2 } from 'lucide-react';
+import type { ResearchProgress } from '@/lib/types/research';
+import type { McpToolCall } from '@/lib/types/mcp';
+import ToolCalls from './ToolCalls';
+
+const MessageBoxLoading = ({
+  progress = [],
+  toolCalls = [],
+}: {
+  progress?: ResearchProgress[];
+  toolCalls?: McpToolCall[];
+}) => {
+  if (toolCalls.length > 0 && progress.length === 0) {
+    return (
+      <div className="w-full lg:w-9/12">
+        <ToolCalls calls={toolCalls} defaultExpanded />
+      </div>
+    );
+  }
+
+  if (progress.length > 0) {
+    return (
+      <div className="flex flex-col space-y-2 w-full lg:w-9/12 rounded-lg border border-light-200 dark:border-dark-200 bg-light-primary dark:bg-dark-primary px-4 py-3">
+        <p className="text-xs font-medium uppercase tracking-wide text-black/50 dark:text-white/50">
+          Researching
+        </p>
+        {progress.map((step, index) => {
+          const isCurrent = index === progress.length - 1;
+          const details = step.queries ?? step.urls ?? [];
+
+          return (
+            <div key={index} className="flex flex-row items-start space-x-2">
+              {isCurrent ? (
+                <Loader2 className="mt-0.5 h-4 w-4 shrink-0 animate-spin text-sky-500" />
+              ) : (
+                <Check className="mt-0.5 h-4 w-4 shrink-0 text-green-500" />
+              )}
+              <div className="min-w-0">
+                <p className="text-sm text-black dark:text-white">
+                  {step.message}
+                </p>
+                {isCurrent &&
+                  details.map((detail) => (
+                    <p
+                      key={detail}
+                      className="truncate text-xs text-black/60 dark:text-white/60"
+                    >
+                      {detail}
+                    </p>
+                  ))}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    );
+  }
+
   return (
     <div className="flex flex-col space-y-2 w-full lg:w-9/12 bg-light-primary dark:bg-dark-primary animate-pulse rounded-lg py-3">
       <div className="h-2 rounded-full w-full bg-light-secondary dark:bg-dark-secondary" />
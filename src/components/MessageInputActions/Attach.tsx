@@ -8,11 +8,12 @@ import {
 import { File, LoaderCircle, Paperclip, Plus, Trash } from 'lucide-react';
 import { Fragment, useCallback, useEffect, useRef } from 'react';
 import { useChat } from '@/lib/hooks/useChat';
+import { SUPPORTED_UPLOAD_ACCEPT } from '@/lib/utils/uploads';
 import { useChatFileUploader } from '@/lib/hooks/useChatFileUploader';
 
 const Attach = () => {
   const { files, setFiles, setFileIds, autoOpenAttachmentSignal } = useChat();
-  const { uploadFiles, isUploading } = useChatFileUploader();
+  const { uploadFiles, isUploading, progressLabel } = useChatFileUploader();
   const fileInputRef = useRef<HTMLInputElement | null>(null);
   const lastAutoOpenSignalRef = useRef(0);
 
@@ -48,8 +49,11 @@ const Attach = () => {
   }, [autoOpenAttachmentSignal, isUploading]);
 
   return isUploading ? (
-    <div className="active:border-none hover:bg-light-200 hover:dark:bg-dark-200 p-2 rounded-lg focus:outline-none text-black/50 dark:text-white/50 transition duration-200">
+    <div className="flex items-center space-x-1.5 active:border-none hover:bg-light-200 hover:dark:bg-dark-200 p-2 rounded-lg focus:outline-none text-black/50 dark:text-white/50 transition duration-200">
       <LoaderCircle size={16} className="text-sky-400 animate-spin" />
+      {progressLabel && (
+        <span className="text-xs whitespace-nowrap">{progressLabel}</span>
+      )}
     </div>
   ) : files.length > 0 ? (
     <Popover className="relative w-full max-w-[15rem] md:max-w-md lg:max-w-lg">
@@ -88,7 +92,7 @@ const Attach = () => {
                     type="file"
                     onChange={handleChange}
                     ref={fileInputRef}
-                    accept=".pdf,.docx,.txt"
+                    accept={SUPPORTED_UPLOAD_ACCEPT}
                     multiple
                     hidden
                     disabled={isUploading}
@@ -148,7 +152,7 @@ const Attach = () => {
         type="file"
         onChange={handleChange}
         ref={fileInputRef}
-        accept=".pdf,.docx,.txt"
+        accept={SUPPORTED_UPLOAD_ACCEPT}
         multiple
         hidden
         disabled={isUploading}
@@ -13,46 +13,26 @@ import {
   Plus,
   Trash,
 } from 'lucide-react';
-import { Fragment, useRef, useState } from 'react';
-import { File as FileType } from '../ChatWindow';
+import { Fragment, useRef } from 'react';
 import { useChat } from '@/lib/hooks/useChat';
+import { useChatFileUploader } from '@/lib/hooks/useChatFileUploader';
+import { SUPPORTED_UPLOAD_ACCEPT } from '@/lib/utils/uploads';
 
 const AttachSmall = () => {
-  const { files, setFiles, setFileIds, fileIds } = useChat();
-
-  const [loading, setLoading] = useState(false);
+  const { files, setFiles, setFileIds } = useChat();
+  const { uploadFiles, isUploading, progressLabel } = useChatFileUploader();
   const fileInputRef = useRef<HTMLInputElement | null>(null);
 
   const handleChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
-    setLoading(true);
-    const data = new FormData();
-
-    for (let i = 0; i < e.target.files!.length; i++) {
-      data.append('files', e.target.files![i]);
-    }
-
-    const embeddingModelProvider = localStorage.getItem(
-      'embeddingModelProviderId',
-    );
-    const embeddingModel = localStorage.getItem('embeddingModelKey');
-
-    data.append('embedding_model_provider_id', embeddingModelProvider!);
-    data.append('embedding_model_key', embeddingModel!);
-
-    const res = await fetch(`/api/uploads`, {
-      method: 'POST',
-      body: data,
-    });
-
-    const resData = await res.json();
-
-    setFiles([...files, ...resData.files]);
-    setFileIds([...fileIds, ...resData.files.map((file: any) => file.fileId)]);
-    setLoading(false);
+    await uploadFiles(e.target.files);
+    e.target.value = '';
   };
 
-  return loading ? (
-    <div className="flex flex-row items-center justify-between space-x-1 p-1 ">
+  return isUploading ? (
+    <div
+      className="flex flex-row items-center justify-between space-x-1 p-1 "
+      title={progressLabel ?? undefined}
+    >
       <LoaderCircle size={20} className="text-sky-400 animate-spin" />
     </div>
   ) : files.length > 0 ? (
@@ -88,7 +68,7 @@ const AttachSmall = () => {
                     type="file"
                     onChange={handleChange}
                     ref={fileInputRef}
-                    accept=".pdf,.docx,.txt"
+                    accept={SUPPORTED_UPLOAD_ACCEPT}
                     multiple
                     hidden
                   />
@@ -144,7 +124,7 @@ const AttachSmall = () => {
         type="file"
         onChange={handleChange}
         ref={fileInputRef}
-        accept=".pdf,.docx,.txt"
+        accept={SUPPORTED_UPLOAD_ACCEPT}
         multiple
         hidden
       />
@@ -24,8 +24,8 @@ const OptimizationModes = [
   },
   {
     key: 'quality',
-    title: 'Quality (Soon)',
-    description: 'Get the most thorough and accurate answer',
+    title: 'Quality',
+    description: 'Research in depth and cross-check several sources',
     icon: (
       <Star
         size={16}
@@ -75,13 +75,11 @@ const Optimization = () => {
                   <PopoverButton
                     onClick={() => setOptimizationMode(mode.key)}
                     key={i}
-                    disabled={mode.key === 'quality'}
                     className={cn(
                       'p-2 rounded-lg flex flex-col items-start justify-start text-start space-y-1 duration-200 cursor-pointer transition focus:outline-none',
                       optimizationMode === mode.key
                         ? 'bg-light-secondary dark:bg-dark-secondary'
                         : 'hover:bg-light-secondary dark:hover:bg-dark-secondary',
-                      mode.key === 'quality' && 'opacity-50 cursor-not-allowed',
                     )}
                   >
                     <div className="flex flex-row items-center space-x-1 text-black dark:text-white">
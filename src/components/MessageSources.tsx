@@ -10,6 +10,12 @@ import { Document } from '@langchain/core/documents';
 import { File } from 'lucide-react';
 import { Fragment, useState } from 'react';
 
+/** Web sources show their domain; file chunks show the page they came from. */
+const formatSourceLabel = (source: Document) =>
+  typeof source.metadata.pageNumber === 'number'
+    ? `${source.metadata.url} · p. ${source.metadata.pageNumber}`
+    : source.metadata.url.replace(/.+\/\/|www.|\..+/g, '');
+
 const MessageSources = ({ sources }: { sources: Document[] }) => {
   const [isDialogOpen, setIsDialogOpen] = useState(false);
 
@@ -51,7 +57,7 @@ const MessageSources = ({ sources }: { sources: Document[] }) => {
                 />
               )}
               <p className="text-xs text-black/50 dark:text-white/50 overflow-hidden whitespace-nowrap text-ellipsis">
-                {source.metadata.url.replace(/.+\/\/|www.|\..+/g, '')}
+                {formatSourceLabel(source)}
               </p>
             </div>
             <div className="flex flex-row items-center space-x-1 text-black/50 dark:text-white/50 text-xs">
@@ -136,10 +142,7 @@ const MessageSources = ({ sources }: { sources: Document[] }) => {
                               />
                             )}
                             <p className="text-xs text-black/50 dark:text-white/50 overflow-hidden whitespace-nowrap text-ellipsis">
-                              {source.metadata.url.replace(
-                                /.+\/\/|www.|\..+/g,
-                                '',
-                              )}
+                              {formatSourceLabel(source)}
                             </p>
                           </div>
                           <div className="flex flex-row items-center space-x-1 text-black/50 dark:text-white/50 text-xs">
@@ -0,0 +1,68 @@
+'use client';
+
+import { FolderKanban } from 'lucide-react';
+import { useState } from 'react';
+import { toast } from 'sonner';
+import type { ProjectListItem } from '@/types/project';
+
+interface ChatProjectSelectProps {
+  chatId: string;
+  projectId: string | null;
+  projects: Pick<ProjectListItem, 'id' | 'name'>[];
+  onChange: (projectId: string | null) => void;
+}
+
+const ChatProjectSelect = ({
+  chatId,
+  projectId,
+  projects,
+  onChange,
+}: ChatProjectSelectProps) => {
+  const [saving, setSaving] = useState(false);
+
+  const moveChat = async (nextProjectId: string | null) => {
+    setSaving(true);
+    try {
+      const res = await fetch(`/api/chats/${chatId}`, {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ projectId: nextProjectId }),
+      });
+
+      if (res.status != 200) {
+        const data = await res.json().catch(() => ({}));
+        throw new Error(data.message ?? 'Failed to move chat');
+      }
+
+      onChange(nextProjectId);
+    } catch (err: any) {
+      toast.error(err.message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <label className="flex items-center gap-1 text-black/70 dark:text-white/70">
+      <FolderKanban size={15} />
+      <select
+        value={projectId ?? ''}
+        disabled={saving}
+        onChange={(event) => moveChat(event.target.value || null)}
+        className="max-w-[10rem] truncate bg-transparent text-xs outline-none disabled:opacity-60"
+        aria-label="Project"
+      >
+        <option value="">No project</option>
+        {projects.map((project) => (
+          <option key={project.id} value={project.id}>
+            {project.name}
+          </option>
+        ))}
+      </select>
+    </label>
+  );
+};
+
+export default ChatProjectSelect;
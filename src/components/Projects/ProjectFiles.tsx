@@ -0,0 +1,152 @@
+'use client';
+
+import { FileText, Loader2, Plus, Trash } from 'lucide-react';
+import { useRef, useState } from 'react';
+import { toast } from 'sonner';
+import { authClient } from '@/lib/auth/client';
+import { canUploadFiles } from '@/lib/auth/client-permissions';
+import {
+  formatIngestionProgress,
+  SUPPORTED_UPLOAD_ACCEPT,
+  uploadDocuments,
+} from '@/lib/utils/uploads';
+import type { IngestionProgress } from '@/types/ingestion';
+import type { ProjectFile } from '@/types/project';
+
+interface ProjectFilesProps {
+  files: ProjectFile[];
+  onChange: (fileIds: string[]) => Promise<boolean>;
+}
+
+const ProjectFiles = ({ files, onChange }: ProjectFilesProps) => {
+  const { data: session } = authClient.useSession();
+  const inputRef = useRef<HTMLInputElement | null>(null);
+  const [uploading, setUploading] = useState(false);
+  const [progress, setProgress] = useState<IngestionProgress[]>([]);
+  const [removing, setRemoving] = useState<string | null>(null);
+
+  const canUpload = canUploadFiles(session?.user.role);
+
+  const handleUpload = async (input: FileList | null) => {
+    const selected = Array.from(input ?? []);
+    if (selected.length === 0) {
+      return;
+    }
+
+    setUploading(true);
+    try {
+      const uploaded = await uploadDocuments(selected, {
+        onProgress: setProgress,
+      });
+      if (!uploaded) {
+        return;
+      }
+
+      const saved = await onChange([
+        ...files.map((file) => file.fileId),
+        ...uploaded.map((file) => file.fileId),
+      ]);
+      if (saved) {
+        toast.success(
+          uploaded.length === 1
+            ? 'File added to the project.'
+            : `${uploaded.length} files added to the project.`,
+        );
+      }
+    } catch (error) {
+      console.error('Failed to upload project files', error);
+      toast.error('An unexpected error occurred while uploading files.');
+    } finally {
+      setUploading(false);
+      setProgress([]);
+      if (inputRef.current) {
+        inputRef.current.value = '';
+      }
+    }
+  };
+
+  const removeFile = async (fileId: string) => {
+    setRemoving(fileId);
+    try {
+      await onChange(
+        files.map((file) => file.fileId).filter((id) => id !== fileId),
+      );
+    } finally {
+      setRemoving(null);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-lg font-medium text-black dark:text-white">
+            Files
+          </h2>
+          <p className="text-xs text-black/60 dark:text-white/60">
+            Available to every chat in this project.
+          </p>
+        </div>
+        {canUpload && (
+          <>
+            <input
+              ref={inputRef}
+              type="file"
+              multiple
+              hidden
+              accept={SUPPORTED_UPLOAD_ACCEPT}
+              onChange={(event) => handleUpload(event.target.files)}
+            />
+            <button
+              type="button"
+              disabled={uploading}
+              onClick={() => inputRef.current?.click()}
+              className="inline-flex items-center gap-1.5 rounded-full border border-light-200/70 px-3 py-1.5 text-sm text-black transition hover:bg-light-secondary disabled:opacity-60 dark:border-dark-200/70 dark:text-white dark:hover:bg-dark-secondary"
+            >
+              {uploading ? (
+                <Loader2 size={14} className="animate-spin" />
+              ) : (
+                <Plus size={14} />
+              )}
+              {uploading ? formatIngestionProgress(progress) : 'Add files'}
+            </button>
+          </>
+        )}
+      </div>
+      {files.length === 0 ? (
+        <p className="text-sm text-black/70 dark:text-white/70">
+          No files yet.
+        </p>
+      ) : (
+        <ul className="divide-y divide-light-200 rounded-xl border border-light-200/70 dark:divide-dark-200 dark:border-dark-200/70">
+          {files.map((file) => (
+            <li
+              key={file.fileId}
+              className="flex items-center justify-between gap-3 px-3 py-2"
+            >
+              <span className="flex min-w-0 items-center gap-2 text-sm text-black dark:text-white">
+                <FileText size={16} className="shrink-0 text-sky-500" />
+                <span className="truncate">{file.name}</span>
+              </span>
+              <button
+                type="button"
+                aria-label={`Remove ${file.name}`}
+                disabled={removing === file.fileId}
+                onClick={() => removeFile(file.fileId)}
+                className="text-red-400 transition hover:scale-105 disabled:opacity-60"
+              >
+                {removing === file.fileId ? (
+                  <Loader2 size={16} className="animate-spin" />
+                ) : (
+                  <Trash size={16} />
+                )}
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default ProjectFiles;
@@ -0,0 +1,202 @@
+import { Dialog, DialogPanel } from '@headlessui/react';
+import { Loader2, MessageSquareText } from 'lucide-react';
+import { useState } from 'react';
+import { AnimatePresence, motion } from 'framer-motion';
+import { toast } from 'sonner';
+import type {
+  MCPServerClientInfo,
+  McpServerCustomization,
+} from '@/lib/types/mcp';
+
+const textareaClassName =
+  'w-full rounded-lg border border-light-200 dark:border-dark-200 bg-light-primary dark:bg-dark-primary px-4 py-3 text-[13px] text-black/80 dark:text-white/80 placeholder:text-black/40 dark:placeholder:text-white/40 focus-visible:outline-none focus-visible:border-light-300 dark:focus-visible:border-dark-300 transition-colors disabled:cursor-not-allowed disabled:opacity-60';
+
+/** Lets a user tell the assistant how to use a server and each of its tools. */
+const McpInstructionsDialog = ({ server }: { server: MCPServerClientInfo }) => {
+  const [open, setOpen] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [serverPrompt, setServerPrompt] = useState('');
+  const [toolPrompts, setToolPrompts] = useState<Record<string, string>>({});
+
+  const openDialog = async () => {
+    setOpen(true);
+    setLoading(true);
+    try {
+      const res = await fetch(`/api/mcp/${server.id}/instructions`);
+
+      if (!res.ok) {
+        throw new Error('Failed to load instructions');
+      }
+
+      const instructions: McpServerCustomization = (await res.json())
+        .instructions;
+
+      setServerPrompt(instructions.serverPrompt);
+      setToolPrompts(
+        Object.fromEntries(
+          instructions.tools.map((tool) => [tool.toolName, tool.prompt]),
+        ),
+      );
+    } catch (error) {
+      console.error('Error loading MCP instructions:', error);
+      toast.error('Failed to load instructions.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    try {
+      const res = await fetch(`/api/mcp/${server.id}/instructions`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          serverPrompt,
+          tools: Object.entries(toolPrompts).map(([toolName, prompt]) => ({
+            toolName,
+            prompt,
+          })),
+        }),
+      });
+
+      if (!res.ok) {
+        throw new Error('Failed to save instructions');
+      }
+
+      setOpen(false);
+      toast.success('Instructions saved.');
+    } catch (error) {
+      console.error('Error saving MCP instructions:', error);
+      toast.error('Failed to save instructions.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <>
+      <button
+        onClick={(e) => {
+          e.stopPropagation();
+          openDialog();
+        }}
+        className="group p-1.5 rounded-md hover:bg-light-200 hover:dark:bg-dark-200 transition-colors"
+        title="Custom instructions"
+      >
+        <MessageSquareText
+          size={14}
+          className="text-black/60 dark:text-white/60 group-hover:text-black/80 group-hover:dark:text-white/80"
+        />
+      </button>
+      <AnimatePresence>
+        {open && (
+          <Dialog
+            static
+            open={open}
+            onClose={() => setOpen(false)}
+            className="relative z-[60]"
+          >
+            <motion.div
+              initial={{ opacity: 0 }}
+              animate={{ opacity: 1 }}
+              exit={{ opacity: 0 }}
+              transition={{ duration: 0.1 }}
+              className="fixed inset-0 flex w-screen items-center justify-center p-4 bg-black/30 backdrop-blur-sm"
+            >
+              <DialogPanel className="w-full mx-4 lg:w-[600px] max-h-[85vh] flex flex-col border bg-light-primary dark:bg-dark-primary border-light-secondary dark:border-dark-secondary rounded-lg">
+                <form
+                  onSubmit={handleSubmit}
+                  className="flex flex-col flex-1 overflow-hidden"
+                >
+                  <div className="px-6 pt-6 pb-4">
+                    <h3 className="text-black/90 dark:text-white/90 font-medium text-sm">
+                      Instructions for {server.name}
+                    </h3>
+                    <p className="text-xs text-black/50 dark:text-white/50 mt-1">
+                      Only you see these. They are added to the assistant&apos;s
+                      prompt whenever it can use this server.
+                    </p>
+                  </div>
+                  <div className="border-t border-light-200 dark:border-dark-200" />
+                  <div className="flex-1 overflow-y-auto px-6 py-4">
+                    {loading ? (
+                      <div className="flex items-center justify-center py-8">
+                        <Loader2
+                          size={18}
+                          className="animate-spin text-black/50 dark:text-white/50"
+                        />
+                      </div>
+                    ) : (
+                      <div className="flex flex-col space-y-4">
+                        <div className="flex flex-col items-start space-y-2">
+                          <label className="text-xs text-black/70 dark:text-white/70">
+                            Server instructions
+                          </label>
+                          <textarea
+                            value={serverPrompt}
+                            onChange={(e) => setServerPrompt(e.target.value)}
+                            className={textareaClassName}
+                            placeholder="e.g., Always search the docs before creating a ticket."
+                            rows={3}
+                          />
+                        </div>
+                        {server.toolInfo.map((tool) => (
+                          <div
+                            key={tool.name}
+                            className="flex flex-col items-start space-y-2"
+                          >
+                            <label className="text-xs text-black/70 dark:text-white/70 font-mono">
+                              {tool.name}
+                            </label>
+                            {tool.description && (
+                              <p className="text-[11px] text-black/50 dark:text-white/50 line-clamp-2">
+                                {tool.description}
+                              </p>
+                            )}
+                            <textarea
+                              value={toolPrompts[tool.name] ?? ''}
+                              onChange={(e) =>
+                                setToolPrompts((prev) => ({
+                                  ...prev,
+                                  [tool.name]: e.target.value,
+                                }))
+                              }
+                              className={textareaClassName}
+                              placeholder="How should the assistant use this tool?"
+                              rows={2}
+                            />
+                          </div>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                  <div className="border-t border-light-200 dark:border-dark-200" />
+                  <div className="px-6 py-4 flex justify-end">
+                    <button
+                      type="submit"
+                      disabled={saving || loading}
+                      className="px-4 py-2 rounded-lg text-[13px] bg-sky-500 text-white font-medium disabled:opacity-85 hover:opacity-85 active:scale-95 transition duration-200"
+                    >
+                      {saving ? (
+                        <Loader2 className="animate-spin" size={16} />
+                      ) : (
+                        'Save Instructions'
+                      )}
+                    </button>
+                  </div>
+                </form>
+              </DialogPanel>
+            </motion.div>
+          </Dialog>
+        )}
+      </AnimatePresence>
+    </>
+  );
+};
+
+export default McpInstructionsDialog;
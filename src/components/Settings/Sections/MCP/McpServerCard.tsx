@@ -0,0 +1,304 @@
+import { Switch } from '@headlessui/react';
+import {
+  AlertCircle,
+  Globe,
+  KeyRound,
+  Loader2,
+  RefreshCw,
+  Server,
+  Trash2,
+} from 'lucide-react';
+import { useEffect, useState } from 'react';
+import { toast } from 'sonner';
+import { cn } from '@/lib/utils';
+import type { MCPServerClientInfo } from '@/lib/types/mcp';
+import McpInstructionsDialog from './McpInstructionsDialog';
+import McpServerDialog from './McpServerDialog';
+
+const statusStyles: Record<MCPServerClientInfo['status'], string> = {
+  connected: 'bg-green-500',
+  loading: 'bg-amber-400 animate-pulse',
+  authorizing: 'bg-amber-400 animate-pulse',
+  disconnected: 'bg-black/30 dark:bg-white/30',
+};
+
+const statusLabels: Record<MCPServerClientInfo['status'], string> = {
+  connected: 'Connected',
+  loading: 'Connecting',
+  authorizing: 'Waiting for authorization',
+  disconnected: 'Disconnected',
+};
+
+const McpServerCard = ({
+  server,
+  canUseStdio,
+  setServers,
+}: {
+  server: MCPServerClientInfo;
+  canUseStdio: boolean;
+  setServers: React.Dispatch<React.SetStateAction<MCPServerClientInfo[]>>;
+}) => {
+  const [busy, setBusy] = useState(false);
+
+  const replaceServer = (updated: MCPServerClientInfo) =>
+    setServers((prev) =>
+      prev.map((item) => (item.id === updated.id ? updated : item)),
+    );
+
+  const request = async (
+    input: string,
+    init: RequestInit,
+    failureMessage: string,
+  ) => {
+    setBusy(true);
+    try {
+      const res = await fetch(input, {
+        ...init,
+        headers: {
+          'Content-Type': 'application/json',
+        },
+      });
+
+      if (!res.ok) {
+        throw new Error(failureMessage);
+      }
+
+      return await res.json();
+    } catch (error) {
+      console.error(failureMessage, error);
+      toast.error(failureMessage);
+      return null;
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleToggle = async (enabled: boolean) => {
+    const data = await request(
+      `/api/mcp/${server.id}`,
+      { method: 'PATCH', body: JSON.stringify({ enabled }) },
+      'Failed to update MCP server.',
+    );
+    if (data) {
+      replaceServer(data.server);
+    }
+  };
+
+  const handleRefresh = async () => {
+    const data = await request(
+      `/api/mcp/${server.id}/refresh`,
+      { method: 'POST' },
+      'Failed to refresh MCP server.',
+    );
+    if (data) {
+      replaceServer(data.server);
+    }
+  };
+
+  // The OAuth callback popup reports back here once the user has authorized.
+  useEffect(() => {
+    const handleMessage = async (event: MessageEvent) => {
+      if (
+        event.origin !== window.location.origin ||
+        event.data?.type !== 'mcp-oauth' ||
+        event.data.serverId !== server.id
+      ) {
+        return;
+      }
+
+      if (event.data.success) {
+        toast.success(`${server.name} authorized.`);
+      } else {
+        toast.error(event.data.message ?? 'Authorization failed.');
+      }
+
+      const data = await request(
+        `/api/mcp/${server.id}`,
+        { method: 'GET' },
+        'Failed to load MCP server.',
+      );
+      if (data) {
+        replaceServer(data.server);
+      }
+    };
+
+    window.addEventListener('message', handleMessage);
+    return () => window.removeEventListener('message', handleMessage);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [server.id, server.name]);
+
+  const handleAuthorize = () => {
+    if (!server.authorizationUrl) {
+      return;
+    }
+
+    const popup = window.open(
+      server.authorizationUrl,
+      'mcp-oauth',
+      'width=600,height=720',
+    );
+
+    if (!popup) {
+      window.location.href = server.authorizationUrl;
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!window.confirm(`Delete the MCP server "${server.name}"?`)) {
+      return;
+    }
+
+    const data = await request(
+      `/api/mcp/${server.id}`,
+      { method: 'DELETE' },
+      'Failed to delete MCP server.',
+    );
+    if (data) {
+      setServers((prev) => prev.filter((item) => item.id !== server.id));
+      toast.success('MCP server deleted.');
+    }
+  };
+
+  return (
+    <div className="border border-light-200 dark:border-dark-200 rounded-lg overflow-hidden bg-light-primary dark:bg-dark-primary">
+      <div className="px-5 py-3.5 flex flex-row justify-between w-full items-center border-b border-light-200 dark:border-dark-200 bg-light-secondary/30 dark:bg-dark-secondary/30">
+        <div className="flex items-center gap-2.5">
+          <div className="p-1.5 rounded-md bg-sky-500/10 dark:bg-sky-500/10">
+            <Server size={14} className="text-sky-500" />
+          </div>
+          <div className="flex flex-col">
+            <div className="flex flex-row items-center gap-1.5">
+              <p className="text-sm lg:text-sm text-black dark:text-white font-medium">
+                {server.name}
+              </p>
+              {server.visibility === 'public' && (
+                <span
+                  title="Shared with everyone in this workspace"
+                  className="flex flex-row items-center gap-1 rounded-full bg-light-secondary dark:bg-dark-secondary px-2 py-0.5 text-[10px] text-black/60 dark:text-white/60"
+                >
+                  <Globe size={10} />
+                  Shared
+                </span>
+              )}
+            </div>
+            <p className="flex flex-row items-center gap-1.5 text-[10px] lg:text-[11px] text-black/50 dark:text-white/50">
+              <span
+                className={cn(
+                  'inline-block w-1.5 h-1.5 rounded-full',
+                  server.enabled
+                    ? statusStyles[server.status]
+                    : statusStyles.disconnected,
+                )}
+              />
+              {server.enabled ? statusLabels[server.status] : 'Disabled'}
+              {server.status === 'connected' &&
+                ` · ${server.toolInfo.length} tool${server.toolInfo.length !== 1 ? 's' : ''}`}
+            </p>
+          </div>
+        </div>
+        <div className="flex flex-row items-center gap-1">
+          {busy && (
+            <Loader2
+              size={14}
+              className="animate-spin text-black/50 dark:text-white/50 mr-1"
+            />
+          )}
+          {server.enabled && (
+            <button
+              onClick={handleRefresh}
+              disabled={busy}
+              className="group p-1.5 rounded-md hover:bg-light-200 hover:dark:bg-dark-200 transition-colors"
+              title="Reconnect and reload tools"
+            >
+              <RefreshCw
+                size={14}
+                className="text-black/60 dark:text-white/60 group-hover:text-black/80 group-hover:dark:text-white/80"
+              />
+            </button>
+          )}
+          <McpInstructionsDialog server={server} />
+          {server.canEdit && (
+            <>
+              <McpServerDialog
+                server={server}
+                canUseStdio={canUseStdio}
+                onSaved={replaceServer}
+              />
+              <button
+                onClick={handleDelete}
+                disabled={busy}
+                className="group p-1.5 rounded-md hover:bg-light-200 hover:dark:bg-dark-200 transition-colors"
+                title="Delete server"
+              >
+                <Trash2
+                  size={14}
+                  className="text-black/60 dark:text-white/60 group-hover:text-red-500 group-hover:dark:text-red-400"
+                />
+              </button>
+              <Switch
+                checked={server.enabled}
+                onChange={handleToggle}
+                disabled={busy}
+                className="group relative flex h-5 w-9 ml-1 shrink-0 cursor-pointer rounded-full bg-light-200 dark:bg-white/10 p-0.5 duration-200 ease-in-out focus:outline-none transition-colors disabled:opacity-60 disabled:cursor-not-allowed data-[checked]:bg-sky-500"
+              >
+                <span
+                  aria-hidden="true"
+                  className="pointer-events-none inline-block size-4 translate-x-0 rounded-full bg-white shadow-lg ring-0 transition duration-200 ease-in-out group-data-[checked]:translate-x-4"
+                />
+              </Switch>
+            </>
+          )}
+        </div>
+      </div>
+      <div className="flex flex-col gap-y-2 px-5 py-4">
+        {server.enabled && server.status === 'authorizing' ? (
+          <div className="flex flex-row items-center justify-between gap-3 text-xs lg:text-xs text-amber-600 dark:text-amber-400 rounded-lg bg-amber-50 dark:bg-amber-950/20 px-3 py-2 border border-amber-200 dark:border-amber-900/30">
+            <div className="flex flex-row items-center gap-2">
+              <KeyRound size={16} className="shrink-0" />
+              <span>
+                {server.canEdit
+                  ? 'This server needs you to sign in before its tools can be used.'
+                  : 'Waiting for the owner to authorize this server.'}
+              </span>
+            </div>
+            {server.authorizationUrl && (
+              <button
+                onClick={handleAuthorize}
+                className="shrink-0 px-3 py-1 rounded-lg text-xs bg-sky-500 text-white font-medium hover:opacity-85 active:scale-95 transition duration-200"
+              >
+                Authorize
+              </button>
+            )}
+          </div>
+        ) : server.enabled && server.error ? (
+          <div className="flex flex-row items-center gap-2 text-xs lg:text-xs text-red-500 dark:text-red-400 rounded-lg bg-red-50 dark:bg-red-950/20 px-3 py-2 border border-red-200 dark:border-red-900/30">
+            <AlertCircle size={16} className="shrink-0" />
+            <span className="break-words">{String(server.error)}</span>
+          </div>
+        ) : server.toolInfo.length === 0 ? (
+          <div className="flex flex-col items-center justify-center py-4 px-4 rounded-lg border-2 border-dashed border-light-200 dark:border-dark-200 bg-light-secondary/20 dark:bg-dark-secondary/20">
+            <p className="text-xs text-black/50 dark:text-white/50 text-center">
+              {server.enabled
+                ? 'This server does not expose any tools'
+                : 'Enable the server to load its tools'}
+            </p>
+          </div>
+        ) : (
+          <div className="flex flex-row flex-wrap gap-2">
+            {server.toolInfo.map((tool) => (
+              <span
+                key={`${server.id}-tool-${tool.name}`}
+                title={tool.description}
+                className="text-xs lg:text-xs text-black/70 dark:text-white/70 rounded-lg bg-light-secondary dark:bg-dark-secondary px-3 py-1.5 border border-light-200 dark:border-dark-200 font-mono"
+              >
+                {tool.name}
+              </span>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default McpServerCard;
@@ -0,0 +1,337 @@
+import { Dialog, DialogPanel } from '@headlessui/react';
+import { Loader2, Pencil, Plus } from 'lucide-react';
+import { useState } from 'react';
+import { AnimatePresence, motion } from 'framer-motion';
+import { toast } from 'sonner';
+import Select from '@/components/ui/Select';
+import {
+  isMCPStdioConfig,
+  type MCPServerClientInfo,
+  type MCPServerConfig,
+} from '@/lib/types/mcp';
+
+type Transport = 'remote' | 'stdio';
+
+const inputClassName =
+  'w-full rounded-lg border border-light-200 dark:border-dark-200 bg-light-primary dark:bg-dark-primary px-4 py-3 text-[13px] text-black/80 dark:text-white/80 placeholder:text-black/40 dark:placeholder:text-white/40 focus-visible:outline-none focus-visible:border-light-300 dark:focus-visible:border-dark-300 transition-colors disabled:cursor-not-allowed disabled:opacity-60';
+
+/** Parses `Key: value` (headers) or `KEY=value` (env) lines into a record. */
+const parsePairs = (value: string, separator: ':' | '=') =>
+  value
+    .split('\n')
+    .map((line) => line.trim())
+    .filter(Boolean)
+    .reduce<Record<string, string>>((pairs, line) => {
+      const index = line.indexOf(separator);
+      if (index > 0) {
+        pairs[line.slice(0, index).trim()] = line.slice(index + 1).trim();
+      }
+      return pairs;
+    }, {});
+
+const formatPairs = (
+  pairs: Record<string, string> | undefined,
+  separator: ': ' | '=',
+) =>
+  Object.entries(pairs ?? {})
+    .map(([key, value]) => `${key}${separator}${value}`)
+    .join('\n');
+
+const McpServerDialog = ({
+  server,
+  canUseStdio,
+  onSaved,
+}: {
+  server?: MCPServerClientInfo;
+  canUseStdio: boolean;
+  onSaved: (server: MCPServerClientInfo) => void;
+}) => {
+  const initialConfig = server?.config;
+  const initialStdio = initialConfig ? isMCPStdioConfig(initialConfig) : false;
+
+  const [open, setOpen] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [name, setName] = useState(server?.name ?? '');
+  const [visibility, setVisibility] = useState<'public' | 'private'>(
+    server?.visibility ?? 'private',
+  );
+  const [transport, setTransport] = useState<Transport>(
+    initialStdio ? 'stdio' : 'remote',
+  );
+  const [url, setUrl] = useState(
+    initialConfig && !isMCPStdioConfig(initialConfig) ? initialConfig.url : '',
+  );
+  const [headers, setHeaders] = useState(
+    initialConfig && !isMCPStdioConfig(initialConfig)
+      ? formatPairs(initialConfig.headers, ': ')
+      : '',
+  );
+  const [command, setCommand] = useState(
+    initialConfig && isMCPStdioConfig(initialConfig)
+      ? initialConfig.command
+      : '',
+  );
+  const [args, setArgs] = useState(
+    initialConfig && isMCPStdioConfig(initialConfig)
+      ? (initialConfig.args ?? []).join('\n')
+      : '',
+  );
+  const [env, setEnv] = useState(
+    initialConfig && isMCPStdioConfig(initialConfig)
+      ? formatPairs(initialConfig.env, '=')
+      : '',
+  );
+
+  const buildConfig = (): MCPServerConfig =>
+    transport === 'stdio'
+      ? {
+          command: command.trim(),
+          args: args
+            .split('\n')
+            .map((arg) => arg.trim())
+            .filter(Boolean),
+          env: parsePairs(env, '='),
+        }
+      : { url: url.trim(), headers: parsePairs(headers, ':') };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setLoading(true);
+    try {
+      const res = await fetch(server ? `/api/mcp/${server.id}` : '/api/mcp', {
+        method: server ? 'PATCH' : 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          name,
+          visibility,
+          config: buildConfig(),
+        }),
+      });
+
+      const data = await res.json().catch(() => ({}));
+
+      if (!res.ok) {
+        throw new Error(data.message ?? 'Failed to save MCP server');
+      }
+
+      onSaved(data.server);
+      setOpen(false);
+      toast.success(server ? 'MCP server updated.' : 'MCP server added.');
+    } catch (error) {
+      console.error('Error saving MCP server:', error);
+      toast.error(
+        error instanceof Error ? error.message : 'Failed to save MCP server.',
+      );
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <>
+      {server ? (
+        <button
+          onClick={(e) => {
+            e.stopPropagation();
+            setOpen(true);
+          }}
+          className="group p-1.5 rounded-md hover:bg-light-200 hover:dark:bg-dark-200 transition-colors"
+          title="Edit server"
+        >
+          <Pencil
+            size={14}
+            className="text-black/60 dark:text-white/60 group-hover:text-black/80 group-hover:dark:text-white/80"
+          />
+        </button>
+      ) : (
+        <button
+          onClick={() => setOpen(true)}
+          className="px-3 md:px-4 py-1.5 md:py-2 rounded-lg text-xs sm:text-xs border border-light-200 dark:border-dark-200 text-black dark:text-white bg-light-secondary/50 dark:bg-dark-secondary/50 hover:bg-light-secondary hover:dark:bg-dark-secondary hover:border-light-300 hover:dark:border-dark-300 flex flex-row items-center space-x-1 active:scale-95 transition duration-200"
+        >
+          <Plus className="w-3.5 h-3.5 md:w-4 md:h-4" />
+          <span>Add Server</span>
+        </button>
+      )}
+      <AnimatePresence>
+        {open && (
+          <Dialog
+            static
+            open={open}
+            onClose={() => setOpen(false)}
+            className="relative z-[60]"
+          >
+            <motion.div
+              initial={{ opacity: 0 }}
+              animate={{ opacity: 1 }}
+              exit={{ opacity: 0 }}
+              transition={{ duration: 0.1 }}
+              className="fixed inset-0 flex w-screen items-center justify-center p-4 bg-black/30 backdrop-blur-sm"
+            >
+              <DialogPanel className="w-full mx-4 lg:w-[600px] max-h-[85vh] flex flex-col border bg-light-primary dark:bg-dark-primary border-light-secondary dark:border-dark-secondary rounded-lg">
+                <form onSubmit={handleSubmit} className="flex flex-col flex-1">
+                  <div className="px-6 pt-6 pb-4">
+                    <h3 className="text-black/90 dark:text-white/90 font-medium text-sm">
+                      {server ? 'Edit MCP server' : 'Add MCP server'}
+                    </h3>
+                  </div>
+                  <div className="border-t border-light-200 dark:border-dark-200" />
+                  <div className="flex-1 overflow-y-auto px-6 py-4">
+                    <div className="flex flex-col space-y-4">
+                      <div className="flex flex-col items-start space-y-2">
+                        <label className="text-xs text-black/70 dark:text-white/70">
+                          Server Name*
+                        </label>
+                        <input
+                          value={name}
+                          onChange={(e) => setName(e.target.value)}
+                          className={inputClassName}
+                          placeholder="e.g., GitHub"
+                          type="text"
+                          required
+                        />
+                      </div>
+
+                      {canUseStdio && (
+                        <div className="flex flex-col items-start space-y-2">
+                          <label className="text-xs text-black/70 dark:text-white/70">
+                            Transport
+                          </label>
+                          <Select
+                            value={transport}
+                            onChange={(e) =>
+                              setTransport(e.target.value as Transport)
+                            }
+                            options={[
+                              { label: 'Remote (HTTP / SSE)', value: 'remote' },
+                              {
+                                label: 'Local command (stdio)',
+                                value: 'stdio',
+                              },
+                            ]}
+                          />
+                        </div>
+                      )}
+
+                      {transport === 'remote' ? (
+                        <>
+                          <div className="flex flex-col items-start space-y-2">
+                            <label className="text-xs text-black/70 dark:text-white/70">
+                              Server URL*
+                            </label>
+                            <input
+                              value={url}
+                              onChange={(e) => setUrl(e.target.value)}
+                              className={inputClassName}
+                              placeholder="https://example.com/mcp"
+                              type="url"
+                              required
+                            />
+                          </div>
+                          <div className="flex flex-col items-start space-y-2">
+                            <label className="text-xs text-black/70 dark:text-white/70">
+                              Headers (one per line)
+                            </label>
+                            <textarea
+                              value={headers}
+                              onChange={(e) => setHeaders(e.target.value)}
+                              className={inputClassName}
+                              placeholder="Authorization: Bearer <token>"
+                              rows={3}
+                            />
+                          </div>
+                        </>
+                      ) : (
+                        <>
+                          <div className="flex flex-col items-start space-y-2">
+                            <label className="text-xs text-black/70 dark:text-white/70">
+                              Command*
+                            </label>
+                            <input
+                              value={command}
+                              onChange={(e) => setCommand(e.target.value)}
+                              className={inputClassName}
+                              placeholder="npx"
+                              type="text"
+                              required
+                            />
+                          </div>
+                          <div className="flex flex-col items-start space-y-2">
+                            <label className="text-xs text-black/70 dark:text-white/70">
+                              Arguments (one per line)
+                            </label>
+                            <textarea
+                              value={args}
+                              onChange={(e) => setArgs(e.target.value)}
+                              className={inputClassName}
+                              placeholder={
+                                '-y\n@modelcontextprotocol/server-everything'
+                              }
+                              rows={3}
+                            />
+                          </div>
+                          <div className="flex flex-col items-start space-y-2">
+                            <label className="text-xs text-black/70 dark:text-white/70">
+                              Environment (KEY=value, one per line)
+                            </label>
+                            <textarea
+                              value={env}
+                              onChange={(e) => setEnv(e.target.value)}
+                              className={inputClassName}
+                              placeholder="API_KEY=..."
+                              rows={3}
+                            />
+                          </div>
+                        </>
+                      )}
+
+                      <div className="flex flex-col items-start space-y-2">
+                        <label className="text-xs text-black/70 dark:text-white/70">
+                          Visibility
+                        </label>
+                        <Select
+                          value={visibility}
+                          onChange={(e) =>
+                            setVisibility(
+                              e.target.value as 'public' | 'private',
+                            )
+                          }
+                          options={[
+                            { label: 'Only me', value: 'private' },
+                            {
+                              label: 'Everyone in this workspace',
+                              value: 'public',
+                            },
+                          ]}
+                        />
+                      </div>
+                    </div>
+                  </div>
+                  <div className="border-t border-light-200 dark:border-dark-200" />
+                  <div className="px-6 py-4 flex justify-end">
+                    <button
+                      type="submit"
+                      disabled={loading}
+                      className="px-4 py-2 rounded-lg text-[13px] bg-sky-500 text-white font-medium disabled:opacity-85 hover:opacity-85 active:scale-95 transition duration-200"
+                    >
+                      {loading ? (
+                        <Loader2 className="animate-spin" size={16} />
+                      ) : server ? (
+                        'Save Changes'
+                      ) : (
+                        'Add Server'
+                      )}
+                    </button>
+                  </div>
+                </form>
+              </DialogPanel>
+            </motion.div>
+          </Dialog>
+        )}
+      </AnimatePresence>
+    </>
+  );
+};
+
+export default McpServerDialog;
@@ -0,0 +1,88 @@
+import { useEffect, useState } from 'react';
+import { Loader2, Wrench } from 'lucide-react';
+import { toast } from 'sonner';
+import type { MCPServerClientInfo } from '@/lib/types/mcp';
+import McpServerCard from './McpServerCard';
+import McpServerDialog from './McpServerDialog';
+
+const McpServers = () => {
+  const [servers, setServers] = useState<MCPServerClientInfo[]>([]);
+  const [canCreate, setCanCreate] = useState(false);
+  const [canUseStdio, setCanUseStdio] = useState(false);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const fetchServers = async () => {
+      try {
+        const res = await fetch('/api/mcp');
+
+        if (!res.ok) {
+          throw new Error('Failed to load MCP servers');
+        }
+
+        const data = await res.json();
+        setServers(data.servers ?? []);
+        setCanCreate(Boolean(data.canCreate));
+        setCanUseStdio(Boolean(data.canUseStdio));
+      } catch (error) {
+        console.error('Error loading MCP servers:', error);
+        toast.error('Failed to load MCP servers.');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchServers();
+  }, []);
+
+  return (
+    <div className="flex-1 space-y-6 overflow-y-auto py-6">
+      <div className="flex flex-row justify-between items-center px-6">
+        <p className="text-xs lg:text-xs text-black/70 dark:text-white/70">
+          Connected servers
+        </p>
+        {canCreate && (
+          <McpServerDialog
+            canUseStdio={canUseStdio}
+            onSaved={(server) => setServers((prev) => [...prev, server])}
+          />
+        )}
+      </div>
+      <div className="flex flex-col px-6 gap-y-4">
+        {loading ? (
+          <div className="flex items-center justify-center py-12">
+            <Loader2
+              size={20}
+              className="animate-spin text-black/50 dark:text-white/50"
+            />
+          </div>
+        ) : servers.length === 0 ? (
+          <div className="flex flex-col items-center justify-center py-12 px-4 rounded-lg border-2 border-dashed border-light-200 dark:border-dark-200 bg-light-secondary/10 dark:bg-dark-secondary/10">
+            <div className="p-3 rounded-full bg-sky-500/10 dark:bg-sky-500/10 mb-3">
+              <Wrench className="w-8 h-8 text-sky-500" />
+            </div>
+            <p className="text-sm font-medium text-black/70 dark:text-white/70 mb-1">
+              No MCP servers yet
+            </p>
+            <p className="text-xs text-black/50 dark:text-white/50 text-center max-w-sm">
+              Model Context Protocol servers give the assistant tools it can
+              call while answering, such as issue trackers, databases or
+              internal APIs.
+            </p>
+          </div>
+        ) : (
+          servers.map((server) => (
+            <McpServerCard
+              key={`mcp-${server.id}`}
+              server={server}
+              canUseStdio={canUseStdio}
+              setServers={setServers}
+            />
+          ))
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default McpServers;
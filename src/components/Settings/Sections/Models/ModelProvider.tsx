@@ -1,7 +1,15 @@
 import { UIConfigField, ConfigModelProvider } from '@/lib/config/types';
 import { cn } from '@/lib/utils';
 import { AnimatePresence, motion } from 'framer-motion';
-import { AlertCircle, Plug2, Plus, Pencil, Trash2, X } from 'lucide-react';
+import {
+  AlertCircle,
+  Lock,
+  Plug2,
+  Plus,
+  Pencil,
+  Trash2,
+  X,
+} from 'lucide-react';
 import { useState } from 'react';
 import { toast } from 'sonner';
 import AddModel from './AddModelDialog';
@@ -18,6 +26,7 @@ const ModelProvider = ({
   setProviders: React.Dispatch<React.SetStateAction<ConfigModelProvider[]>>;
 }) => {
   const [open, setOpen] = useState(true);
+  const isReadOnly = modelProvider.source === 'env';
 
   const handleModelDelete = async (
     type: 'chat' | 'embedding',
@@ -84,9 +93,20 @@ const ModelProvider = ({
             <Plug2 size={14} className="text-sky-500" />
           </div>
           <div className="flex flex-col">
-            <p className="text-sm lg:text-sm text-black dark:text-white font-medium">
-              {modelProvider.name}
-            </p>
+            <div className="flex flex-row items-center gap-1.5">
+              <p className="text-sm lg:text-sm text-black dark:text-white font-medium">
+                {modelProvider.name}
+              </p>
+              {isReadOnly && (
+                <span
+                  title="Defined through environment variables. Edit the server environment to change it."
+                  className="flex flex-row items-center gap-1 rounded-full bg-light-secondary dark:bg-dark-secondary px-2 py-0.5 text-[10px] text-black/60 dark:text-white/60"
+                >
+                  <Lock size={10} />
+                  Environment
+                </span>
+              )}
+            </div>
             {modelCount > 0 && (
               <p className="text-[10px] lg:text-[11px] text-black/50 dark:text-white/50">
                 {modelCount} model{modelCount !== 1 ? 's' : ''} configured
@@ -94,17 +114,19 @@ const ModelProvider = ({
             )}
           </div>
         </div>
-        <div className="flex flex-row items-center gap-1">
-          <UpdateProvider
-            fields={fields}
-            modelProvider={modelProvider}
-            setProviders={setProviders}
-          />
-          <DeleteProvider
-            modelProvider={modelProvider}
-            setProviders={setProviders}
-          />
-        </div>
+        {!isReadOnly && (
+          <div className="flex flex-row items-center gap-1">
+            <UpdateProvider
+              fields={fields}
+              modelProvider={modelProvider}
+              setProviders={setProviders}
+            />
+            <DeleteProvider
+              modelProvider={modelProvider}
+              setProviders={setProviders}
+            />
+          </div>
+        )}
       </div>
       <div className="flex flex-col gap-y-4 px-5 py-4">
         <div className="flex flex-col gap-y-2">
@@ -112,13 +134,14 @@ const ModelProvider = ({
             <p className="text-[11px] lg:text-[11px] font-medium text-black/70 dark:text-white/70 uppercase tracking-wide">
               Chat Models
             </p>
-            {!modelProvider.chatModels.some((m) => m.key === 'error') && (
-              <AddModel
-                providerId={modelProvider.id}
-                setProviders={setProviders}
-                type="chat"
-              />
-            )}
+            {!isReadOnly &&
+              !modelProvider.chatModels.some((m) => m.key === 'error') && (
+                <AddModel
+                  providerId={modelProvider.id}
+                  setProviders={setProviders}
+                  type="chat"
+                />
+              )}
           </div>
           <div className="flex flex-col gap-2">
             {modelProvider.chatModels.some((m) => m.key === 'error') ? (
@@ -147,14 +170,16 @@ const ModelProvider = ({
                     className="flex flex-row items-center space-x-1.5 text-xs lg:text-xs text-black/70 dark:text-white/70 rounded-lg bg-light-secondary dark:bg-dark-secondary px-3 py-1.5 border border-light-200 dark:border-dark-200"
                   >
                     <span>{model.name}</span>
-                    <button
-                      onClick={() => {
-                        handleModelDelete('chat', model.key);
-                      }}
-                      className="hover:text-red-500 dark:hover:text-red-400 transition-colors"
-                    >
-                      <X size={12} />
-                    </button>
+                    {!isReadOnly && (
+                      <button
+                        onClick={() => {
+                          handleModelDelete('chat', model.key);
+                        }}
+                        className="hover:text-red-500 dark:hover:text-red-400 transition-colors"
+                      >
+                        <X size={12} />
+                      </button>
+                    )}
                   </div>
                 ))}
               </div>
@@ -167,13 +192,14 @@ const ModelProvider = ({
             <p className="text-[11px] lg:text-[11px] font-medium text-black/70 dark:text-white/70 uppercase tracking-wide">
               Embedding Models
             </p>
-            {!modelProvider.embeddingModels.some((m) => m.key === 'error') && (
-              <AddModel
-                providerId={modelProvider.id}
-                setProviders={setProviders}
-                type="embedding"
-              />
-            )}
+            {!isReadOnly &&
+              !modelProvider.embeddingModels.some((m) => m.key === 'error') && (
+                <AddModel
+                  providerId={modelProvider.id}
+                  setProviders={setProviders}
+                  type="embedding"
+                />
+              )}
           </div>
           <div className="flex flex-col gap-2">
             {modelProvider.embeddingModels.some((m) => m.key === 'error') ? (
@@ -202,14 +228,16 @@ const ModelProvider = ({
                     className="flex flex-row items-center space-x-1.5 text-xs lg:text-xs text-black/70 dark:text-white/70 rounded-lg bg-light-secondary dark:bg-dark-secondary px-3 py-1.5 border border-light-200 dark:border-dark-200"
                   >
                     <span>{model.name}</span>
-                    <button
-                      onClick={() => {
-                        handleModelDelete('embedding', model.key);
-                      }}
-                      className="hover:text-red-500 dark:hover:text-red-400 transition-colors"
-                    >
-                      <X size={12} />
-                    </button>
+                    {!isReadOnly && (
+                      <button
+                        onClick={() => {
+                          handleModelDelete('embedding', model.key);
+                        }}
+                        className="hover:text-red-500 dark:hover:text-red-400 transition-colors"
+                      >
+                        <X size={12} />
+                      </button>
+                    )}
                   </div>
                 ))}
               </div>
@@ -6,6 +6,7 @@ import {
   Search,
   Sliders,
   ToggleRight,
+  Wrench,
 } from 'lucide-react';
 import Preferences from './Sections/Preferences';
 import { motion } from 'framer-motion';
@@ -17,6 +18,7 @@ import Models from './Sections/Models/Section';
 import SearchSection from './Sections/Search';
 import Select from '@/components/ui/Select';
 import Personalization from './Sections/Personalization';
+import McpServers from './Sections/MCP/Section';
 
 type SettingsConfig = {
   fields: Record<string, unknown>;
@@ -56,6 +58,14 @@ const allSections = [
     component: SearchSection,
     dataAdd: 'search',
   },
+  {
+    key: 'mcp',
+    name: 'MCP Servers',
+    description: 'Connect tools the assistant can call while answering.',
+    icon: Wrench,
+    component: McpServers,
+    dataAdd: 'mcp',
+  },
 ] as const;
 
 type SettingsSection = (typeof allSections)[number];
@@ -79,7 +89,7 @@ const SettingsDialogue = ({
     }
 
     return Array.from(allSections).filter((section) =>
-      ['preferences', 'personalization'].includes(section.key),
+      ['preferences', 'personalization', 'mcp'].includes(section.key),
     );
   }, [canManageSettings]);
 
@@ -0,0 +1,111 @@
+'use client';
+
+import { useState } from 'react';
+import { Check, Copy, Link2, Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { cn } from '@/lib/utils';
+import { SHARE_EXPIRY_OPTIONS, buildShareUrl } from '@/lib/utils/share';
+import type { ChatShareListItem } from '@/types/share';
+
+const ShareChatLink = ({ chatId }: { chatId: string }) => {
+  const [expiresInDays, setExpiresInDays] = useState<number | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [shareUrl, setShareUrl] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+
+  const copy = async (url: string) => {
+    try {
+      await navigator.clipboard.writeText(url);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 1500);
+    } catch {
+      toast.error('Could not copy the link.');
+    }
+  };
+
+  const createLink = async () => {
+    setLoading(true);
+    try {
+      const res = await fetch(`/api/chats/${chatId}/shares`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ expiresInDays }),
+      });
+
+      const data = await res.json();
+
+      if (!res.ok) {
+        throw new Error(data.message ?? 'Failed to create share link');
+      }
+
+      const url = buildShareUrl((data.share as ChatShareListItem).token);
+      setShareUrl(url);
+      await copy(url);
+      toast.success('Share link copied to clipboard.');
+    } catch (err: any) {
+      toast.error(err.message);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap gap-1">
+        {SHARE_EXPIRY_OPTIONS.map((option) => (
+          <button
+            key={option.label}
+            type="button"
+            onClick={() => setExpiresInDays(option.days)}
+            className={cn(
+              'rounded-full px-2.5 py-1 text-xs transition-colors duration-200',
+              expiresInDays === option.days
+                ? 'bg-[#24A0ED] text-white'
+                : 'bg-light-secondary text-black/70 hover:bg-light-200 dark:bg-dark-secondary dark:text-white/70 dark:hover:bg-dark-200',
+            )}
+          >
+            {option.label}
+          </button>
+        ))}
+      </div>
+      <button
+        type="button"
+        onClick={createLink}
+        disabled={loading}
+        className="w-full flex items-center gap-3 px-3 py-2 text-left rounded-xl hover:bg-light-secondary dark:hover:bg-dark-secondary transition-colors duration-200 disabled:opacity-60"
+      >
+        {loading ? (
+          <Loader2 size={16} className="animate-spin text-[#24A0ED]" />
+        ) : (
+          <Link2 size={16} className="text-[#24A0ED]" />
+        )}
+        <div>
+          <p className="text-sm font-medium text-black dark:text-white">
+            Create read-only link
+          </p>
+          <p className="text-xs text-black/50 dark:text-white/50">
+            Anyone with the link can view
+          </p>
+        </div>
+      </button>
+      {shareUrl && (
+        <div className="flex items-center gap-2 rounded-xl bg-light-secondary px-3 py-2 dark:bg-dark-secondary">
+          <p className="flex-1 truncate text-xs text-black/70 dark:text-white/70">
+            {shareUrl}
+          </p>
+          <button
+            type="button"
+            onClick={() => copy(shareUrl)}
+            className="text-black/60 hover:text-black dark:text-white/60 dark:hover:text-white"
+          >
+            {copied ? <Check size={14} /> : <Copy size={14} />}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ShareChatLink;
@@ -0,0 +1,107 @@
+'use client';
+
+import { useMemo } from 'react';
+import Markdown, { MarkdownToJSX } from 'markdown-to-jsx';
+import { BookCopy, Disc3 } from 'lucide-react';
+import type { Document } from '@langchain/core/documents';
+import MessageSources from './MessageSources';
+import Citation from './Citation';
+import { cn } from '@/lib/utils';
+import { linkCitations } from '@/lib/utils/citations';
+import type { SharedChatMessage } from '@/lib/share/server';
+
+interface SharedSection {
+  question: string;
+  answer: string;
+  sources: Document[];
+}
+
+const THINK_BLOCK_PATTERN = /<think>[\s\S]*?(<\/think>|$)/g;
+
+const markdownOptions: MarkdownToJSX.Options = {
+  overrides: {
+    citation: {
+      component: Citation,
+    },
+  },
+};
+
+/** Groups stored messages the same way the live chat view does. */
+const toSections = (messages: SharedChatMessage[]): SharedSection[] =>
+  messages.flatMap((message, index) => {
+    if (message.role !== 'user') {
+      return [];
+    }
+
+    const nextUserIndex = messages.findIndex(
+      (candidate, position) => position > index && candidate.role === 'user',
+    );
+    const following = messages.slice(
+      index + 1,
+      nextUserIndex === -1 ? undefined : nextUserIndex,
+    );
+    const sources =
+      following.find((item) => item.role === 'source' && item.sources.length)
+        ?.sources ?? [];
+    const answer =
+      following.find((item) => item.role === 'assistant')?.content ?? '';
+
+    return [
+      {
+        question: message.content,
+        answer: linkCitations(
+          answer.replace(THINK_BLOCK_PATTERN, '').trim(),
+          sources,
+        ),
+        sources,
+      },
+    ];
+  });
+
+const SharedChat = ({ messages }: { messages: SharedChatMessage[] }) => {
+  const sections = useMemo(() => toSections(messages), [messages]);
+
+  return (
+    <div className="flex flex-col space-y-12 pb-20">
+      {sections.map((section, index) => (
+        <div key={index} className="space-y-6">
+          <h2 className="text-black dark:text-white font-medium text-xl break-words">
+            {section.question}
+          </h2>
+
+          <div className="flex flex-col space-y-2">
+            <div className="flex flex-row items-center space-x-2">
+              <Disc3 className="text-black dark:text-white" size={20} />
+              <h3 className="text-black dark:text-white font-medium text-xl">
+                Answer
+              </h3>
+            </div>
+            <Markdown
+              className={cn(
+                'prose prose-h1:mb-3 prose-h2:mb-2 prose-h2:mt-6 prose-h2:font-[800] prose-h3:mt-4 prose-h3:mb-1.5 prose-h3:font-[600] dark:prose-invert prose-p:leading-relaxed prose-pre:p-0 font-[400]',
+                'max-w-none break-words text-black dark:text-white',
+              )}
+              options={markdownOptions}
+            >
+              {section.answer}
+            </Markdown>
+          </div>
+
+          {section.sources.length > 0 && (
+            <div className="flex flex-col space-y-2 pt-4 border-t border-light-200/40 dark:border-dark-200/40">
+              <div className="flex flex-row items-center space-x-2">
+                <BookCopy className="text-black dark:text-white" size={20} />
+                <h3 className="text-black dark:text-white font-medium text-xl">
+                  Sources
+                </h3>
+              </div>
+              <MessageSources sources={section.sources} />
+            </div>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default SharedChat;
@@ -0,0 +1,168 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { Copy, Link2, Loader2, Trash } from 'lucide-react';
+import { toast } from 'sonner';
+import { cn, formatTimeDifference } from '@/lib/utils';
+import { buildShareUrl } from '@/lib/utils/share';
+import type { ChatShareListItem, ChatShareStatus } from '@/types/share';
+
+const STATUS_STYLES: Record<ChatShareStatus, string> = {
+  active: 'bg-green-500/10 text-green-600 dark:text-green-400',
+  expired: 'bg-amber-500/10 text-amber-600 dark:text-amber-400',
+  revoked: 'bg-red-500/10 text-red-600 dark:text-red-400',
+};
+
+const describeExpiry = (share: ChatShareListItem) => {
+  if (share.status === 'revoked') {
+    return 'Revoked';
+  }
+  if (!share.expiresAt) {
+    return 'Never expires';
+  }
+  return share.status === 'expired'
+    ? `Expired ${new Date(share.expiresAt).toLocaleDateString()}`
+    : `Expires ${new Date(share.expiresAt).toLocaleDateString()}`;
+};
+
+const SharedLinks = () => {
+  const [shares, setShares] = useState<ChatShareListItem[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [revoking, setRevoking] = useState<string | null>(null);
+
+  useEffect(() => {
+    const fetchShares = async () => {
+      try {
+        const res = await fetch('/api/shares');
+        const data = await res.json();
+        if (!res.ok) {
+          throw new Error(data.message ?? 'Failed to load share links');
+        }
+        setShares(data.shares);
+      } catch (err: any) {
+        toast.error(err.message);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchShares();
+  }, []);
+
+  const revoke = async (shareId: string) => {
+    setRevoking(shareId);
+    try {
+      const res = await fetch(`/api/shares/${shareId}`, { method: 'DELETE' });
+
+      if (res.status != 200) {
+        throw new Error('Failed to revoke share link');
+      }
+
+      setShares((current) =>
+        current.map((share) =>
+          share.id === shareId
+            ? {
+                ...share,
+                status: 'revoked',
+                revokedAt: new Date().toISOString(),
+              }
+            : share,
+        ),
+      );
+      toast.success('Share link revoked.');
+    } catch (err: any) {
+      toast.error(err.message);
+    } finally {
+      setRevoking(null);
+    }
+  };
+
+  const copy = async (token: string) => {
+    try {
+      await navigator.clipboard.writeText(buildShareUrl(token));
+      toast.success('Share link copied to clipboard.');
+    } catch {
+      toast.error('Could not copy the link.');
+    }
+  };
+
+  if (loading || shares.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="flex flex-col pt-8 pb-20 lg:pb-2">
+      <div className="flex items-center">
+        <Link2 />
+        <h2 className="text-2xl font-medium p-2">Shared links</h2>
+      </div>
+      <hr className="border-t border-[#2B2C2C] my-4 w-full" />
+      <div className="flex flex-col">
+        {shares.map((share, i) => (
+          <div
+            key={share.id}
+            className={cn(
+              'flex flex-col gap-2 py-4 lg:flex-row lg:items-center lg:justify-between',
+              i !== shares.length - 1
+                ? 'border-b border-white-200 dark:border-dark-200'
+                : '',
+            )}
+          >
+            <div className="min-w-0 space-y-1">
+              <Link
+                href={`/c/${share.chatId}`}
+                className="block truncate font-medium text-black transition duration-200 hover:text-[#24A0ED] dark:text-white dark:hover:text-[#24A0ED]"
+              >
+                {share.chatTitle}
+              </Link>
+              <div className="flex flex-wrap items-center gap-2 text-xs text-black/70 dark:text-white/70">
+                <span
+                  className={cn(
+                    'rounded-full px-2 py-0.5 capitalize',
+                    STATUS_STYLES[share.status],
+                  )}
+                >
+                  {share.status}
+                </span>
+                <span>
+                  Created {formatTimeDifference(new Date(), share.createdAt)}{' '}
+                  ago
+                </span>
+                <span>· {describeExpiry(share)}</span>
+                <span>
+                  · {share.viewCount} {share.viewCount === 1 ? 'view' : 'views'}
+                </span>
+              </div>
+            </div>
+            {share.status === 'active' && (
+              <div className="flex items-center gap-1">
+                <button
+                  onClick={() => copy(share.token)}
+                  className="p-2 rounded-lg text-black/70 hover:bg-light-secondary hover:text-black dark:text-white/70 dark:hover:bg-dark-secondary dark:hover:text-white transition-colors duration-200"
+                  aria-label="Copy link"
+                >
+                  <Copy size={16} />
+                </button>
+                <button
+                  onClick={() => revoke(share.id)}
+                  disabled={revoking === share.id}
+                  className="p-2 rounded-lg text-black/70 hover:bg-light-secondary hover:text-red-500 dark:text-white/70 dark:hover:bg-dark-secondary transition-colors duration-200 disabled:opacity-60"
+                  aria-label="Revoke link"
+                >
+                  {revoking === share.id ? (
+                    <Loader2 size={16} className="animate-spin" />
+                  ) : (
+                    <Trash size={16} />
+                  )}
+                </button>
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default SharedLinks;
@@ -2,7 +2,7 @@
 
 import { cn } from '@/lib/utils';
 import { type UserRole } from '@/lib/auth/roles';
-import { BookOpenText, Home, Search, Plus } from 'lucide-react';
+import { BookOpenText, FolderKanban, Home, Search, Plus } from 'lucide-react';
 import Link from 'next/link';
 import Image from 'next/image';
 import { useSelectedLayoutSegments } from 'next/navigation';
@@ -75,6 +75,12 @@ const Sidebar = ({ children, currentUser, canManageSettings }: SidebarProps) =>
       active: segments.includes('library'),
       label: t('chatHistory'),
     },
+    {
+      icon: FolderKanban,
+      href: '/projects',
+      active: segments.includes('projects'),
+      label: t('projects'),
+    },
   ];
 
   return (
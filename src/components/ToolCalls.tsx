@@ -0,0 +1,100 @@
+'use client';
+
+import { useState } from 'react';
+import {
+  Check,
+  ChevronDown,
+  ChevronUp,
+  Loader2,
+  Wrench,
+  X,
+} from 'lucide-react';
+import type { McpToolCall } from '@/lib/types/mcp';
+
+const ToolCallItem = ({ call }: { call: McpToolCall }) => {
+  const [showDetails, setShowDetails] = useState(false);
+  const hasArgs = Object.keys(call.args).length > 0;
+
+  return (
+    <div className="flex flex-col">
+      <button
+        onClick={() => setShowDetails(!showDetails)}
+        className="flex flex-row items-center space-x-2 text-left"
+      >
+        {call.status === 'running' ? (
+          <Loader2 className="h-4 w-4 shrink-0 animate-spin text-sky-500" />
+        ) : call.status === 'success' ? (
+          <Check className="h-4 w-4 shrink-0 text-green-500" />
+        ) : (
+          <X className="h-4 w-4 shrink-0 text-red-500" />
+        )}
+        <p className="text-sm text-black dark:text-white truncate">
+          <span className="text-black/60 dark:text-white/60">
+            {call.serverName} /{' '}
+          </span>
+          <span className="font-mono">{call.toolName}</span>
+        </p>
+      </button>
+      {showDetails && (
+        <div className="ml-6 mt-1 space-y-2 text-xs text-black/70 dark:text-white/70">
+          {hasArgs && (
+            <pre className="whitespace-pre-wrap break-words rounded-lg bg-light-secondary dark:bg-dark-secondary px-3 py-2">
+              {JSON.stringify(call.args, null, 2)}
+            </pre>
+          )}
+          {call.output && (
+            <pre className="max-h-60 overflow-y-auto whitespace-pre-wrap break-words rounded-lg bg-light-secondary dark:bg-dark-secondary px-3 py-2">
+              {call.output}
+            </pre>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+/** MCP tool calls made while answering, with their arguments and results. */
+const ToolCalls = ({
+  calls,
+  defaultExpanded = false,
+}: {
+  calls: McpToolCall[];
+  defaultExpanded?: boolean;
+}) => {
+  const [isExpanded, setIsExpanded] = useState(defaultExpanded);
+
+  if (calls.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="bg-light-secondary/50 dark:bg-dark-secondary/50 rounded-xl border border-light-200 dark:border-dark-200 overflow-hidden">
+      <button
+        onClick={() => setIsExpanded(!isExpanded)}
+        className="w-full flex items-center justify-between px-4 py-1 text-black/90 dark:text-white/90 hover:bg-light-200 dark:hover:bg-dark-200 transition duration-200"
+      >
+        <div className="flex items-center space-x-2">
+          <Wrench size={16} className="text-sky-500" />
+          <p className="font-medium text-sm">
+            Used {calls.length} tool{calls.length !== 1 ? 's' : ''}
+          </p>
+        </div>
+        {isExpanded ? (
+          <ChevronUp size={18} className="text-black/70 dark:text-white/70" />
+        ) : (
+          <ChevronDown size={18} className="text-black/70 dark:text-white/70" />
+        )}
+      </button>
+
+      {isExpanded && (
+        <div className="flex flex-col space-y-2 px-4 py-3 border-t border-light-200 dark:border-dark-200">
+          {calls.map((call) => (
+            <ToolCallItem key={call.id} call={call} />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ToolCalls;
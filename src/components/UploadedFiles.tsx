@@ -0,0 +1,140 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { File, Files, Loader2, Trash } from 'lucide-react';
+import { toast } from 'sonner';
+import { cn, formatTimeDifference } from '@/lib/utils';
+import type { UploadedFileListItem } from '@/types/uploaded-file';
+
+const formatSize = (bytes: number) => {
+  if (bytes < 1024) {
+    return `${bytes} B`;
+  }
+  if (bytes < 1024 * 1024) {
+    return `${Math.round(bytes / 1024)} KB`;
+  }
+  return `${Math.round((bytes / (1024 * 1024)) * 10) / 10} MB`;
+};
+
+const UploadedFiles = () => {
+  const [files, setFiles] = useState<UploadedFileListItem[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [deleting, setDeleting] = useState<string | null>(null);
+
+  useEffect(() => {
+    const fetchFiles = async () => {
+      try {
+        const res = await fetch('/api/files');
+        const data = await res.json();
+        if (!res.ok) {
+          throw new Error(data.message ?? 'Failed to load files');
+        }
+        setFiles(data.files);
+      } catch (err: any) {
+        toast.error(err.message);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchFiles();
+  }, []);
+
+  const remove = async (file: UploadedFileListItem) => {
+    if (
+      !window.confirm(
+        `Delete "${file.name}"? It will be removed from every chat and project that uses it.`,
+      )
+    ) {
+      return;
+    }
+
+    setDeleting(file.id);
+    try {
+      const res = await fetch(`/api/files/${file.id}`, { method: 'DELETE' });
+
+      if (res.status != 200) {
+        throw new Error('Failed to delete file');
+      }
+
+      setFiles((current) => current.filter((item) => item.id !== file.id));
+      toast.success('File deleted.');
+    } catch (err: any) {
+      toast.error(err.message);
+    } finally {
+      setDeleting(null);
+    }
+  };
+
+  if (loading || files.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="flex flex-col pt-8">
+      <div className="flex items-center">
+        <Files />
+        <h2 className="text-2xl font-medium p-2">My files</h2>
+      </div>
+      <hr className="border-t border-[#2B2C2C] my-4 w-full" />
+      <div className="flex flex-col">
+        {files.map((file, i) => (
+          <div
+            key={file.id}
+            className={cn(
+              'flex flex-row items-center justify-between gap-2 py-4',
+              i !== files.length - 1
+                ? 'border-b border-white-200 dark:border-dark-200'
+                : '',
+            )}
+          >
+            <div className="flex min-w-0 items-center gap-3">
+              <File
+                size={18}
+                className="shrink-0 text-black/70 dark:text-white/70"
+              />
+              <div className="min-w-0 space-y-1">
+                <p className="truncate font-medium text-black dark:text-white">
+                  {file.name}
+                </p>
+                <div className="flex flex-wrap items-center gap-2 text-xs text-black/70 dark:text-white/70">
+                  <span>{formatSize(file.size)}</span>
+                  <span>
+                    · Uploaded{' '}
+                    {formatTimeDifference(new Date(), file.createdAt)} ago
+                  </span>
+                  {file.chatId && (
+                    <span className="truncate">
+                      ·{' '}
+                      <Link
+                        href={`/c/${file.chatId}`}
+                        className="transition duration-200 hover:text-[#24A0ED]"
+                      >
+                        {file.chatTitle ?? 'Chat'}
+                      </Link>
+                    </span>
+                  )}
+                </div>
+              </div>
+            </div>
+            <button
+              onClick={() => remove(file)}
+              disabled={deleting === file.id}
+              className="p-2 rounded-lg text-black/70 hover:bg-light-secondary hover:text-red-500 dark:text-white/70 dark:hover:bg-dark-secondary transition-colors duration-200 disabled:opacity-60"
+              aria-label="Delete file"
+            >
+              {deleting === file.id ? (
+                <Loader2 size={16} className="animate-spin" />
+              ) : (
+                <Trash size={16} />
+              )}
+            </button>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default UploadedFiles;
@@ -0,0 +1,39 @@
+'use client';
+
+import Link from 'next/link';
+import { usePathname } from 'next/navigation';
+
+import { cn } from '@/lib/utils';
+
+const ADMIN_LINKS = [
+  { href: '/admin/users', label: 'Users' },
+  { href: '/admin/usage', label: 'Usage' },
+  { href: '/admin/audit', label: 'Audit log' },
+  { href: '/admin/branding', label: 'Branding' },
+];
+
+export function AdminNav() {
+  const pathname = usePathname();
+
+  return (
+    <nav className="flex gap-2 border-b border-light-200/70 pb-3 dark:border-dark-200/70">
+      {ADMIN_LINKS.map((link) => {
+        const active = pathname?.startsWith(link.href);
+        return (
+          <Link
+            key={link.href}
+            href={link.href}
+            className={cn(
+              'rounded-full px-4 py-1.5 text-sm font-medium transition',
+              active
+                ? 'bg-sky-600 text-white'
+                : 'text-black/70 hover:bg-light-200/60 dark:text-white/70 dark:hover:bg-dark-200/60',
+            )}
+          >
+            {link.label}
+          </Link>
+        );
+      })}
+    </nav>
+  );
+}
@@ -0,0 +1,318 @@
+import Link from 'next/link';
+import { format } from 'date-fns';
+
+import type {
+  AuditAction,
+  AuditChange,
+  AuditLogEntry,
+  AuditTargetType,
+} from '@/types/audit';
+
+export const auditActionLabels: Record<AuditAction, string> = {
+  'user.role_updated': 'Role changed',
+  'user.banned': 'User banned',
+  'user.unbanned': 'User unbanned',
+  'user.deleted': 'User deleted',
+  'user.impersonated': 'Impersonation',
+  'provider.created': 'Provider added',
+  'provider.updated': 'Provider updated',
+  'provider.deleted': 'Provider removed',
+  'provider.model_added': 'Model added',
+  'provider.model_removed': 'Model removed',
+  'config.updated': 'Setting changed',
+  'branding.updated': 'Branding updated',
+};
+
+export const auditTargetLabels: Record<AuditTargetType, string> = {
+  user: 'User',
+  model_provider: 'Model provider',
+  config: 'Setting',
+  branding: 'Branding',
+};
+
+export interface AuditLogFilters {
+  action?: AuditAction;
+  targetType?: AuditTargetType;
+  actorId?: string;
+  targetId?: string;
+  from?: string;
+  to?: string;
+}
+
+interface AuditLogTableProps {
+  entries: AuditLogEntry[];
+  total: number;
+  page: number;
+  limit: number;
+  filters: AuditLogFilters;
+}
+
+const selectClassName =
+  'rounded-lg border border-light-200/70 bg-white px-3 py-1.5 text-sm text-black dark:border-dark-200/70 dark:bg-dark-secondary dark:text-white';
+
+const buildHref = (filters: AuditLogFilters, page: number) => {
+  const params = new URLSearchParams();
+  Object.entries(filters).forEach(([key, value]) => {
+    if (value) {
+      params.set(key, value);
+    }
+  });
+  if (page > 1) {
+    params.set('page', String(page));
+  }
+
+  const search = params.toString();
+  return search ? `/admin/audit?${search}` : '/admin/audit';
+};
+
+const formatValue = (value: unknown) => {
+  if (value === null || value === undefined || value === '') {
+    return '—';
+  }
+
+  return typeof value === 'string' ? value : JSON.stringify(value);
+};
+
+function ChangeList({ changes }: { changes: AuditChange[] }) {
+  if (changes.length === 0) {
+    return <span className="text-black/40 dark:text-white/40">—</span>;
+  }
+
+  return (
+    <ul className="space-y-1">
+      {changes.map((change) => (
+        <li key={change.field} className="text-xs">
+          <span className="font-medium text-black/70 dark:text-white/70">
+            {change.field}:
+          </span>{' '}
+          <span className="text-red-600/80 line-through dark:text-red-400/80">
+            {formatValue(change.before)}
+          </span>{' '}
+          →{' '}
+          <span className="text-green-700 dark:text-green-400">
+            {formatValue(change.after)}
+          </span>
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+export function AuditLogTable({
+  entries,
+  total,
+  page,
+  limit,
+  filters,
+}: AuditLogTableProps) {
+  const totalPages = Math.max(1, Math.ceil(total / limit));
+
+  return (
+    <div className="space-y-4">
+      <form
+        method="get"
+        action="/admin/audit"
+        className="flex flex-wrap items-end gap-3"
+      >
+        <label className="flex flex-col gap-1 text-xs text-black/60 dark:text-white/60">
+          Action
+          <select
+            name="action"
+            defaultValue={filters.action ?? ''}
+            className={selectClassName}
+          >
+            <option value="">All actions</option>
+            {Object.entries(auditActionLabels).map(([value, label]) => (
+              <option key={value} value={value}>
+                {label}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="flex flex-col gap-1 text-xs text-black/60 dark:text-white/60">
+          Target
+          <select
+            name="targetType"
+            defaultValue={filters.targetType ?? ''}
+            className={selectClassName}
+          >
+            <option value="">All targets</option>
+            {Object.entries(auditTargetLabels).map(([value, label]) => (
+              <option key={value} value={value}>
+                {label}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="flex flex-col gap-1 text-xs text-black/60 dark:text-white/60">
+          From
+          <input
+            type="date"
+            name="from"
+            defaultValue={filters.from}
+            className={selectClassName}
+          />
+        </label>
+        <label className="flex flex-col gap-1 text-xs text-black/60 dark:text-white/60">
+          To
+          <input
+            type="date"
+            name="to"
+            defaultValue={filters.to}
+            className={selectClassName}
+          />
+        </label>
+        {filters.actorId && (
+          <input type="hidden" name="actorId" value={filters.actorId} />
+        )}
+        {filters.targetId && (
+          <input type="hidden" name="targetId" value={filters.targetId} />
+        )}
+        <button
+          type="submit"
+          className="rounded-lg bg-sky-600 px-4 py-1.5 text-sm font-medium text-white transition hover:bg-sky-700"
+        >
+          Filter
+        </button>
+        <Link
+          href="/admin/audit"
+          className="px-2 py-1.5 text-sm text-black/60 hover:underline dark:text-white/60"
+        >
+          Reset
+        </Link>
+      </form>
+
+      {(filters.actorId || filters.targetId) && (
+        <p className="text-xs text-black/60 dark:text-white/60">
+          Showing entries{' '}
+          {filters.actorId && (
+            <>
+              by <span className="font-mono">{filters.actorId}</span>{' '}
+            </>
+          )}
+          {filters.targetId && (
+            <>
+              for <span className="font-mono">{filters.targetId}</span>
+            </>
+          )}
+        </p>
+      )}
+
+      <div className="overflow-x-auto rounded-2xl border border-light-200/70 bg-white shadow-sm dark:border-dark-200/70 dark:bg-dark-secondary">
+        <table className="w-full text-left text-sm">
+          <thead className="bg-light-100/40 text-xs uppercase tracking-wide text-black/60 dark:bg-dark-200/40 dark:text-white/60">
+            <tr>
+              <th className="px-4 py-2 font-medium">When</th>
+              <th className="px-4 py-2 font-medium">Actor</th>
+              <th className="px-4 py-2 font-medium">Action</th>
+              <th className="px-4 py-2 font-medium">Target</th>
+              <th className="px-4 py-2 font-medium">Changes</th>
+              <th className="px-4 py-2 font-medium">Client</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-light-200/60 align-top text-black/80 dark:divide-dark-200/60 dark:text-white/80">
+            {entries.length === 0 ? (
+              <tr>
+                <td
+                  colSpan={6}
+                  className="px-4 py-6 text-center text-black/50 dark:text-white/50"
+                >
+                  No audit entries match these filters.
+                </td>
+              </tr>
+            ) : (
+              entries.map((entry) => (
+                <tr key={`${entry.action}:${entry.id}`}>
+                  <td className="whitespace-nowrap px-4 py-2 text-xs">
+                    {format(entry.createdAt, 'MMM d, yyyy HH:mm')}
+                  </td>
+                  <td className="px-4 py-2">
+                    {entry.actorId ? (
+                      <Link
+                        href={buildHref(
+                          { ...filters, actorId: entry.actorId },
+                          1,
+                        )}
+                        className="text-sky-600 hover:underline dark:text-sky-400"
+                      >
+                        {entry.actorEmail ?? entry.actorName ?? entry.actorId}
+                      </Link>
+                    ) : (
+                      <span>{entry.actorEmail ?? 'System'}</span>
+                    )}
+                    {entry.impersonatedBy &&
+                      entry.action !== 'user.impersonated' && (
+                        <p className="text-xs text-amber-600 dark:text-amber-400">
+                          while impersonated by {entry.impersonatedBy}
+                        </p>
+                      )}
+                  </td>
+                  <td className="whitespace-nowrap px-4 py-2">
+                    {auditActionLabels[entry.action] ?? entry.action}
+                  </td>
+                  <td className="px-4 py-2">
+                    <p className="text-xs text-black/50 dark:text-white/50">
+                      {auditTargetLabels[entry.targetType] ?? entry.targetType}
+                    </p>
+                    {entry.targetId && (
+                      <Link
+                        href={buildHref(
+                          { ...filters, targetId: entry.targetId },
+                          1,
+                        )}
+                        className="break-all text-sky-600 hover:underline dark:text-sky-400"
+                      >
+                        {entry.targetLabel ?? entry.targetId}
+                      </Link>
+                    )}
+                  </td>
+                  <td className="px-4 py-2">
+                    <ChangeList changes={entry.changes} />
+                  </td>
+                  <td className="px-4 py-2 text-xs text-black/60 dark:text-white/60">
+                    <p>{entry.ipAddress ?? '—'}</p>
+                    {entry.userAgent && (
+                      <p
+                        className="max-w-[16rem] truncate"
+                        title={entry.userAgent}
+                      >
+                        {entry.userAgent}
+                      </p>
+                    )}
+                  </td>
+                </tr>
+              ))
+            )}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="flex items-center justify-between text-sm text-black/60 dark:text-white/60">
+        <span>
+          {total.toLocaleString()} entr{total === 1 ? 'y' : 'ies'} · page {page}{' '}
+          of {totalPages}
+        </span>
+        <div className="flex gap-2">
+          {page > 1 && (
+            <Link
+              href={buildHref(filters, page - 1)}
+              className="rounded-lg border border-light-200/70 px-3 py-1 hover:bg-light-200/60 dark:border-dark-200/70 dark:hover:bg-dark-200/60"
+            >
+              Previous
+            </Link>
+          )}
+          {page < totalPages && (
+            <Link
+              href={buildHref(filters, page + 1)}
+              className="rounded-lg border border-light-200/70 px-3 py-1 hover:bg-light-200/60 dark:border-dark-200/70 dark:hover:bg-dark-200/60"
+            >
+              Next
+            </Link>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default AuditLogTable;
@@ -0,0 +1,208 @@
+'use client';
+
+import { useActionState, useState } from 'react';
+import { Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+
+import { updateExportBrandingAction } from '@/app/api/admin/actions';
+import type { UpdateExportBrandingActionState } from '@/app/api/admin/validations';
+import type { ExportBranding } from '@/types/export';
+
+interface ExportBrandingFormProps {
+  branding: ExportBranding;
+}
+
+const inputClassName =
+  'w-full rounded-xl border border-light-200/70 bg-white px-3 py-2 text-sm text-black outline-none transition focus:border-sky-500 disabled:opacity-60 dark:border-dark-200/70 dark:bg-dark-tertiary dark:text-white';
+
+const Field = ({
+  label,
+  description,
+  children,
+}: {
+  label: string;
+  description?: string;
+  children: React.ReactNode;
+}) => (
+  <label className="block space-y-1.5">
+    <span className="text-sm font-medium text-black dark:text-white">
+      {label}
+    </span>
+    {children}
+    {description && (
+      <span className="block text-xs text-black/60 dark:text-white/60">
+        {description}
+      </span>
+    )}
+  </label>
+);
+
+export function ExportBrandingForm({ branding }: ExportBrandingFormProps) {
+  const [logoUrl, setLogoUrl] = useState(branding.logoUrl);
+  const [accentColor, setAccentColor] = useState(branding.accentColor);
+
+  const [_, formAction, pending] = useActionState(
+    async (
+      _prevState: UpdateExportBrandingActionState | undefined,
+      formData: FormData,
+    ) => {
+      const result = await updateExportBrandingAction(_prevState, formData);
+      if (result.success) {
+        toast.success(result.message ?? 'Branding saved.');
+      } else {
+        toast.error(result.message);
+      }
+      return result;
+    },
+    undefined,
+  );
+
+  const handleLogoFile = (file?: File) => {
+    if (!file) {
+      return;
+    }
+
+    if (!['image/png', 'image/jpeg'].includes(file.type)) {
+      toast.error('Logo must be a PNG or JPEG image.');
+      return;
+    }
+
+    if (file.size > 1024 * 1024) {
+      toast.error('Logo must be smaller than 1 MB.');
+      return;
+    }
+
+    const reader = new FileReader();
+    reader.onload = () => setLogoUrl(String(reader.result));
+    reader.readAsDataURL(file);
+  };
+
+  return (
+    <form
+      action={formAction}
+      className="max-w-2xl space-y-5 rounded-2xl border border-light-200/70 bg-white p-6 dark:border-dark-200/70 dark:bg-dark-secondary"
+    >
+      <Field label="Firm name">
+        <input
+          name="firmName"
+          defaultValue={branding.firmName}
+          required
+          disabled={pending}
+          className={inputClassName}
+        />
+      </Field>
+
+      <Field
+        label="Logo"
+        description="PNG or JPEG up to 1 MB. Paste a public URL or upload a file."
+      >
+        <div className="flex items-center gap-3">
+          {logoUrl && (
+            // eslint-disable-next-line @next/next/no-img-element
+            <img
+              src={logoUrl}
+              alt="Logo preview"
+              className="h-10 w-auto rounded border border-light-200/70 dark:border-dark-200/70"
+            />
+          )}
+          <input
+            name="logoUrl"
+            value={logoUrl}
+            onChange={(event) => setLogoUrl(event.target.value)}
+            placeholder="https://example.com/logo.png"
+            disabled={pending}
+            className={inputClassName}
+          />
+        </div>
+        <div className="flex items-center gap-3 pt-1">
+          <input
+            type="file"
+            accept="image/png,image/jpeg"
+            disabled={pending}
+            onChange={(event) => handleLogoFile(event.target.files?.[0])}
+            className="text-xs text-black/70 dark:text-white/70"
+          />
+          {logoUrl && (
+            <button
+              type="button"
+              onClick={() => setLogoUrl('')}
+              className="text-xs text-red-500 hover:underline"
+            >
+              Remove logo
+            </button>
+          )}
+        </div>
+      </Field>
+
+      <Field
+        label="Header text"
+        description="Shown next to the firm name on every page."
+      >
+        <input
+          name="headerText"
+          defaultValue={branding.headerText}
+          disabled={pending}
+          className={inputClassName}
+        />
+      </Field>
+
+      <Field
+        label="Footer text"
+        description="Shown with the page number on every page."
+      >
+        <input
+          name="footerText"
+          defaultValue={branding.footerText}
+          disabled={pending}
+          className={inputClassName}
+        />
+      </Field>
+
+      <Field
+        label="Disclaimer"
+        description="Printed at the end of every export."
+      >
+        <textarea
+          name="disclaimer"
+          defaultValue={branding.disclaimer}
+          rows={4}
+          disabled={pending}
+          className={inputClassName}
+        />
+      </Field>
+
+      <Field label="Accent colour">
+        <div className="flex items-center gap-3">
+          <input
+            type="color"
+            value={accentColor}
+            onChange={(event) => setAccentColor(event.target.value)}
+            disabled={pending}
+            className="h-9 w-12 cursor-pointer rounded border border-light-200/70 bg-transparent dark:border-dark-200/70"
+          />
+          <input
+            name="accentColor"
+            value={accentColor}
+            onChange={(event) => setAccentColor(event.target.value)}
+            disabled={pending}
+            className={`${inputClassName} max-w-[8rem] font-mono`}
+          />
+        </div>
+      </Field>
+
+      <div className="flex justify-end pt-2">
+        <button
+          type="submit"
+          disabled={pending}
+          className="inline-flex items-center gap-2 rounded-full bg-sky-600 px-4 py-2 text-sm font-semibold text-white shadow-sm transition hover:bg-sky-700 disabled:cursor-not-allowed disabled:opacity-60"
+        >
+          {pending ? (
+            <Loader2 className="h-4 w-4 animate-spin" />
+          ) : (
+            'Save branding'
+          )}
+        </button>
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,236 @@
+import Link from 'next/link';
+
+import { cn } from '@/lib/utils';
+import { formatCost, formatTokens } from '@/lib/usage/format';
+import type { OrgUsageSummary, UsageFeature, UsageTotals } from '@/types/usage';
+
+const featureLabels: Record<UsageFeature, string> = {
+  chat: 'Chat',
+  search: 'Search API',
+  suggestions: 'Suggestions',
+  images: 'Image search',
+  videos: 'Video search',
+  uploads: 'Upload embeddings',
+};
+
+interface UsageDashboardProps {
+  usage: OrgUsageSummary;
+  days: number;
+  periodOptions: number[];
+}
+
+export function UsageDashboard({
+  usage,
+  days,
+  periodOptions,
+}: UsageDashboardProps) {
+  const { totals, byDay, byFeature, byModel, topUsers } = usage;
+  const busiestDay = Math.max(1, ...byDay.map((day) => day.requests));
+
+  return (
+    <div className="space-y-6">
+      <div className="flex gap-2">
+        {periodOptions.map((option) => (
+          <Link
+            key={option}
+            href={`/admin/usage?days=${option}`}
+            className={cn(
+              'rounded-full px-3 py-1 text-xs font-medium transition',
+              option === days
+                ? 'bg-sky-600 text-white'
+                : 'border border-light-200/70 text-black/70 hover:bg-light-200/60 dark:border-dark-200/70 dark:text-white/70 dark:hover:bg-dark-200/60',
+            )}
+          >
+            Last {option} days
+          </Link>
+        ))}
+      </div>
+
+      <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-5">
+        <StatBlock
+          label="Model calls"
+          value={totals.requests.toLocaleString()}
+        />
+        <StatBlock
+          label="Input tokens"
+          value={formatTokens(totals.inputTokens)}
+        />
+        <StatBlock
+          label="Output tokens"
+          value={formatTokens(totals.outputTokens)}
+        />
+        <StatBlock
+          label="Avg latency"
+          value={`${totals.averageLatencyMs.toLocaleString()} ms`}
+        />
+        <StatBlock
+          label="Estimated cost"
+          value={formatCost(totals.estimatedCost)}
+          highlight
+        />
+      </div>
+
+      <Panel title="Calls per day">
+        {byDay.length === 0 ? (
+          <EmptyState />
+        ) : (
+          <div className="flex h-32 items-end gap-1 px-4 py-3">
+            {byDay.map((day) => (
+              <div
+                key={day.day}
+                title={`${day.day}: ${day.requests.toLocaleString()} calls, ${formatCost(day.estimatedCost)}`}
+                className="flex-1 rounded-t bg-sky-500/70 dark:bg-sky-500/60"
+                style={{
+                  height: `${Math.max(4, (day.requests / busiestDay) * 100)}%`,
+                }}
+              />
+            ))}
+          </div>
+        )}
+      </Panel>
+
+      <div className="grid gap-6 lg:grid-cols-2">
+        <Panel title="By feature">
+          <UsageTable
+            rows={byFeature.map((row) => ({
+              key: row.feature,
+              label: featureLabels[row.feature] ?? row.feature,
+              totals: row,
+            }))}
+          />
+        </Panel>
+        <Panel title="By model">
+          <UsageTable
+            rows={byModel.map((row) => ({
+              key: `${row.providerType}:${row.model}`,
+              label: (
+                <>
+                  <span className="font-mono text-xs">{row.model}</span>
+                  <span className="ml-2 text-xs text-black/50 dark:text-white/50">
+                    {row.providerType}
+                  </span>
+                </>
+              ),
+              totals: row,
+            }))}
+          />
+        </Panel>
+      </div>
+
+      <Panel title="Top users">
+        <UsageTable
+          rows={topUsers.map((row) => ({
+            key: row.userId,
+            label: (
+              <Link
+                href={`/admin/users/${row.userId}`}
+                className="text-sky-600 hover:underline dark:text-sky-400"
+              >
+                {row.name || row.email || row.userId}
+              </Link>
+            ),
+            totals: row,
+          }))}
+        />
+      </Panel>
+    </div>
+  );
+}
+
+function Panel({
+  title,
+  children,
+}: {
+  title: string;
+  children: React.ReactNode;
+}) {
+  return (
+    <section className="overflow-hidden rounded-2xl border border-light-200/70 bg-white shadow-sm dark:border-dark-200/70 dark:bg-dark-secondary">
+      <h2 className="border-b border-light-200/70 px-4 py-3 text-sm font-semibold text-black dark:border-dark-200/70 dark:text-white">
+        {title}
+      </h2>
+      {children}
+    </section>
+  );
+}
+
+function UsageTable({
+  rows,
+}: {
+  rows: { key: string; label: React.ReactNode; totals: UsageTotals }[];
+}) {
+  if (rows.length === 0) {
+    return <EmptyState />;
+  }
+
+  return (
+    <div className="overflow-x-auto">
+      <table className="w-full text-left text-sm">
+        <thead className="bg-light-100/40 text-xs uppercase tracking-wide text-black/60 dark:bg-dark-200/40 dark:text-white/60">
+          <tr>
+            <th className="px-4 py-2 font-medium">Name</th>
+            <th className="px-4 py-2 text-right font-medium">Calls</th>
+            <th className="px-4 py-2 text-right font-medium">
+              Tokens in / out
+            </th>
+            <th className="px-4 py-2 text-right font-medium">Est. cost</th>
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-light-200/60 text-black/80 dark:divide-dark-200/60 dark:text-white/80">
+          {rows.map((row) => (
+            <tr key={row.key}>
+              <td className="px-4 py-2">{row.label}</td>
+              <td className="px-4 py-2 text-right">
+                {row.totals.requests.toLocaleString()}
+              </td>
+              <td className="px-4 py-2 text-right">
+                {formatTokens(row.totals.inputTokens)} /{' '}
+                {formatTokens(row.totals.outputTokens)}
+              </td>
+              <td className="px-4 py-2 text-right">
+                {formatCost(row.totals.estimatedCost)}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+function EmptyState() {
+  return (
+    <p className="px-4 py-6 text-center text-sm text-black/50 dark:text-white/50">
+      No usage recorded for this period.
+    </p>
+  );
+}
+
+function StatBlock({
+  label,
+  value,
+  highlight = false,
+}: {
+  label: string;
+  value: string;
+  highlight?: boolean;
+}) {
+  return (
+    <div
+      className={
+        highlight
+          ? 'rounded-xl border border-sky-200 bg-sky-50 p-4 text-center dark:border-sky-900/40 dark:bg-sky-900/20'
+          : 'rounded-xl border border-light-200/70 bg-light-100/60 p-4 text-center dark:border-dark-200/70 dark:bg-dark-200/40'
+      }
+    >
+      <p className="text-xs uppercase tracking-wide text-black/60 dark:text-white/60">
+        {label}
+      </p>
+      <p className="mt-2 text-2xl font-semibold text-black dark:text-white">
+        {value}
+      </p>
+    </div>
+  );
+}
+
+export default UsageDashboard;
@@ -178,11 +178,12 @@ export function AdminUserDetail({
     return {
       chatCount: stats.chatCount,
       messageCount: stats.messageCount,
+      usage: stats.usage,
       period: stats.period,
       lastLogin,
       lastLoginLabel: lastLogin ? formatDistanceToNow(lastLogin, { addSuffix: true }) : '—',
     } as NormalizedUserStats;
-  }, [stats.chatCount, stats.messageCount, stats.period, user.lastLogin]);
+  }, [stats.chatCount, stats.messageCount, stats.usage, stats.period, user.lastLogin]);
 
   const handleAvatarUpload = useCallback(
     async (imageUrl: string) => {
@@ -2,6 +2,8 @@
 
 import { format } from 'date-fns';
 
+import { formatCost, formatTokens } from '@/lib/usage/format';
+
 import type { NormalizedUserStats } from './types';
 
 interface UserStatsCardProps {
@@ -17,6 +19,7 @@ const formatDate = (value: Date | null) => {
 
 export function UserStatsCard({ stats }: UserStatsCardProps) {
   const averageMessages = stats.chatCount > 0 ? Math.round(stats.messageCount / stats.chatCount) : 0;
+  const { totals, byModel } = stats.usage;
 
   return (
     <section className="rounded-2xl border border-light-200/70 bg-white p-6 shadow-sm dark:border-dark-200/70 dark:bg-dark-secondary">
@@ -48,6 +51,52 @@ export function UserStatsCard({ stats }: UserStatsCardProps) {
           </p>
         )}
       </div>
+
+      <div className="mt-8 space-y-1">
+        <h3 className="text-base font-semibold text-black dark:text-white">Model usage</h3>
+        <p className="text-sm text-black/60 dark:text-white/60">
+          Tokens and estimated provider cost across chat, search, suggestions and uploads.
+        </p>
+      </div>
+
+      <div className="mt-4 grid gap-4 sm:grid-cols-4">
+        <StatBlock label="Model calls" value={totals.requests.toLocaleString()} />
+        <StatBlock label="Input tokens" value={formatTokens(totals.inputTokens)} />
+        <StatBlock label="Output tokens" value={formatTokens(totals.outputTokens)} />
+        <StatBlock label="Estimated cost" value={formatCost(totals.estimatedCost)} highlight />
+      </div>
+
+      {byModel.length > 0 && (
+        <div className="mt-4 overflow-x-auto rounded-xl border border-light-200/60 dark:border-dark-200/60">
+          <table className="w-full text-left text-sm">
+            <thead className="bg-light-100/40 text-xs uppercase tracking-wide text-black/60 dark:bg-dark-200/40 dark:text-white/60">
+              <tr>
+                <th className="px-4 py-2 font-medium">Model</th>
+                <th className="px-4 py-2 text-right font-medium">Calls</th>
+                <th className="px-4 py-2 text-right font-medium">Tokens in / out</th>
+                <th className="px-4 py-2 text-right font-medium">Avg latency</th>
+                <th className="px-4 py-2 text-right font-medium">Est. cost</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-light-200/60 text-black/80 dark:divide-dark-200/60 dark:text-white/80">
+              {byModel.map((row) => (
+                <tr key={`${row.providerType}:${row.model}`}>
+                  <td className="px-4 py-2">
+                    <span className="font-mono text-xs">{row.model}</span>
+                    <span className="ml-2 text-xs text-black/50 dark:text-white/50">{row.providerType}</span>
+                  </td>
+                  <td className="px-4 py-2 text-right">{row.requests.toLocaleString()}</td>
+                  <td className="px-4 py-2 text-right">
+                    {formatTokens(row.inputTokens)} / {formatTokens(row.outputTokens)}
+                  </td>
+                  <td className="px-4 py-2 text-right">{row.averageLatencyMs.toLocaleString()} ms</td>
+                  <td className="px-4 py-2 text-right">{formatCost(row.estimatedCost)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
     </section>
   );
 }
@@ -1,6 +1,9 @@
+import type { UserUsageSummary } from '@/types/usage';
+
 export type NormalizedUserStats = {
   chatCount: number;
   messageCount: number;
+  usage: UserUsageSummary;
   period: string;
   lastLogin: Date | null;
   lastLoginLabel?: string;
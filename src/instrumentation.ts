@@ -40,5 +40,11 @@ export const register = async () => {
       logger.error('Failed to run database migrations.', error);
       process.exit(1);
     }
+
+    const { startUploadSweeper } = await import('./lib/uploads/server');
+    startUploadSweeper();
+
+    const { startIngestionWorker } = await import('./lib/uploads/ingestion');
+    startIngestionWorker();
   }
 };
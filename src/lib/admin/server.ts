@@ -6,11 +6,15 @@ import {
   requireUserListPermission,
 } from '@/lib/auth/permissions';
 import { adminRepository } from '@/lib/db/pg/repositories/admin-repository';
+import { auditLogRepository } from '@/lib/db/pg/repositories/audit-log-repository';
+import { usageRepository } from '@/lib/db/pg/repositories/usage-repository';
 import type {
   AdminUsersPaginated,
   AdminUsersQuery,
   AdminUsersSortField,
 } from '@/types/admin';
+import type { AuditLogPaginated, AuditLogQuery } from '@/types/audit';
+import type { OrgUsageSummary } from '@/types/usage';
 
 export const ADMIN_USER_LIST_LIMIT = 10;
 export const DEFAULT_SORT_BY: AdminUsersSortField = 'createdAt';
@@ -41,3 +45,23 @@ export async function getAdminUsers(
     sortDirection: query?.sortDirection ?? DEFAULT_SORT_DIRECTION,
   });
 }
+
+export const USAGE_PERIOD_DAYS = [7, 30, 90] as const;
+
+export async function getOrgUsage(days: number): Promise<OrgUsageSummary> {
+  await requireAdminPermission('view usage');
+
+  const since = new Date();
+  since.setDate(since.getDate() - days);
+  since.setHours(0, 0, 0, 0);
+
+  return usageRepository.getOrgSummary(since);
+}
+
+export async function getAuditLog(
+  query?: AuditLogQuery,
+): Promise<AuditLogPaginated> {
+  await requireAdminPermission('view the audit log');
+
+  return auditLogRepository.list(query);
+}
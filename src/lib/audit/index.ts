@@ -0,0 +1,93 @@
+import { headers } from 'next/headers';
+
+import { auth } from '@/lib/auth/server';
+import { auditLogRepository } from '@/lib/db/pg/repositories/audit-log-repository';
+import logger from '@/lib/logger';
+import type { AuditAction, AuditTargetType } from '@/types/audit';
+
+const auditLogger = logger.withDefaults({ tag: 'audit' });
+
+const REDACTED = '[redacted]';
+const SECRET_FIELD_PATTERN = /key|secret|token|password/i;
+
+type Snapshot = Record<string, unknown>;
+
+export interface AuditEvent {
+  action: AuditAction;
+  target: { type: AuditTargetType; id?: string | null };
+  /** Defaults to the signed-in user of the current request. */
+  actorId?: string | null;
+  before?: object | null;
+  after?: object | null;
+}
+
+/** Secrets never reach the audit trail, however deeply they are nested. */
+const redactSecrets = (value: unknown): unknown => {
+  if (Array.isArray(value)) {
+    return value.map(redactSecrets);
+  }
+
+  if (value && typeof value === 'object' && !(value instanceof Date)) {
+    return Object.fromEntries(
+      Object.entries(value).map(([field, nested]) => [
+        field,
+        SECRET_FIELD_PATTERN.test(field) ? REDACTED : redactSecrets(nested),
+      ]),
+    );
+  }
+
+  return value;
+};
+
+const resolveRequestContext = async () => {
+  try {
+    const requestHeaders = await headers();
+    const session = await auth.api.getSession({ headers: requestHeaders });
+
+    return {
+      ipAddress:
+        requestHeaders.get('x-forwarded-for')?.split(',')[0]?.trim() ||
+        requestHeaders.get('x-real-ip'),
+      userAgent: requestHeaders.get('user-agent'),
+      session,
+    };
+  } catch {
+    // Outside a request (scripts, startup) there is no caller to attribute.
+    return { ipAddress: null, userAgent: null, session: null };
+  }
+};
+
+/**
+ * Writes an audit_log entry for an administrative change. The caller's IP,
+ * user agent and any impersonation are taken from the current request.
+ * Failures are logged rather than thrown so the change itself still lands.
+ */
+export const recordAuditEvent = async (event: AuditEvent) => {
+  try {
+    const { ipAddress, userAgent, session } = await resolveRequestContext();
+    const actorId = event.actorId ?? session?.user.id ?? null;
+    const isSessionActor = Boolean(session && session.user.id === actorId);
+
+    await auditLogRepository.insert({
+      actorId,
+      actorEmail: isSessionActor ? session!.user.email : null,
+      impersonatedBy: isSessionActor
+        ? session!.session.impersonatedBy ?? null
+        : null,
+      action: event.action,
+      targetType: event.target.type,
+      targetId: event.target.id ?? null,
+      before: event.before ? (redactSecrets(event.before) as Snapshot) : null,
+      after: event.after ? (redactSecrets(event.after) as Snapshot) : null,
+      ipAddress: ipAddress ?? null,
+      userAgent: userAgent ?? null,
+    });
+  } catch (error) {
+    auditLogger.error('Failed to write audit log entry.', {
+      action: event.action,
+      targetType: event.target.type,
+      targetId: event.target.id,
+      error,
+    });
+  }
+};
@@ -14,6 +14,7 @@ import {
   mcpServers,
   mcpToolCustomInstructions,
   sessions,
+  uploadedFiles,
   users,
   verifications,
 } from '@/lib/db/schema';
@@ -279,6 +280,15 @@ const options: BetterAuthOptions = {
           };
         },
       },
+      delete: {
+        // Uploaded file records cascade with the user row, so their stored
+        // objects must go first. Loaded lazily to keep storage drivers out of
+        // CLI scripts that import the auth instance.
+        before: async (user) => {
+          const { deleteUserUploadedFiles } = await import('@/lib/uploads/server');
+          await deleteUserUploadedFiles(user.id);
+        },
+      },
     },
   },
   emailAndPassword: {
@@ -327,6 +337,11 @@ export const auth = betterAuth({
               .set({ userId: nextUserId })
               .where(eq(chats.userId, previousUserId));
 
+            await tx
+              .update(uploadedFiles)
+              .set({ userId: nextUserId })
+              .where(eq(uploadedFiles.userId, previousUserId));
+
             await tx
               .update(mcpServers)
               .set({ userId: nextUserId })
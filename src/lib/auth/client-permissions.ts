@@ -44,3 +44,12 @@ export const canUploadFiles = (role: string | undefined | null) =>
 export const canManageChats = (role: string | undefined | null) =>
   hasPermission(role, APP_RESOURCES.CHAT, PERMISSION_TYPES.UPDATE) ||
   hasPermission(role, APP_RESOURCES.CHAT, PERMISSION_TYPES.DELETE);
+
+export const canShareChats = (role: string | undefined | null) =>
+  hasPermission(role, APP_RESOURCES.CHAT, PERMISSION_TYPES.SHARE);
+
+export const canManageMcpServers = (role: string | undefined | null) =>
+  hasPermission(role, APP_RESOURCES.MCP, PERMISSION_TYPES.CREATE);
+
+export const canUseMcpTools = (role: string | undefined | null) =>
+  hasPermission(role, APP_RESOURCES.MCP, PERMISSION_TYPES.USE);
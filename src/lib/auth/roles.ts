@@ -88,6 +88,16 @@ const chatPermissions = [
   PERMISSION_TYPES.DELETE,
   PERMISSION_TYPES.LIST,
   PERMISSION_TYPES.USE,
+  PERMISSION_TYPES.SHARE,
+];
+
+const mcpPermissions = [
+  PERMISSION_TYPES.CREATE,
+  PERMISSION_TYPES.VIEW,
+  PERMISSION_TYPES.UPDATE,
+  PERMISSION_TYPES.DELETE,
+  PERMISSION_TYPES.LIST,
+  PERMISSION_TYPES.USE,
 ];
 
 export const accessControl = createAccessControl({
@@ -96,6 +106,7 @@ export const accessControl = createAccessControl({
   [APP_RESOURCES.CONFIG]: configPermissions,
   [APP_RESOURCES.UPLOAD]: uploadPermissions,
   [APP_RESOURCES.CHAT]: chatPermissions,
+  [APP_RESOURCES.MCP]: mcpPermissions,
 });
 
 export const userRoleDefinition = accessControl.newRole({
@@ -108,6 +119,11 @@ export const userRoleDefinition = accessControl.newRole({
   [APP_RESOURCES.CONFIG]: [PERMISSION_TYPES.VIEW],
   [APP_RESOURCES.UPLOAD]: uploadPermissions,
   [APP_RESOURCES.CHAT]: chatPermissions,
+  [APP_RESOURCES.MCP]: [
+    PERMISSION_TYPES.VIEW,
+    PERMISSION_TYPES.LIST,
+    PERMISSION_TYPES.USE,
+  ],
 });
 
 export const editorRoleDefinition = accessControl.newRole({
@@ -117,6 +133,7 @@ export const editorRoleDefinition = accessControl.newRole({
   [APP_RESOURCES.CONFIG]: configPermissions,
   [APP_RESOURCES.UPLOAD]: uploadPermissions,
   [APP_RESOURCES.CHAT]: chatPermissions,
+  [APP_RESOURCES.MCP]: mcpPermissions,
 });
 
 export const adminRoleDefinition = accessControl.newRole({
@@ -126,6 +143,7 @@ export const adminRoleDefinition = accessControl.newRole({
   [APP_RESOURCES.CONFIG]: configPermissions,
   [APP_RESOURCES.UPLOAD]: uploadPermissions,
   [APP_RESOURCES.CHAT]: chatPermissions,
+  [APP_RESOURCES.MCP]: mcpPermissions,
 });
 
 export const userRolesInfo: Record<
@@ -7,4 +7,6 @@ export const CacheKeys = {
     country?: string,
   ) => `discover:${mode}:${country ?? 'global'}:${topic}`,
   rates: () => 'rates',
+  ebmReceipt: (verifier: string, receiptUrl: string) =>
+    `ebm-receipt:${verifier}:${receiptUrl}`,
 };
@@ -0,0 +1,13 @@
+export class ProviderNotFoundError extends Error {
+  constructor(public providerId: string) {
+    super(`Provider not found: ${providerId}`);
+    this.name = 'ProviderNotFoundError';
+  }
+}
+
+export class ReadOnlyProviderError extends Error {
+  constructor(public providerId: string) {
+    super('Providers defined through environment variables are read-only.');
+    this.name = 'ReadOnlyProviderError';
+  }
+}
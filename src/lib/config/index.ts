@@ -4,9 +4,32 @@ import { Config, ConfigModelProvider, UIConfigSections } from './types';
 import { hashObj } from '../serverUtils';
 import { getModelProvidersUIConfigSection } from '../models/providers';
 import logger from '@/lib/logger';
+import { recordAuditEvent } from '@/lib/audit';
 import { loadOpenAICompatibleProviders } from './openaiCompatible';
+import { ProviderNotFoundError, ReadOnlyProviderError } from './errors';
+import { decryptProviderConfig, encryptProviderConfig } from './secrets';
+import {
+  modelProviderRepository,
+  type ModelProviderRow,
+} from '@/lib/db/pg/repositories/model-provider-repository';
 
 const configLogger = logger.withDefaults({ tag: 'config' });
+const providerAuditLogger = logger.withDefaults({
+  tag: 'audit:model-providers',
+});
+
+/**
+ * Persisted providers are re-read after this long so that changes made on
+ * another server instance show up without a restart.
+ */
+const PROVIDER_CACHE_TTL_MS = 30_000;
+
+type ProviderAuditAction =
+  | 'provider.created'
+  | 'provider.updated'
+  | 'provider.deleted'
+  | 'provider.model_added'
+  | 'provider.model_removed';
 
 class ConfigManager {
   configVersion = 1;
@@ -24,6 +47,9 @@ class ConfigManager {
 
   private currentConfig: Config;
   private uiConfigSections: UIConfigSections;
+  private envProviders: ConfigModelProvider[] = [];
+  private providersLoadedAt = 0;
+  private providersLoading: Promise<void> | null = null;
 
   constructor() {
     this.uiConfigSections = this.buildUIConfigSections();
@@ -112,15 +138,15 @@ class ConfigManager {
   }
 
   private buildInitialConfig(): Config {
-    const providers = this.buildProvidersFromEnv();
+    this.envProviders = this.buildProvidersFromEnv();
     const search = this.buildSearchConfig();
 
     return {
       version: this.configVersion,
-      setupComplete: this.hasChatProviderConfiguredInternal(providers),
+      setupComplete: this.hasChatProviderConfiguredInternal(this.envProviders),
       preferences: {},
       personalization: {},
-      modelProviders: providers,
+      modelProviders: [...this.envProviders],
       search,
     };
   }
@@ -167,6 +193,7 @@ class ConfigManager {
         chatModels: [],
         embeddingModels: [],
         hash,
+        source: 'env',
       });
     });
 
@@ -195,6 +222,7 @@ class ConfigManager {
         })),
         embeddingModels: [],
         hash,
+        source: 'env',
       });
     });
 
@@ -215,7 +243,8 @@ class ConfigManager {
   }
 
   private saveConfig() {
-    // Configuration is sourced from environment variables and kept in-memory.
+    // Preferences and search settings are sourced from environment variables
+    // and kept in-memory. Model providers are persisted separately below.
   }
 
   public getConfig(key: string, defaultValue?: any): any {
@@ -253,109 +282,257 @@ class ConfigManager {
     this.saveConfig();
   }
 
-  public addModelProvider(type: string, name: string, config: any) {
-    const newModelProvider: ConfigModelProvider = {
-      id: crypto.randomUUID(),
-      name,
-      type,
+  /**
+   * Loads providers stored in Postgres and merges them with the env-defined
+   * ones. Calls within the cache TTL are no-ops unless `force` is set.
+   */
+  public async loadModelProviders(force = false) {
+    if (!force && Date.now() - this.providersLoadedAt < PROVIDER_CACHE_TTL_MS) {
+      return;
+    }
+
+    if (!this.providersLoading) {
+      this.providersLoading = this.fetchPersistedProviders().finally(() => {
+        this.providersLoading = null;
+      });
+    }
+
+    await this.providersLoading;
+  }
+
+  private async fetchPersistedProviders() {
+    try {
+      const rows = await modelProviderRepository.list();
+      const persisted = rows.flatMap((row) => {
+        try {
+          return [this.mapPersistedProvider(row)];
+        } catch (error) {
+          configLogger.error('Failed to decrypt model provider config.', {
+            id: row.id,
+            error,
+          });
+          return [];
+        }
+      });
+
+      this.currentConfig.modelProviders = [...this.envProviders, ...persisted];
+      this.providersLoadedAt = Date.now();
+      this.syncSetupCompletionState();
+    } catch (error) {
+      configLogger.error(
+        'Failed to load model providers from database.',
+        error,
+      );
+    }
+  }
+
+  private mapPersistedProvider(row: ModelProviderRow): ConfigModelProvider {
+    const config = decryptProviderConfig(row.encryptedConfig);
+
+    return {
+      id: row.id,
+      name: row.name,
+      type: row.type,
       config,
-      chatModels: [],
-      embeddingModels: [],
+      chatModels: row.chatModels,
+      embeddingModels: row.embeddingModels,
       hash: hashObj(config),
+      source: 'database',
     };
+  }
+
+  private async getMutableProvider(id: string) {
+    await this.loadModelProviders();
+
+    const provider = this.currentConfig.modelProviders.find((p) => p.id === id);
+
+    if (!provider) throw new ProviderNotFoundError(id);
+    if (provider.source === 'env') throw new ReadOnlyProviderError(id);
+
+    return provider;
+  }
+
+  private replaceCachedProvider(provider: ConfigModelProvider) {
+    this.currentConfig.modelProviders = this.currentConfig.modelProviders.map(
+      (p) => (p.id === provider.id ? provider : p),
+    );
+    this.syncSetupCompletionState();
+  }
+
+  private async auditProviderChange(
+    action: ProviderAuditAction,
+    provider: Pick<ConfigModelProvider, 'id' | 'type' | 'name'>,
+    actorId: string | null | undefined,
+    change: {
+      before?: Record<string, unknown>;
+      after?: Record<string, unknown>;
+    } = {},
+  ) {
+    // Secrets never reach the audit trail; config changes are recorded by
+    // field name only.
+    providerAuditLogger.info(action, {
+      providerId: provider.id,
+      providerType: provider.type,
+      providerName: provider.name,
+      actorId: actorId ?? null,
+      ...change,
+    });
+
+    await recordAuditEvent({
+      action,
+      target: { type: 'model_provider', id: provider.id },
+      actorId,
+      ...change,
+    });
+  }
+
+  public async addModelProvider(
+    type: string,
+    name: string,
+    config: any,
+    actorId?: string | null,
+  ) {
+    const row = await modelProviderRepository.create({
+      id: crypto.randomUUID(),
+      type,
+      name,
+      encryptedConfig: encryptProviderConfig(config),
+      createdBy: actorId,
+    });
+
+    const newModelProvider = this.mapPersistedProvider(row);
 
     this.currentConfig.modelProviders.push(newModelProvider);
     this.syncSetupCompletionState();
-    this.saveConfig();
+    await this.auditProviderChange(
+      'provider.created',
+      newModelProvider,
+      actorId,
+      {
+        after: {
+          name,
+          type,
+          configFields: Object.keys(config ?? {}),
+        },
+      },
+    );
 
     return newModelProvider;
   }
 
-  public removeModelProvider(id: string) {
-    const index = this.currentConfig.modelProviders.findIndex(
-      (p) => p.id === id,
-    );
+  public async removeModelProvider(id: string, actorId?: string | null) {
+    const provider = await this.getMutableProvider(id);
 
-    if (index === -1) return;
+    await modelProviderRepository.remove(id);
 
     this.currentConfig.modelProviders =
       this.currentConfig.modelProviders.filter((p) => p.id !== id);
 
     this.syncSetupCompletionState();
-    this.saveConfig();
+    await this.auditProviderChange('provider.deleted', provider, actorId, {
+      before: { name: provider.name, type: provider.type },
+    });
   }
 
-  public async updateModelProvider(id: string, name: string, config: any) {
-    const provider = this.currentConfig.modelProviders.find((p) => {
-      return p.id === id;
+  public async updateModelProvider(
+    id: string,
+    name: string,
+    config: any,
+    actorId?: string | null,
+  ) {
+    const provider = await this.getMutableProvider(id);
+
+    const changedFields = Array.from(
+      new Set([...Object.keys(provider.config), ...Object.keys(config ?? {})]),
+    ).filter((key) => provider.config[key] !== config?.[key]);
+
+    const row = await modelProviderRepository.update(id, {
+      name,
+      encryptedConfig: encryptProviderConfig(config),
+      updatedBy: actorId,
     });
 
-    if (!provider) throw new Error('Provider not found');
+    if (!row) throw new ProviderNotFoundError(id);
 
-    provider.name = name;
-    provider.config = config;
+    const updated = this.mapPersistedProvider(row);
 
-    this.syncSetupCompletionState();
-    this.saveConfig();
+    this.replaceCachedProvider(updated);
+    await this.auditProviderChange('provider.updated', updated, actorId, {
+      before: { name: provider.name },
+      after: { name, changedConfigFields: changedFields },
+    });
 
-    return provider;
+    return updated;
   }
 
-  public addProviderModel(
+  public async addProviderModel(
     providerId: string,
     type: 'embedding' | 'chat',
     model: any,
+    actorId?: string | null,
   ) {
-    const provider = this.currentConfig.modelProviders.find(
-      (p) => p.id === providerId,
-    );
-
-    if (!provider) throw new Error('Invalid provider id');
+    const provider = await this.getMutableProvider(providerId);
 
     delete model.type;
 
-    if (type === 'chat') {
-      provider.chatModels.push(model);
-    } else {
-      provider.embeddingModels.push(model);
-    }
+    const row = await modelProviderRepository.update(providerId, {
+      ...(type === 'chat'
+        ? { chatModels: [...provider.chatModels, model] }
+        : { embeddingModels: [...provider.embeddingModels, model] }),
+      updatedBy: actorId,
+    });
 
-    this.syncSetupCompletionState();
-    this.saveConfig();
+    if (!row) throw new ProviderNotFoundError(providerId);
+
+    this.replaceCachedProvider(this.mapPersistedProvider(row));
+    await this.auditProviderChange('provider.model_added', provider, actorId, {
+      after: { modelType: type, modelKey: model.key },
+    });
 
     return model;
   }
 
-  public removeProviderModel(
+  public async removeProviderModel(
     providerId: string,
     type: 'embedding' | 'chat',
     modelKey: string,
+    actorId?: string | null,
   ) {
-    const provider = this.currentConfig.modelProviders.find(
-      (p) => p.id === providerId,
-    );
-
-    if (!provider) throw new Error('Invalid provider id');
+    const provider = await this.getMutableProvider(providerId);
+
+    const row = await modelProviderRepository.update(providerId, {
+      ...(type === 'chat'
+        ? {
+            chatModels: provider.chatModels.filter((m) => m.key !== modelKey),
+          }
+        : {
+            embeddingModels: provider.embeddingModels.filter(
+              (m) => m.key !== modelKey,
+            ),
+          }),
+      updatedBy: actorId,
+    });
 
-    if (type === 'chat') {
-      provider.chatModels = provider.chatModels.filter(
-        (m) => m.key !== modelKey,
-      );
-    } else {
-      provider.embeddingModels = provider.embeddingModels.filter(
-        (m) => m.key !== modelKey,
-      );
-    }
+    if (!row) throw new ProviderNotFoundError(providerId);
 
-    this.syncSetupCompletionState();
-    this.saveConfig();
+    this.replaceCachedProvider(this.mapPersistedProvider(row));
+    await this.auditProviderChange(
+      'provider.model_removed',
+      provider,
+      actorId,
+      {
+        before: { modelType: type, modelKey },
+      },
+    );
   }
 
   public isSetupComplete() {
     return this.currentConfig.setupComplete;
   }
 
-  public markSetupComplete() {
+  public async markSetupComplete() {
+    await this.loadModelProviders();
+
     if (!this.hasChatProviderConfigured()) {
       throw new Error(
         'At least one chat-capable provider must be configured before completing setup.',
@@ -0,0 +1,74 @@
+import 'server-only';
+
+import crypto from 'crypto';
+
+const ALGORITHM = 'aes-256-gcm';
+const IV_BYTES = 12;
+const ENVELOPE_VERSION = 'v1';
+
+let cachedKey: Buffer | null = null;
+
+/**
+ * Provider configs are encrypted with MODEL_PROVIDER_ENCRYPTION_KEY when set,
+ * otherwise with a key derived from BETTER_AUTH_SECRET so existing deployments
+ * work without extra setup. Changing either value makes stored configs
+ * unreadable.
+ */
+const getEncryptionKey = () => {
+  if (cachedKey) {
+    return cachedKey;
+  }
+
+  const secret =
+    process.env.MODEL_PROVIDER_ENCRYPTION_KEY || process.env.BETTER_AUTH_SECRET;
+
+  if (!secret) {
+    throw new Error(
+      'MODEL_PROVIDER_ENCRYPTION_KEY or BETTER_AUTH_SECRET must be set to store provider configs',
+    );
+  }
+
+  cachedKey = Buffer.from(
+    crypto.hkdfSync('sha256', secret, '', 'model-provider-config', 32),
+  );
+
+  return cachedKey;
+};
+
+export const encryptProviderConfig = (config: Record<string, any>) => {
+  const iv = crypto.randomBytes(IV_BYTES);
+  const cipher = crypto.createCipheriv(ALGORITHM, getEncryptionKey(), iv);
+  const ciphertext = Buffer.concat([
+    cipher.update(JSON.stringify(config), 'utf8'),
+    cipher.final(),
+  ]);
+
+  return [
+    ENVELOPE_VERSION,
+    iv.toString('base64url'),
+    cipher.getAuthTag().toString('base64url'),
+    ciphertext.toString('base64url'),
+  ].join('.');
+};
+
+export const decryptProviderConfig = (payload: string): Record<string, any> => {
+  const [version, iv, tag, ciphertext] = payload.split('.');
+
+  if (version !== ENVELOPE_VERSION || !iv || !tag || !ciphertext) {
+    throw new Error('Unsupported provider config envelope');
+  }
+
+  const decipher = crypto.createDecipheriv(
+    ALGORITHM,
+    getEncryptionKey(),
+    Buffer.from(iv, 'base64url'),
+  );
+  decipher.setAuthTag(Buffer.from(tag, 'base64url'));
+
+  const plaintext = Buffer.concat([
+    decipher.update(Buffer.from(ciphertext, 'base64url')),
+    decipher.final(),
+  ]).toString('utf8');
+
+  return JSON.parse(plaintext);
+};
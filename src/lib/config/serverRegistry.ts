@@ -1,14 +1,18 @@
 import configManager from './index';
 import { ConfigModelProvider } from './types';
 
-export const getConfiguredModelProviders = (): ConfigModelProvider[] => {
+export const getConfiguredModelProviders = async (): Promise<
+  ConfigModelProvider[]
+> => {
+  await configManager.loadModelProviders();
   return configManager.getConfig('modelProviders', []);
 };
 
-export const getConfiguredModelProviderById = (
+export const getConfiguredModelProviderById = async (
   id: string,
-): ConfigModelProvider | undefined => {
-  return getConfiguredModelProviders().find((p) => p.id === id) ?? undefined;
+): Promise<ConfigModelProvider | undefined> => {
+  const providers = await getConfiguredModelProviders();
+  return providers.find((p) => p.id === id) ?? undefined;
 };
 
 export const getSearxngURL = () =>
@@ -50,6 +50,12 @@ type UIConfigField =
   | TextareaUIConfigField
   | SwitchUIConfigField;
 
+/**
+ * `env` providers are built from environment variables on boot and are
+ * read-only; `database` providers are managed through the settings UI.
+ */
+type ConfigModelProviderSource = 'env' | 'database';
+
 type ConfigModelProvider = {
   id: string;
   name: string;
@@ -58,6 +64,7 @@ type ConfigModelProvider = {
   embeddingModels: Model[];
   config: { [key: string]: any };
   hash: string;
+  source: ConfigModelProviderSource;
 };
 
 type Config = {
@@ -104,6 +111,7 @@ export type {
   StringUIConfigField,
   ModelProviderUISection,
   ConfigModelProvider,
+  ConfigModelProviderSource,
   TextareaUIConfigField,
   SwitchUIConfigField,
 };
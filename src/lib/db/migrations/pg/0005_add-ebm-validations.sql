@@ -0,0 +1,31 @@
+CREATE TABLE IF NOT EXISTS "ebm_validations" (
+    "id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+    "user_id" uuid NOT NULL REFERENCES "user" ("id") ON DELETE cascade,
+    "chat_id" text,
+    "file_id" text NOT NULL,
+    "file_name" text,
+    "report_id" text,
+    "status" text NOT NULL,
+    "template_name" text,
+    "seller_tin" text,
+    "buyer_tin" text,
+    "invoice_number" text,
+    "issue_date" date,
+    "total_amount" numeric(18, 2),
+    "vat_amount" numeric(18, 2),
+    "currency" text,
+    "headline" text,
+    "qr_payload" jsonb,
+    "matches" jsonb NOT NULL DEFAULT '[]'::jsonb,
+    "errors" jsonb NOT NULL DEFAULT '[]'::jsonb,
+    "created_at" timestamp NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS "ebm_validations_user_id_created_at_idx"
+    ON "ebm_validations" ("user_id", "created_at");
+
+CREATE INDEX IF NOT EXISTS "ebm_validations_user_id_seller_tin_idx"
+    ON "ebm_validations" ("user_id", "seller_tin");
+
+CREATE INDEX IF NOT EXISTS "ebm_validations_user_id_invoice_number_idx"
+    ON "ebm_validations" ("user_id", "invoice_number");
@@ -0,0 +1,6 @@
+CREATE TABLE IF NOT EXISTS "app_settings" (
+    "key" text PRIMARY KEY NOT NULL,
+    "value" jsonb NOT NULL,
+    "updated_by" uuid REFERENCES "user" ("id") ON DELETE set null,
+    "updated_at" timestamp NOT NULL DEFAULT NOW()
+);
@@ -0,0 +1,17 @@
+CREATE TABLE IF NOT EXISTS "chat_shares" (
+    "id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+    "token" text NOT NULL CONSTRAINT "chat_shares_token_unique" UNIQUE,
+    "chat_id" text NOT NULL REFERENCES "chats" ("id") ON DELETE cascade,
+    "user_id" uuid NOT NULL REFERENCES "user" ("id") ON DELETE cascade,
+    "expires_at" timestamp,
+    "revoked_at" timestamp,
+    "view_count" integer NOT NULL DEFAULT 0,
+    "last_viewed_at" timestamp,
+    "created_at" timestamp NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS "chat_shares_user_id_created_at_idx"
+    ON "chat_shares" ("user_id", "created_at");
+
+CREATE INDEX IF NOT EXISTS "chat_shares_chat_id_idx"
+    ON "chat_shares" ("chat_id");
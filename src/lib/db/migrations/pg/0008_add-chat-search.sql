@@ -0,0 +1,8 @@
+CREATE INDEX IF NOT EXISTS "chats_user_id_created_at_idx"
+    ON "chats" ("user_id", "createdAt");
+
+CREATE INDEX IF NOT EXISTS "chats_title_search_idx"
+    ON "chats" USING gin (to_tsvector('english'::regconfig, "title"));
+
+CREATE INDEX IF NOT EXISTS "messages_content_search_idx"
+    ON "messages" USING gin (to_tsvector('english'::regconfig, coalesce("content", '')));
@@ -0,0 +1,15 @@
+CREATE TABLE IF NOT EXISTS "model_providers" (
+	"id" text PRIMARY KEY NOT NULL,
+	"type" text NOT NULL,
+	"name" text NOT NULL,
+	"encrypted_config" text NOT NULL,
+	"chat_models" jsonb DEFAULT '[]'::jsonb NOT NULL,
+	"embedding_models" jsonb DEFAULT '[]'::jsonb NOT NULL,
+	"created_by" uuid,
+	"updated_by" uuid,
+	"created_at" timestamp DEFAULT CURRENT_TIMESTAMP NOT NULL,
+	"updated_at" timestamp DEFAULT CURRENT_TIMESTAMP NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "model_providers" ADD CONSTRAINT "model_providers_created_by_user_id_fk" FOREIGN KEY ("created_by") REFERENCES "public"."user"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "model_providers" ADD CONSTRAINT "model_providers_updated_by_user_id_fk" FOREIGN KEY ("updated_by") REFERENCES "public"."user"("id") ON DELETE set null ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "messages" ADD COLUMN "toolCalls" jsonb DEFAULT '[]'::jsonb;
\ No newline at end of file
@@ -0,0 +1,20 @@
+CREATE TABLE IF NOT EXISTS "usage_events" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" uuid,
+	"chat_id" text,
+	"feature" text NOT NULL,
+	"kind" text NOT NULL,
+	"provider_id" text NOT NULL,
+	"provider_type" text NOT NULL,
+	"model" text NOT NULL,
+	"input_tokens" integer DEFAULT 0 NOT NULL,
+	"output_tokens" integer DEFAULT 0 NOT NULL,
+	"tokens_estimated" boolean DEFAULT false NOT NULL,
+	"latency_ms" integer NOT NULL,
+	"estimated_cost" numeric(14, 6),
+	"created_at" timestamp DEFAULT CURRENT_TIMESTAMP NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "usage_events" ADD CONSTRAINT "usage_events_user_id_user_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."user"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "usage_events_user_id_created_at_idx" ON "usage_events" USING btree ("user_id","created_at");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "usage_events_created_at_idx" ON "usage_events" USING btree ("created_at");
\ No newline at end of file
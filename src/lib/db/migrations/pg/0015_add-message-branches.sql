@@ -0,0 +1,27 @@
+ALTER TABLE "messages" ADD COLUMN "parentMessageId" text;--> statement-breakpoint
+UPDATE "messages" AS m SET "parentMessageId" = (
+	SELECT p."messageId" FROM "messages" AS p
+	WHERE p."chatId" = m."chatId" AND p."role" = 'assistant' AND p."id" < m."id"
+	ORDER BY p."id" DESC LIMIT 1
+) WHERE m."role" = 'user';--> statement-breakpoint
+UPDATE "messages" AS m SET "parentMessageId" = (
+	SELECT p."messageId" FROM "messages" AS p
+	WHERE p."chatId" = m."chatId" AND p."role" = 'user' AND p."id" < m."id"
+	ORDER BY p."id" DESC LIMIT 1
+) WHERE m."role" = 'assistant';--> statement-breakpoint
+UPDATE "messages" AS m SET "parentMessageId" = COALESCE(
+	(
+		SELECT a."messageId" FROM "messages" AS a
+		WHERE a."chatId" = m."chatId" AND a."role" = 'assistant' AND a."id" > m."id"
+			AND NOT EXISTS (
+				SELECT 1 FROM "messages" AS u
+				WHERE u."chatId" = m."chatId" AND u."role" = 'user' AND u."id" > m."id" AND u."id" < a."id"
+			)
+		ORDER BY a."id" LIMIT 1
+	),
+	(
+		SELECT p."messageId" FROM "messages" AS p
+		WHERE p."chatId" = m."chatId" AND p."role" = 'user' AND p."id" < m."id"
+		ORDER BY p."id" DESC LIMIT 1
+	)
+) WHERE m."role" = 'source';
\ No newline at end of file
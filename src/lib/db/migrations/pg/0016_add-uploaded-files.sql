@@ -0,0 +1,40 @@
+CREATE TABLE IF NOT EXISTS "uploaded_files" (
+	"id" text PRIMARY KEY NOT NULL,
+	"user_id" uuid NOT NULL,
+	"chat_id" text,
+	"name" text NOT NULL,
+	"extension" text NOT NULL,
+	"content_type" text,
+	"size" integer DEFAULT 0 NOT NULL,
+	"created_at" timestamp DEFAULT CURRENT_TIMESTAMP NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "uploaded_files" ADD CONSTRAINT "uploaded_files_user_id_user_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."user"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "uploaded_files" ADD CONSTRAINT "uploaded_files_chat_id_chats_id_fk" FOREIGN KEY ("chat_id") REFERENCES "public"."chats"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "uploaded_files_user_id_created_at_idx" ON "uploaded_files" USING btree ("user_id","created_at");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "uploaded_files_chat_id_idx" ON "uploaded_files" USING btree ("chat_id");--> statement-breakpoint
+INSERT INTO "uploaded_files" ("id", "user_id", "chat_id", "name", "extension", "created_at")
+SELECT DISTINCT ON (f->>'fileId')
+	f->>'fileId',
+	c."user_id",
+	c."id",
+	coalesce(f->>'name', f->>'fileId'),
+	coalesce(lower(substring(f->>'name' from '\.([^.]+)$')), ''),
+	c."createdAt"
+FROM "chats" c
+CROSS JOIN LATERAL jsonb_array_elements(coalesce(c."files", '[]'::jsonb)) f
+WHERE c."user_id" IS NOT NULL AND f->>'fileId' IS NOT NULL
+ORDER BY f->>'fileId', c."createdAt"
+ON CONFLICT ("id") DO NOTHING;--> statement-breakpoint
+INSERT INTO "uploaded_files" ("id", "user_id", "name", "extension", "created_at")
+SELECT DISTINCT ON (f->>'fileId')
+	f->>'fileId',
+	p."user_id",
+	coalesce(f->>'name', f->>'fileId'),
+	coalesce(lower(substring(f->>'name' from '\.([^.]+)$')), ''),
+	p."created_at"
+FROM "projects" p
+CROSS JOIN LATERAL jsonb_array_elements(p."files") f
+WHERE f->>'fileId' IS NOT NULL
+ORDER BY f->>'fileId', p."created_at"
+ON CONFLICT ("id") DO NOTHING;
\ No newline at end of file
@@ -0,0 +1,36 @@
+DO $$
+BEGIN
+	-- pgvector is optional: without it uploads keep being searched from their
+	-- stored embeddings objects, so a missing extension must not fail the run.
+	BEGIN
+		CREATE EXTENSION IF NOT EXISTS vector;
+	EXCEPTION WHEN others THEN
+		RAISE NOTICE 'Skipping uploaded_file_chunks: pgvector is unavailable (%)', SQLERRM;
+		RETURN;
+	END;
+
+	CREATE TABLE IF NOT EXISTS "uploaded_file_chunks" (
+		"file_id" text NOT NULL,
+		"chunk_index" integer NOT NULL,
+		"page_number" integer,
+		"content" text NOT NULL,
+		"dimensions" integer NOT NULL,
+		"embedding" vector NOT NULL,
+		CONSTRAINT "uploaded_file_chunks_file_id_chunk_index_pk" PRIMARY KEY("file_id","chunk_index")
+	);
+
+	IF NOT EXISTS (
+		SELECT 1 FROM pg_constraint WHERE conname = 'uploaded_file_chunks_file_id_uploaded_files_id_fk'
+	) THEN
+		ALTER TABLE "uploaded_file_chunks" ADD CONSTRAINT "uploaded_file_chunks_file_id_uploaded_files_id_fk" FOREIGN KEY ("file_id") REFERENCES "public"."uploaded_files"("id") ON DELETE cascade ON UPDATE no action;
+	END IF;
+
+	CREATE INDEX IF NOT EXISTS "uploaded_file_chunks_file_id_page_number_idx" ON "uploaded_file_chunks" USING btree ("file_id","page_number");
+
+	-- HNSW needs a fixed size, so common embedding sizes get partial indexes
+	-- that searches match by casting to the same size.
+	CREATE INDEX IF NOT EXISTS "uploaded_file_chunks_embedding_384_idx" ON "uploaded_file_chunks" USING hnsw (("embedding"::vector(384)) vector_cosine_ops) WHERE "dimensions" = 384;
+	CREATE INDEX IF NOT EXISTS "uploaded_file_chunks_embedding_768_idx" ON "uploaded_file_chunks" USING hnsw (("embedding"::vector(768)) vector_cosine_ops) WHERE "dimensions" = 768;
+	CREATE INDEX IF NOT EXISTS "uploaded_file_chunks_embedding_1024_idx" ON "uploaded_file_chunks" USING hnsw (("embedding"::vector(1024)) vector_cosine_ops) WHERE "dimensions" = 1024;
+	CREATE INDEX IF NOT EXISTS "uploaded_file_chunks_embedding_1536_idx" ON "uploaded_file_chunks" USING hnsw (("embedding"::vector(1536)) vector_cosine_ops) WHERE "dimensions" = 1536;
+END $$;
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "mcp_oauth_session" ADD COLUMN "authorization_url" text;
\ No newline at end of file
@@ -0,0 +1,220 @@
+import {
+  and,
+  count,
+  eq,
+  gte,
+  isNotNull,
+  lte,
+  sql,
+  type SQL,
+} from 'drizzle-orm';
+import { alias } from 'drizzle-orm/pg-core';
+
+import { pgDb } from '@/lib/db';
+import { auditLog, sessions, users } from '@/lib/db/schema';
+import type {
+  AuditAction,
+  AuditChange,
+  AuditLogEntry,
+  AuditLogPaginated,
+  AuditLogQuery,
+  AuditTargetType,
+} from '@/types/audit';
+
+export type NewAuditLogEntry = typeof auditLog.$inferInsert;
+
+const DEFAULT_LIMIT = 25;
+const MAX_LIMIT = 100;
+
+/**
+ * Impersonation is recorded by better-auth on the session itself, so those
+ * sessions are listed alongside audit_log rows instead of being copied.
+ */
+const IMPERSONATION_ACTION: AuditAction = 'user.impersonated';
+
+const actors = alias(users, 'actor');
+const targets = alias(users, 'target_user');
+
+type Snapshot = Record<string, unknown> | null;
+
+const diffSnapshots = (before: Snapshot, after: Snapshot): AuditChange[] => {
+  const fields = new Set([
+    ...Object.keys(before ?? {}),
+    ...Object.keys(after ?? {}),
+  ]);
+
+  return Array.from(fields)
+    .map((field) => ({
+      field,
+      before: before?.[field] ?? null,
+      after: after?.[field] ?? null,
+    }))
+    .filter(
+      (change) =>
+        JSON.stringify(change.before) !== JSON.stringify(change.after),
+    );
+};
+
+const buildAuditConditions = (query?: AuditLogQuery) => {
+  const conditions: SQL[] = [];
+
+  if (query?.action) {
+    conditions.push(eq(auditLog.action, query.action));
+  }
+  if (query?.targetType) {
+    conditions.push(eq(auditLog.targetType, query.targetType));
+  }
+  if (query?.actorId) {
+    conditions.push(eq(auditLog.actorId, query.actorId));
+  }
+  if (query?.targetId) {
+    conditions.push(eq(auditLog.targetId, query.targetId));
+  }
+  if (query?.from) {
+    conditions.push(gte(auditLog.createdAt, query.from));
+  }
+  if (query?.to) {
+    conditions.push(lte(auditLog.createdAt, query.to));
+  }
+
+  return and(...conditions);
+};
+
+const buildImpersonationConditions = (query?: AuditLogQuery) => {
+  const included =
+    (!query?.action || query.action === IMPERSONATION_ACTION) &&
+    (!query?.targetType || query.targetType === 'user');
+
+  if (!included) {
+    return sql`false`;
+  }
+
+  const conditions: SQL[] = [isNotNull(sessions.impersonatedBy)];
+
+  if (query?.actorId) {
+    conditions.push(eq(sessions.impersonatedBy, query.actorId));
+  }
+  if (query?.targetId) {
+    conditions.push(sql`${sessions.userId}::text = ${query.targetId}`);
+  }
+  if (query?.from) {
+    conditions.push(gte(sessions.createdAt, query.from));
+  }
+  if (query?.to) {
+    conditions.push(lte(sessions.createdAt, query.to));
+  }
+
+  return and(...conditions);
+};
+
+const selectAuditEntries = (query?: AuditLogQuery) =>
+  pgDb
+    .select({
+      id: sql<string>`${auditLog.id}::text`.as('id'),
+      action: sql<AuditAction>`${auditLog.action}`.as('action'),
+      actorId: sql<string | null>`${auditLog.actorId}::text`.as('actor_id'),
+      actorName: sql<string | null>`${actors.name}`.as('actor_name'),
+      actorEmail: sql<
+        string | null
+      >`COALESCE(${actors.email}, ${auditLog.actorEmail})`.as('actor_email'),
+      impersonatedBy: sql<string | null>`${auditLog.impersonatedBy}`.as(
+        'impersonated_by',
+      ),
+      targetType: sql<AuditTargetType>`${auditLog.targetType}`.as(
+        'target_type',
+      ),
+      targetId: sql<string | null>`${auditLog.targetId}`.as('target_id'),
+      targetLabel: sql<string | null>`${targets.email}`.as('target_label'),
+      before: sql<Snapshot>`${auditLog.before}`.as('before'),
+      after: sql<Snapshot>`${auditLog.after}`.as('after'),
+      ipAddress: sql<string | null>`${auditLog.ipAddress}`.as('ip_address'),
+      userAgent: sql<string | null>`${auditLog.userAgent}`.as('user_agent'),
+      createdAt: sql<string>`${auditLog.createdAt}`.as('created_at'),
+    })
+    .from(auditLog)
+    .leftJoin(actors, eq(actors.id, auditLog.actorId))
+    .leftJoin(
+      targets,
+      and(
+        eq(auditLog.targetType, 'user'),
+        sql`${targets.id}::text = ${auditLog.targetId}`,
+      ),
+    )
+    .where(buildAuditConditions(query));
+
+const selectImpersonations = (query?: AuditLogQuery) =>
+  pgDb
+    .select({
+      id: sql<string>`${sessions.id}::text`.as('id'),
+      action: sql<AuditAction>`${IMPERSONATION_ACTION}`.as('action'),
+      actorId: sql<string | null>`${sessions.impersonatedBy}`.as('actor_id'),
+      actorName: sql<string | null>`${actors.name}`.as('actor_name'),
+      actorEmail: sql<string | null>`${actors.email}`.as('actor_email'),
+      impersonatedBy: sql<string | null>`${sessions.impersonatedBy}`.as(
+        'impersonated_by',
+      ),
+      targetType: sql<AuditTargetType>`'user'`.as('target_type'),
+      targetId: sql<string | null>`${sessions.userId}::text`.as('target_id'),
+      targetLabel: sql<string | null>`${targets.email}`.as('target_label'),
+      before: sql<Snapshot>`NULL::jsonb`.as('before'),
+      after:
+        sql<Snapshot>`jsonb_build_object('sessionExpiresAt', ${sessions.expiresAt})`.as(
+          'after',
+        ),
+      ipAddress: sql<string | null>`${sessions.ipAddress}`.as('ip_address'),
+      userAgent: sql<string | null>`${sessions.userAgent}`.as('user_agent'),
+      createdAt: sql<string>`${sessions.createdAt}`.as('created_at'),
+    })
+    .from(sessions)
+    .leftJoin(actors, sql`${actors.id}::text = ${sessions.impersonatedBy}`)
+    .leftJoin(targets, eq(targets.id, sessions.userId))
+    .where(buildImpersonationConditions(query));
+
+export const auditLogRepository = {
+  async insert(entry: NewAuditLogEntry) {
+    await pgDb.insert(auditLog).values(entry);
+  },
+
+  async list(query?: AuditLogQuery): Promise<AuditLogPaginated> {
+    const limit = Math.max(
+      1,
+      Math.min(query?.limit ?? DEFAULT_LIMIT, MAX_LIMIT),
+    );
+    const offset = Math.max(0, query?.offset ?? 0);
+
+    const [rows, [auditTotal], [impersonationTotal]] = await Promise.all([
+      selectAuditEntries(query)
+        .unionAll(selectImpersonations(query))
+        .orderBy(sql`created_at DESC`)
+        .limit(limit)
+        .offset(offset),
+      pgDb
+        .select({ value: count() })
+        .from(auditLog)
+        .where(buildAuditConditions(query)),
+      pgDb
+        .select({ value: count() })
+        .from(sessions)
+        .where(buildImpersonationConditions(query)),
+    ]);
+
+    const entries: AuditLogEntry[] = rows.map(
+      ({ before, after, createdAt, ...row }) => ({
+        ...row,
+        changes: diffSnapshots(before, after),
+        // Timestamps are stored without a zone and written in UTC.
+        createdAt: new Date(`${createdAt.replace(' ', 'T')}Z`),
+      }),
+    );
+
+    return {
+      entries,
+      total:
+        Number(auditTotal?.value ?? 0) + Number(impersonationTotal?.value ?? 0),
+      limit,
+      offset,
+    };
+  },
+};
+
+export default auditLogRepository;
@@ -0,0 +1,140 @@
+import { and, desc, eq, gte, lt, or, sql, type SQL } from 'drizzle-orm';
+
+import { pgDb } from '@/lib/db';
+import { chats, messages } from '@/lib/db/schema';
+
+/**
+ * Text search configuration shared with the GIN indexes on chat titles and
+ * message content. Queries must use the same expression to hit the index.
+ */
+const SEARCH_CONFIG = sql.raw(`'english'::regconfig`);
+
+export type ChatCursor = {
+  createdAt: Date;
+  id: string;
+};
+
+type SearchChatsParams = {
+  userId: string;
+  query?: string;
+  focusMode?: string;
+  projectId?: string;
+  from?: Date;
+  to?: Date;
+  cursor?: ChatCursor | null;
+  limit: number;
+};
+
+export const encodeChatCursor = (cursor: ChatCursor) =>
+  Buffer.from(`${cursor.createdAt.toISOString()}|${cursor.id}`).toString(
+    'base64url',
+  );
+
+export const decodeChatCursor = (value: string): ChatCursor | null => {
+  const decoded = Buffer.from(value, 'base64url').toString('utf8');
+  const separator = decoded.indexOf('|');
+  if (separator === -1) {
+    return null;
+  }
+
+  const createdAt = new Date(decoded.slice(0, separator));
+  const id = decoded.slice(separator + 1);
+  if (Number.isNaN(createdAt.getTime()) || !id) {
+    return null;
+  }
+
+  return { createdAt, id };
+};
+
+export const chatRepository = {
+  /**
+   * Lists a user's chats newest first, optionally matching a full-text query
+   * against titles and message content. Pages are keyed on (createdAt, id)
+   * so results stay stable while new chats are created.
+   */
+  async search({
+    userId,
+    query,
+    focusMode,
+    projectId,
+    from,
+    to,
+    cursor,
+    limit,
+  }: SearchChatsParams) {
+    const conditions: SQL[] = [eq(chats.userId, userId)];
+
+    if (query) {
+      const tsQuery = sql`websearch_to_tsquery(${SEARCH_CONFIG}, ${query})`;
+      const titleMatch = sql`to_tsvector(${SEARCH_CONFIG}, ${chats.title}) @@ ${tsQuery}`;
+      const messageMatch = sql`exists (
+        select 1 from ${messages}
+        where ${messages.chatId} = ${chats.id}
+          and to_tsvector(${SEARCH_CONFIG}, coalesce(${messages.content}, '')) @@ ${tsQuery}
+      )`;
+      conditions.push(or(titleMatch, messageMatch)!);
+    }
+
+    if (focusMode) {
+      conditions.push(eq(chats.focusMode, focusMode));
+    }
+
+    if (projectId) {
+      conditions.push(eq(chats.projectId, projectId));
+    }
+
+    if (from) {
+      conditions.push(gte(chats.createdAt, from));
+    }
+
+    if (to) {
+      conditions.push(lt(chats.createdAt, to));
+    }
+
+    if (cursor) {
+      conditions.push(
+        or(
+          lt(chats.createdAt, cursor.createdAt),
+          and(eq(chats.createdAt, cursor.createdAt), lt(chats.id, cursor.id)),
+        )!,
+      );
+    }
+
+    const rows = await pgDb
+      .select({
+        id: chats.id,
+        title: chats.title,
+        createdAt: chats.createdAt,
+        focusMode: chats.focusMode,
+        projectId: chats.projectId,
+      })
+      .from(chats)
+      .where(and(...conditions))
+      .orderBy(desc(chats.createdAt), desc(chats.id))
+      .limit(limit + 1);
+
+    const page = rows.slice(0, limit);
+    const last = page[page.length - 1];
+
+    return {
+      chats: page,
+      nextCursor:
+        rows.length > limit && last
+          ? encodeChatCursor({ createdAt: last.createdAt, id: last.id })
+          : null,
+    };
+  },
+
+  /** Moves a chat into a project, or out of any project when null. */
+  async setProject(chatId: string, userId: string, projectId: string | null) {
+    const [row] = await pgDb
+      .update(chats)
+      .set({ projectId })
+      .where(and(eq(chats.id, chatId), eq(chats.userId, userId)))
+      .returning({ id: chats.id });
+
+    return Boolean(row);
+  },
+};
+
+export default chatRepository;
@@ -0,0 +1,119 @@
+import { randomBytes } from 'crypto';
+import { and, desc, eq, isNull, sql, type SQL } from 'drizzle-orm';
+
+import { pgDb } from '@/lib/db';
+import { chatShares, chats } from '@/lib/db/schema';
+import type { ChatShare, ChatShareStatus } from '@/types/share';
+
+type ChatShareRow = typeof chatShares.$inferSelect;
+
+const TOKEN_BYTES = 24;
+
+export const resolveShareStatus = (
+  share: Pick<ChatShareRow, 'expiresAt' | 'revokedAt'>,
+  now = new Date(),
+): ChatShareStatus => {
+  if (share.revokedAt) {
+    return 'revoked';
+  }
+  if (share.expiresAt && share.expiresAt.getTime() <= now.getTime()) {
+    return 'expired';
+  }
+  return 'active';
+};
+
+const mapToShare = (row: ChatShareRow, chatTitle: string): ChatShare => ({
+  id: row.id,
+  token: row.token,
+  chatId: row.chatId,
+  chatTitle,
+  status: resolveShareStatus(row),
+  expiresAt: row.expiresAt,
+  revokedAt: row.revokedAt,
+  viewCount: row.viewCount,
+  lastViewedAt: row.lastViewedAt,
+  createdAt: row.createdAt,
+});
+
+type CreateChatShareParams = {
+  chatId: string;
+  chatTitle: string;
+  userId: string;
+  expiresAt: Date | null;
+};
+
+export const chatShareRepository = {
+  async create({
+    chatId,
+    chatTitle,
+    userId,
+    expiresAt,
+  }: CreateChatShareParams): Promise<ChatShare> {
+    const [row] = await pgDb
+      .insert(chatShares)
+      .values({
+        chatId,
+        userId,
+        expiresAt,
+        token: randomBytes(TOKEN_BYTES).toString('base64url'),
+      })
+      .returning();
+
+    return mapToShare(row, chatTitle);
+  },
+
+  async listByUser(userId: string, chatId?: string): Promise<ChatShare[]> {
+    const conditions: SQL[] = [eq(chatShares.userId, userId)];
+    if (chatId) {
+      conditions.push(eq(chatShares.chatId, chatId));
+    }
+
+    const rows = await pgDb
+      .select({ share: chatShares, chatTitle: chats.title })
+      .from(chatShares)
+      .innerJoin(chats, eq(chatShares.chatId, chats.id))
+      .where(and(...conditions))
+      .orderBy(desc(chatShares.createdAt));
+
+    return rows.map(({ share, chatTitle }) => mapToShare(share, chatTitle));
+  },
+
+  async findByToken(token: string) {
+    const [row] = await pgDb
+      .select({ share: chatShares, chat: chats })
+      .from(chatShares)
+      .innerJoin(chats, eq(chatShares.chatId, chats.id))
+      .where(eq(chatShares.token, token))
+      .limit(1);
+
+    return row ?? null;
+  },
+
+  async revoke(id: string, userId: string) {
+    const [row] = await pgDb
+      .update(chatShares)
+      .set({ revokedAt: sql`CURRENT_TIMESTAMP` })
+      .where(
+        and(
+          eq(chatShares.id, id),
+          eq(chatShares.userId, userId),
+          isNull(chatShares.revokedAt),
+        ),
+      )
+      .returning();
+
+    return row ?? null;
+  },
+
+  async recordView(id: string) {
+    await pgDb
+      .update(chatShares)
+      .set({
+        viewCount: sql`${chatShares.viewCount} + 1`,
+        lastViewedAt: sql`CURRENT_TIMESTAMP`,
+      })
+      .where(eq(chatShares.id, id));
+  },
+};
+
+export default chatShareRepository;
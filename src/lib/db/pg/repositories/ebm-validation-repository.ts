@@ -0,0 +1,174 @@
+import { and, count, desc, eq, gte, lte, type SQL } from 'drizzle-orm';
+
+import { pgDb } from '@/lib/db';
+import { ebmValidations } from '@/lib/db/schema';
+import type {
+  EbmValidationListItem,
+  EbmValidationRecord,
+  EbmValidationsPaginated,
+  EbmValidationsQuery,
+} from '@/types/ebm';
+
+type EbmValidationRow = typeof ebmValidations.$inferSelect;
+export type NewEbmValidation = typeof ebmValidations.$inferInsert;
+
+const DEFAULT_LIMIT = 25;
+const MAX_LIMIT = 100;
+const PRIOR_INVOICE_LIMIT = 20;
+
+const toNumber = (value: string | null) =>
+  value == null ? null : Number(value);
+
+const mapToRecord = (row: EbmValidationRow): EbmValidationRecord => ({
+  id: row.id,
+  chatId: row.chatId,
+  fileId: row.fileId,
+  fileName: row.fileName,
+  reportId: row.reportId,
+  status: row.status,
+  templateName: row.templateName,
+  sellerTin: row.sellerTin,
+  buyerTin: row.buyerTin,
+  invoiceNumber: row.invoiceNumber,
+  issueDate: row.issueDate,
+  totalAmount: toNumber(row.totalAmount),
+  vatAmount: toNumber(row.vatAmount),
+  currency: row.currency,
+  headline: row.headline,
+  qrPayload: row.qrPayload ?? null,
+  matches: row.matches,
+  errors: row.errors,
+  createdAt: row.createdAt,
+});
+
+const mapToListItem = (row: EbmValidationRow): EbmValidationListItem => {
+  const { qrPayload, matches, errors, ...item } = mapToRecord(row);
+  return item;
+};
+
+const buildWhereClause = (userId: string, query?: EbmValidationsQuery) => {
+  const conditions: SQL[] = [eq(ebmValidations.userId, userId)];
+
+  if (query?.sellerTin) {
+    conditions.push(eq(ebmValidations.sellerTin, query.sellerTin));
+  }
+  if (query?.buyerTin) {
+    conditions.push(eq(ebmValidations.buyerTin, query.buyerTin));
+  }
+  if (query?.invoiceNumber) {
+    conditions.push(eq(ebmValidations.invoiceNumber, query.invoiceNumber));
+  }
+  if (query?.status) {
+    conditions.push(eq(ebmValidations.status, query.status));
+  }
+  if (query?.chatId) {
+    conditions.push(eq(ebmValidations.chatId, query.chatId));
+  }
+  if (query?.reportId) {
+    conditions.push(eq(ebmValidations.reportId, query.reportId));
+  }
+  if (query?.issuedFrom) {
+    conditions.push(gte(ebmValidations.issueDate, query.issuedFrom));
+  }
+  if (query?.issuedTo) {
+    conditions.push(lte(ebmValidations.issueDate, query.issuedTo));
+  }
+
+  return and(...conditions);
+};
+
+export const ebmValidationRepository = {
+  async insertMany(records: NewEbmValidation[]) {
+    if (records.length === 0) {
+      return;
+    }
+
+    await pgDb.insert(ebmValidations).values(records);
+  },
+
+  async findById(userId: string, id: string) {
+    const [row] = await pgDb
+      .select()
+      .from(ebmValidations)
+      .where(and(eq(ebmValidations.id, id), eq(ebmValidations.userId, userId)))
+      .limit(1);
+
+    return row ? mapToRecord(row) : null;
+  },
+
+  /**
+   * Earlier validations of the same invoice number, newest first. Without a
+   * seller TIN the number alone is matched, as batch duplicate detection does.
+   */
+  async findByInvoiceNumber(
+    userId: string,
+    invoiceNumber: string,
+    sellerTin?: string,
+  ) {
+    const conditions: SQL[] = [
+      eq(ebmValidations.userId, userId),
+      eq(ebmValidations.invoiceNumber, invoiceNumber),
+    ];
+    if (sellerTin) {
+      conditions.push(eq(ebmValidations.sellerTin, sellerTin));
+    }
+
+    const rows = await pgDb
+      .select()
+      .from(ebmValidations)
+      .where(and(...conditions))
+      .orderBy(desc(ebmValidations.createdAt))
+      .limit(PRIOR_INVOICE_LIMIT);
+
+    return rows.map(mapToListItem);
+  },
+
+  /** Invoices validated by the user since `since`, for monthly quotas. */
+  async countSince(userId: string, since: Date) {
+    const [{ value }] = await pgDb
+      .select({ value: count() })
+      .from(ebmValidations)
+      .where(
+        and(
+          eq(ebmValidations.userId, userId),
+          gte(ebmValidations.createdAt, since),
+        ),
+      );
+
+    return Number(value ?? 0);
+  },
+
+  async list(
+    userId: string,
+    query?: EbmValidationsQuery,
+  ): Promise<EbmValidationsPaginated> {
+    const limit = Math.max(
+      1,
+      Math.min(query?.limit ?? DEFAULT_LIMIT, MAX_LIMIT),
+    );
+    const offset = Math.max(0, query?.offset ?? 0);
+    const whereClause = buildWhereClause(userId, query);
+
+    const rows = await pgDb
+      .select()
+      .from(ebmValidations)
+      .where(whereClause)
+      .orderBy(desc(ebmValidations.createdAt))
+      .limit(limit)
+      .offset(offset);
+
+    const [{ value: total }] = await pgDb
+      .select({ value: count() })
+      .from(ebmValidations)
+      .where(whereClause);
+
+    return {
+      validations: rows.map(mapToListItem),
+      total: Number(total ?? 0),
+      limit,
+      offset,
+    };
+  },
+};
+
+export default ebmValidationRepository;
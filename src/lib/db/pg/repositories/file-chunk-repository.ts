@@ -0,0 +1,174 @@
+import { and, eq, inArray, sql, type SQL } from 'drizzle-orm';
+
+import { pgDb } from '@/lib/db';
+import { uploadedFileChunks, uploadedFiles } from '@/lib/db/schema';
+import type { FileChunk, FileChunkMatch } from '@/types/file-chunk';
+
+/** Embedding sizes with an HNSW index in migration 0017. */
+const INDEXED_DIMENSIONS = new Set([384, 768, 1024, 1536]);
+
+/** Rows per insert statement, well under Postgres' parameter limit. */
+const INSERT_BATCH_SIZE = 200;
+
+/**
+ * HNSW candidates gathered per search (pgvector's default is 40), so more
+ * of them survive the file filter on pgvector releases before 0.8.
+ */
+const SEARCH_EF = 400;
+
+let iterativeScanSupport: Promise<boolean> | undefined;
+
+/** Whether pgvector is 0.8 or newer and can keep scanning past filtered rows. */
+const supportsIterativeScan = () => {
+  iterativeScanSupport ??= pgDb
+    .execute<{ supported: boolean }>(
+      sql`SELECT string_to_array(extversion, '.')::int[] >= ARRAY[0, 8] AS supported FROM pg_extension WHERE extname = 'vector'`,
+    )
+    .then((result) => Boolean(result.rows[0]?.supported))
+    .catch(() => {
+      iterativeScanSupport = undefined;
+      return false;
+    });
+  return iterativeScanSupport;
+};
+
+const toVectorLiteral = (embedding: number[]) => `[${embedding.join(',')}]`;
+
+/**
+ * Cosine distance between stored chunks and the query. For indexed sizes
+ * both sides are cast to match the partial HNSW index expressions.
+ */
+const cosineDistance = (embedding: number[]): SQL => {
+  const dimensions = embedding.length;
+  const vector = toVectorLiteral(embedding);
+
+  if (INDEXED_DIMENSIONS.has(dimensions)) {
+    const type = sql.raw(`vector(${dimensions})`);
+    return sql`(${uploadedFileChunks.embedding}::${type} <=> ${vector}::${type})`;
+  }
+
+  return sql`(${uploadedFileChunks.embedding} <=> ${vector}::vector)`;
+};
+
+type SearchFileChunksParams = {
+  embedding: number[];
+  fileIds: string[];
+  /** Restricts matches to these pages of the files. */
+  pageNumbers?: number[];
+  limit: number;
+  minSimilarity?: number;
+};
+
+export const fileChunkRepository = {
+  /** Whether the chunks table exists, i.e. pgvector was available. */
+  async isAvailable(): Promise<boolean> {
+    const result = await pgDb.execute<{ available: boolean }>(
+      sql`SELECT to_regclass('public.uploaded_file_chunks') IS NOT NULL AS available`,
+    );
+    return Boolean(result.rows[0]?.available);
+  },
+
+  async replaceForFile(fileId: string, chunks: FileChunk[]): Promise<void> {
+    await pgDb.transaction(async (tx) => {
+      await tx
+        .delete(uploadedFileChunks)
+        .where(eq(uploadedFileChunks.fileId, fileId));
+
+      for (let start = 0; start < chunks.length; start += INSERT_BATCH_SIZE) {
+        await tx.insert(uploadedFileChunks).values(
+          chunks.slice(start, start + INSERT_BATCH_SIZE).map((chunk) => ({
+            fileId,
+            chunkIndex: chunk.chunkIndex,
+            pageNumber: chunk.pageNumber,
+            content: chunk.content,
+            dimensions: chunk.embedding.length,
+            embedding: chunk.embedding,
+          })),
+        );
+      }
+    });
+  },
+
+  /** The subset of the given files that have indexed chunks. */
+  async findIndexedFileIds(fileIds: string[]): Promise<Set<string>> {
+    if (fileIds.length === 0) {
+      return new Set();
+    }
+
+    const rows = await pgDb
+      .selectDistinct({ fileId: uploadedFileChunks.fileId })
+      .from(uploadedFileChunks)
+      .where(inArray(uploadedFileChunks.fileId, fileIds));
+
+    return new Set(rows.map((row) => row.fileId));
+  },
+
+  /**
+   * Nearest chunks of the given files by cosine similarity. Chunks embedded
+   * with a different model size are never compared.
+   *
+   * HNSW applies the file filter after picking its `ef_search` candidates
+   * from the whole table, so with the defaults a chat's own chunks would
+   * mostly be missed. The candidate pool is raised for the query, and on
+   * pgvector 0.8+ the scan iterates until enough rows pass the filter.
+   * Iterative results are only roughly ordered, so they are sorted again.
+   */
+  async search({
+    embedding,
+    fileIds,
+    pageNumbers,
+    limit,
+    minSimilarity,
+  }: SearchFileChunksParams): Promise<FileChunkMatch[]> {
+    if (fileIds.length === 0 || embedding.length === 0) {
+      return [];
+    }
+
+    const distance = cosineDistance(embedding);
+    const conditions = [
+      eq(uploadedFileChunks.dimensions, embedding.length),
+      inArray(uploadedFileChunks.fileId, fileIds),
+    ];
+    if (pageNumbers && pageNumbers.length > 0) {
+      conditions.push(inArray(uploadedFileChunks.pageNumber, pageNumbers));
+    }
+    if (minSimilarity !== undefined) {
+      conditions.push(sql`${distance} < ${1 - minSimilarity}`);
+    }
+
+    const iterativeScan = await supportsIterativeScan();
+    const rows = await pgDb.transaction(async (tx) => {
+      await tx.execute(sql.raw(`SET LOCAL hnsw.ef_search = ${SEARCH_EF}`));
+      if (iterativeScan) {
+        await tx.execute(sql`SET LOCAL hnsw.iterative_scan = relaxed_order`);
+      }
+
+      return tx
+        .select({
+          fileId: uploadedFileChunks.fileId,
+          fileName: uploadedFiles.name,
+          chunkIndex: uploadedFileChunks.chunkIndex,
+          pageNumber: uploadedFileChunks.pageNumber,
+          content: uploadedFileChunks.content,
+          distance: sql<number>`${distance}`.mapWith(Number),
+        })
+        .from(uploadedFileChunks)
+        .innerJoin(
+          uploadedFiles,
+          eq(uploadedFiles.id, uploadedFileChunks.fileId),
+        )
+        .where(and(...conditions))
+        .orderBy(distance)
+        .limit(limit);
+    });
+
+    return rows
+      .sort((a, b) => a.distance - b.distance)
+      .map(({ distance: rowDistance, ...row }) => ({
+        ...row,
+        similarity: 1 - rowDistance,
+      }));
+  },
+};
+
+export default fileChunkRepository;
@@ -0,0 +1,148 @@
+import { and, eq, inArray, sql } from 'drizzle-orm';
+
+import { pgDb } from '@/lib/db';
+import {
+  mcpServerCustomInstructions,
+  mcpToolCustomInstructions,
+} from '@/lib/db/schema';
+import type {
+  McpServerCustomization,
+  McpToolInstructions,
+} from '@/lib/types/mcp';
+
+export const mcpCustomizationRepository = {
+  async get(userId: string, serverId: string): Promise<McpServerCustomization> {
+    const [[server], tools] = await Promise.all([
+      pgDb
+        .select({ prompt: mcpServerCustomInstructions.prompt })
+        .from(mcpServerCustomInstructions)
+        .where(
+          and(
+            eq(mcpServerCustomInstructions.userId, userId),
+            eq(mcpServerCustomInstructions.mcpServerId, serverId),
+          ),
+        )
+        .limit(1),
+      pgDb
+        .select({
+          toolName: mcpToolCustomInstructions.toolName,
+          prompt: mcpToolCustomInstructions.prompt,
+        })
+        .from(mcpToolCustomInstructions)
+        .where(
+          and(
+            eq(mcpToolCustomInstructions.userId, userId),
+            eq(mcpToolCustomInstructions.mcpServerId, serverId),
+          ),
+        ),
+    ]);
+
+    return {
+      serverPrompt: server?.prompt ?? '',
+      tools: tools
+        .filter((tool) => tool.prompt?.trim())
+        .map((tool) => ({ toolName: tool.toolName, prompt: tool.prompt! })),
+    };
+  },
+
+  /** Customizations for several servers at once, keyed by server id. */
+  async listForServers(
+    userId: string,
+    serverIds: string[],
+  ): Promise<Map<string, McpServerCustomization>> {
+    const result = new Map<string, McpServerCustomization>();
+    if (serverIds.length === 0) {
+      return result;
+    }
+
+    const [servers, tools] = await Promise.all([
+      pgDb
+        .select()
+        .from(mcpServerCustomInstructions)
+        .where(
+          and(
+            eq(mcpServerCustomInstructions.userId, userId),
+            inArray(mcpServerCustomInstructions.mcpServerId, serverIds),
+          ),
+        ),
+      pgDb
+        .select()
+        .from(mcpToolCustomInstructions)
+        .where(
+          and(
+            eq(mcpToolCustomInstructions.userId, userId),
+            inArray(mcpToolCustomInstructions.mcpServerId, serverIds),
+          ),
+        ),
+    ]);
+
+    const entryFor = (serverId: string) => {
+      let entry = result.get(serverId);
+      if (!entry) {
+        entry = { serverPrompt: '', tools: [] };
+        result.set(serverId, entry);
+      }
+      return entry;
+    };
+
+    servers.forEach((row) => {
+      entryFor(row.mcpServerId).serverPrompt = row.prompt ?? '';
+    });
+    tools.forEach((row) => {
+      if (row.prompt?.trim()) {
+        entryFor(row.mcpServerId).tools.push({
+          toolName: row.toolName,
+          prompt: row.prompt,
+        });
+      }
+    });
+
+    return result;
+  },
+
+  async saveServerPrompt(userId: string, serverId: string, prompt: string) {
+    await pgDb
+      .insert(mcpServerCustomInstructions)
+      .values({ userId, mcpServerId: serverId, prompt })
+      .onConflictDoUpdate({
+        target: [
+          mcpServerCustomInstructions.userId,
+          mcpServerCustomInstructions.mcpServerId,
+        ],
+        set: { prompt, updatedAt: sql`CURRENT_TIMESTAMP` },
+      });
+  },
+
+  /** Replaces every tool instruction the user has for the server. */
+  async replaceToolPrompts(
+    userId: string,
+    serverId: string,
+    tools: McpToolInstructions[],
+  ) {
+    await pgDb.transaction(async (tx) => {
+      await tx
+        .delete(mcpToolCustomInstructions)
+        .where(
+          and(
+            eq(mcpToolCustomInstructions.userId, userId),
+            eq(mcpToolCustomInstructions.mcpServerId, serverId),
+          ),
+        );
+
+      const rows = tools
+        .filter((tool) => tool.prompt.trim())
+        .map((tool) => ({
+          userId,
+          mcpServerId: serverId,
+          toolName: tool.toolName,
+          prompt: tool.prompt,
+        }));
+
+      if (rows.length > 0) {
+        await tx.insert(mcpToolCustomInstructions).values(rows);
+      }
+    });
+  },
+};
+
+export default mcpCustomizationRepository;
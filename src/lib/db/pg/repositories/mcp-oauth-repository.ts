@@ -0,0 +1,78 @@
+import { desc, eq, sql } from 'drizzle-orm';
+
+import { pgDb } from '@/lib/db';
+import { mcpOAuthSessions } from '@/lib/db/schema';
+import type { McpOAuthSession } from '@/lib/types/mcp';
+
+/** `null` clears a field; omitted fields are left untouched. */
+type McpOAuthSessionUpdate = {
+  serverUrl?: string;
+  clientInfo?: Record<string, unknown> | null;
+  tokens?: Record<string, unknown> | null;
+  codeVerifier?: string | null;
+  state?: string | null;
+  authorizationUrl?: string | null;
+};
+
+const toSession = (
+  row: typeof mcpOAuthSessions.$inferSelect,
+): McpOAuthSession => ({
+  id: row.id,
+  mcpServerId: row.mcpServerId,
+  serverUrl: row.serverUrl,
+  clientInfo: (row.clientInfo as McpOAuthSession['clientInfo']) ?? undefined,
+  tokens: (row.tokens as McpOAuthSession['tokens']) ?? undefined,
+  codeVerifier: row.codeVerifier ?? undefined,
+  state: row.state ?? undefined,
+  authorizationUrl: row.authorizationUrl ?? undefined,
+  createdAt: row.createdAt,
+  updatedAt: row.updatedAt,
+});
+
+export const mcpOAuthRepository = {
+  /** The most recent OAuth session for a server, if one was ever started. */
+  async selectByServerId(serverId: string): Promise<McpOAuthSession | null> {
+    const [row] = await pgDb
+      .select()
+      .from(mcpOAuthSessions)
+      .where(eq(mcpOAuthSessions.mcpServerId, serverId))
+      .orderBy(desc(mcpOAuthSessions.updatedAt))
+      .limit(1);
+
+    return row ? toSession(row) : null;
+  },
+
+  async selectByState(state: string): Promise<McpOAuthSession | null> {
+    const [row] = await pgDb
+      .select()
+      .from(mcpOAuthSessions)
+      .where(eq(mcpOAuthSessions.state, state))
+      .limit(1);
+
+    return row ? toSession(row) : null;
+  },
+
+  async create(serverId: string, serverUrl: string): Promise<McpOAuthSession> {
+    const [row] = await pgDb
+      .insert(mcpOAuthSessions)
+      .values({ mcpServerId: serverId, serverUrl })
+      .returning();
+
+    return toSession(row);
+  },
+
+  async update(id: string, params: McpOAuthSessionUpdate) {
+    await pgDb
+      .update(mcpOAuthSessions)
+      .set({ ...params, updatedAt: sql`CURRENT_TIMESTAMP` })
+      .where(eq(mcpOAuthSessions.id, id));
+  },
+
+  async deleteByServerId(serverId: string) {
+    await pgDb
+      .delete(mcpOAuthSessions)
+      .where(eq(mcpOAuthSessions.mcpServerId, serverId));
+  },
+};
+
+export default mcpOAuthRepository;
@@ -0,0 +1,95 @@
+import { asc, eq, or, sql } from 'drizzle-orm';
+
+import { pgDb } from '@/lib/db';
+import { mcpServers } from '@/lib/db/schema';
+import type {
+  McpServerInsert,
+  McpServerSelect,
+  McpServerUpdate,
+} from '@/lib/types/mcp';
+
+export const mcpRepository = {
+  async save(server: McpServerInsert): Promise<McpServerSelect> {
+    const [row] = await pgDb
+      .insert(mcpServers)
+      .values({
+        ...(server.id ? { id: server.id } : {}),
+        name: server.name,
+        config: server.config,
+        userId: server.userId,
+        visibility: server.visibility ?? 'private',
+      })
+      .onConflictDoUpdate({
+        target: mcpServers.id,
+        set: {
+          name: server.name,
+          config: server.config,
+          updatedAt: sql`CURRENT_TIMESTAMP`,
+        },
+      })
+      .returning();
+
+    return row;
+  },
+
+  async selectById(id: string): Promise<McpServerSelect | null> {
+    const [row] = await pgDb
+      .select()
+      .from(mcpServers)
+      .where(eq(mcpServers.id, id))
+      .limit(1);
+
+    return row ?? null;
+  },
+
+  async selectAll(): Promise<McpServerSelect[]> {
+    return pgDb.select().from(mcpServers).orderBy(asc(mcpServers.createdAt));
+  },
+
+  /** Servers the user owns plus any shared publicly by other users. */
+  async selectAccessibleByUser(userId: string): Promise<McpServerSelect[]> {
+    return pgDb
+      .select()
+      .from(mcpServers)
+      .where(
+        or(eq(mcpServers.userId, userId), eq(mcpServers.visibility, 'public')),
+      )
+      .orderBy(asc(mcpServers.createdAt));
+  },
+
+  async selectByServerName(name: string): Promise<McpServerSelect | null> {
+    const [row] = await pgDb
+      .select()
+      .from(mcpServers)
+      .where(eq(mcpServers.name, name))
+      .limit(1);
+
+    return row ?? null;
+  },
+
+  async update(
+    id: string,
+    params: McpServerUpdate,
+  ): Promise<McpServerSelect | null> {
+    const [row] = await pgDb
+      .update(mcpServers)
+      .set({ ...params, updatedAt: sql`CURRENT_TIMESTAMP` })
+      .where(eq(mcpServers.id, id))
+      .returning();
+
+    return row ?? null;
+  },
+
+  async deleteById(id: string): Promise<void> {
+    await pgDb.delete(mcpServers).where(eq(mcpServers.id, id));
+  },
+
+  async updateVisibility(id: string, visibility: 'public' | 'private') {
+    await pgDb
+      .update(mcpServers)
+      .set({ visibility, updatedAt: sql`CURRENT_TIMESTAMP` })
+      .where(eq(mcpServers.id, id));
+  },
+};
+
+export default mcpRepository;
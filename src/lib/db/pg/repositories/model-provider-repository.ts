@@ -0,0 +1,78 @@
+import { asc, eq, sql } from 'drizzle-orm';
+
+import { pgDb } from '@/lib/db';
+import { modelProviders } from '@/lib/db/schema';
+import type { Model } from '@/lib/models/types';
+
+export type ModelProviderRow = typeof modelProviders.$inferSelect;
+
+type CreateModelProviderParams = {
+  id: string;
+  type: string;
+  name: string;
+  encryptedConfig: string;
+  createdBy?: string | null;
+};
+
+type UpdateModelProviderParams = {
+  name?: string;
+  encryptedConfig?: string;
+  chatModels?: Model[];
+  embeddingModels?: Model[];
+  updatedBy?: string | null;
+};
+
+export const modelProviderRepository = {
+  async list(): Promise<ModelProviderRow[]> {
+    return pgDb
+      .select()
+      .from(modelProviders)
+      .orderBy(asc(modelProviders.createdAt));
+  },
+
+  async create({
+    id,
+    type,
+    name,
+    encryptedConfig,
+    createdBy = null,
+  }: CreateModelProviderParams): Promise<ModelProviderRow> {
+    const [row] = await pgDb
+      .insert(modelProviders)
+      .values({
+        id,
+        type,
+        name,
+        encryptedConfig,
+        createdBy,
+        updatedBy: createdBy,
+      })
+      .returning();
+
+    return row;
+  },
+
+  async update(
+    id: string,
+    { updatedBy = null, ...params }: UpdateModelProviderParams,
+  ): Promise<ModelProviderRow | null> {
+    const [row] = await pgDb
+      .update(modelProviders)
+      .set({ ...params, updatedBy, updatedAt: sql`CURRENT_TIMESTAMP` })
+      .where(eq(modelProviders.id, id))
+      .returning();
+
+    return row ?? null;
+  },
+
+  async remove(id: string): Promise<boolean> {
+    const rows = await pgDb
+      .delete(modelProviders)
+      .where(eq(modelProviders.id, id))
+      .returning({ id: modelProviders.id });
+
+    return rows.length > 0;
+  },
+};
+
+export default modelProviderRepository;
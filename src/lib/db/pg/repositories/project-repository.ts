@@ -0,0 +1,99 @@
+import { and, count, desc, eq, sql } from 'drizzle-orm';
+
+import { pgDb } from '@/lib/db';
+import { chats, projects } from '@/lib/db/schema';
+import type { Project, ProjectFile } from '@/types/project';
+
+type ProjectRow = typeof projects.$inferSelect;
+
+const mapToProject = (row: ProjectRow, chatCount: number): Project => ({
+  id: row.id,
+  name: row.name,
+  description: row.description,
+  instructions: row.instructions,
+  files: row.files,
+  chatCount,
+  createdAt: row.createdAt,
+  updatedAt: row.updatedAt,
+});
+
+type CreateProjectParams = {
+  userId: string;
+  name: string;
+  description?: string | null;
+  instructions?: string;
+};
+
+type UpdateProjectParams = {
+  name?: string;
+  description?: string | null;
+  instructions?: string;
+  files?: ProjectFile[];
+};
+
+const selectProjects = () =>
+  pgDb
+    .select({ project: projects, chatCount: count(chats.id) })
+    .from(projects)
+    .leftJoin(chats, eq(chats.projectId, projects.id))
+    .groupBy(projects.id);
+
+export const projectRepository = {
+  async listByUser(userId: string): Promise<Project[]> {
+    const rows = await selectProjects()
+      .where(eq(projects.userId, userId))
+      .orderBy(desc(projects.updatedAt));
+
+    return rows.map(({ project, chatCount }) =>
+      mapToProject(project, Number(chatCount)),
+    );
+  },
+
+  async findById(id: string, userId: string): Promise<Project | null> {
+    const [row] = await selectProjects()
+      .where(and(eq(projects.id, id), eq(projects.userId, userId)))
+      .limit(1);
+
+    return row ? mapToProject(row.project, Number(row.chatCount)) : null;
+  },
+
+  async create({
+    userId,
+    name,
+    description = null,
+    instructions = '',
+  }: CreateProjectParams): Promise<Project> {
+    const [row] = await pgDb
+      .insert(projects)
+      .values({ userId, name, description, instructions })
+      .returning();
+
+    return mapToProject(row, 0);
+  },
+
+  async update(
+    id: string,
+    userId: string,
+    params: UpdateProjectParams,
+  ): Promise<Project | null> {
+    const [row] = await pgDb
+      .update(projects)
+      .set({ ...params, updatedAt: sql`CURRENT_TIMESTAMP` })
+      .where(and(eq(projects.id, id), eq(projects.userId, userId)))
+      .returning({ id: projects.id });
+
+    return row ? projectRepository.findById(row.id, userId) : null;
+  },
+
+  /** Deletes the project; its chats are kept and fall back to ungrouped. */
+  async remove(id: string, userId: string) {
+    const [row] = await pgDb
+      .delete(projects)
+      .where(and(eq(projects.id, id), eq(projects.userId, userId)))
+      .returning({ id: projects.id });
+
+    return Boolean(row);
+  },
+};
+
+export default projectRepository;
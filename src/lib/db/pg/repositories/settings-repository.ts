@@ -0,0 +1,32 @@
+import { eq, sql } from 'drizzle-orm';
+
+import { pgDb } from '@/lib/db';
+import { appSettings } from '@/lib/db/schema';
+
+export const settingsRepository = {
+  async get<T>(key: string): Promise<T | null> {
+    const [row] = await pgDb
+      .select({ value: appSettings.value })
+      .from(appSettings)
+      .where(eq(appSettings.key, key))
+      .limit(1);
+
+    return row ? (row.value as T) : null;
+  },
+
+  async set(key: string, value: unknown, updatedBy?: string) {
+    await pgDb
+      .insert(appSettings)
+      .values({ key, value, updatedBy: updatedBy ?? null })
+      .onConflictDoUpdate({
+        target: appSettings.key,
+        set: {
+          value,
+          updatedBy: updatedBy ?? null,
+          updatedAt: sql`CURRENT_TIMESTAMP`,
+        },
+      });
+  },
+};
+
+export default settingsRepository;
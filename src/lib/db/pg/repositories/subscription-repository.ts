@@ -0,0 +1,48 @@
+import { eq, sql } from 'drizzle-orm';
+
+import { pgDb } from '@/lib/db';
+import { subscriptions } from '@/lib/db/schema';
+import type { Subscription, SubscriptionStatus } from '@/types/subscription';
+
+export type SubscriptionUpsert = {
+  plan?: string;
+  status: SubscriptionStatus;
+  currentPeriodEnd?: Date | null;
+  provider?: string;
+  externalId?: string | null;
+};
+
+export const subscriptionRepository = {
+  async findByUserId(userId: string): Promise<Subscription | null> {
+    const [row] = await pgDb
+      .select()
+      .from(subscriptions)
+      .where(eq(subscriptions.userId, userId))
+      .limit(1);
+
+    return row ?? null;
+  },
+
+  /** Creates or replaces the user's subscription; users hold at most one. */
+  async upsert(userId: string, params: SubscriptionUpsert) {
+    const [row] = await pgDb
+      .insert(subscriptions)
+      .values({ userId, ...params })
+      .onConflictDoUpdate({
+        target: subscriptions.userId,
+        set: { ...params, updatedAt: sql`CURRENT_TIMESTAMP` },
+      })
+      .returning();
+
+    return row;
+  },
+
+  async cancel(userId: string) {
+    await pgDb
+      .update(subscriptions)
+      .set({ status: 'canceled', updatedAt: sql`CURRENT_TIMESTAMP` })
+      .where(eq(subscriptions.userId, userId));
+  },
+};
+
+export default subscriptionRepository;
@@ -0,0 +1,184 @@
+import { and, desc, eq, inArray, isNull, lt, sql } from 'drizzle-orm';
+
+import { pgDb } from '@/lib/db';
+import { chats, projects, uploadedFiles } from '@/lib/db/schema';
+import type { UploadedFile } from '@/types/uploaded-file';
+
+type UploadedFileRow = typeof uploadedFiles.$inferSelect;
+
+const mapToUploadedFile = (
+  row: UploadedFileRow,
+  chatTitle: string | null,
+): UploadedFile => ({
+  id: row.id,
+  name: row.name,
+  extension: row.extension,
+  contentType: row.contentType,
+  size: row.size,
+  chatId: row.chatId,
+  chatTitle,
+  createdAt: row.createdAt,
+});
+
+// Project files are referenced by ID from the project's `files` list rather
+// than through a column, so they are matched inside the JSON.
+const notInAnyProject = sql`NOT EXISTS (
+  SELECT 1 FROM ${projects}, jsonb_array_elements(${projects.files}) AS project_file
+  WHERE project_file->>'fileId' = ${uploadedFiles.id}
+)`;
+
+const fileReference = (fileId: string) =>
+  sql`jsonb_build_array(jsonb_build_object('fileId', ${fileId}::text))`;
+
+const withoutFile = (
+  column: typeof chats.files | typeof projects.files,
+  fileId: string,
+) =>
+  sql`(
+    SELECT coalesce(jsonb_agg(file), '[]'::jsonb)
+    FROM jsonb_array_elements(${column}) AS file
+    WHERE file->>'fileId' <> ${fileId}
+  )`;
+
+type CreateUploadedFileParams = {
+  id: string;
+  userId: string;
+  name: string;
+  extension: string;
+  contentType?: string | null;
+  size: number;
+};
+
+const selectUploadedFiles = () =>
+  pgDb
+    .select({ file: uploadedFiles, chatTitle: chats.title })
+    .from(uploadedFiles)
+    .leftJoin(chats, eq(uploadedFiles.chatId, chats.id));
+
+export const uploadedFileRepository = {
+  async create(params: CreateUploadedFileParams): Promise<void> {
+    await pgDb.insert(uploadedFiles).values({
+      ...params,
+      contentType: params.contentType || null,
+    });
+  },
+
+  async listByUser(userId: string): Promise<UploadedFile[]> {
+    const rows = await selectUploadedFiles()
+      .where(eq(uploadedFiles.userId, userId))
+      .orderBy(desc(uploadedFiles.createdAt));
+
+    return rows.map(({ file, chatTitle }) =>
+      mapToUploadedFile(file, chatTitle),
+    );
+  },
+
+  async findById(id: string, userId: string): Promise<UploadedFile | null> {
+    const [row] = await selectUploadedFiles()
+      .where(and(eq(uploadedFiles.id, id), eq(uploadedFiles.userId, userId)))
+      .limit(1);
+
+    return row ? mapToUploadedFile(row.file, row.chatTitle) : null;
+  },
+
+  /**
+   * Files belonging to a chat that nothing else needs once the chat is gone.
+   * Files also attached to a project stay with the project.
+   */
+  async listOwnedByChat(chatId: string): Promise<UploadedFile[]> {
+    const rows = await selectUploadedFiles().where(
+      and(eq(uploadedFiles.chatId, chatId), notInAnyProject),
+    );
+
+    return rows.map(({ file, chatTitle }) =>
+      mapToUploadedFile(file, chatTitle),
+    );
+  },
+
+  /**
+   * Files never sent in a chat nor attached to a project, uploaded before
+   * `uploadedBefore`. Younger files may still be waiting in a message draft.
+   */
+  async listUnattached(uploadedBefore: Date): Promise<UploadedFile[]> {
+    const rows = await selectUploadedFiles().where(
+      and(
+        isNull(uploadedFiles.chatId),
+        lt(uploadedFiles.createdAt, uploadedBefore),
+        notInAnyProject,
+      ),
+    );
+
+    return rows.map(({ file, chatTitle }) =>
+      mapToUploadedFile(file, chatTitle),
+    );
+  },
+
+  async findExistingIds(ids: string[]): Promise<Set<string>> {
+    if (ids.length === 0) {
+      return new Set();
+    }
+
+    const rows = await pgDb
+      .select({ id: uploadedFiles.id })
+      .from(uploadedFiles)
+      .where(inArray(uploadedFiles.id, ids));
+
+    return new Set(rows.map((row) => row.id));
+  },
+
+  /** Links the user's not-yet-sent uploads to the chat they were sent in. */
+  async attachToChat(
+    ids: string[],
+    userId: string,
+    chatId: string,
+  ): Promise<void> {
+    if (ids.length === 0) {
+      return;
+    }
+
+    await pgDb
+      .update(uploadedFiles)
+      .set({ chatId })
+      .where(
+        and(
+          inArray(uploadedFiles.id, ids),
+          eq(uploadedFiles.userId, userId),
+          isNull(uploadedFiles.chatId),
+        ),
+      );
+  },
+
+  /** Removes a file from the owner's chat and project file lists. */
+  async detachReferences(id: string, userId: string): Promise<void> {
+    await pgDb.transaction(async (tx) => {
+      await tx
+        .update(chats)
+        .set({ files: withoutFile(chats.files, id) })
+        .where(
+          and(
+            eq(chats.userId, userId),
+            sql`${chats.files} @> ${fileReference(id)}`,
+          ),
+        );
+      await tx
+        .update(projects)
+        .set({ files: withoutFile(projects.files, id) })
+        .where(
+          and(
+            eq(projects.userId, userId),
+            sql`${projects.files} @> ${fileReference(id)}`,
+          ),
+        );
+    });
+  },
+
+  async deleteMany(ids: string[]): Promise<void> {
+    if (ids.length === 0) {
+      return;
+    }
+
+    await pgDb.delete(uploadedFiles).where(inArray(uploadedFiles.id, ids));
+  },
+};
+
+export default uploadedFileRepository;
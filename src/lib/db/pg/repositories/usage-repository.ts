@@ -0,0 +1,150 @@
+import { and, desc, eq, gte, sql, type SQL } from 'drizzle-orm';
+
+import { pgDb } from '@/lib/db';
+import { usageEvents, users } from '@/lib/db/schema';
+import type {
+  OrgUsageSummary,
+  UsageTotals,
+  UserUsageSummary,
+} from '@/types/usage';
+
+export type NewUsageEvent = typeof usageEvents.$inferInsert;
+
+const TOP_USERS_LIMIT = 10;
+const TOP_MODELS_LIMIT = 20;
+
+const totalsColumns = {
+  requests: sql<number>`COUNT(*)`,
+  inputTokens: sql<number>`COALESCE(SUM(${usageEvents.inputTokens}), 0)`,
+  outputTokens: sql<number>`COALESCE(SUM(${usageEvents.outputTokens}), 0)`,
+  estimatedCost: sql<string>`COALESCE(SUM(${usageEvents.estimatedCost}), 0)`,
+  averageLatencyMs: sql<number>`COALESCE(AVG(${usageEvents.latencyMs}), 0)`,
+};
+
+type TotalsRow = {
+  requests: number | string;
+  inputTokens: number | string;
+  outputTokens: number | string;
+  estimatedCost: number | string;
+  averageLatencyMs: number | string;
+};
+
+// Postgres returns SUM and COUNT as bigint/numeric strings.
+const toTotals = (row?: TotalsRow): UsageTotals => ({
+  requests: Number(row?.requests ?? 0),
+  inputTokens: Number(row?.inputTokens ?? 0),
+  outputTokens: Number(row?.outputTokens ?? 0),
+  estimatedCost: Number(row?.estimatedCost ?? 0),
+  averageLatencyMs: Math.round(Number(row?.averageLatencyMs ?? 0)),
+});
+
+const selectByModel = (where: SQL | undefined, limit: number) =>
+  pgDb
+    .select({
+      providerType: usageEvents.providerType,
+      model: usageEvents.model,
+      ...totalsColumns,
+    })
+    .from(usageEvents)
+    .where(where)
+    .groupBy(usageEvents.providerType, usageEvents.model)
+    .orderBy(desc(sql`COUNT(*)`))
+    .limit(limit);
+
+export const usageRepository = {
+  async insert(event: NewUsageEvent) {
+    await pgDb.insert(usageEvents).values(event);
+  },
+
+  async getUserSummary(userId: string, since: Date): Promise<UserUsageSummary> {
+    const where = and(
+      eq(usageEvents.userId, userId),
+      gte(usageEvents.createdAt, since),
+    );
+
+    const [[totals], byModel] = await Promise.all([
+      pgDb.select(totalsColumns).from(usageEvents).where(where),
+      selectByModel(where, TOP_MODELS_LIMIT),
+    ]);
+
+    return {
+      totals: toTotals(totals),
+      byModel: byModel.map((row) => ({
+        providerType: row.providerType,
+        model: row.model,
+        ...toTotals(row),
+      })),
+    };
+  },
+
+  async getOrgSummary(since: Date): Promise<OrgUsageSummary> {
+    const where = gte(usageEvents.createdAt, since);
+    const day = sql<string>`to_char(date_trunc('day', ${usageEvents.createdAt}), 'YYYY-MM-DD')`;
+
+    const [[totals], byFeature, byModel, topUsers, byDay] = await Promise.all([
+      pgDb.select(totalsColumns).from(usageEvents).where(where),
+      pgDb
+        .select({ feature: usageEvents.feature, ...totalsColumns })
+        .from(usageEvents)
+        .where(where)
+        .groupBy(usageEvents.feature)
+        .orderBy(desc(sql`COUNT(*)`)),
+      selectByModel(where, TOP_MODELS_LIMIT),
+      pgDb
+        .select({
+          userId: usageEvents.userId,
+          name: users.name,
+          email: users.email,
+          ...totalsColumns,
+        })
+        .from(usageEvents)
+        .leftJoin(users, eq(users.id, usageEvents.userId))
+        .where(and(where, sql`${usageEvents.userId} IS NOT NULL`))
+        .groupBy(usageEvents.userId, users.name, users.email)
+        .orderBy(
+          desc(sql`COALESCE(SUM(${usageEvents.estimatedCost}), 0)`),
+          desc(sql`COUNT(*)`),
+        )
+        .limit(TOP_USERS_LIMIT),
+      pgDb
+        .select({ day, ...totalsColumns })
+        .from(usageEvents)
+        .where(where)
+        .groupBy(day)
+        .orderBy(day),
+    ]);
+
+    return {
+      since: since.toISOString(),
+      totals: toTotals(totals),
+      byFeature: byFeature.map((row) => ({
+        feature: row.feature,
+        ...toTotals(row),
+      })),
+      byModel: byModel.map((row) => ({
+        providerType: row.providerType,
+        model: row.model,
+        ...toTotals(row),
+      })),
+      topUsers: topUsers.map((row) => ({
+        userId: row.userId!,
+        name: row.name,
+        email: row.email,
+        ...toTotals(row),
+      })),
+      byDay: byDay.map((row) => {
+        const { requests, inputTokens, outputTokens, estimatedCost } =
+          toTotals(row);
+        return {
+          day: row.day,
+          requests,
+          inputTokens,
+          outputTokens,
+          estimatedCost,
+        };
+      }),
+    };
+  },
+};
+
+export default usageRepository;
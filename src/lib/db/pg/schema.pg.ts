@@ -1,8 +1,13 @@
 import { sql } from 'drizzle-orm';
 import {
   boolean,
+  customType,
+  date,
+  integer,
   jsonb,
+  numeric,
   pgTable,
+  primaryKey,
   serial,
   text,
   timestamp,
@@ -11,7 +16,16 @@ import {
   unique,
 } from 'drizzle-orm/pg-core';
 import { Document } from '@langchain/core/documents';
-import { MCPServerConfig } from '@/lib/types/mcp';
+import { MCPServerConfig, type McpToolCall } from '@/lib/types/mcp';
+import type {
+  EbmFieldComparison,
+  EbmQrPayload,
+  EbmValidationStatus,
+} from '@/lib/ebm/types';
+import type { Model } from '@/lib/models/types';
+import type { SubscriptionStatus } from '@/types/subscription';
+import type { UsageFeature, UsageKind } from '@/types/usage';
+import type { AuditAction, AuditTargetType } from '@/types/audit';
 
 export const messages = pgTable(
   'messages',
@@ -23,13 +37,22 @@ export const messages = pgTable(
       .notNull()
       .default(sql`CURRENT_TIMESTAMP`),
     messageId: text('messageId').notNull(),
+    // Question or answer this message follows; null for a chat's first question.
+    parentMessageId: text('parentMessageId'),
     content: text('content'),
     sources: jsonb('sources')
       .$type<Document[]>()
       .default(sql`'[]'::jsonb`),
+    toolCalls: jsonb('toolCalls')
+      .$type<McpToolCall[]>()
+      .default(sql`'[]'::jsonb`),
   },
   (table) => ({
     chatIdIdx: index('messages_chatId_idx').on(table.chatId),
+    contentSearchIdx: index('messages_content_search_idx').using(
+      'gin',
+      sql`to_tsvector('english'::regconfig, coalesce(${table.content}, ''))`,
+    ),
   }),
 );
 
@@ -38,6 +61,35 @@ interface FileReference {
   fileId: string;
 }
 
+export const projects = pgTable(
+  'projects',
+  {
+    id: uuid('id').primaryKey().defaultRandom().notNull(),
+    userId: uuid('user_id')
+      .notNull()
+      .references(() => users.id, { onDelete: 'cascade' }),
+    name: text('name').notNull(),
+    description: text('description'),
+    instructions: text('instructions').notNull().default(''),
+    files: jsonb('files')
+      .$type<FileReference[]>()
+      .notNull()
+      .default(sql`'[]'::jsonb`),
+    createdAt: timestamp('created_at')
+      .notNull()
+      .default(sql`CURRENT_TIMESTAMP`),
+    updatedAt: timestamp('updated_at')
+      .notNull()
+      .default(sql`CURRENT_TIMESTAMP`),
+  },
+  (table) => ({
+    userUpdatedIdx: index('projects_user_id_updated_at_idx').on(
+      table.userId,
+      table.updatedAt,
+    ),
+  }),
+);
+
 export const chats = pgTable(
   'chats',
   {
@@ -53,9 +105,21 @@ export const chats = pgTable(
     userId: uuid('user_id').references(() => users.id, {
       onDelete: 'cascade',
     }),
+    projectId: uuid('project_id').references(() => projects.id, {
+      onDelete: 'set null',
+    }),
   },
   (table) => ({
     userIdIdx: index('chats_user_id_idx').on(table.userId),
+    projectIdIdx: index('chats_project_id_idx').on(table.projectId),
+    userIdCreatedAtIdx: index('chats_user_id_created_at_idx').on(
+      table.userId,
+      table.createdAt,
+    ),
+    titleSearchIdx: index('chats_title_search_idx').using(
+      'gin',
+      sql`to_tsvector('english'::regconfig, ${table.title})`,
+    ),
   }),
 );
 
@@ -214,6 +278,7 @@ export const mcpOAuthSessions = pgTable(
     tokens: jsonb('tokens'),
     codeVerifier: text('code_verifier'),
     state: text('state').unique(),
+    authorizationUrl: text('authorization_url'),
     createdAt: timestamp('created_at')
       .notNull()
       .default(sql`CURRENT_TIMESTAMP`),
@@ -226,3 +291,283 @@ export const mcpOAuthSessions = pgTable(
     stateIdx: index('mcp_oauth_session_state_idx').on(table.state),
   }),
 );
+
+export const ebmValidations = pgTable(
+  'ebm_validations',
+  {
+    id: uuid('id').primaryKey().defaultRandom().notNull(),
+    userId: uuid('user_id')
+      .notNull()
+      .references(() => users.id, { onDelete: 'cascade' }),
+    chatId: text('chat_id'),
+    fileId: text('file_id').notNull(),
+    fileName: text('file_name'),
+    reportId: text('report_id'),
+    status: text('status', { enum: ['validated', 'issues', 'failed'] })
+      .notNull()
+      .$type<EbmValidationStatus>(),
+    templateName: text('template_name'),
+    sellerTin: text('seller_tin'),
+    buyerTin: text('buyer_tin'),
+    invoiceNumber: text('invoice_number'),
+    issueDate: date('issue_date', { mode: 'string' }),
+    totalAmount: numeric('total_amount', { precision: 18, scale: 2 }),
+    vatAmount: numeric('vat_amount', { precision: 18, scale: 2 }),
+    currency: text('currency'),
+    headline: text('headline'),
+    qrPayload: jsonb('qr_payload').$type<EbmQrPayload>(),
+    matches: jsonb('matches')
+      .$type<EbmFieldComparison[]>()
+      .notNull()
+      .default(sql`'[]'::jsonb`),
+    errors: jsonb('errors')
+      .$type<string[]>()
+      .notNull()
+      .default(sql`'[]'::jsonb`),
+    createdAt: timestamp('created_at')
+      .notNull()
+      .default(sql`CURRENT_TIMESTAMP`),
+  },
+  (table) => ({
+    userCreatedIdx: index('ebm_validations_user_id_created_at_idx').on(
+      table.userId,
+      table.createdAt,
+    ),
+    userSellerTinIdx: index('ebm_validations_user_id_seller_tin_idx').on(
+      table.userId,
+      table.sellerTin,
+    ),
+    userInvoiceNumberIdx: index(
+      'ebm_validations_user_id_invoice_number_idx',
+    ).on(table.userId, table.invoiceNumber),
+  }),
+);
+
+export const appSettings = pgTable('app_settings', {
+  key: text('key').primaryKey(),
+  value: jsonb('value').notNull(),
+  updatedBy: uuid('updated_by').references(() => users.id, {
+    onDelete: 'set null',
+  }),
+  updatedAt: timestamp('updated_at')
+    .notNull()
+    .default(sql`CURRENT_TIMESTAMP`),
+});
+
+export const chatShares = pgTable(
+  'chat_shares',
+  {
+    id: uuid('id').primaryKey().defaultRandom().notNull(),
+    token: text('token').notNull().unique(),
+    chatId: text('chat_id')
+      .notNull()
+      .references(() => chats.id, { onDelete: 'cascade' }),
+    userId: uuid('user_id')
+      .notNull()
+      .references(() => users.id, { onDelete: 'cascade' }),
+    expiresAt: timestamp('expires_at'),
+    revokedAt: timestamp('revoked_at'),
+    viewCount: integer('view_count').notNull().default(0),
+    lastViewedAt: timestamp('last_viewed_at'),
+    createdAt: timestamp('created_at')
+      .notNull()
+      .default(sql`CURRENT_TIMESTAMP`),
+  },
+  (table) => ({
+    userCreatedIdx: index('chat_shares_user_id_created_at_idx').on(
+      table.userId,
+      table.createdAt,
+    ),
+    chatIdx: index('chat_shares_chat_id_idx').on(table.chatId),
+  }),
+);
+
+export const modelProviders = pgTable('model_providers', {
+  id: text('id').primaryKey(),
+  type: text('type').notNull(),
+  name: text('name').notNull(),
+  // AES-256-GCM envelope of the provider config; see lib/config/secrets.
+  encryptedConfig: text('encrypted_config').notNull(),
+  chatModels: jsonb('chat_models')
+    .$type<Model[]>()
+    .notNull()
+    .default(sql`'[]'::jsonb`),
+  embeddingModels: jsonb('embedding_models')
+    .$type<Model[]>()
+    .notNull()
+    .default(sql`'[]'::jsonb`),
+  createdBy: uuid('created_by').references(() => users.id, {
+    onDelete: 'set null',
+  }),
+  updatedBy: uuid('updated_by').references(() => users.id, {
+    onDelete: 'set null',
+  }),
+  createdAt: timestamp('created_at')
+    .notNull()
+    .default(sql`CURRENT_TIMESTAMP`),
+  updatedAt: timestamp('updated_at')
+    .notNull()
+    .default(sql`CURRENT_TIMESTAMP`),
+});
+
+export const subscriptions = pgTable(
+  'subscriptions',
+  {
+    id: uuid('id').primaryKey().defaultRandom().notNull(),
+    userId: uuid('user_id')
+      .notNull()
+      .unique()
+      .references(() => users.id, { onDelete: 'cascade' }),
+    plan: text('plan').notNull().default('paid'),
+    status: text('status', {
+      enum: ['active', 'trialing', 'past_due', 'canceled'],
+    })
+      .notNull()
+      .$type<SubscriptionStatus>(),
+    // Access lasts until the end of the paid period, even once canceled.
+    currentPeriodEnd: timestamp('current_period_end'),
+    provider: text('provider').notNull().default('manual'),
+    externalId: text('external_id'),
+    createdAt: timestamp('created_at')
+      .notNull()
+      .default(sql`CURRENT_TIMESTAMP`),
+    updatedAt: timestamp('updated_at')
+      .notNull()
+      .default(sql`CURRENT_TIMESTAMP`),
+  },
+  (table) => ({
+    externalIdIdx: index('subscriptions_external_id_idx').on(table.externalId),
+  }),
+);
+
+export const usageEvents = pgTable(
+  'usage_events',
+  {
+    id: uuid('id').primaryKey().defaultRandom().notNull(),
+    userId: uuid('user_id').references(() => users.id, {
+      onDelete: 'set null',
+    }),
+    chatId: text('chat_id'),
+    feature: text('feature').notNull().$type<UsageFeature>(),
+    kind: text('kind').notNull().$type<UsageKind>(),
+    providerId: text('provider_id').notNull(),
+    providerType: text('provider_type').notNull(),
+    model: text('model').notNull(),
+    inputTokens: integer('input_tokens').notNull().default(0),
+    outputTokens: integer('output_tokens').notNull().default(0),
+    // Set when the provider did not report usage and tokens were estimated.
+    tokensEstimated: boolean('tokens_estimated').notNull().default(false),
+    latencyMs: integer('latency_ms').notNull(),
+    // USD; null when the model has no known price.
+    estimatedCost: numeric('estimated_cost', { precision: 14, scale: 6 }),
+    createdAt: timestamp('created_at')
+      .notNull()
+      .default(sql`CURRENT_TIMESTAMP`),
+  },
+  (table) => ({
+    userCreatedIdx: index('usage_events_user_id_created_at_idx').on(
+      table.userId,
+      table.createdAt,
+    ),
+    createdIdx: index('usage_events_created_at_idx').on(table.createdAt),
+  }),
+);
+
+export const auditLog = pgTable(
+  'audit_log',
+  {
+    id: uuid('id').primaryKey().defaultRandom().notNull(),
+    actorId: uuid('actor_id').references(() => users.id, {
+      onDelete: 'set null',
+    }),
+    // Kept so entries stay attributable after the actor is deleted.
+    actorEmail: text('actor_email'),
+    impersonatedBy: text('impersonated_by'),
+    action: text('action').notNull().$type<AuditAction>(),
+    targetType: text('target_type').notNull().$type<AuditTargetType>(),
+    targetId: text('target_id'),
+    before: jsonb('before').$type<Record<string, unknown>>(),
+    after: jsonb('after').$type<Record<string, unknown>>(),
+    ipAddress: text('ip_address'),
+    userAgent: text('user_agent'),
+    createdAt: timestamp('created_at')
+      .notNull()
+      .default(sql`CURRENT_TIMESTAMP`),
+  },
+  (table) => ({
+    createdIdx: index('audit_log_created_at_idx').on(table.createdAt),
+    actorCreatedIdx: index('audit_log_actor_id_created_at_idx').on(
+      table.actorId,
+      table.createdAt,
+    ),
+    targetIdx: index('audit_log_target_type_target_id_idx').on(
+      table.targetType,
+      table.targetId,
+    ),
+  }),
+);
+
+export const uploadedFiles = pgTable(
+  'uploaded_files',
+  {
+    // The upload's file ID; every derived storage key is built from it.
+    id: text('id').primaryKey(),
+    userId: uuid('user_id')
+      .notNull()
+      .references(() => users.id, { onDelete: 'cascade' }),
+    chatId: text('chat_id').references(() => chats.id, {
+      onDelete: 'set null',
+    }),
+    name: text('name').notNull(),
+    extension: text('extension').notNull(),
+    contentType: text('content_type'),
+    size: integer('size').notNull().default(0),
+    createdAt: timestamp('created_at')
+      .notNull()
+      .default(sql`CURRENT_TIMESTAMP`),
+  },
+  (table) => ({
+    userCreatedIdx: index('uploaded_files_user_id_created_at_idx').on(
+      table.userId,
+      table.createdAt,
+    ),
+    chatIdx: index('uploaded_files_chat_id_idx').on(table.chatId),
+  }),
+);
+
+/**
+ * A pgvector column without a fixed dimension, since each embedding model
+ * produces its own size.
+ */
+const embeddingVector = customType<{ data: number[]; driverData: string }>({
+  dataType: () => 'vector',
+  toDriver: (value) => `[${value.join(',')}]`,
+  fromDriver: (value) => value.slice(1, -1).split(',').map(Number),
+});
+
+/**
+ * Embedded chunks of uploaded files for vector search. The table is only
+ * created where the pgvector extension is available (see migration 0017);
+ * without it retrieval reads the `-embeddings.json` objects instead. The
+ * migration also adds HNSW indexes per common embedding size.
+ */
+export const uploadedFileChunks = pgTable(
+  'uploaded_file_chunks',
+  {
+    fileId: text('file_id')
+      .notNull()
+      .references(() => uploadedFiles.id, { onDelete: 'cascade' }),
+    chunkIndex: integer('chunk_index').notNull(),
+    pageNumber: integer('page_number'),
+    content: text('content').notNull(),
+    dimensions: integer('dimensions').notNull(),
+    embedding: embeddingVector('embedding').notNull(),
+  },
+  (table) => ({
+    pk: primaryKey({ columns: [table.fileId, table.chunkIndex] }),
+    filePageIdx: index('uploaded_file_chunks_file_id_page_number_idx').on(
+      table.fileId,
+      table.pageNumber,
+    ),
+  }),
+);
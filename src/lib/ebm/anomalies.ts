@@ -0,0 +1,317 @@
+import logger from '@/lib/logger';
+import { EBM_VAT_RATES, summariseTaxCategories } from './lineItems';
+import { isWellFormedTin } from './normalizers';
+import type {
+  EbmLineItem,
+  EbmPriorInvoice,
+  EbmQrPayload,
+  EbmRiskAssessment,
+  EbmRiskFinding,
+  EbmRiskLevel,
+} from './types';
+
+const anomalyLogger = logger.withDefaults({ tag: 'ebm:anomalies' });
+
+const AMOUNT_TOLERANCE = 1;
+
+/** Rwanda has no daylight saving time; local dates are UTC+2 all year. */
+const KIGALI_UTC_OFFSET_MS = 2 * 60 * 60 * 1000;
+
+const ROUND_TOTAL_MINIMUM = 100_000;
+const ROUND_TOTAL_STEP = 10_000;
+
+/** Fixed-date public holidays as MM-dd. */
+const FIXED_HOLIDAYS = new Map([
+  ['01-01', "New Year's Day"],
+  ['01-02', 'Day after New Year'],
+  ['02-01', "National Heroes' Day"],
+  ['04-07', 'Genocide against the Tutsi Memorial Day'],
+  ['05-01', 'Labour Day'],
+  ['07-01', 'Independence Day'],
+  ['07-04', 'Liberation Day'],
+  ['08-15', 'Assumption Day'],
+  ['12-25', 'Christmas Day'],
+  ['12-26', 'Boxing Day'],
+]);
+
+export type EbmPriorInvoiceLookup = (invoice: {
+  sellerTin?: string;
+  invoiceNumber: string;
+}) => Promise<EbmPriorInvoice[]>;
+
+export interface EbmRiskInput {
+  fileId?: string;
+  figures: Omit<EbmQrPayload, 'raw' | 'additional'>;
+  lineItems?: EbmLineItem[];
+  priorInvoices?: EbmPriorInvoiceLookup;
+  now?: Date;
+}
+
+const finding = (
+  code: EbmRiskFinding['code'],
+  severity: EbmRiskLevel,
+  message: string,
+  field?: string,
+): EbmRiskFinding => ({
+  code,
+  severity,
+  score: { low: 5, medium: 20, high: 40 }[severity],
+  message,
+  field,
+});
+
+const formatAmount = (value: number) =>
+  value.toLocaleString('en-US', { maximumFractionDigits: 2 });
+
+const toKigaliDate = (date: Date) =>
+  new Date(date.getTime() + KIGALI_UTC_OFFSET_MS).toISOString().slice(0, 10);
+
+const toUtcDate = (year: number, month: number, day: number) =>
+  new Date(Date.UTC(year, month - 1, day));
+
+const addDays = (date: Date, days: number) =>
+  new Date(date.getTime() + days * 24 * 60 * 60 * 1000);
+
+/** Anonymous Gregorian algorithm. */
+const easterSunday = (year: number) => {
+  const a = year % 19;
+  const b = Math.floor(year / 100);
+  const c = year % 100;
+  const d = Math.floor(b / 4);
+  const e = b % 4;
+  const f = Math.floor((b + 8) / 25);
+  const g = Math.floor((b - f + 1) / 3);
+  const h = (19 * a + b - d - g + 15) % 30;
+  const i = Math.floor(c / 4);
+  const k = c % 4;
+  const l = (32 + 2 * e + 2 * i - h - k) % 7;
+  const m = Math.floor((a + 11 * h + 22 * l) / 451);
+  const month = Math.floor((h + l - 7 * m + 114) / 31);
+  const day = ((h + l - 7 * m + 114) % 31) + 1;
+  return toUtcDate(year, month, day);
+};
+
+/**
+ * Returns the holiday name for a yyyy-MM-dd date. Eid holidays follow the
+ * lunar calendar and are announced yearly, so they are not covered.
+ */
+export const findRwandaPublicHoliday = (isoDate: string) => {
+  const fixed = FIXED_HOLIDAYS.get(isoDate.slice(5));
+  if (fixed) {
+    return fixed;
+  }
+
+  const year = Number(isoDate.slice(0, 4));
+  if (!Number.isInteger(year)) {
+    return undefined;
+  }
+
+  const easter = easterSunday(year);
+  const firstOfAugust = toUtcDate(year, 8, 1);
+  const umuganura = addDays(
+    firstOfAugust,
+    (5 - firstOfAugust.getUTCDay() + 7) % 7,
+  );
+
+  const movable: [Date, string][] = [
+    [addDays(easter, -2), 'Good Friday'],
+    [addDays(easter, 1), 'Easter Monday'],
+    [umuganura, 'Umuganura Day'],
+  ];
+
+  return movable.find(
+    ([date]) => date.toISOString().slice(0, 10) === isoDate,
+  )?.[1];
+};
+
+const checkIssueDate = (issueDate: string | undefined, now: Date) => {
+  if (!issueDate) {
+    return [];
+  }
+
+  const findings: EbmRiskFinding[] = [];
+
+  if (issueDate > toKigaliDate(now)) {
+    findings.push(
+      finding(
+        'future_issue_date',
+        'high',
+        `Issue date ${issueDate} is in the future.`,
+        'issueDate',
+      ),
+    );
+  }
+
+  const holiday = findRwandaPublicHoliday(issueDate);
+  if (holiday) {
+    findings.push(
+      finding(
+        'holiday_issue_date',
+        'low',
+        `Issue date ${issueDate} falls on a public holiday (${holiday}).`,
+        'issueDate',
+      ),
+    );
+  }
+
+  return findings;
+};
+
+const checkTins = (figures: EbmRiskInput['figures']) => {
+  const findings: EbmRiskFinding[] = [];
+
+  if (figures.tin && !isWellFormedTin(figures.tin)) {
+    findings.push(
+      finding(
+        'invalid_seller_tin',
+        'high',
+        `Seller TIN ${figures.tin} is not a valid nine-digit RRA TIN.`,
+        'tin',
+      ),
+    );
+  }
+
+  if (figures.buyerTin && !isWellFormedTin(figures.buyerTin)) {
+    findings.push(
+      finding(
+        'invalid_buyer_tin',
+        'medium',
+        `Buyer TIN ${figures.buyerTin} is not a valid nine-digit RRA TIN.`,
+        'buyerTin',
+      ),
+    );
+  }
+
+  return findings;
+};
+
+/**
+ * VAT must be 18/118 of the standard-rated (category B) total. Without
+ * categorised line items the whole invoice is treated as standard-rated, so
+ * only VAT above that ceiling is flagged: a lower amount may just reflect
+ * exempt or zero-rated lines.
+ */
+const checkVatRatio = (
+  figures: EbmRiskInput['figures'],
+  lineItems: EbmLineItem[] | undefined,
+) => {
+  const { totalAmount, vatAmount } = figures;
+  if (totalAmount == null || vatAmount == null) {
+    return [];
+  }
+
+  const categories = summariseTaxCategories(lineItems ?? []);
+  const rate = EBM_VAT_RATES.B;
+  const standardRated = categories.length
+    ? categories.find((category) => category.category === 'B')?.total ?? 0
+    : totalAmount;
+  const expected = (standardRated * rate) / (1 + rate);
+  const difference = vatAmount - expected;
+
+  const flagged = categories.length
+    ? Math.abs(difference) > AMOUNT_TOLERANCE
+    : difference > AMOUNT_TOLERANCE;
+
+  if (!flagged) {
+    return [];
+  }
+
+  return [
+    finding(
+      'vat_ratio',
+      'medium',
+      `VAT ${formatAmount(vatAmount)} is not 18/118 of the ${categories.length ? 'category B' : 'invoice'} total (expected ${formatAmount(expected)}).`,
+      'vatAmount',
+    ),
+  ];
+};
+
+const checkRoundTotal = (totalAmount: number | undefined) => {
+  if (
+    totalAmount == null ||
+    totalAmount < ROUND_TOTAL_MINIMUM ||
+    totalAmount % ROUND_TOTAL_STEP !== 0
+  ) {
+    return [];
+  }
+
+  return [
+    finding(
+      'round_total',
+      'low',
+      `Total ${formatAmount(totalAmount)} is a suspiciously round number.`,
+      'totalAmount',
+    ),
+  ];
+};
+
+const checkReusedInvoiceNumber = async (input: EbmRiskInput) => {
+  const { invoiceNumber, tin, totalAmount } = input.figures;
+  if (!input.priorInvoices || !invoiceNumber || totalAmount == null) {
+    return [];
+  }
+
+  let priors: EbmPriorInvoice[];
+  try {
+    priors = await input.priorInvoices({ sellerTin: tin, invoiceNumber });
+  } catch (error) {
+    anomalyLogger.warn('Prior invoice lookup failed.', {
+      invoiceNumber,
+      error,
+    });
+    return [];
+  }
+
+  const conflicting = priors.filter(
+    (prior) =>
+      prior.fileId !== input.fileId &&
+      prior.totalAmount != null &&
+      Math.abs(prior.totalAmount - totalAmount) > AMOUNT_TOLERANCE,
+  );
+
+  if (conflicting.length === 0) {
+    return [];
+  }
+
+  const [latest] = conflicting;
+  return [
+    finding(
+      'reused_invoice_number',
+      'high',
+      `Invoice number ${invoiceNumber} was already validated with a total of ${formatAmount(latest.totalAmount!)}${latest.fileName ? ` (${latest.fileName})` : ''}.`,
+      'invoiceNumber',
+    ),
+  ];
+};
+
+const toRiskLevel = (score: number): EbmRiskLevel =>
+  score >= 40 ? 'high' : score >= 20 ? 'medium' : 'low';
+
+/**
+ * Scores an invoice on heuristics that field matching cannot catch. Each
+ * finding adds its weight to the score, capped at 100.
+ */
+export const assessInvoiceRisk = async (
+  input: EbmRiskInput,
+): Promise<EbmRiskAssessment> => {
+  const now = input.now ?? new Date();
+
+  const findings = [
+    ...checkIssueDate(input.figures.issueDate, now),
+    ...checkTins(input.figures),
+    ...checkVatRatio(input.figures, input.lineItems),
+    ...checkRoundTotal(input.figures.totalAmount),
+    ...(await checkReusedInvoiceNumber(input)),
+  ].sort((a, b) => b.score - a.score);
+
+  const score = Math.min(
+    100,
+    findings.reduce((acc, item) => acc + item.score, 0),
+  );
+
+  return {
+    score,
+    level: toRiskLevel(score),
+    findings,
+  };
+};
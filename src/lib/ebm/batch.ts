@@ -0,0 +1,198 @@
+import crypto from 'node:crypto';
+import logger from '@/lib/logger';
+import {
+  resolveInvoiceFigures,
+  resolveValidationStatus,
+  validateEbmInvoice,
+  type EbmFileReference,
+  type EbmValidatorOptions,
+} from './validator';
+import type {
+  EbmBatchEntry,
+  EbmBatchReport,
+  EbmBatchTotals,
+  EbmDuplicateInvoice,
+  EbmValidationOutcome,
+} from './types';
+
+const batchLogger = logger.withDefaults({ tag: 'ebm:batch' });
+
+export interface EbmBatchOptions extends EbmValidatorOptions {
+  onProgress?: (completed: number, total: number, entry: EbmBatchEntry) => void;
+}
+
+const roundCurrency = (value: number) => Math.round(value * 100) / 100;
+
+export const buildBatchEntry = (
+  file: EbmFileReference,
+  outcome: EbmValidationOutcome,
+): EbmBatchEntry => {
+  const figures = resolveInvoiceFigures(outcome);
+
+  return {
+    fileId: file.fileId,
+    fileName: file.fileName,
+    status: resolveValidationStatus(outcome),
+    templateName: outcome.result.templateName,
+    invoiceNumber: figures.invoiceNumber,
+    sellerTin: figures.tin,
+    buyerTin: figures.buyerTin,
+    issueDate: figures.issueDate,
+    totalAmount: figures.totalAmount,
+    vatAmount: figures.vatAmount,
+    currency: figures.currency,
+    headline: outcome.result.summary?.headline,
+    verification: outcome.result.verification?.status,
+    riskScore: outcome.result.risk?.score,
+    qrPayload: outcome.result.qrPayload,
+    matches: outcome.result.matches,
+    errors: outcome.result.errors ?? [],
+  };
+};
+
+const toFailedEntry = (
+  file: EbmFileReference,
+  error: unknown,
+): EbmBatchEntry => ({
+  fileId: file.fileId,
+  fileName: file.fileName,
+  status: 'failed',
+  headline: 'Invoice could not be validated.',
+  matches: [],
+  errors: [
+    error instanceof Error && error.message
+      ? `Validation failed: ${error.message}`
+      : 'Validation failed.',
+  ],
+});
+
+/**
+ * Groups entries by seller TIN and invoice number. Receipt numbers are only
+ * unique per EBM device, so two sellers sharing a number is not a duplicate;
+ * entries without a TIN are grouped by number alone.
+ */
+const findDuplicates = (entries: EbmBatchEntry[]): EbmDuplicateInvoice[] => {
+  const groups = new Map<string, EbmBatchEntry[]>();
+
+  for (const entry of entries) {
+    if (!entry.invoiceNumber) {
+      continue;
+    }
+
+    const key = `${entry.sellerTin ?? ''}:${entry.invoiceNumber}`;
+    const group = groups.get(key) ?? [];
+    group.push(entry);
+    groups.set(key, group);
+  }
+
+  const duplicates: EbmDuplicateInvoice[] = [];
+
+  for (const group of groups.values()) {
+    if (group.length < 2) {
+      continue;
+    }
+
+    const totals = new Set(
+      group
+        .map((entry) => entry.totalAmount)
+        .filter((value): value is number => value != null)
+        .map(roundCurrency),
+    );
+
+    duplicates.push({
+      invoiceNumber: group[0].invoiceNumber!,
+      sellerTin: group[0].sellerTin,
+      fileIds: group.map((entry) => entry.fileId),
+      conflictingTotals: totals.size > 1,
+    });
+
+    for (const entry of group) {
+      entry.duplicateOf = group
+        .filter((other) => other !== entry)
+        .map((other) => other.fileId);
+    }
+  }
+
+  return duplicates;
+};
+
+const computeTotals = (
+  entries: EbmBatchEntry[],
+  duplicates: EbmDuplicateInvoice[],
+): EbmBatchTotals => {
+  const repeatedCopies = new Set(
+    duplicates.flatMap((duplicate) => duplicate.fileIds.slice(1)),
+  );
+
+  let totalAmount = 0;
+  let vatAmount = 0;
+
+  for (const entry of entries) {
+    if (repeatedCopies.has(entry.fileId)) {
+      continue;
+    }
+    totalAmount += entry.totalAmount ?? 0;
+    vatAmount += entry.vatAmount ?? 0;
+  }
+
+  return {
+    invoiceCount: entries.length,
+    validatedCount: entries.filter((entry) => entry.status === 'validated')
+      .length,
+    issueCount: entries.filter((entry) => entry.status === 'issues').length,
+    failedCount: entries.filter((entry) => entry.status === 'failed').length,
+    duplicateCount: repeatedCopies.size,
+    totalAmount: roundCurrency(totalAmount),
+    vatAmount: roundCurrency(vatAmount),
+  };
+};
+
+export const validateEbmInvoiceBatch = async (
+  files: EbmFileReference[],
+  options: EbmBatchOptions = {},
+): Promise<EbmBatchReport> => {
+  const { onProgress, ...validatorOptions } = options;
+  const createdAt = new Date();
+  const entries: EbmBatchEntry[] = [];
+
+  batchLogger.info('Starting EBM batch validation.', {
+    fileCount: files.length,
+  });
+
+  // Invoices are validated sequentially: QR decoding rasterises pages and is
+  // CPU/memory heavy, so running hundreds in parallel would starve the server.
+  for (const file of files) {
+    let entry: EbmBatchEntry;
+    try {
+      const outcome = await validateEbmInvoice(file, validatorOptions);
+      entry = buildBatchEntry(file, outcome);
+    } catch (error) {
+      batchLogger.error('Batch entry validation failed.', {
+        fileId: file.fileId,
+        error,
+      });
+      entry = toFailedEntry(file, error);
+    }
+
+    entries.push(entry);
+    onProgress?.(entries.length, files.length, entry);
+  }
+
+  const duplicates = findDuplicates(entries);
+  const totals = computeTotals(entries, duplicates);
+
+  batchLogger.info('EBM batch validation finished.', {
+    fileCount: files.length,
+    duplicates: duplicates.length,
+    durationMs: Date.now() - createdAt.getTime(),
+  });
+
+  return {
+    id: crypto.randomBytes(12).toString('hex'),
+    createdAt,
+    completedAt: new Date(),
+    entries,
+    duplicates,
+    totals,
+  };
+};
@@ -1,5 +1,6 @@
 import { Document } from '@langchain/core/documents';
 import type {
+  EbmBatchReport,
   EbmExtractedFieldMatch,
   EbmFieldComparison,
   EbmValidationOutcome,
@@ -83,8 +84,11 @@ export const serialiseValidationOutcome = (
       qrSource: comparison.qrSource,
       textSource: comparison.textSource,
     })),
+    verification: result.verification,
+    risk: result.risk,
     qrPayload: result.qrPayload,
     qrDetections: result.qrDetections,
+    lineItems: result.lineItems?.map(({ raw, ...item }) => item),
     extraction: serialisableExtraction,
     startedAt: result.startedAt?.toISOString(),
     completedAt: result.completedAt?.toISOString(),
@@ -104,6 +108,12 @@ export const buildValidationSources = (
     summaryLines.push(...result.summary.items.map((item) => `• ${item}`));
   }
 
+  if (result.risk?.findings.length) {
+    summaryLines.push('');
+    summaryLines.push(`Risk score: ${result.risk.score}/100 (${result.risk.level}).`);
+    summaryLines.push(...result.risk.findings.map((finding) => `• ${finding.message}`));
+  }
+
   if (result.errors?.length) {
     summaryLines.push('');
     summaryLines.push('Errors:');
@@ -203,6 +213,18 @@ export const formatValidationMessage = (outcome: EbmValidationOutcome) => {
     lines.push(...result.errors.map((error) => `- ${error}`));
   }
 
+  if (result.risk) {
+    lines.push('');
+    lines.push(
+      `Risk score: ${result.risk.score}/100 (${result.risk.level} risk).`,
+    );
+    lines.push(
+      ...result.risk.findings.map(
+        (finding) => `- [${finding.severity}] ${finding.message}`,
+      ),
+    );
+  }
+
   if (result.matches.length > 0) {
     const notable = result.matches
       .filter((item) => item.status === 'mismatch' || item.status === 'missing')
@@ -222,4 +244,117 @@ export const formatValidationMessage = (outcome: EbmValidationOutcome) => {
   }
 
   return joinLines(lines);
-};
\ No newline at end of file
+};
+
+const formatAmount = (value: number) =>
+  value.toLocaleString('en-US', { maximumFractionDigits: 2 });
+
+const formatBatchEntryLine = (entry: EbmBatchReport['entries'][number]) => {
+  const statusIcon = {
+    validated: '✅',
+    issues: '⚠️',
+    failed: '❌',
+  }[entry.status];
+
+  const label = entry.fileName ?? entry.fileId;
+  const invoice = entry.invoiceNumber ? ` #${entry.invoiceNumber}` : '';
+  const total = entry.totalAmount != null ? ` — ${formatAmount(entry.totalAmount)}` : '';
+  const duplicate = entry.duplicateOf?.length ? ' (duplicate)' : '';
+
+  return `${statusIcon} ${label}${invoice}${total}${duplicate}`;
+};
+
+export const formatBatchReportMessage = (report: EbmBatchReport) => {
+  const { totals } = report;
+  const lines: string[] = [];
+
+  lines.push(
+    `Validated ${totals.invoiceCount} invoices: ${totals.validatedCount} clean, ${totals.issueCount} with issues, ${totals.failedCount} failed.`,
+  );
+  lines.push(
+    `Total amount: ${formatAmount(totals.totalAmount)}, VAT: ${formatAmount(totals.vatAmount)}.`,
+  );
+
+  if (report.duplicates.length > 0) {
+    lines.push('');
+    lines.push('Duplicate invoice numbers:');
+    lines.push(
+      ...report.duplicates.map(
+        (duplicate) =>
+          `- ${duplicate.invoiceNumber}${duplicate.sellerTin ? ` (TIN ${duplicate.sellerTin})` : ''}: ${duplicate.fileIds.length} copies${duplicate.conflictingTotals ? ', totals differ' : ''}`,
+      ),
+    );
+  }
+
+  const flagged = report.entries.filter((entry) => entry.status !== 'validated');
+  if (flagged.length > 0) {
+    lines.push('');
+    lines.push('Invoices needing attention:');
+    lines.push(...flagged.slice(0, 10).map(formatBatchEntryLine));
+    if (flagged.length > 10) {
+      lines.push(`…and ${flagged.length - 10} more in the exported report.`);
+    }
+  }
+
+  return joinLines(lines);
+};
+
+export const serialiseBatchReportSummary = (report: EbmBatchReport) => ({
+  reportId: report.id,
+  totals: report.totals,
+  duplicates: report.duplicates,
+  entries: report.entries.map((entry) => ({
+    fileName: entry.fileName,
+    status: entry.status,
+    invoiceNumber: entry.invoiceNumber,
+    sellerTin: entry.sellerTin,
+    totalAmount: entry.totalAmount,
+    vatAmount: entry.vatAmount,
+    riskScore: entry.riskScore,
+    flaggedFields: entry.matches
+      .filter((match) => match.status === 'mismatch' || match.status === 'missing')
+      .map((match) => match.field),
+    errors: entry.errors,
+  })),
+});
+
+export const buildBatchReportSources = (report: EbmBatchReport): Document[] => {
+  const documents: Document[] = [];
+
+  documents.push(
+    new Document({
+      pageContent: formatBatchReportMessage(report),
+      metadata: {
+        url: 'File',
+        title: 'EBM reconciliation report',
+        type: 'ebm-batch-report',
+        reportId: report.id,
+        invoiceCount: report.totals.invoiceCount,
+        completedAt: report.completedAt?.toISOString(),
+      },
+    }),
+  );
+
+  for (const entry of report.entries) {
+    documents.push(
+      new Document({
+        pageContent: joinLines([
+          formatBatchEntryLine(entry),
+          ...entry.matches
+            .filter((match) => match.status === 'mismatch' || match.status === 'missing')
+            .map(formatComparisonLine),
+          ...entry.errors.map((error) => `- ${error}`),
+        ]),
+        metadata: {
+          url: 'File',
+          title: entry.fileName ?? entry.fileId,
+          type: 'ebm-batch-entry',
+          reportId: report.id,
+          status: entry.status,
+        },
+      }),
+    );
+  }
+
+  return documents;
+};
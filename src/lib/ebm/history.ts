@@ -0,0 +1,81 @@
+import {
+  ebmValidationRepository,
+  type NewEbmValidation,
+} from '@/lib/db/pg/repositories/ebm-validation-repository';
+import type { EbmPriorInvoiceLookup } from './anomalies';
+import { buildBatchEntry } from './batch';
+import type { EbmFileReference } from './validator';
+import type {
+  EbmBatchEntry,
+  EbmBatchReport,
+  EbmValidationOutcome,
+} from './types';
+
+export interface EbmHistoryContext {
+  userId: string;
+  chatId?: string;
+}
+
+const toAmount = (value?: number) => (value == null ? null : value.toFixed(2));
+
+const toRecord = (
+  entry: EbmBatchEntry,
+  context: EbmHistoryContext,
+  reportId?: string,
+): NewEbmValidation => ({
+  userId: context.userId,
+  chatId: context.chatId ?? null,
+  fileId: entry.fileId,
+  fileName: entry.fileName ?? null,
+  reportId: reportId ?? null,
+  status: entry.status,
+  templateName: entry.templateName ?? null,
+  sellerTin: entry.sellerTin ?? null,
+  buyerTin: entry.buyerTin ?? null,
+  invoiceNumber: entry.invoiceNumber ?? null,
+  issueDate: entry.issueDate ?? null,
+  totalAmount: toAmount(entry.totalAmount),
+  vatAmount: toAmount(entry.vatAmount),
+  currency: entry.currency ?? null,
+  headline: entry.headline ?? null,
+  qrPayload: entry.qrPayload ?? null,
+  matches: entry.matches,
+  errors: entry.errors,
+});
+
+export const recordValidationOutcome = async (
+  file: EbmFileReference,
+  outcome: EbmValidationOutcome,
+  context: EbmHistoryContext,
+) => {
+  await ebmValidationRepository.insertMany([
+    toRecord(buildBatchEntry(file, outcome), context),
+  ]);
+};
+
+export const recordBatchReport = async (
+  report: EbmBatchReport,
+  context: EbmHistoryContext,
+) => {
+  await ebmValidationRepository.insertMany(
+    report.entries.map((entry) => toRecord(entry, context, report.id)),
+  );
+};
+
+/** Looks up the user's earlier validations for invoice-number reuse checks. */
+export const createPriorInvoiceLookup =
+  (userId: string): EbmPriorInvoiceLookup =>
+  async ({ sellerTin, invoiceNumber }) => {
+    const records = await ebmValidationRepository.findByInvoiceNumber(
+      userId,
+      invoiceNumber,
+      sellerTin,
+    );
+
+    return records.map((record) => ({
+      fileId: record.fileId,
+      fileName: record.fileName,
+      totalAmount: record.totalAmount,
+      validatedAt: record.createdAt,
+    }));
+  };
@@ -1,14 +1,69 @@
 export * from './types';
 export { EbmTemplate, loadEbmTemplates, resetTemplateCache } from './template';
-export { decodeQrCodesFromPdf } from './qrDecoder';
+export {
+	decodeQrCodesFromImage,
+	decodeQrCodesFromPdf,
+	isQrImageExtension,
+	QR_IMAGE_EXTENSIONS,
+	type QrImageExtension,
+} from './qrDecoder';
 export {
 	loadTextSnapshot,
 	selectTemplateForSnapshot,
 	extractTextWithTemplate,
 } from './textExtractor';
-export { validateEbmInvoice } from './validator';
 export {
+	extractPdfTextPages,
+	readAreaLines,
+	type EbmPageLayout,
+} from './textLayout';
+export {
+	validateEbmInvoice,
+	resolveInvoiceFigures,
+	resolveValidationStatus,
+} from './validator';
+export { buildBatchEntry, validateEbmInvoiceBatch } from './batch';
+export {
+	createLocalFixtureVerifier,
+	createRraHtmlVerifier,
+	lookupReceipt,
+	receiptVerifierDriver,
+	type EbmReceiptFixture,
+	type EbmReceiptLookup,
+	type ReceiptVerifier,
+	type ReceiptVerifierDriver,
+} from './verifiers';
+export {
+	assessInvoiceRisk,
+	findRwandaPublicHoliday,
+	type EbmPriorInvoiceLookup,
+	type EbmRiskInput,
+} from './anomalies';
+export {
+	checkLineItems,
+	EBM_VAT_RATES,
+	summariseTaxCategories,
+	type EbmCategoryTotal,
+} from './lineItems';
+export {
+	createPriorInvoiceLookup,
+	recordBatchReport,
+	recordValidationOutcome,
+	type EbmHistoryContext,
+} from './history';
+export {
+	EBM_REPORT_FORMATS,
+	loadBatchReport,
+	renderBatchReportCsv,
+	renderBatchReportXlsx,
+	saveBatchReport,
+	type EbmReportFormat,
+} from './report';
+export {
+	buildBatchReportSources,
 	buildValidationSources,
+	formatBatchReportMessage,
 	formatValidationMessage,
+	serialiseBatchReportSummary,
 	serialiseValidationOutcome,
 } from './formatter';
@@ -0,0 +1,182 @@
+import type { EbmFieldComparison, EbmLineItem, EbmTaxCategory } from './types';
+
+/** EBM prices are VAT-inclusive; only category B carries the 18% standard rate. */
+export const EBM_VAT_RATES: Record<EbmTaxCategory, number> = {
+  A: 0,
+  B: 0.18,
+  C: 0,
+  D: 0,
+};
+
+const AMOUNT_TOLERANCE = 1;
+
+const roundCurrency = (value: number) => Math.round(value * 100) / 100;
+
+const formatAmount = (value: number) =>
+  value.toLocaleString('en-US', {
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  });
+
+export interface EbmCategoryTotal {
+  category: EbmTaxCategory;
+  total: number;
+  vat: number;
+}
+
+export const summariseTaxCategories = (
+  items: EbmLineItem[],
+): EbmCategoryTotal[] => {
+  const totals = new Map<EbmTaxCategory, number>();
+
+  for (const item of items) {
+    if (!item.taxCategory || item.lineTotal == null) {
+      continue;
+    }
+    totals.set(
+      item.taxCategory,
+      (totals.get(item.taxCategory) ?? 0) + item.lineTotal,
+    );
+  }
+
+  return Array.from(totals.entries())
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([category, total]) => {
+      const rate = EBM_VAT_RATES[category];
+      return {
+        category,
+        total: roundCurrency(total),
+        vat: roundCurrency((total * rate) / (1 + rate)),
+      };
+    });
+};
+
+const compareAmounts = (
+  field: string,
+  declared: number | undefined,
+  computed: number,
+  describe: (declared: number) => string,
+): EbmFieldComparison => {
+  if (declared == null) {
+    return {
+      field,
+      status: 'unverified',
+      textValue: computed,
+      details: 'Invoice does not state an amount to check against.',
+    };
+  }
+
+  const matches = Math.abs(declared - computed) <= AMOUNT_TOLERANCE;
+
+  return {
+    field,
+    status: matches ? 'match' : 'mismatch',
+    qrValue: declared,
+    textValue: computed,
+    details: describe(declared),
+  };
+};
+
+const checkLineArithmetic = (
+  items: EbmLineItem[],
+): EbmFieldComparison | null => {
+  const priced = items.filter(
+    (item) =>
+      item.quantity != null && item.unitPrice != null && item.lineTotal != null,
+  );
+
+  if (priced.length === 0) {
+    return null;
+  }
+
+  const offending = priced.filter(
+    (item) =>
+      Math.abs(item.quantity! * item.unitPrice! - item.lineTotal!) >
+      AMOUNT_TOLERANCE,
+  );
+
+  if (offending.length === 0) {
+    return {
+      field: 'line_items_arithmetic',
+      status: 'match',
+      details: `Quantity × unit price equals the line total on all ${priced.length} priced lines.`,
+    };
+  }
+
+  return {
+    field: 'line_items_arithmetic',
+    status: 'mismatch',
+    details: `Quantity × unit price differs from the line total on ${offending.length} line(s): ${offending
+      .slice(0, 3)
+      .map(
+        (item) =>
+          `${item.description || 'item'} (${item.quantity} × ${formatAmount(item.unitPrice!)} ≠ ${formatAmount(item.lineTotal!)})`,
+      )
+      .join('; ')}`,
+  };
+};
+
+/**
+ * Cross-checks extracted line items against the invoice totals. `qrValue`
+ * carries the declared amount and `textValue` the amount recomputed from the
+ * lines, so the entries read like the header-field comparisons.
+ */
+export const checkLineItems = (
+  items: EbmLineItem[] | undefined,
+  declared: { totalAmount?: number; vatAmount?: number },
+): EbmFieldComparison[] => {
+  if (!items?.length) {
+    return [];
+  }
+
+  const comparisons: EbmFieldComparison[] = [];
+  const lineTotals = items
+    .map((item) => item.lineTotal)
+    .filter((value): value is number => value != null);
+
+  if (lineTotals.length > 0) {
+    const sum = roundCurrency(
+      lineTotals.reduce((acc, value) => acc + value, 0),
+    );
+    comparisons.push(
+      compareAmounts(
+        'line_items_total',
+        declared.totalAmount,
+        sum,
+        (total) =>
+          `Sum of ${lineTotals.length} line total(s) is ${formatAmount(sum)}; invoice total is ${formatAmount(total)}.`,
+      ),
+    );
+  }
+
+  const categories = summariseTaxCategories(items);
+
+  if (categories.length > 0) {
+    const vat = roundCurrency(
+      categories.reduce((acc, category) => acc + category.vat, 0),
+    );
+    const breakdown = categories
+      .map(
+        (category) =>
+          `${category.category}: ${formatAmount(category.total)} incl. ${formatAmount(category.vat)} VAT`,
+      )
+      .join('; ');
+
+    comparisons.push(
+      compareAmounts(
+        'line_items_vat',
+        declared.vatAmount,
+        vat,
+        (total) =>
+          `VAT recomputed per tax category is ${formatAmount(vat)} (${breakdown}); invoice VAT is ${formatAmount(total)}.`,
+      ),
+    );
+  }
+
+  const arithmetic = checkLineArithmetic(items);
+  if (arithmetic) {
+    comparisons.push(arithmetic);
+  }
+
+  return comparisons;
+};
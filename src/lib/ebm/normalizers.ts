@@ -1,4 +1,4 @@
-import { parse, isValid } from 'date-fns';
+import { format, parse, isValid } from 'date-fns';
 import { EbmTemplateOptions } from './types';
 
 const RW_DEFAULT_DATE_FORMATS = ['yyyy-MM-dd', 'dd/MM/yyyy', 'dd-MM-yyyy', 'dd.MM.yyyy'];
@@ -10,6 +10,14 @@ export const normalizeTin = (input: string) => {
   return digits || undefined;
 };
 
+/**
+ * RRA TINs are nine digits and never start with zero. RRA does not publish a
+ * check-digit algorithm, so this is a format check only; it also rejects
+ * placeholder values made of a single repeated digit.
+ */
+export const isWellFormedTin = (tin: string) =>
+  /^[1-9]\d{8}$/.test(tin) && !/^(\d)\1+$/.test(tin);
+
 export const parseAmount = (input: string, options?: EbmTemplateOptions) => {
   if (!input) return undefined;
   const decimalSeparator = options?.decimalSeparator ?? '.';
@@ -51,3 +59,75 @@ export const applyReplacements = (
     return acc.replace(regex, replacement);
   }, value);
 };
+
+export const toStringValue = (value: unknown): string | undefined => {
+  if (value == null) {
+    return undefined;
+  }
+
+  if (value instanceof Date) {
+    return format(value, 'yyyy-MM-dd');
+  }
+
+  if (typeof value === 'string') {
+    const trimmed = value.trim();
+    return trimmed.length > 0 ? trimmed : undefined;
+  }
+
+  if (typeof value === 'number') {
+    return Number.isFinite(value) ? String(value) : undefined;
+  }
+
+  return String(value);
+};
+
+export const toNumberValue = (value: unknown): number | undefined => {
+  if (value == null) return undefined;
+  if (typeof value === 'number') {
+    return Number.isFinite(value) ? value : undefined;
+  }
+  if (typeof value === 'string') {
+    const parsed = parseAmount(value, { decimalSeparator: '.' });
+    return parsed != null ? parsed : undefined;
+  }
+  return undefined;
+};
+
+export const toDateString = (value: unknown): string | undefined => {
+  if (value instanceof Date) {
+    return format(value, 'yyyy-MM-dd');
+  }
+  if (typeof value === 'string') {
+    const trimmed = value.trim();
+    const parsed = parseDateStrict(trimmed);
+    if (parsed) {
+      return format(parsed, 'yyyy-MM-dd');
+    }
+
+    const [datePart] = trimmed.split(' ');
+    if (datePart && datePart !== trimmed) {
+      const parsedDatePart = parseDateStrict(datePart);
+      if (parsedDatePart) {
+        return format(parsedDatePart, 'yyyy-MM-dd');
+      }
+    }
+  }
+  return undefined;
+};
+
+export const normalizeInvoiceNumber = (value: unknown): string | undefined => {
+  if (value == null) {
+    return undefined;
+  }
+  const str = String(value)
+    .trim()
+    .replace(/\s+/g, '')
+    .toUpperCase();
+  return str.length > 0 ? str : undefined;
+};
+
+export const normalizeCurrency = (value: unknown): string | undefined => {
+  if (value == null) return undefined;
+  const str = String(value).trim().toUpperCase();
+  return str.length > 0 ? str : undefined;
+};
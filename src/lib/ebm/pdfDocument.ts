@@ -0,0 +1,108 @@
+import { createCanvas, type Canvas, type SKRSContext2D } from '@napi-rs/canvas';
+import type {
+  DocumentInitParameters,
+  PDFDocumentProxy,
+} from 'pdfjs-dist/types/src/display/api';
+
+type NodeDocumentInitParameters = DocumentInitParameters & {
+  disableWorker?: boolean;
+};
+
+let pdfModulePromise: Promise<
+  typeof import('pdfjs-dist/legacy/build/pdf.mjs')
+> | null = null;
+
+const loadPdfModule = async () => {
+  if (!pdfModulePromise) {
+    pdfModulePromise = import(
+      /* webpackIgnore: true */ 'pdfjs-dist/legacy/build/pdf.mjs'
+    );
+  }
+  return pdfModulePromise;
+};
+
+/**
+ * Opens a PDF with pdf.js in-process (no worker), as used by both QR
+ * rasterisation and positional text extraction. Callers own the returned
+ * document and must `cleanup()`/`destroy()` it.
+ */
+export const openPdfDocument = async (
+  pdfBuffer: Buffer,
+): Promise<PDFDocumentProxy> => {
+  const pdfjs = await loadPdfModule();
+  pdfjs.GlobalWorkerOptions.workerPort = null;
+
+  const docInit: NodeDocumentInitParameters = {
+    data: new Uint8Array(
+      pdfBuffer.buffer,
+      pdfBuffer.byteOffset,
+      pdfBuffer.byteLength,
+    ),
+    disableWorker: true,
+    useSystemFonts: true,
+    disableFontFace: true,
+  };
+
+  return pdfjs.getDocument(docInit).promise;
+};
+
+type CanvasAndContext = {
+  canvas: Canvas;
+  context: SKRSContext2D;
+};
+
+class NodeCanvasFactory {
+  create(width: number, height: number): CanvasAndContext {
+    const safeWidth = Math.max(Math.ceil(width), 1);
+    const safeHeight = Math.max(Math.ceil(height), 1);
+    const canvas = createCanvas(safeWidth, safeHeight);
+    const context = canvas.getContext('2d');
+    return { canvas, context };
+  }
+
+  reset(canvasAndContext: CanvasAndContext, width: number, height: number) {
+    const safeWidth = Math.max(Math.ceil(width), 1);
+    const safeHeight = Math.max(Math.ceil(height), 1);
+    canvasAndContext.canvas.width = safeWidth;
+    canvasAndContext.canvas.height = safeHeight;
+  }
+
+  destroy(canvasAndContext: CanvasAndContext) {
+    canvasAndContext.canvas.width = 0;
+    canvasAndContext.canvas.height = 0;
+  }
+}
+
+export const canvasFactory = new NodeCanvasFactory();
+
+/**
+ * Rasterises one page onto a fresh canvas, as used by QR decoding and OCR.
+ * Call `cleanup()` once the pixels have been read.
+ */
+export const renderPdfPage = async (
+  doc: PDFDocumentProxy,
+  pageNumber: number,
+  scale: number,
+) => {
+  const page = await doc.getPage(pageNumber);
+  const viewport = page.getViewport({ scale });
+  const canvasAndContext = canvasFactory.create(
+    viewport.width,
+    viewport.height,
+  );
+
+  const renderContext = {
+    canvasContext:
+      canvasAndContext.context as unknown as globalThis.CanvasRenderingContext2D,
+    viewport,
+    canvasFactory,
+    canvas: canvasAndContext.canvas as unknown as HTMLCanvasElement,
+  };
+
+  await page.render(renderContext).promise;
+
+  return {
+    ...canvasAndContext,
+    cleanup: () => canvasFactory.destroy(canvasAndContext),
+  };
+};
@@ -1,4 +1,4 @@
-import { createCanvas, type Canvas, type CanvasRenderingContext2D } from '@napi-rs/canvas';
+import { loadImage } from '@napi-rs/canvas';
 import { performance } from 'node:perf_hooks';
 import {
   BarcodeFormat,
@@ -10,69 +10,63 @@ import {
   RGBLuminanceSource,
 } from '@zxing/library';
 import jsQR from 'jsqr';
-import type { DocumentInitParameters, PDFDocumentProxy } from 'pdfjs-dist/types/src/display/api';
+import type { PDFDocumentProxy } from 'pdfjs-dist/types/src/display/api';
 import logger from '@/lib/logger';
+import { canvasFactory, openPdfDocument, renderPdfPage } from './pdfDocument';
 
 const qrLogger = logger.withDefaults({ tag: 'ebm:qr' });
 
 const DEFAULT_SCALES = [1.4, 1.8, 2.2, 2.8, 3.5, 4.2];
 
+/**
+ * Phone photos are usually far larger than the QR code needs, so image
+ * decoding starts from a bounded working size and tries progressively
+ * smaller/larger variants before giving up.
+ */
+const DEFAULT_IMAGE_MAX_DIMENSION = 1600;
+const DEFAULT_IMAGE_SCALES = [1, 0.75, 0.5, 1.5];
+const DEFAULT_IMAGE_ROTATIONS = [0, 90, 180, 270];
+/**
+ * Horizontal/vertical shear factors used to approximate keystone correction
+ * for receipts photographed at an angle.
+ */
+const DEFAULT_IMAGE_SKEWS: Array<[number, number]> = [
+  [0, 0],
+  [0.15, 0],
+  [-0.15, 0],
+  [0, 0.15],
+  [0, -0.15],
+];
+
+export const QR_IMAGE_EXTENSIONS = ['jpg', 'jpeg', 'png'] as const;
+
+export type QrImageExtension = (typeof QR_IMAGE_EXTENSIONS)[number];
+
+export const isQrImageExtension = (
+  extension: string,
+): extension is QrImageExtension =>
+  QR_IMAGE_EXTENSIONS.includes(extension.toLowerCase() as QrImageExtension);
+
 export interface PdfQrDecodeOptions {
   scales?: number[];
   maxPages?: number;
   unique?: boolean;
 }
 
+export interface ImageQrDecodeOptions {
+  scales?: number[];
+  rotations?: number[];
+  skews?: Array<[number, number]>;
+  maxDimension?: number;
+}
+
 export interface PdfQrDecodedCode {
   pageNumber: number;
   scale: number;
   text: string;
+  rotation?: number;
 }
 
-type CanvasAndContext = {
-  canvas: Canvas;
-  context: CanvasRenderingContext2D;
-};
-
-class NodeCanvasFactory {
-  create(width: number, height: number): CanvasAndContext {
-    const safeWidth = Math.max(Math.ceil(width), 1);
-    const safeHeight = Math.max(Math.ceil(height), 1);
-    const canvas = createCanvas(safeWidth, safeHeight);
-    const context = canvas.getContext('2d');
-    return { canvas, context };
-  }
-
-  reset(canvasAndContext: CanvasAndContext, width: number, height: number) {
-    const safeWidth = Math.max(Math.ceil(width), 1);
-    const safeHeight = Math.max(Math.ceil(height), 1);
-    canvasAndContext.canvas.width = safeWidth;
-    canvasAndContext.canvas.height = safeHeight;
-  }
-
-  destroy(canvasAndContext: CanvasAndContext) {
-    canvasAndContext.canvas.width = 0;
-    canvasAndContext.canvas.height = 0;
-  }
-}
-
-const canvasFactory = new NodeCanvasFactory();
-
-type NodeDocumentInitParameters = DocumentInitParameters & {
-  disableWorker?: boolean;
-};
-
-let pdfModulePromise: Promise<typeof import('pdfjs-dist/legacy/build/pdf.mjs')> | null = null;
-
-const loadPdfModule = async () => {
-  if (!pdfModulePromise) {
-    pdfModulePromise = import(
-      /* webpackIgnore: true */ 'pdfjs-dist/legacy/build/pdf.mjs'
-    );
-  }
-  return pdfModulePromise;
-};
-
 const createReader = () => {
   const hints = new Map();
   hints.set(DecodeHintType.POSSIBLE_FORMATS, [BarcodeFormat.QR_CODE]);
@@ -108,35 +102,28 @@ const decodeWithJsqr = (data: Uint8ClampedArray, width: number, height: number)
   return result?.data ?? null;
 };
 
+const decodeRgba = (
+  reader: MultiFormatReader,
+  data: Uint8ClampedArray,
+  width: number,
+  height: number,
+) => {
+  const bitmap = buildBinaryBitmap(data, width, height);
+  return decodeBitmap(reader, bitmap) ?? decodeWithJsqr(data, width, height);
+};
+
 const renderPageAtScale = async (
   doc: PDFDocumentProxy,
   pageNumber: number,
   scale: number,
 ) => {
-  const page = await doc.getPage(pageNumber);
-  const viewport = page.getViewport({ scale });
-  const canvasAndContext = canvasFactory.create(viewport.width, viewport.height);
-
-  const renderContext = {
-    canvasContext: canvasAndContext.context as unknown as globalThis.CanvasRenderingContext2D,
-    viewport,
-    canvasFactory,
-    canvas: canvasAndContext.canvas as unknown as HTMLCanvasElement,
-  };
-
-  await page.render(renderContext).promise;
-
-  const imageData = canvasAndContext.context.getImageData(
-    0,
-    0,
-    canvasAndContext.canvas.width,
-    canvasAndContext.canvas.height,
-  );
+  const { canvas, context, cleanup } = await renderPdfPage(doc, pageNumber, scale);
+  const imageData = context.getImageData(0, 0, canvas.width, canvas.height);
   return {
     data: imageData.data,
-    width: canvasAndContext.canvas.width,
-    height: canvasAndContext.canvas.height,
-    cleanup: () => canvasFactory.destroy(canvasAndContext),
+    width: canvas.width,
+    height: canvas.height,
+    cleanup,
   };
 };
 
@@ -145,23 +132,7 @@ export const decodeQrCodesFromPdf = async (
   options: PdfQrDecodeOptions = {},
 ): Promise<PdfQrDecodedCode[]> => {
   const start = performance.now();
-  const pdfjs = await loadPdfModule();
-  pdfjs.GlobalWorkerOptions.workerPort = null;
-
-  const docInit: NodeDocumentInitParameters = {
-      data: new Uint8Array(
-        pdfBuffer.buffer,
-        pdfBuffer.byteOffset,
-        pdfBuffer.byteLength,
-      ),
-      disableWorker: true,
-      useSystemFonts: true,
-      disableFontFace: true,
-    };
-
-  const doc = await pdfjs
-    .getDocument(docInit)
-    .promise;
+  const doc = await openPdfDocument(pdfBuffer);
 
   const scales = options.scales?.length ? options.scales : DEFAULT_SCALES;
   const maxPages = options.maxPages ?? doc.numPages;
@@ -178,12 +149,7 @@ export const decodeQrCodesFromPdf = async (
         try {
           const rendered = await renderPageAtScale(doc, pageIndex, scale);
           cleanup = rendered.cleanup;
-          const bitmap = buildBinaryBitmap(rendered.data, rendered.width, rendered.height);
-          let text = decodeBitmap(reader, bitmap);
-
-          if (!text) {
-            text = decodeWithJsqr(rendered.data, rendered.width, rendered.height);
-          }
+          const text = decodeRgba(reader, rendered.data, rendered.width, rendered.height);
           const renderDuration = performance.now() - renderStart;
 
           if (text) {
@@ -230,3 +196,108 @@ export const decodeQrCodesFromPdf = async (
 
   return codes;
 };
+
+type LoadedImage = Awaited<ReturnType<typeof loadImage>>;
+
+const renderImageVariant = (
+  image: LoadedImage,
+  scale: number,
+  rotation: number,
+  [skewX, skewY]: [number, number],
+) => {
+  const width = image.width * scale;
+  const height = image.height * scale;
+  const radians = (rotation * Math.PI) / 180;
+  const quarterTurn = rotation % 180 !== 0;
+  const rotatedWidth = quarterTurn ? height : width;
+  const rotatedHeight = quarterTurn ? width : height;
+  const canvasWidth = rotatedWidth + Math.abs(skewX) * rotatedHeight;
+  const canvasHeight = rotatedHeight + Math.abs(skewY) * rotatedWidth;
+
+  const canvasAndContext = canvasFactory.create(canvasWidth, canvasHeight);
+  const { context } = canvasAndContext;
+
+  // Thermal slips are printed on white paper; a white background keeps the
+  // areas uncovered by the skew transform from being read as dark modules.
+  context.fillStyle = '#ffffff';
+  context.fillRect(0, 0, canvasAndContext.canvas.width, canvasAndContext.canvas.height);
+  context.translate(canvasWidth / 2, canvasHeight / 2);
+  context.transform(1, skewY, skewX, 1, 0, 0);
+  context.rotate(radians);
+  context.drawImage(image, -width / 2, -height / 2, width, height);
+
+  const imageData = context.getImageData(
+    0,
+    0,
+    canvasAndContext.canvas.width,
+    canvasAndContext.canvas.height,
+  );
+  return {
+    data: imageData.data,
+    width: canvasAndContext.canvas.width,
+    height: canvasAndContext.canvas.height,
+    cleanup: () => canvasFactory.destroy(canvasAndContext),
+  };
+};
+
+export const decodeQrCodesFromImage = async (
+  imageBuffer: Buffer,
+  options: ImageQrDecodeOptions = {},
+): Promise<PdfQrDecodedCode[]> => {
+  const start = performance.now();
+  const image = await loadImage(imageBuffer);
+
+  const maxDimension = options.maxDimension ?? DEFAULT_IMAGE_MAX_DIMENSION;
+  const baseScale = Math.min(1, maxDimension / Math.max(image.width, image.height, 1));
+  const scales = options.scales?.length ? options.scales : DEFAULT_IMAGE_SCALES;
+  const rotations = options.rotations?.length ? options.rotations : DEFAULT_IMAGE_ROTATIONS;
+  const skews = options.skews?.length ? options.skews : DEFAULT_IMAGE_SKEWS;
+  const reader = createReader();
+
+  // Skew is the most expensive axis to explore and rarely needed, so every
+  // scale/rotation pair is tried upright before any shear is applied.
+  for (const skew of skews) {
+    for (const rotation of rotations) {
+      for (const relativeScale of scales) {
+        const scale = baseScale * relativeScale;
+        const attemptStart = performance.now();
+        let cleanup: (() => void) | null = null;
+        try {
+          const rendered = renderImageVariant(image, scale, rotation, skew);
+          cleanup = rendered.cleanup;
+          const text = decodeRgba(reader, rendered.data, rendered.width, rendered.height);
+
+          if (text) {
+            qrLogger.info('Detected QR code in image', {
+              scale: scale.toFixed(2),
+              rotation,
+              skew,
+              durationMs: (performance.now() - attemptStart).toFixed(1),
+              totalDurationMs: (performance.now() - start).toFixed(1),
+            });
+            return [{ pageNumber: 1, scale, rotation, text }];
+          }
+        } catch (error) {
+          qrLogger.warn('Failed to decode QR candidate in image', {
+            scale,
+            rotation,
+            skew,
+            error,
+          });
+        } finally {
+          if (cleanup) {
+            cleanup();
+          }
+        }
+      }
+    }
+  }
+
+  qrLogger.info('QR extraction from image finished without a match', {
+    width: image.width,
+    height: image.height,
+    durationMs: (performance.now() - start).toFixed(1),
+  });
+
+  return [];
+};
@@ -0,0 +1,167 @@
+import * as XLSX from 'xlsx';
+import {
+  buildEbmReportKey,
+  readJsonFromStorage,
+  writeJsonToStorage,
+} from '@/lib/storage/uploaded-files';
+import type { EbmBatchEntry, EbmBatchReport } from './types';
+
+export type EbmReportFormat = 'csv' | 'xlsx' | 'json';
+
+export const EBM_REPORT_FORMATS: EbmReportFormat[] = ['csv', 'xlsx', 'json'];
+
+type StoredBatchReport = Omit<EbmBatchReport, 'createdAt' | 'completedAt'> & {
+  createdAt: string;
+  completedAt?: string;
+};
+
+const INVOICE_COLUMNS = [
+  'File',
+  'Status',
+  'Invoice number',
+  'Seller TIN',
+  'Buyer TIN',
+  'Issue date',
+  'Total amount',
+  'VAT amount',
+  'Currency',
+  'Template',
+  'Duplicate',
+  'Receipt verification',
+  'Risk score',
+  'Field checks',
+  'Errors',
+];
+
+/**
+ * Invoice fields come from uploaded documents, so text that a spreadsheet
+ * would read as a formula is prefixed with `'` to keep it as plain text.
+ */
+const neutralizeFormula = (value: unknown) =>
+  typeof value === 'string' && /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+
+const neutralizeRow = (row: unknown[]) => row.map(neutralizeFormula);
+
+const formatFieldChecks = (entry: EbmBatchEntry) =>
+  entry.matches.map((match) => `${match.field}: ${match.status}`).join('; ');
+
+const toInvoiceRow = (entry: EbmBatchEntry) => [
+  entry.fileName ?? entry.fileId,
+  entry.status,
+  entry.invoiceNumber ?? '',
+  entry.sellerTin ?? '',
+  entry.buyerTin ?? '',
+  entry.issueDate ?? '',
+  entry.totalAmount ?? '',
+  entry.vatAmount ?? '',
+  entry.currency ?? '',
+  entry.templateName ?? '',
+  entry.duplicateOf?.length ? 'yes' : 'no',
+  entry.verification ?? '',
+  entry.riskScore ?? '',
+  formatFieldChecks(entry),
+  entry.errors.join('; '),
+];
+
+const escapeCsvCell = (value: unknown) => {
+  const text = value == null ? '' : String(neutralizeFormula(value));
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const renderBatchReportCsv = (report: EbmBatchReport) => {
+  const rows = [INVOICE_COLUMNS, ...report.entries.map(toInvoiceRow)];
+  rows.push([]);
+  rows.push([
+    'Totals',
+    '',
+    '',
+    '',
+    '',
+    '',
+    report.totals.totalAmount,
+    report.totals.vatAmount,
+  ]);
+
+  return rows.map((row) => row.map(escapeCsvCell).join(',')).join('\r\n');
+};
+
+export const renderBatchReportXlsx = (report: EbmBatchReport): Buffer => {
+  const workbook = XLSX.utils.book_new();
+  const fileNames = new Map(
+    report.entries.map((entry) => [
+      entry.fileId,
+      entry.fileName ?? entry.fileId,
+    ]),
+  );
+
+  const invoicesSheet = XLSX.utils.aoa_to_sheet([
+    INVOICE_COLUMNS,
+    ...report.entries.map((entry) => neutralizeRow(toInvoiceRow(entry))),
+  ]);
+  XLSX.utils.book_append_sheet(workbook, invoicesSheet, 'Invoices');
+
+  const checksSheet = XLSX.utils.aoa_to_sheet([
+    ['File', 'Field', 'Status', 'QR value', 'Text value', 'Details'],
+    ...report.entries.flatMap((entry) =>
+      entry.matches.map((match) =>
+        neutralizeRow([
+          entry.fileName ?? entry.fileId,
+          match.field,
+          match.status,
+          match.qrValue == null ? '' : String(match.qrValue),
+          match.textValue == null ? '' : String(match.textValue),
+          match.details ?? '',
+        ]),
+      ),
+    ),
+  ]);
+  XLSX.utils.book_append_sheet(workbook, checksSheet, 'Field checks');
+
+  const duplicatesSheet = XLSX.utils.aoa_to_sheet([
+    ['Invoice number', 'Seller TIN', 'Files', 'Conflicting totals'],
+    ...report.duplicates.map((duplicate) =>
+      neutralizeRow([
+        duplicate.invoiceNumber,
+        duplicate.sellerTin ?? '',
+        duplicate.fileIds
+          .map((fileId) => fileNames.get(fileId) ?? fileId)
+          .join('; '),
+        duplicate.conflictingTotals ? 'yes' : 'no',
+      ]),
+    ),
+  ]);
+  XLSX.utils.book_append_sheet(workbook, duplicatesSheet, 'Duplicates');
+
+  const summarySheet = XLSX.utils.aoa_to_sheet([
+    ['Report ID', report.id],
+    ['Generated at', report.createdAt.toISOString()],
+    ['Invoices', report.totals.invoiceCount],
+    ['Validated', report.totals.validatedCount],
+    ['With issues', report.totals.issueCount],
+    ['Failed', report.totals.failedCount],
+    ['Duplicate copies', report.totals.duplicateCount],
+    ['Total amount', report.totals.totalAmount],
+    ['VAT amount', report.totals.vatAmount],
+  ]);
+  XLSX.utils.book_append_sheet(workbook, summarySheet, 'Summary');
+
+  return XLSX.write(workbook, { type: 'buffer', bookType: 'xlsx' }) as Buffer;
+};
+
+export const saveBatchReport = async (report: EbmBatchReport) => {
+  await writeJsonToStorage(buildEbmReportKey(report.id), report);
+};
+
+export const loadBatchReport = async (
+  reportId: string,
+): Promise<EbmBatchReport> => {
+  const stored = await readJsonFromStorage<StoredBatchReport>(
+    buildEbmReportKey(reportId),
+  );
+
+  return {
+    ...stored,
+    createdAt: new Date(stored.createdAt),
+    completedAt: stored.completedAt ? new Date(stored.completedAt) : undefined,
+  };
+};
@@ -70,6 +70,41 @@ const normaliseReplace = (
     .map(([pattern, replacement]) => [pattern, replacement]);
 };
 
+/**
+ * Template files follow the invoice2data convention of snake_case option keys;
+ * camelCase keys are still honoured for templates written against the type.
+ */
+const normaliseOptions = (
+  raw: EbmTemplateConfig['options'],
+): Required<EbmTemplateOptions> => {
+  const options: Required<EbmTemplateOptions> = { ...DEFAULT_OPTIONS };
+
+  if (!raw) {
+    return options;
+  }
+
+  options.removeWhitespace =
+    raw.remove_whitespace ?? raw.removeWhitespace ?? options.removeWhitespace;
+  options.removeAccents =
+    raw.remove_accents ?? raw.removeAccents ?? options.removeAccents;
+  options.lowercase = raw.lowercase ?? options.lowercase;
+  options.decimalSeparator = String(
+    raw.decimal_separator ?? raw.decimalSeparator ?? options.decimalSeparator,
+  );
+
+  const dateFormats = raw.date_formats ?? raw.dateFormats;
+  if (dateFormats) {
+    options.dateFormats = toArray(dateFormats);
+  }
+
+  const replace = normaliseReplace(raw.replace);
+  if (replace) {
+    options.replace = replace;
+  }
+
+  return options;
+};
+
 export class EbmTemplate {
   readonly definition: EbmTemplateDefinition;
   private readonly keywords: string[];
@@ -199,23 +234,14 @@ const loadTemplateFile = async (filePath: string): Promise<EbmTemplate | null> =
     throw new Error(`Template file ${filePath} is missing template_name`);
   }
 
-  const options: Required<EbmTemplateOptions> = {
-    ...DEFAULT_OPTIONS,
-    ...(parsed.options ?? {}),
-  };
-
-  if (parsed.options?.replace) {
-    const replace = normaliseReplace(parsed.options.replace);
-    if (replace) {
-      options.replace = replace;
-    }
-  }
+  const options = normaliseOptions(parsed.options);
 
   const fields: Record<string, EbmTemplateFieldConfig> = parsed.fields ?? {};
 
   const definition: EbmTemplateDefinition = {
     templateName: parsed.template_name,
     issuer: parsed.issuer || parsed.template_name,
+    priority: Number(parsed.priority ?? 0),
     keywords: toArray(parsed.keywords),
     excludeKeywords: toArray(parsed.exclude_keywords),
     fields,
@@ -235,7 +261,9 @@ export const loadEbmTemplates = async () => {
 
   const templateFiles = await discoverTemplateFiles(TEMPLATE_ROOT);
   const loaded = await Promise.all(templateFiles.map(loadTemplateFile));
-  cachedTemplates = loaded.filter((template): template is EbmTemplate => Boolean(template));
+  cachedTemplates = loaded
+    .filter((template): template is EbmTemplate => Boolean(template))
+    .sort((a, b) => b.definition.priority - a.definition.priority);
   return cachedTemplates;
 };
 
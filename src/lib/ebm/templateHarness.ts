@@ -0,0 +1,179 @@
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import { format, isValid } from 'date-fns';
+import { EbmTemplate, loadEbmTemplates } from './template';
+import {
+  extractTextWithTemplate,
+  selectTemplateForSnapshot,
+} from './textExtractor';
+import { extractPdfTextPages } from './textLayout';
+import type { EbmTextPage, EbmTextSnapshot } from './types';
+
+type EbmFixtureScalar = string | number | null;
+
+/** Line items are asserted as arrays of partial rows, compared key by key. */
+type EbmFixtureValue =
+  | EbmFixtureScalar
+  | Array<Record<string, EbmFixtureScalar>>;
+
+/**
+ * A sample invoice text snapshot together with the template that should claim
+ * it and the field values that template is expected to extract. Fixtures live
+ * as JSON files so new layouts can be captured without touching code.
+ */
+export interface EbmTemplateFixture {
+  name: string;
+  description?: string;
+  /** Expected template name, or null when no template should match. */
+  template: string | null;
+  snapshot: {
+    title?: string;
+    /** Text pages as the uploads pipeline stores them. */
+    pages?: EbmTextPage[];
+    /**
+     * PDF next to the fixture file, read the way uploads are, so text
+     * positions and template areas are exercised too.
+     */
+    pdf?: string;
+  };
+  /**
+   * Expected extracted values keyed by template field. Dates are compared as
+   * yyyy-MM-dd strings, amounts to the cent; null asserts the field is empty.
+   */
+  expected?: Record<string, EbmFixtureValue>;
+}
+
+export interface EbmTemplateFixtureResult {
+  fixture: string;
+  file: string;
+  selectedTemplate: string | null;
+  failures: string[];
+}
+
+export const DEFAULT_FIXTURE_ROOT = path.join(
+  process.cwd(),
+  'src/lib/ebm/fixtures/templates',
+);
+
+const toSnapshot = async (
+  fixture: EbmTemplateFixture,
+  file: string,
+): Promise<EbmTextSnapshot> => {
+  const pages = fixture.snapshot.pdf
+    ? await extractPdfTextPages(
+        await fs.readFile(
+          path.resolve(path.dirname(file), fixture.snapshot.pdf),
+        ),
+      )
+    : fixture.snapshot.pages ?? [];
+
+  return {
+    title: fixture.snapshot.title ?? fixture.name,
+    pages,
+    content: pages.map((page) => page.text).join('\n\n'),
+  };
+};
+
+const normaliseActual = (value: unknown) => {
+  if (value instanceof Date) {
+    return isValid(value) ? format(value, 'yyyy-MM-dd') : 'Invalid Date';
+  }
+  if (value === undefined || value === '') {
+    return null;
+  }
+  return value;
+};
+
+const valuesMatch = (expected: EbmFixtureValue, actual: unknown): boolean => {
+  if (Array.isArray(expected)) {
+    return (
+      Array.isArray(actual) &&
+      actual.length === expected.length &&
+      expected.every((row, index) =>
+        Object.entries(row).every(([key, value]) =>
+          valuesMatch(value, normaliseActual(actual[index]?.[key])),
+        ),
+      )
+    );
+  }
+  if (expected === null) {
+    return actual === null;
+  }
+  if (typeof expected === 'number') {
+    return typeof actual === 'number' && Math.abs(expected - actual) < 0.005;
+  }
+  return typeof actual === 'string' && actual === expected;
+};
+
+export const loadTemplateFixtures = async (
+  root: string = DEFAULT_FIXTURE_ROOT,
+) => {
+  const entries = await fs.readdir(root);
+  const fixtures: Array<{ file: string; fixture: EbmTemplateFixture }> = [];
+
+  for (const entry of entries.sort()) {
+    if (!entry.endsWith('.json')) {
+      continue;
+    }
+    const file = path.join(root, entry);
+    const fixture = JSON.parse(
+      await fs.readFile(file, 'utf8'),
+    ) as EbmTemplateFixture;
+    fixtures.push({ file, fixture });
+  }
+
+  return fixtures;
+};
+
+export const runTemplateFixture = async (
+  fixture: EbmTemplateFixture,
+  templates: EbmTemplate[],
+  file = fixture.name,
+): Promise<EbmTemplateFixtureResult> => {
+  const snapshot = await toSnapshot(fixture, file);
+  const template = await selectTemplateForSnapshot(snapshot, templates);
+  const selectedTemplate = template?.templateName ?? null;
+  const failures: string[] = [];
+
+  if (selectedTemplate !== fixture.template) {
+    failures.push(
+      `expected template ${fixture.template ?? '(none)'}, got ${selectedTemplate ?? '(none)'}`,
+    );
+  }
+
+  if (template && selectedTemplate === fixture.template) {
+    const extraction = extractTextWithTemplate(template, snapshot);
+
+    for (const [field, expected] of Object.entries(fixture.expected ?? {})) {
+      if (!extraction.fields[field]) {
+        failures.push(`${field}: not defined by template ${selectedTemplate}`);
+        continue;
+      }
+
+      const actual = normaliseActual(extraction.fields[field].value);
+      if (!valuesMatch(expected, actual)) {
+        failures.push(
+          `${field}: expected ${JSON.stringify(expected)}, got ${JSON.stringify(actual)}`,
+        );
+      }
+    }
+  }
+
+  return { fixture: fixture.name, file, selectedTemplate, failures };
+};
+
+export const runTemplateFixtures = async (
+  root: string = DEFAULT_FIXTURE_ROOT,
+) => {
+  const [templates, fixtures] = await Promise.all([
+    loadEbmTemplates(),
+    loadTemplateFixtures(root),
+  ]);
+
+  const results: EbmTemplateFixtureResult[] = [];
+  for (const { file, fixture } of fixtures) {
+    results.push(await runTemplateFixture(fixture, templates, file));
+  }
+
+  return results;
+};
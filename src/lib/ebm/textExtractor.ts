@@ -4,11 +4,14 @@ import {
   buildPagesKey,
   readJsonFromStorage,
 } from '@/lib/storage/uploaded-files';
-import { normalizeWhitespace } from './normalizers';
+import { normalizeWhitespace, parseAmount } from './normalizers';
 import { EbmTemplate, loadEbmTemplates } from './template';
+import { readAreaLines } from './textLayout';
 import type {
   EbmExtractedField,
   EbmExtractedFieldMatch,
+  EbmLineItem,
+  EbmTaxCategory,
   EbmTemplateFieldConfig,
   EbmTextExtraction,
   EbmTextPage,
@@ -22,6 +25,9 @@ interface StoredPagesPayload {
   pages?: Array<{
     pageNumber?: number;
     text?: string;
+    width?: number;
+    height?: number;
+    items?: EbmTextPage['items'];
   }>;
 }
 
@@ -29,6 +35,7 @@ interface PreparedPage {
   pageNumber: number;
   rawText: string;
   preparedText: string;
+  source: EbmTextPage;
 }
 
 const INLINE_FLAG_PATTERN = /^\(\?[a-z]+\)/i;
@@ -85,6 +92,22 @@ const buildRegExp = (pattern: string): RegExp | null => {
   }
 };
 
+const toPatternList = (value: string | string[] | undefined) => {
+  if (value == null) {
+    return [];
+  }
+  return (Array.isArray(value) ? value : [value]).filter(
+    (entry): entry is string => typeof entry === 'string',
+  );
+};
+
+/** Compiles patterns for single-line tests, where the global flag gets in the way. */
+const buildLineRegExps = (value: string | string[] | undefined) =>
+  toPatternList(value)
+    .map(buildRegExp)
+    .filter((regex): regex is RegExp => Boolean(regex))
+    .map((regex) => new RegExp(regex.source, regex.flags.replace('g', '')));
+
 const normalizeMatch = (value: string) => normalizeWhitespace(value);
 
 const createMatchRecord = (
@@ -155,8 +178,11 @@ const applyGrouping = (
         },
       ];
     }
-    case 'concat': {
-      const raw = matches.map((match) => match.raw).join(' ');
+    case 'concat':
+    case 'join': {
+      const raw = matches
+        .map((match) => match.raw)
+        .join(config.group === 'join' ? '\n' : ' ');
       return [
         {
           raw,
@@ -274,6 +300,251 @@ const collectMatchesForPattern = (
   return filtered;
 };
 
+/**
+ * Collects matches from the template area on each page. Returns null when any
+ * candidate page lacks text positions so the caller can fall back to matching
+ * the whole page text.
+ */
+const collectAreaMatches = (
+  patterns: string[],
+  fieldName: string,
+  config: EbmTemplateFieldConfig,
+  template: EbmTemplate,
+  preparedPages: PreparedPage[],
+): EbmExtractedFieldMatch[] | null => {
+  const area = config.area!;
+  const pages = preparedPages.filter(
+    (page) => area.page == null || page.pageNumber === area.page,
+  );
+
+  const areaLines: Array<{ pageNumber: number; lines: string[] }> = [];
+  for (const page of pages) {
+    const lines = readAreaLines(page.source, area);
+    if (!lines) {
+      return null;
+    }
+    areaLines.push({
+      pageNumber: page.pageNumber,
+      lines: lines.map((line) => template.prepareInput(line)),
+    });
+  }
+
+  if (patterns.length === 0) {
+    return areaLines.flatMap(({ pageNumber, lines }) =>
+      lines.map((line) => createMatchRecord(line, config, pageNumber)),
+    );
+  }
+
+  for (const pattern of patterns) {
+    const regex = buildRegExp(pattern);
+    if (!regex) {
+      continue;
+    }
+
+    const matches = areaLines.flatMap(({ pageNumber, lines }) =>
+      lines.flatMap((line) =>
+        collectMatchesFromText(
+          new RegExp(regex),
+          line,
+          fieldName,
+          config,
+          pageNumber,
+        ),
+      ),
+    );
+
+    if (matches.length > 0) {
+      return matches;
+    }
+  }
+
+  return [];
+};
+
+const finaliseField = (
+  fieldName: string,
+  config: EbmTemplateFieldConfig,
+  template: EbmTemplate,
+  collected: EbmExtractedFieldMatch[],
+): EbmExtractedField => {
+  let matches = coerceMatchValues(collected, template, config);
+  matches = applyGrouping(matches, config);
+
+  const primary = matches[0];
+
+  const field: EbmExtractedField = {
+    field: fieldName,
+    value: primary?.value,
+    raw:
+      primary?.raw ??
+      (typeof primary?.value === 'string'
+        ? (primary?.value as string)
+        : undefined),
+    pageNumber: primary?.pageNumber,
+    matches,
+    config,
+  };
+  return field;
+};
+
+const TAX_CATEGORIES = new Set<EbmTaxCategory>(['A', 'B', 'C', 'D']);
+
+interface ItemLine {
+  pageNumber: number;
+  text: string;
+}
+
+/**
+ * Line items need line boundaries, which `prepareInput` collapses, so each
+ * source line is prepared on its own. Area-restricted item tables are rebuilt
+ * from text positions when the snapshot has them.
+ */
+const readItemLines = (
+  config: EbmTemplateFieldConfig,
+  template: EbmTemplate,
+  preparedPages: PreparedPage[],
+): ItemLine[] => {
+  const lines: ItemLine[] = [];
+
+  for (const page of preparedPages) {
+    if (config.area?.page != null && config.area.page !== page.pageNumber) {
+      continue;
+    }
+
+    const sourceLines =
+      (config.area && readAreaLines(page.source, config.area)) ??
+      page.rawText.split(/\r?\n/);
+
+    for (const line of sourceLines) {
+      const text = template.prepareInput(line);
+      if (text) {
+        lines.push({ pageNumber: page.pageNumber, text });
+      }
+    }
+  }
+
+  return lines;
+};
+
+const matchLine = (regexes: RegExp[], text: string) => {
+  for (const regex of regexes) {
+    const match = text.match(regex);
+    if (match) {
+      return match.groups ?? {};
+    }
+  }
+  return null;
+};
+
+const applyItemGroups = (
+  item: EbmLineItem,
+  groups: Record<string, string | undefined>,
+  template: EbmTemplate,
+) => {
+  if (groups.description) {
+    item.description = normalizeWhitespace(
+      `${item.description} ${groups.description}`,
+    );
+  }
+  if (groups.quantity) {
+    item.quantity = parseAmount(groups.quantity, template.options);
+  }
+  if (groups.unit_price) {
+    item.unitPrice = parseAmount(groups.unit_price, template.options);
+  }
+  if (groups.line_total) {
+    item.lineTotal = parseAmount(groups.line_total, template.options);
+  }
+  if (groups.tax_category) {
+    const category = groups.tax_category.trim().charAt(0).toUpperCase();
+    if (TAX_CATEGORIES.has(category as EbmTaxCategory)) {
+      item.taxCategory = category as EbmTaxCategory;
+    }
+  }
+};
+
+const extractLineItems = (
+  config: EbmTemplateFieldConfig,
+  template: EbmTemplate,
+  preparedPages: PreparedPage[],
+): EbmLineItem[] => {
+  const [start] = buildLineRegExps(config.start);
+  const [end] = buildLineRegExps(config.end);
+  const firstLine = buildLineRegExps(config.first_line);
+  const line = buildLineRegExps(config.line);
+  const skip = buildLineRegExps(config.skip_line);
+
+  const items: EbmLineItem[] = [];
+  let current: EbmLineItem | null = null;
+  let inBlock = !start;
+
+  // An opening line without figures is most likely a header or note that
+  // happened to match `first_line`, so it is dropped rather than kept.
+  const flush = () => {
+    if (
+      current &&
+      (current.lineTotal != null ||
+        current.unitPrice != null ||
+        current.quantity != null)
+    ) {
+      items.push(current);
+    }
+    current = null;
+  };
+
+  for (const { pageNumber, text } of readItemLines(
+    config,
+    template,
+    preparedPages,
+  )) {
+    if (!inBlock) {
+      inBlock = start.test(text);
+      continue;
+    }
+
+    if (end?.test(text)) {
+      flush();
+      if (!start) {
+        break;
+      }
+      inBlock = false;
+      continue;
+    }
+
+    if (skip.some((regex) => regex.test(text))) {
+      continue;
+    }
+
+    const groups = matchLine(line, text);
+
+    if (groups && current && !groups.description) {
+      const item: EbmLineItem = current;
+      item.raw = `${item.raw}\n${text}`;
+      applyItemGroups(item, groups, template);
+      flush();
+      continue;
+    }
+
+    if (groups) {
+      flush();
+      const item: EbmLineItem = { description: '', raw: text, pageNumber };
+      applyItemGroups(item, groups, template);
+      items.push(item);
+      continue;
+    }
+
+    const opening = matchLine(firstLine, text);
+    if (opening) {
+      flush();
+      current = { description: '', raw: text, pageNumber };
+      applyItemGroups(current, opening, template);
+    }
+  }
+
+  flush();
+  return items;
+};
+
 const extractField = (
   fieldName: string,
   config: EbmTemplateFieldConfig,
@@ -308,7 +579,43 @@ const extractField = (
     return field;
   }
 
-  if (!config.regex) {
+  if (config.parser === 'lines') {
+    const items = extractLineItems(config, template, preparedPages);
+    const field: EbmExtractedField = {
+      field: fieldName,
+      value: items,
+      raw: undefined,
+      pageNumber: items[0]?.pageNumber,
+      matches: items.map((item) =>
+        createMatchRecord(item.raw, config, item.pageNumber),
+      ),
+      config,
+    };
+    return field;
+  }
+
+  const patterns = toPatternList(config.regex);
+
+  if (config.area) {
+    const areaMatches = collectAreaMatches(
+      patterns,
+      fieldName,
+      config,
+      template,
+      preparedPages,
+    );
+
+    if (areaMatches) {
+      return finaliseField(fieldName, config, template, areaMatches);
+    }
+
+    textLogger.debug('Snapshot has no text positions; ignoring field area.', {
+      field: fieldName,
+      template: template.templateName,
+    });
+  }
+
+  if (patterns.length === 0) {
     textLogger.debug('Field is missing regex configuration.', {
       field: fieldName,
       template: template.templateName,
@@ -324,10 +631,6 @@ const extractField = (
     return emptyField;
   }
 
-  const patterns = Array.isArray(config.regex)
-    ? config.regex.filter((entry): entry is string => typeof entry === 'string')
-    : [config.regex];
-
   let matches: EbmExtractedFieldMatch[] = [];
 
   for (const pattern of patterns) {
@@ -346,24 +649,7 @@ const extractField = (
     }
   }
 
-  matches = coerceMatchValues(matches, template, config);
-  matches = applyGrouping(matches, config);
-
-  const primary = matches[0];
-
-  const field: EbmExtractedField = {
-    field: fieldName,
-    value: primary?.value,
-    raw:
-      primary?.raw ??
-      (typeof primary?.value === 'string'
-        ? (primary?.value as string)
-        : undefined),
-    pageNumber: primary?.pageNumber,
-    matches,
-    config,
-  };
-  return field;
+  return finaliseField(fieldName, config, template, matches);
 };
 
 export const loadTextSnapshot = async (
@@ -397,6 +683,9 @@ export const loadTextSnapshot = async (
       pageNumber:
         typeof page.pageNumber === 'number' ? page.pageNumber : index + 1,
       text: page.text ?? '',
+      width: page.width,
+      height: page.height,
+      items: page.items,
     }));
 
     const content = pages.map((page) => page.text).join('\n\n');
@@ -455,6 +744,7 @@ export const extractTextWithTemplate = (
     pageNumber: page.pageNumber,
     rawText: page.text,
     preparedText: template.prepareInput(page.text),
+    source: page,
   }));
 
   const fields: Record<string, EbmExtractedField> = {};
@@ -469,10 +759,15 @@ export const extractTextWithTemplate = (
     );
   }
 
+  const lineItemsField = Object.values(fields).find(
+    (field) => field.config.parser === 'lines',
+  );
+
   const extraction: EbmTextExtraction = {
     templateName: template.templateName,
     issuer: template.definition.issuer,
     fields,
+    lineItems: lineItemsField?.value as EbmLineItem[] | undefined,
   };
   return extraction;
 };
\ No newline at end of file
@@ -0,0 +1,173 @@
+import type { TextItem } from 'pdfjs-dist/types/src/display/api';
+import logger from '@/lib/logger';
+import { normalizeWhitespace } from './normalizers';
+import { openPdfDocument } from './pdfDocument';
+import type { EbmTemplateArea, EbmTextItem, EbmTextPage } from './types';
+
+const layoutLogger = logger.withDefaults({ tag: 'ebm:layout' });
+
+export type EbmPageLayout = Required<
+  Pick<EbmTextPage, 'pageNumber' | 'text' | 'width' | 'height' | 'items'>
+>;
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+const isTextItem = (item: unknown): item is TextItem =>
+  Boolean(item && typeof item === 'object' && 'str' in item);
+
+/**
+ * Reads each page's text together with every text item's bounding box, so
+ * templates can target page regions without parsing the PDF a second time.
+ * Page text breaks lines where the baseline changes, as the LangChain PDF
+ * loader did. Coordinates are converted to a top-left origin to match how
+ * template areas are authored.
+ */
+export const extractPdfTextPages = async (
+  pdfBuffer: Buffer,
+): Promise<EbmPageLayout[]> => {
+  const doc = await openPdfDocument(pdfBuffer);
+  const pages: EbmPageLayout[] = [];
+
+  try {
+    for (let pageNumber = 1; pageNumber <= doc.numPages; pageNumber++) {
+      const page = await doc.getPage(pageNumber);
+      const viewport = page.getViewport({ scale: 1 });
+      const content = await page.getTextContent();
+      const items: EbmTextItem[] = [];
+      let text = '';
+      let lastY: number | undefined;
+
+      for (const item of content.items) {
+        if (!isTextItem(item)) {
+          continue;
+        }
+
+        const [, , c, d, e, f] = item.transform as number[];
+        text += lastY === undefined || lastY === f ? item.str : `\n${item.str}`;
+        lastY = f;
+
+        if (!item.str.trim()) {
+          continue;
+        }
+
+        const [x, baseline] = viewport.convertToViewportPoint(e, f);
+        const height = item.height || Math.hypot(c, d);
+
+        items.push({
+          text: item.str,
+          x: round(x),
+          y: round(baseline - height),
+          width: round(item.width),
+          height: round(height),
+        });
+      }
+
+      pages.push({
+        pageNumber,
+        text,
+        width: round(viewport.width),
+        height: round(viewport.height),
+        items,
+      });
+      page.cleanup();
+    }
+  } finally {
+    await doc.cleanup();
+    await doc.destroy();
+  }
+
+  layoutLogger.debug('Extracted PDF text layout.', {
+    pageCount: pages.length,
+    itemCount: pages.reduce((acc, page) => acc + page.items.length, 0),
+  });
+
+  return pages;
+};
+
+const toPointBox = (area: EbmTemplateArea, page: EbmTextPage) => {
+  if (area.unit === 'percent') {
+    const width = page.width ?? 0;
+    const height = page.height ?? 0;
+    return {
+      left: (area.left / 100) * width,
+      top: (area.top / 100) * height,
+      right: ((area.left + area.width) / 100) * width,
+      bottom: ((area.top + area.height) / 100) * height,
+    };
+  }
+
+  return {
+    left: area.left,
+    top: area.top,
+    right: area.left + area.width,
+    bottom: area.top + area.height,
+  };
+};
+
+const centreOf = (item: EbmTextItem) => ({
+  x: item.x + item.width / 2,
+  y: item.y + item.height / 2,
+});
+
+const joinLine = (items: EbmTextItem[]) => {
+  const sorted = [...items].sort((a, b) => a.x - b.x);
+  let text = '';
+
+  sorted.forEach((item, index) => {
+    const previous = sorted[index - 1];
+    // pdf.js splits runs at font changes, sometimes mid-word; only insert a
+    // space when there is a visible gap between the runs.
+    const gap = previous ? item.x - (previous.x + previous.width) : 0;
+    text +=
+      previous && gap > previous.height * 0.15 ? ` ${item.text}` : item.text;
+  });
+
+  return normalizeWhitespace(text);
+};
+
+/**
+ * Returns the text inside `area`, one entry per visual line (top to bottom),
+ * or null when the page was captured without item positions.
+ */
+export const readAreaLines = (
+  page: EbmTextPage,
+  area: EbmTemplateArea,
+): string[] | null => {
+  if (!page.items) {
+    return null;
+  }
+
+  const box = toPointBox(area, page);
+  const inside = page.items
+    .filter((item) => {
+      const centre = centreOf(item);
+      return (
+        centre.x >= box.left &&
+        centre.x <= box.right &&
+        centre.y >= box.top &&
+        centre.y <= box.bottom
+      );
+    })
+    .sort((a, b) => centreOf(a).y - centreOf(b).y || a.x - b.x);
+
+  const lines: EbmTextItem[][] = [];
+
+  for (const item of inside) {
+    const current = lines[lines.length - 1];
+    const anchor = current?.[0];
+    const tolerance = anchor
+      ? Math.max(1, Math.min(anchor.height, item.height) / 2)
+      : 0;
+
+    if (
+      anchor &&
+      Math.abs(centreOf(item).y - centreOf(anchor).y) <= tolerance
+    ) {
+      current.push(item);
+    } else {
+      lines.push([item]);
+    }
+  }
+
+  return lines.map(joinLine).filter(Boolean);
+};
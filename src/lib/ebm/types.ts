@@ -1,6 +1,10 @@
 export type EbmFieldType = 'string' | 'amount' | 'number' | 'date' | 'raw';
 
-export type EbmFieldGroup = 'first' | 'last' | 'sum' | 'concat';
+/**
+ * How multiple matches collapse into one value. `join` keeps line breaks
+ * between matches, which suits multi-line area blocks such as the SDC block.
+ */
+export type EbmFieldGroup = 'first' | 'last' | 'sum' | 'concat' | 'join';
 
 export interface EbmTemplateOptions {
   removeWhitespace?: boolean;
@@ -11,6 +15,20 @@ export interface EbmTemplateOptions {
   replace?: [string, string][];
 }
 
+export interface EbmTemplateArea {
+  /** 1-based page number; every page is searched when omitted. */
+  page?: number;
+  top: number;
+  left: number;
+  width: number;
+  height: number;
+  /**
+   * `pt` measures from the page's top-left corner in PDF points (1/72 in);
+   * `percent` expresses the box relative to the page size. Defaults to `pt`.
+   */
+  unit?: 'pt' | 'percent';
+}
+
 export interface EbmTemplateFieldConfig {
   parser?: 'regex' | 'static' | 'lines';
   /**
@@ -21,35 +39,61 @@ export interface EbmTemplateFieldConfig {
   /** Static value returned by the template when parser === 'static'. */
   value?: unknown;
   /**
-   * Region hint for future area-based extraction (x, y, width, height). The
-   * validator does not yet act on this but we keep the structure to mirror the
-   * invoice2data schema for compatibility with upstream research.
+   * Restricts extraction to a box on the page, mirroring invoice2data areas.
+   * Text inside the box is rebuilt line by line from pdf.js item positions;
+   * `regex` then runs per line, or every line becomes a match when no regex is
+   * given. Snapshots without positions fall back to whole-page matching.
    */
-  area?: {
-    page?: number;
-    top: number;
-    left: number;
-    width: number;
-    height: number;
-  };
+  area?: EbmTemplateArea;
   type?: EbmFieldType;
   group?: EbmFieldGroup;
   required?: boolean;
+  /**
+   * `parser: lines` only. Line items are read from the lines between a line
+   * matching `start` and one matching `end` (both optional).
+   */
+  start?: string;
+  end?: string;
+  /**
+   * Pattern(s) for an item row, using the named groups `description`,
+   * `quantity`, `unit_price`, `tax_category` and `line_total`. When
+   * `first_line` is set, it opens a new item and `line` completes it, for
+   * receipts that print the description above the figures.
+   */
+  line?: string | string[];
+  first_line?: string | string[];
+  skip_line?: string | string[];
+}
+
+/** Option keys as written in template YAML files. */
+export interface EbmTemplateYamlOptions {
+  remove_whitespace?: boolean;
+  remove_accents?: boolean;
+  lowercase?: boolean;
+  decimal_separator?: string;
+  date_formats?: string[];
+  replace?: [string, string][];
 }
 
 export interface EbmTemplateConfig {
   template_name: string;
   issuer?: string;
+  /**
+   * Templates are tried from the highest priority down, so specific layouts
+   * (VSDC, ERP exports) win over catch-all templates. Defaults to 0.
+   */
+  priority?: number;
   keywords: string[];
   exclude_keywords?: string[];
   fields: Record<string, EbmTemplateFieldConfig>;
   required_fields?: string[];
-  options?: EbmTemplateOptions;
+  options?: EbmTemplateOptions & EbmTemplateYamlOptions;
 }
 
 export interface EbmTemplateDefinition {
   templateName: string;
   issuer: string;
+  priority: number;
   keywords: string[];
   excludeKeywords: string[];
   fields: Record<string, EbmTemplateFieldConfig>;
@@ -57,9 +101,21 @@ export interface EbmTemplateDefinition {
   options: Required<EbmTemplateOptions>;
 }
 
+/** A positioned run of text, in PDF points from the page's top-left corner. */
+export interface EbmTextItem {
+  text: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
 export interface EbmTextPage {
   pageNumber: number;
   text: string;
+  width?: number;
+  height?: number;
+  items?: EbmTextItem[];
 }
 
 export interface EbmTextSnapshot {
@@ -84,21 +140,41 @@ export interface EbmExtractedField {
   config: EbmTemplateFieldConfig;
 }
 
+/**
+ * EBM tax categories: A exempt, B standard rate (18%), C zero-rated exports,
+ * D non-VAT items.
+ */
+export type EbmTaxCategory = 'A' | 'B' | 'C' | 'D';
+
+export interface EbmLineItem {
+  description: string;
+  quantity?: number;
+  unitPrice?: number;
+  taxCategory?: EbmTaxCategory;
+  lineTotal?: number;
+  pageNumber?: number;
+  raw: string;
+}
+
 export interface EbmTextExtraction {
   templateName: string;
   issuer?: string;
   fields: Record<string, EbmExtractedField>;
+  lineItems?: EbmLineItem[];
 }
 
 export interface EbmQrDetection {
   pageNumber: number;
   scale: number;
   text: string;
+  /** Rotation in degrees applied before decoding (image uploads only). */
+  rotation?: number;
 }
 
 export interface EbmValidationSummary {
   headline: string;
   items?: string[];
+  verification?: EbmReceiptVerificationStatus;
 }
 
 export interface EbmQrPayload {
@@ -113,6 +189,24 @@ export interface EbmQrPayload {
   additional?: Record<string, unknown>;
 }
 
+/**
+ * Result of checking a receipt against the issuing authority's records:
+ * `verified` when the record agrees with the invoice, `mismatch` when it
+ * disagrees or the authority does not know the receipt, and `unreachable`
+ * when no answer could be obtained.
+ */
+export type EbmReceiptVerificationStatus = 'verified' | 'unreachable' | 'mismatch';
+
+export interface EbmReceiptVerification {
+  status: EbmReceiptVerificationStatus;
+  verifier: string;
+  verifierLabel: string;
+  receiptUrl: string;
+  checkedAt: string;
+  mismatchedFields?: string[];
+  details?: string;
+}
+
 export type EbmFieldMatchStatus = 'match' | 'mismatch' | 'missing' | 'unverified';
 
 export interface EbmFieldComparison {
@@ -131,6 +225,45 @@ export interface EbmFieldComparison {
   };
 }
 
+export type EbmRiskLevel = 'low' | 'medium' | 'high';
+
+export type EbmRiskFindingCode =
+  | 'future_issue_date'
+  | 'holiday_issue_date'
+  | 'invalid_seller_tin'
+  | 'invalid_buyer_tin'
+  | 'vat_ratio'
+  | 'round_total'
+  | 'reused_invoice_number';
+
+/**
+ * A heuristic that makes an invoice look suspicious even when its fields are
+ * internally consistent. `score` is the finding's contribution to the
+ * invoice risk score.
+ */
+export interface EbmRiskFinding {
+  code: EbmRiskFindingCode;
+  severity: EbmRiskLevel;
+  score: number;
+  message: string;
+  field?: string;
+}
+
+export interface EbmRiskAssessment {
+  /** Sum of finding scores, capped at 100. */
+  score: number;
+  level: EbmRiskLevel;
+  findings: EbmRiskFinding[];
+}
+
+/** An earlier validation of an invoice carrying the same number. */
+export interface EbmPriorInvoice {
+  fileId: string | null;
+  fileName?: string | null;
+  totalAmount?: number | null;
+  validatedAt: Date;
+}
+
 export interface EbmValidationResult {
   templateName?: string;
   issuer?: string;
@@ -138,6 +271,9 @@ export interface EbmValidationResult {
   qrPayload?: EbmQrPayload;
   textSnapshot?: EbmTextSnapshot;
   qrDetections?: EbmQrDetection[];
+  lineItems?: EbmLineItem[];
+  verification?: EbmReceiptVerification;
+  risk?: EbmRiskAssessment;
   summary?: EbmValidationSummary;
   startedAt: Date;
   completedAt?: Date;
@@ -148,3 +284,59 @@ export interface EbmValidationOutcome {
   result: EbmValidationResult;
   extraction?: EbmTextExtraction;
 }
+
+/**
+ * Overall verdict for an invoice: every field matched, some fields disagreed or
+ * were missing, or the invoice could not be read at all.
+ */
+export type EbmValidationStatus = 'validated' | 'issues' | 'failed';
+
+export interface EbmBatchEntry {
+  fileId: string;
+  fileName?: string;
+  status: EbmValidationStatus;
+  templateName?: string;
+  invoiceNumber?: string;
+  sellerTin?: string;
+  buyerTin?: string;
+  issueDate?: string;
+  totalAmount?: number;
+  vatAmount?: number;
+  currency?: string;
+  headline?: string;
+  verification?: EbmReceiptVerificationStatus;
+  riskScore?: number;
+  qrPayload?: EbmQrPayload;
+  matches: EbmFieldComparison[];
+  errors: string[];
+  /** File IDs of other invoices in the batch sharing this invoice number. */
+  duplicateOf?: string[];
+}
+
+export interface EbmDuplicateInvoice {
+  invoiceNumber: string;
+  sellerTin?: string;
+  fileIds: string[];
+  /** True when the duplicates disagree on the invoice total. */
+  conflictingTotals: boolean;
+}
+
+export interface EbmBatchTotals {
+  invoiceCount: number;
+  validatedCount: number;
+  issueCount: number;
+  failedCount: number;
+  duplicateCount: number;
+  /** Sums exclude repeated copies of a duplicated invoice. */
+  totalAmount: number;
+  vatAmount: number;
+}
+
+export interface EbmBatchReport {
+  id: string;
+  createdAt: Date;
+  completedAt?: Date;
+  entries: EbmBatchEntry[];
+  duplicates: EbmDuplicateInvoice[];
+  totals: EbmBatchTotals;
+}
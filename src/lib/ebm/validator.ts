@@ -1,14 +1,29 @@
-import { format } from 'date-fns';
-import { load as loadHtml } from 'cheerio';
 import logger from '@/lib/logger';
 import { serverFileStorage } from '@/lib/storage';
 import { buildOriginalKey } from '@/lib/storage/uploaded-files';
-import { normalizeTin, parseAmount, parseDateStrict } from './normalizers';
+import { assessInvoiceRisk, type EbmPriorInvoiceLookup } from './anomalies';
+import { checkLineItems } from './lineItems';
 import {
+  normalizeCurrency,
+  normalizeInvoiceNumber,
+  normalizeTin,
+  toDateString,
+  toNumberValue,
+  toStringValue,
+} from './normalizers';
+import {
+  decodeQrCodesFromImage,
   decodeQrCodesFromPdf,
+  isQrImageExtension,
+  type ImageQrDecodeOptions,
   type PdfQrDecodeOptions,
   type PdfQrDecodedCode,
 } from './qrDecoder';
+import {
+  lookupReceipt,
+  type EbmReceiptLookupResult,
+  type ReceiptVerifier,
+} from './verifiers';
 import {
   extractTextWithTemplate,
   loadTextSnapshot,
@@ -19,9 +34,11 @@ import type {
   EbmFieldComparison,
   EbmQrDetection,
   EbmQrPayload,
+  EbmReceiptVerification,
   EbmTextExtraction,
   EbmValidationOutcome,
   EbmValidationResult,
+  EbmValidationStatus,
 } from './types';
 
 const validatorLogger = logger.withDefaults({ tag: 'ebm:validator' });
@@ -71,80 +88,16 @@ export interface EbmFileReference {
 
 export interface EbmValidatorOptions {
   qr?: PdfQrDecodeOptions;
+  imageQr?: ImageQrDecodeOptions;
+  /**
+   * Verifier used to look receipt URLs up with the issuing authority. Defaults
+   * to the one selected by EBM_RECEIPT_VERIFIER; pass null to skip the lookup.
+   */
+  receiptVerifier?: ReceiptVerifier | null;
+  /** Earlier validations to check for a reused invoice number. */
+  priorInvoices?: EbmPriorInvoiceLookup;
 }
 
-const toStringValue = (value: unknown): string | undefined => {
-  if (value == null) {
-    return undefined;
-  }
-
-  if (value instanceof Date) {
-    return format(value, 'yyyy-MM-dd');
-  }
-
-  if (typeof value === 'string') {
-    const trimmed = value.trim();
-    return trimmed.length > 0 ? trimmed : undefined;
-  }
-
-  if (typeof value === 'number') {
-    return Number.isFinite(value) ? String(value) : undefined;
-  }
-
-  return String(value);
-};
-
-const toNumberValue = (value: unknown): number | undefined => {
-  if (value == null) return undefined;
-  if (typeof value === 'number') {
-    return Number.isFinite(value) ? value : undefined;
-  }
-  if (typeof value === 'string') {
-    const parsed = parseAmount(value, { decimalSeparator: '.' });
-    return parsed != null ? parsed : undefined;
-  }
-  return undefined;
-};
-
-const toDateString = (value: unknown): string | undefined => {
-  if (value instanceof Date) {
-    return format(value, 'yyyy-MM-dd');
-  }
-  if (typeof value === 'string') {
-    const trimmed = value.trim();
-    const parsed = parseDateStrict(trimmed);
-    if (parsed) {
-      return format(parsed, 'yyyy-MM-dd');
-    }
-
-    const [datePart] = trimmed.split(' ');
-    if (datePart && datePart !== trimmed) {
-      const parsedDatePart = parseDateStrict(datePart);
-      if (parsedDatePart) {
-        return format(parsedDatePart, 'yyyy-MM-dd');
-      }
-    }
-  }
-  return undefined;
-};
-
-const normalizeInvoiceNumber = (value: unknown): string | undefined => {
-  if (value == null) {
-    return undefined;
-  }
-  const str = String(value)
-    .trim()
-    .replace(/\s+/g, '')
-    .toUpperCase();
-  return str.length > 0 ? str : undefined;
-};
-
-const normalizeCurrency = (value: unknown): string | undefined => {
-  if (value == null) return undefined;
-  const str = String(value).trim().toUpperCase();
-  return str.length > 0 ? str : undefined;
-};
-
 const assignFieldFromObject = (
   obj: Record<string, unknown>,
   payload: EbmQrPayload,
@@ -248,185 +201,6 @@ const parseStructuredString = (
   }
 };
 
-const RRA_QR_HOSTNAMES = new Set(['myrra.rra.gov.rw']);
-
-const sanitizeText = (value: string) => value.replace(/\u00a0/g, ' ').replace(/\s+/g, ' ').trim();
-
-const parseRraReceiptHtml = (html: string, url: URL): Partial<EbmQrPayload> | null => {
-  const $ = loadHtml(html);
-  const container = $('.cnt-wrap');
-
-  if (!container.length) {
-    return null;
-  }
-
-  const topInfoText = container.find('.topinfo.detail').text();
-  const buyListText = container.find('.buylist-section').text();
-  const totalsSection = container.find('.total-detail').first();
-  const sdcSections = container.find('.total-detail.sdc');
-
-  const matchValue = (text: string, label: string) => {
-    const regex = new RegExp(`${label}\\s*:\\s*([\\s\\S]+?)($|\\n)`, 'i');
-    const match = regex.exec(text.replace(/\r/g, '\n'));
-    return match ? sanitizeText(match[1]) : undefined;
-  };
-
-  const sellerTin = matchValue(topInfoText, 'TIN');
-  const buyerTin = matchValue(buyListText, 'CLIENT\\s+TIN');
-  const clientName = matchValue(buyListText, 'CLIENT\\s+NAME');
-
-  let totalAmountText: string | undefined;
-  let vatAmountText: string | undefined;
-
-  totalsSection.find('div').each((_, element) => {
-    const block = $(element);
-    const title = sanitizeText(block.find('.tit').text())
-      .replace(/:$/, '')
-      .trim()
-      .toUpperCase();
-    const value = sanitizeText(block.find('.value').text());
-
-    if (!totalAmountText && title === 'TOTAL') {
-      totalAmountText = value;
-    }
-
-    if (!vatAmountText && (title === 'TOTAL TAX' || title === 'TOTAL TAX-B')) {
-      vatAmountText = value;
-    }
-  });
-
-  let invoiceNumber: string | undefined;
-  let issueDateRaw: string | undefined;
-  let sdcId: string | undefined;
-  let internalData: string | undefined;
-  let receiptSignature: string | undefined;
-  let mrc: string | undefined;
-  let currencyCode: string | undefined;
-
-  sdcSections.each((_, section) => {
-    const block = $(section);
-
-    block.find('div, .block-type').each((__, item) => {
-      const element = $(item);
-      const title = sanitizeText(element.find('.tit').text())
-        .replace(/:$/, '')
-        .trim()
-        .toUpperCase();
-      const value = sanitizeText(element.find('.value').text());
-
-      if (!value) {
-        return;
-      }
-
-      switch (title) {
-        case 'DATE':
-          if (!issueDateRaw) issueDateRaw = value;
-          break;
-        case 'RECEIPT NUMBER':
-          if (!invoiceNumber) invoiceNumber = value;
-          break;
-        case 'SDC ID':
-          if (!sdcId) sdcId = value;
-          break;
-        case 'INTERNAL DATA':
-          if (!internalData) internalData = value;
-          break;
-        case 'RECEIPT SINGNATURE':
-          if (!receiptSignature) receiptSignature = value;
-          break;
-        case 'MRC':
-          if (!mrc) mrc = value;
-          break;
-        default:
-          break;
-      }
-    });
-  });
-
-  if (!invoiceNumber) {
-    invoiceNumber = matchValue(sdcSections.text(), 'Receipt Number') ?? invoiceNumber;
-  }
-
-  if (!issueDateRaw) {
-    issueDateRaw = matchValue(sdcSections.text(), 'Date') ?? issueDateRaw;
-  }
-
-  if (!currencyCode) {
-    const totalsText = container.find('.total-detail').text();
-    const currencyMatch = totalsText.match(/(rwf)/i);
-    if (currencyMatch) {
-      currencyCode = currencyMatch[1].toUpperCase();
-    }
-  }
-
-  const partial: Partial<EbmQrPayload> = {};
-  const additional: Record<string, unknown> = {
-    rraReceiptUrl: url.toString(),
-  };
-
-  if (sellerTin) {
-    partial.tin = normalizeTin(sellerTin);
-  }
-
-  if (buyerTin) {
-    partial.buyerTin = normalizeTin(buyerTin);
-  }
-
-  if (invoiceNumber) {
-    partial.invoiceNumber = normalizeInvoiceNumber(invoiceNumber);
-  }
-
-  if (issueDateRaw) {
-    const normalizedDate = toDateString(issueDateRaw);
-    if (normalizedDate) {
-      partial.issueDate = normalizedDate;
-    }
-  }
-
-  if (totalAmountText) {
-    const total = toNumberValue(totalAmountText);
-    if (total != null) {
-      partial.totalAmount = total;
-    }
-  }
-
-  if (vatAmountText) {
-    const vat = toNumberValue(vatAmountText);
-    if (vat != null) {
-      partial.vatAmount = vat;
-    }
-  }
-
-  if (clientName) {
-    additional.clientName = clientName;
-  }
-
-  if (sdcId) {
-    additional.sdcId = sdcId;
-  }
-
-  if (internalData) {
-    additional.internalData = internalData;
-  }
-
-  if (receiptSignature) {
-    additional.receiptSignature = receiptSignature;
-  }
-
-  if (mrc) {
-    additional.mrc = mrc;
-  }
-
-  if (currencyCode) {
-    additional.currency = currencyCode;
-    partial.currency = currencyCode;
-  }
-
-  partial.additional = additional;
-
-  return partial;
-};
-
 const mergeQrPayload = (
   base: EbmQrPayload,
   updates: Partial<EbmQrPayload> | null,
@@ -475,43 +249,6 @@ const mergeQrPayload = (
   return merged;
 };
 
-const attemptRraQrEnrichment = async (payload: EbmQrPayload) => {
-  if (!payload.raw) {
-    return null;
-  }
-
-  let url: URL;
-  try {
-    url = new URL(payload.raw);
-  } catch (error) {
-    return null;
-  }
-
-  if (!RRA_QR_HOSTNAMES.has(url.hostname.toLowerCase())) {
-    return null;
-  }
-
-  try {
-    const response = await fetch(url.toString());
-    if (!response.ok) {
-      validatorLogger.warn('Failed to fetch RRA receipt via QR payload.', {
-        url: url.toString(),
-        status: response.status,
-      });
-      return null;
-    }
-
-    const html = await response.text();
-    return parseRraReceiptHtml(html, url);
-  } catch (error) {
-    validatorLogger.warn('Error while enriching RRA QR payload.', {
-      url: url.toString(),
-      error,
-    });
-    return null;
-  }
-};
-
 const parseEbmQrPayload = (raw: string): EbmQrPayload => {
   const payload: EbmQrPayload = {
     raw,
@@ -702,14 +439,14 @@ const computeComparisons = (
   extraction: EbmTextExtraction | undefined,
   qrDetections: PdfQrDecodedCode[],
 ): EbmFieldComparison[] => {
-  if (!extraction) {
+  if (!extraction && !qrPayload) {
     return [];
   }
 
   const comparisons: EbmFieldComparison[] = [];
   const qrSource = qrDetections[0];
 
-  for (const [fieldName, extracted] of Object.entries(extraction.fields)) {
+  for (const [fieldName, extracted] of Object.entries(extraction?.fields ?? {})) {
     const lookupKey = FIELD_MAPPING.get(fieldName.toLowerCase());
     if (!lookupKey) {
       continue;
@@ -749,17 +486,96 @@ const computeComparisons = (
   return comparisons;
 };
 
-const buildSummary = (comparisons: EbmFieldComparison[], errors: string[]) => {
+const findExtractedValue = (
+  extraction: EbmTextExtraction | undefined,
+  qrKey: keyof EbmQrPayload,
+) => {
+  const entry = Object.entries(extraction?.fields ?? {}).find(
+    ([fieldName]) => FIELD_MAPPING.get(fieldName.toLowerCase()) === qrKey,
+  );
+  return entry?.[1].value ?? entry?.[1].raw;
+};
+
+/**
+ * Checks the authority's record against the invoice text. A receipt the
+ * authority does not know counts as a mismatch: a genuine EBM receipt is
+ * always registered.
+ */
+const buildReceiptVerification = (
+  { verifier, url, lookup }: EbmReceiptLookupResult,
+  extraction: EbmTextExtraction | undefined,
+): EbmReceiptVerification => {
+  const base = {
+    verifier: verifier.name,
+    verifierLabel: verifier.label,
+    receiptUrl: url.toString(),
+    checkedAt: new Date().toISOString(),
+  };
+
+  if (lookup.status === 'unreachable') {
+    return { ...base, status: 'unreachable', details: lookup.details };
+  }
+
+  if (lookup.status === 'not_found') {
+    return {
+      ...base,
+      status: 'mismatch',
+      details: lookup.details ?? `${verifier.label} has no record of this receipt.`,
+    };
+  }
+
+  const mismatchedFields = Object.entries(extraction?.fields ?? {})
+    .filter(([fieldName, field]) => {
+      const qrKey = FIELD_MAPPING.get(fieldName.toLowerCase());
+      const recordValue = qrKey ? lookup.record[qrKey] : undefined;
+      return (
+        qrKey != null &&
+        recordValue != null &&
+        buildComparison(fieldName, qrKey, recordValue, field).status === 'mismatch'
+      );
+    })
+    .map(([fieldName]) => fieldName);
+
+  if (mismatchedFields.length > 0) {
+    return {
+      ...base,
+      status: 'mismatch',
+      mismatchedFields,
+      details: `${verifier.label} record differs from the invoice: ${mismatchedFields.join(', ')}.`,
+    };
+  }
+
+  return { ...base, status: 'verified' };
+};
+
+const describeVerification = (verification: EbmReceiptVerification) => {
+  switch (verification.status) {
+    case 'verified':
+      return `Receipt verified by ${verification.verifierLabel}.`;
+    case 'unreachable':
+      return `${verification.verifierLabel} not reachable; receipt was not verified online.`;
+    case 'mismatch':
+      return `${verification.verifierLabel} mismatch: ${verification.details ?? 'record differs from the invoice.'}`;
+  }
+};
+
+const buildSummary = (
+  comparisons: EbmFieldComparison[],
+  errors: string[],
+  verification?: EbmReceiptVerification,
+) => {
   const summary = {
     headline: 'EBM validation incomplete.',
     items: [] as string[],
+    verification: verification?.status,
   };
 
   const matchCount = comparisons.filter((item) => item.status === 'match').length;
   const mismatchCount = comparisons.filter((item) => item.status === 'mismatch').length;
   const missingCount = comparisons.filter((item) => item.status === 'missing').length;
+  const verificationFailed = verification?.status === 'mismatch';
 
-  if (errors.length === 0 && mismatchCount === 0 && missingCount === 0) {
+  if (errors.length === 0 && mismatchCount === 0 && missingCount === 0 && !verificationFailed) {
     summary.headline = 'Invoice details match QR payload.';
     summary.items.push(`Validated fields: ${matchCount}`);
   } else {
@@ -782,6 +598,10 @@ const buildSummary = (comparisons: EbmFieldComparison[], errors: string[]) => {
     }
   }
 
+  if (verification) {
+    summary.items.push(describeVerification(verification));
+  }
+
   return summary;
 };
 
@@ -792,6 +612,7 @@ const toQrDetections = (
     pageNumber: detection.pageNumber,
     scale: detection.scale,
     text: detection.text,
+    rotation: detection.rotation,
   }));
 
 export const validateEbmInvoice = async (
@@ -801,13 +622,21 @@ export const validateEbmInvoice = async (
   const startedAt = new Date();
   const errors: string[] = [];
 
+  const extension = file.fileExtension.toLowerCase();
+  const isImage = isQrImageExtension(extension);
+
   const snapshot = await loadTextSnapshot(file.fileId);
   if (!snapshot) {
     errors.push('Failed to load invoice text snapshot.');
   }
 
-  const templates = snapshot ? await selectTemplateForSnapshot(snapshot) : null;
-  if (snapshot && !templates) {
+  // Photographed receipts have no text layer, so an empty snapshot is expected
+  // there and the QR payload becomes the only source of invoice data.
+  const expectsText = !isImage || Boolean(snapshot?.content.trim());
+
+  const templates =
+    snapshot && expectsText ? await selectTemplateForSnapshot(snapshot) : null;
+  if (snapshot && expectsText && !templates) {
     errors.push('No EBM template matched the invoice text.');
   }
 
@@ -815,20 +644,25 @@ export const validateEbmInvoice = async (
 
   let qrDetections: PdfQrDecodedCode[] = [];
   let qrPayload: EbmQrPayload | undefined;
+  let receipt: EbmReceiptLookupResult | null = null;
 
-  if (file.fileExtension.toLowerCase() !== 'pdf') {
-    errors.push('QR validation currently supports PDF invoices only.');
+  if (extension !== 'pdf' && !isImage) {
+    errors.push('QR validation supports PDF and JPEG/PNG invoices only.');
   } else {
     try {
       const originalKey = buildOriginalKey(file.fileId, file.fileExtension);
-      const pdfBuffer = await serverFileStorage.download(originalKey);
-      qrDetections = await decodeQrCodesFromPdf(pdfBuffer, options.qr);
+      const fileBuffer = await serverFileStorage.download(originalKey);
+      qrDetections = isImage
+        ? await decodeQrCodesFromImage(fileBuffer, options.imageQr)
+        : await decodeQrCodesFromPdf(fileBuffer, options.qr);
       if (qrDetections.length === 0) {
         errors.push('No QR codes detected in the invoice.');
       } else {
         qrPayload = parseEbmQrPayload(qrDetections[0].text);
-        const enrichment = await attemptRraQrEnrichment(qrPayload);
-        qrPayload = mergeQrPayload(qrPayload, enrichment);
+        receipt = await lookupReceipt(qrPayload, options.receiptVerifier);
+        if (receipt?.lookup.status === 'found') {
+          qrPayload = mergeQrPayload(qrPayload, receipt.lookup.record);
+        }
       }
     } catch (error) {
       errors.push('Failed to decode QR codes from the invoice.');
@@ -858,6 +692,20 @@ export const validateEbmInvoice = async (
   }
 
   const comparisons = computeComparisons(qrPayload, extraction, qrDetections);
+  comparisons.push(
+    ...checkLineItems(extraction?.lineItems, {
+      totalAmount: toNumberValue(
+        qrPayload?.totalAmount ?? findExtractedValue(extraction, 'totalAmount'),
+      ),
+      vatAmount: toNumberValue(
+        qrPayload?.vatAmount ?? findExtractedValue(extraction, 'vatAmount'),
+      ),
+    }),
+  );
+
+  const verification = receipt
+    ? buildReceiptVerification(receipt, extraction)
+    : undefined;
 
   const result: EbmValidationResult = {
     templateName: templates?.templateName,
@@ -866,7 +714,9 @@ export const validateEbmInvoice = async (
     qrPayload,
     textSnapshot: snapshot ?? undefined,
     qrDetections: toQrDetections(qrDetections),
-    summary: buildSummary(comparisons, errors),
+    lineItems: extraction?.lineItems,
+    verification,
+    summary: buildSummary(comparisons, errors, verification),
     startedAt,
     completedAt: new Date(),
     errors: errors.length > 0 ? errors : undefined,
@@ -876,5 +726,65 @@ export const validateEbmInvoice = async (
     result,
     extraction,
   };
+
+  result.risk = await assessInvoiceRisk({
+    fileId: file.fileId,
+    figures: resolveInvoiceFigures(outcome),
+    lineItems: extraction?.lineItems,
+    priorInvoices: options.priorInvoices,
+  });
+
   return outcome;
 };
+
+/**
+ * Collapses a validation outcome into a single set of invoice figures,
+ * preferring QR values and falling back to the text extraction for fields the
+ * QR payload did not provide.
+ */
+export const resolveInvoiceFigures = (
+  outcome: EbmValidationOutcome,
+): Omit<EbmQrPayload, 'raw' | 'additional'> => {
+  const { qrPayload, matches } = outcome.result;
+
+  const fromText = (qrKey: keyof EbmQrPayload) => {
+    const comparison = matches.find(
+      (item) => FIELD_MAPPING.get(item.field.toLowerCase()) === qrKey,
+    );
+    return comparison?.textValue;
+  };
+
+  const pick = (qrKey: keyof EbmQrPayload) => qrPayload?.[qrKey] ?? fromText(qrKey);
+
+  const tin = toStringValue(pick('tin'));
+  const buyerTin = toStringValue(pick('buyerTin'));
+
+  return {
+    tin: tin ? normalizeTin(tin) : undefined,
+    buyerTin: buyerTin ? normalizeTin(buyerTin) : undefined,
+    invoiceNumber: normalizeInvoiceNumber(pick('invoiceNumber')),
+    issueDate: toDateString(pick('issueDate')),
+    totalAmount: toNumberValue(pick('totalAmount')),
+    vatAmount: toNumberValue(pick('vatAmount')),
+    currency: normalizeCurrency(pick('currency')),
+  };
+};
+
+export const resolveValidationStatus = (
+  outcome: EbmValidationOutcome,
+): EbmValidationStatus => {
+  const { matches, errors } = outcome.result;
+  const hasDiscrepancy = matches.some(
+    (item) => item.status === 'mismatch' || item.status === 'missing',
+  );
+
+  if (!outcome.result.qrPayload && matches.length === 0) {
+    return 'failed';
+  }
+
+  const verificationFailed = outcome.result.verification?.status === 'mismatch';
+
+  return hasDiscrepancy || verificationFailed || (errors?.length ?? 0) > 0
+    ? 'issues'
+    : 'validated';
+};
@@ -0,0 +1,110 @@
+import { CacheKeys, serverCache } from '@/lib/cache';
+import logger from '@/lib/logger';
+import type { EbmQrPayload } from '../types';
+import { createLocalFixtureVerifier } from './localFixtureVerifier';
+import { createRraHtmlVerifier } from './rraHtmlVerifier';
+import type { EbmReceiptLookup, ReceiptVerifier } from './receiptVerifier';
+
+export type ReceiptVerifierDriver = 'rra' | 'local' | 'none';
+
+const verifierLogger = logger.withDefaults({ tag: 'ebm:verifier' });
+
+const RECEIPT_CACHE_TTL_MS = 6 * 60 * 60 * 1000;
+
+const resolveDriver = (): ReceiptVerifierDriver => {
+  const candidate = process.env.EBM_RECEIPT_VERIFIER?.trim().toLowerCase();
+  if (candidate === 'rra' || candidate === 'local' || candidate === 'none') {
+    return candidate;
+  }
+  return 'rra';
+};
+
+const receiptVerifierDriver = resolveDriver();
+
+const createReceiptVerifier = (): ReceiptVerifier | null => {
+  switch (receiptVerifierDriver) {
+    case 'rra':
+      return createRraHtmlVerifier();
+    case 'local':
+      return createLocalFixtureVerifier(
+        process.env.EBM_RECEIPT_FIXTURES_DIR?.trim() || undefined,
+      );
+    case 'none':
+      return null;
+    default: {
+      const exhaustive: never = receiptVerifierDriver;
+      throw new Error(`Unsupported receipt verifier: ${exhaustive}`);
+    }
+  }
+};
+
+const defaultReceiptVerifier = createReceiptVerifier();
+
+const toReceiptUrl = (payload: EbmQrPayload) => {
+  try {
+    return new URL(payload.raw.trim());
+  } catch {
+    return null;
+  }
+};
+
+export interface EbmReceiptLookupResult {
+  verifier: ReceiptVerifier;
+  url: URL;
+  lookup: EbmReceiptLookup;
+}
+
+/**
+ * Looks the QR payload up with the verifier when it encodes a receipt URL the
+ * verifier understands. Answers are cached per verifier and URL; outages are
+ * not, so the next validation retries.
+ */
+export const lookupReceipt = async (
+  payload: EbmQrPayload,
+  verifier: ReceiptVerifier | null = defaultReceiptVerifier,
+): Promise<EbmReceiptLookupResult | null> => {
+  const url = toReceiptUrl(payload);
+  if (!verifier || !url || !verifier.supports(url)) {
+    return null;
+  }
+
+  const cacheKey = CacheKeys.ebmReceipt(verifier.name, url.toString());
+  const cached = await serverCache.get<EbmReceiptLookup>(cacheKey);
+  if (cached) {
+    return { verifier, url, lookup: cached };
+  }
+
+  let lookup: EbmReceiptLookup;
+  try {
+    lookup = await verifier.lookup(url);
+  } catch (error) {
+    verifierLogger.warn('Receipt verifier failed.', {
+      verifier: verifier.name,
+      url: url.toString(),
+      error,
+    });
+    lookup = { status: 'unreachable', details: 'Receipt verifier failed.' };
+  }
+
+  if (lookup.status !== 'unreachable') {
+    await serverCache.set(cacheKey, lookup, RECEIPT_CACHE_TTL_MS);
+  }
+
+  return { verifier, url, lookup };
+};
+
+export {
+  createLocalFixtureVerifier,
+  createRraHtmlVerifier,
+  defaultReceiptVerifier,
+  receiptVerifierDriver,
+};
+export { DEFAULT_RECEIPT_FIXTURE_ROOT } from './localFixtureVerifier';
+export type { EbmReceiptFixture } from './localFixtureVerifier';
+export { parseRraReceiptHtml } from './rraHtmlVerifier';
+export {
+  isRraReceiptUrl,
+  RRA_QR_HOSTNAMES,
+  type EbmReceiptLookup,
+  type ReceiptVerifier,
+} from './receiptVerifier';
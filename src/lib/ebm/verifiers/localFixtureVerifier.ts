@@ -0,0 +1,89 @@
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import logger from '@/lib/logger';
+import type { EbmQrPayload } from '../types';
+import {
+  isRraReceiptUrl,
+  type EbmReceiptLookup,
+  type ReceiptVerifier,
+} from './receiptVerifier';
+
+const fixtureLogger = logger.withDefaults({ tag: 'ebm:verifier:local' });
+
+/**
+ * A canned authority answer for one receipt URL. `status` defaults to
+ * `found`; `not_found` and `unreachable` fixtures let dev/CI exercise the
+ * failure paths without touching the network.
+ */
+export interface EbmReceiptFixture {
+  url: string;
+  status?: EbmReceiptLookup['status'];
+  record?: Partial<EbmQrPayload>;
+  details?: string;
+}
+
+export const DEFAULT_RECEIPT_FIXTURE_ROOT = path.join(
+  process.cwd(),
+  'src/lib/ebm/fixtures/receipts',
+);
+
+const loadReceiptFixtures = async (root: string) => {
+  const fixtures = new Map<string, EbmReceiptFixture>();
+
+  let files: string[];
+  try {
+    files = (await fs.readdir(root)).filter((file) => file.endsWith('.json'));
+  } catch (error) {
+    fixtureLogger.warn('Receipt fixture directory could not be read.', {
+      root,
+      error,
+    });
+    return fixtures;
+  }
+
+  for (const file of files.sort()) {
+    const fixture = JSON.parse(
+      await fs.readFile(path.join(root, file), 'utf8'),
+    ) as EbmReceiptFixture;
+    fixtures.set(new URL(fixture.url).toString(), fixture);
+  }
+
+  return fixtures;
+};
+
+const toLookup = (fixture: EbmReceiptFixture | undefined): EbmReceiptLookup => {
+  if (!fixture) {
+    return {
+      status: 'not_found',
+      details: 'No local receipt fixture for this URL.',
+    };
+  }
+
+  const status = fixture.status ?? 'found';
+
+  if (status === 'found') {
+    return { status, record: fixture.record ?? {} };
+  }
+
+  return { status, details: fixture.details };
+};
+
+/**
+ * Stand-in for the RRA verifier that answers from JSON fixtures keyed by
+ * receipt URL, so validation can be exercised offline.
+ */
+export const createLocalFixtureVerifier = (
+  root: string = DEFAULT_RECEIPT_FIXTURE_ROOT,
+): ReceiptVerifier => {
+  let fixtures: Promise<Map<string, EbmReceiptFixture>> | undefined;
+
+  return {
+    name: 'local-fixtures',
+    label: 'local receipt fixtures',
+    supports: isRraReceiptUrl,
+    async lookup(url: URL) {
+      fixtures ??= loadReceiptFixtures(root);
+      return toLookup((await fixtures).get(url.toString()));
+    },
+  };
+};
@@ -0,0 +1,25 @@
+import type { EbmQrPayload } from '../types';
+
+export const RRA_QR_HOSTNAMES = new Set(['myrra.rra.gov.rw']);
+
+export const isRraReceiptUrl = (url: URL) =>
+  RRA_QR_HOSTNAMES.has(url.hostname.toLowerCase());
+
+/**
+ * Answer from a verifier for a single receipt URL. `not_found` means the
+ * authority answered but has no such receipt; `unreachable` covers network
+ * failures and pages the verifier could not make sense of.
+ */
+export type EbmReceiptLookup =
+  | { status: 'found'; record: Partial<EbmQrPayload> }
+  | { status: 'not_found'; details?: string }
+  | { status: 'unreachable'; details?: string };
+
+export interface ReceiptVerifier {
+  /** Stable identifier, used in cache keys and stored results. */
+  readonly name: string;
+  /** Human-readable authority name shown in validation summaries. */
+  readonly label: string;
+  supports(url: URL): boolean;
+  lookup(url: URL): Promise<EbmReceiptLookup>;
+}
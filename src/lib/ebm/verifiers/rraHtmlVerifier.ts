@@ -0,0 +1,283 @@
+import { load as loadHtml } from 'cheerio';
+import logger from '@/lib/logger';
+import {
+  normalizeInvoiceNumber,
+  normalizeTin,
+  toDateString,
+  toNumberValue,
+} from '../normalizers';
+import type { EbmQrPayload } from '../types';
+import {
+  isRraReceiptUrl,
+  type EbmReceiptLookup,
+  type ReceiptVerifier,
+} from './receiptVerifier';
+
+const rraLogger = logger.withDefaults({ tag: 'ebm:verifier:rra' });
+
+const RRA_FETCH_TIMEOUT_MS = 10_000;
+
+/**
+ * RRA prints the receipt label after the counter ("1043/1043 NS"); the label
+ * is not part of the number printed by most invoice layouts.
+ */
+const RECEIPT_TYPE_SUFFIX = /\s+(NS|NR|CS|CR|TS|TR|PS)$/i;
+
+const sanitizeText = (value: string) =>
+  value
+    .replace(/\u00a0/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+export const parseRraReceiptHtml = (
+  html: string,
+  url: URL,
+): Partial<EbmQrPayload> | null => {
+  const $ = loadHtml(html);
+  const container = $('.cnt-wrap');
+
+  if (!container.length) {
+    return null;
+  }
+
+  const topInfoText = container.find('.topinfo.detail').text();
+  const buyListText = container.find('.buylist-section').text();
+  const totalsSection = container.find('.total-detail').first();
+  const sdcSections = container.find('.total-detail.sdc');
+
+  const matchValue = (text: string, label: string) => {
+    const regex = new RegExp(`${label}\\s*:\\s*([\\s\\S]+?)($|\\n)`, 'i');
+    const match = regex.exec(text.replace(/\r/g, '\n'));
+    return match ? sanitizeText(match[1]) : undefined;
+  };
+
+  const sellerTin = matchValue(topInfoText, 'TIN');
+  const buyerTin = matchValue(buyListText, 'CLIENT\\s+TIN');
+  const clientName = matchValue(buyListText, 'CLIENT\\s+NAME');
+
+  let totalAmountText: string | undefined;
+  let vatAmountText: string | undefined;
+
+  totalsSection.find('div').each((_, element) => {
+    const block = $(element);
+    const title = sanitizeText(block.find('.tit').text())
+      .replace(/:$/, '')
+      .trim()
+      .toUpperCase();
+    const value = sanitizeText(block.find('.value').text());
+
+    if (!totalAmountText && title === 'TOTAL') {
+      totalAmountText = value;
+    }
+
+    if (!vatAmountText && (title === 'TOTAL TAX' || title === 'TOTAL TAX-B')) {
+      vatAmountText = value;
+    }
+  });
+
+  let invoiceNumber: string | undefined;
+  let issueDateRaw: string | undefined;
+  let sdcId: string | undefined;
+  let internalData: string | undefined;
+  let receiptSignature: string | undefined;
+  let mrc: string | undefined;
+  let currencyCode: string | undefined;
+
+  sdcSections.each((_, section) => {
+    const block = $(section);
+
+    block.find('div, .block-type').each((__, item) => {
+      const element = $(item);
+      const title = sanitizeText(element.find('.tit').text())
+        .replace(/:$/, '')
+        .trim()
+        .toUpperCase();
+      const value = sanitizeText(element.find('.value').text());
+
+      if (!value) {
+        return;
+      }
+
+      switch (title) {
+        case 'DATE':
+          if (!issueDateRaw) issueDateRaw = value;
+          break;
+        case 'RECEIPT NUMBER':
+          if (!invoiceNumber) invoiceNumber = value;
+          break;
+        case 'SDC ID':
+          if (!sdcId) sdcId = value;
+          break;
+        case 'INTERNAL DATA':
+          if (!internalData) internalData = value;
+          break;
+        case 'RECEIPT SINGNATURE':
+          if (!receiptSignature) receiptSignature = value;
+          break;
+        case 'MRC':
+          if (!mrc) mrc = value;
+          break;
+        default:
+          break;
+      }
+    });
+  });
+
+  if (!invoiceNumber) {
+    invoiceNumber =
+      matchValue(sdcSections.text(), 'Receipt Number') ?? invoiceNumber;
+  }
+
+  if (!issueDateRaw) {
+    issueDateRaw = matchValue(sdcSections.text(), 'Date') ?? issueDateRaw;
+  }
+
+  if (!currencyCode) {
+    const totalsText = container.find('.total-detail').text();
+    const currencyMatch = totalsText.match(/(rwf)/i);
+    if (currencyMatch) {
+      currencyCode = currencyMatch[1].toUpperCase();
+    }
+  }
+
+  const partial: Partial<EbmQrPayload> = {};
+  const additional: Record<string, unknown> = {
+    rraReceiptUrl: url.toString(),
+  };
+
+  if (sellerTin) {
+    partial.tin = normalizeTin(sellerTin);
+  }
+
+  if (buyerTin) {
+    partial.buyerTin = normalizeTin(buyerTin);
+  }
+
+  if (invoiceNumber) {
+    const receiptType = RECEIPT_TYPE_SUFFIX.exec(invoiceNumber);
+    if (receiptType) {
+      additional.receiptType = receiptType[1].toUpperCase();
+      invoiceNumber = invoiceNumber.slice(0, receiptType.index);
+    }
+    partial.invoiceNumber = normalizeInvoiceNumber(invoiceNumber);
+  }
+
+  if (issueDateRaw) {
+    const normalizedDate = toDateString(issueDateRaw);
+    if (normalizedDate) {
+      partial.issueDate = normalizedDate;
+    }
+  }
+
+  if (totalAmountText) {
+    const total = toNumberValue(totalAmountText);
+    if (total != null) {
+      partial.totalAmount = total;
+    }
+  }
+
+  if (vatAmountText) {
+    const vat = toNumberValue(vatAmountText);
+    if (vat != null) {
+      partial.vatAmount = vat;
+    }
+  }
+
+  if (clientName) {
+    additional.clientName = clientName;
+  }
+
+  if (sdcId) {
+    additional.sdcId = sdcId;
+  }
+
+  if (internalData) {
+    additional.internalData = internalData;
+  }
+
+  if (receiptSignature) {
+    additional.receiptSignature = receiptSignature;
+  }
+
+  if (mrc) {
+    additional.mrc = mrc;
+  }
+
+  if (currencyCode) {
+    additional.currency = currencyCode;
+    partial.currency = currencyCode;
+  }
+
+  partial.additional = additional;
+
+  return partial;
+};
+
+/**
+ * Scrapes the public receipt page the RRA QR code points to. A page without the
+ * receipt container is reported as unreachable rather than "not found" so a
+ * redesign of the site shows up in summaries instead of passing silently.
+ */
+export const createRraHtmlVerifier = (): ReceiptVerifier => ({
+  name: 'rra',
+  label: 'RRA',
+  supports: isRraReceiptUrl,
+  async lookup(url: URL): Promise<EbmReceiptLookup> {
+    let html: string;
+    try {
+      const response = await fetch(url.toString(), {
+        signal: AbortSignal.timeout(RRA_FETCH_TIMEOUT_MS),
+      });
+
+      if (response.status === 404) {
+        return {
+          status: 'not_found',
+          details: 'RRA has no record of this receipt.',
+        };
+      }
+
+      if (!response.ok) {
+        rraLogger.warn('Failed to fetch RRA receipt via QR payload.', {
+          url: url.toString(),
+          status: response.status,
+        });
+        return {
+          status: 'unreachable',
+          details: `RRA receipt service responded with HTTP ${response.status}.`,
+        };
+      }
+
+      html = await response.text();
+    } catch (error) {
+      rraLogger.warn('Error while fetching RRA receipt.', {
+        url: url.toString(),
+        error,
+      });
+      return {
+        status: 'unreachable',
+        details: 'RRA receipt service could not be reached.',
+      };
+    }
+
+    const record = parseRraReceiptHtml(html, url);
+
+    if (!record) {
+      rraLogger.warn('RRA receipt page layout was not recognised.', {
+        url: url.toString(),
+      });
+      return {
+        status: 'unreachable',
+        details: 'RRA receipt page layout was not recognised.',
+      };
+    }
+
+    if (!record.invoiceNumber && !record.tin) {
+      return {
+        status: 'not_found',
+        details: 'RRA has no record of this receipt.',
+      };
+    }
+
+    return { status: 'found', record };
+  },
+});
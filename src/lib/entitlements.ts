@@ -1,21 +1,58 @@
 import type { AuthSession } from '@/lib/auth/server';
+import { defaultChatModelKey } from '@/lib/config/features';
+import { subscriptionRepository } from '@/lib/db/pg/repositories/subscription-repository';
+import type { Subscription } from '@/types/subscription';
 
 export type EntitlementTier = 'guest' | 'regular' | 'paid';
 
-type Entitlement = {
+export type Entitlement = {
   /**
    * Maximum number of user messages allowed in a rolling 24 hour window.
    * Use `null` to indicate no enforced limit for the tier.
    */
   maxMessagesPerDay: number | null;
+  /**
+   * Focus modes the tier may search with. Use `null` to allow every mode.
+   */
+  allowedFocusModes: string[] | null;
+  /**
+   * Chat model keys the tier may use. A trailing `*` matches by prefix, so
+   * `gpt-4o*` covers `gpt-4o-mini`. Use `null` to allow every model.
+   */
+  allowedChatModels: string[] | null;
+  /** Largest single file accepted by the uploads endpoint, in bytes. */
+  maxUploadSizeBytes: number;
+  /** Most files accepted by a single upload; a ZIP archive counts as one. */
+  maxFilesPerUpload: number;
+  /**
+   * Most files expanded from the ZIP archives of a single upload, e.g. a
+   * month of EBM receipts.
+   */
+  maxArchiveEntriesPerUpload: number;
+  /**
+   * Invoices the EBM validator may check per calendar month (UTC).
+   * Use `null` to indicate no enforced limit for the tier.
+   */
+  maxEbmValidationsPerMonth: number | null;
+  /** Whether the `quality` optimization mode may be selected. */
+  allowQualityMode: boolean;
 };
 
+const MB = 1024 * 1024;
+
 export const entitlementsByTier: Record<EntitlementTier, Entitlement> = {
   /*
    * For users without an account
    */
   guest: {
     maxMessagesPerDay: 2,
+    allowedFocusModes: ['webSearch', 'writingAssistant'],
+    allowedChatModels: [defaultChatModelKey],
+    maxUploadSizeBytes: 5 * MB,
+    maxFilesPerUpload: 3,
+    maxArchiveEntriesPerUpload: 10,
+    maxEbmValidationsPerMonth: 0,
+    allowQualityMode: false,
   },
 
   /*
@@ -23,17 +60,68 @@ export const entitlementsByTier: Record<EntitlementTier, Entitlement> = {
    */
   regular: {
     maxMessagesPerDay: null,
+    allowedFocusModes: null,
+    allowedChatModels: null,
+    maxUploadSizeBytes: 20 * MB,
+    maxFilesPerUpload: 20,
+    maxArchiveEntriesPerUpload: 300,
+    maxEbmValidationsPerMonth: 50,
+    allowQualityMode: false,
   },
 
   /*
-   * TODO: For users with an account and a paid membership
+   * For users with an account and an active subscription
    */
   paid: {
     maxMessagesPerDay: null,
+    allowedFocusModes: null,
+    allowedChatModels: null,
+    maxUploadSizeBytes: 100 * MB,
+    maxFilesPerUpload: 100,
+    maxArchiveEntriesPerUpload: 1000,
+    maxEbmValidationsPerMonth: null,
+    allowQualityMode: true,
   },
 };
 
-export const resolveEntitlementTier = (session: AuthSession): EntitlementTier => {
+export type EntitlementErrorCode =
+  | 'guest_limit_reached'
+  | 'focus_mode_not_allowed'
+  | 'model_not_allowed'
+  | 'quality_mode_not_allowed'
+  | 'upload_too_large'
+  | 'upload_limit_reached'
+  | 'ebm_validation_limit_reached';
+
+/** Response body for requests refused by the caller's entitlement. */
+export const entitlementError = (
+  code: EntitlementErrorCode,
+  tier: EntitlementTier,
+  message: string,
+) => ({ code, tier, message });
+
+/**
+ * A subscription grants the paid tier while it is active or trialing, and a
+ * canceled one keeps it until the period that was paid for runs out.
+ */
+export const isSubscriptionActive = (
+  subscription: Subscription,
+  now = new Date(),
+) => {
+  if (subscription.currentPeriodEnd && subscription.currentPeriodEnd <= now) {
+    return false;
+  }
+
+  if (subscription.status === 'canceled') {
+    return subscription.currentPeriodEnd !== null;
+  }
+
+  return subscription.status === 'active' || subscription.status === 'trialing';
+};
+
+export const resolveEntitlementTier = async (
+  session: AuthSession,
+): Promise<EntitlementTier> => {
   if (!session?.user) {
     return 'guest';
   }
@@ -42,11 +130,38 @@ export const resolveEntitlementTier = (session: AuthSession): EntitlementTier =>
     return 'guest';
   }
 
-  // Placeholder for future paid tier detection logic.
-  return 'regular';
+  const subscription = await subscriptionRepository.findByUserId(
+    session.user.id,
+  );
+
+  return subscription && isSubscriptionActive(subscription)
+    ? 'paid'
+    : 'regular';
 };
 
-export const getEntitlementForSession = (session: AuthSession) => {
-  const tier = resolveEntitlementTier(session);
+export const getEntitlementForSession = async (session: AuthSession) => {
+  const tier = await resolveEntitlementTier(session);
   return { tier, entitlement: entitlementsByTier[tier] };
 };
+
+export const isFocusModeAllowed = (
+  entitlement: Entitlement,
+  focusMode: string,
+) =>
+  entitlement.allowedFocusModes === null ||
+  entitlement.allowedFocusModes.includes(focusMode);
+
+export const isChatModelAllowed = (
+  entitlement: Entitlement,
+  modelKey: string,
+) =>
+  entitlement.allowedChatModels === null ||
+  entitlement.allowedChatModels.some((pattern) =>
+    pattern.endsWith('*')
+      ? modelKey.startsWith(pattern.slice(0, -1))
+      : modelKey === pattern,
+  );
+
+/** Start of the calendar month (UTC) that EBM validation quotas count from. */
+export const getEbmValidationPeriodStart = (now = new Date()) =>
+  new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
@@ -0,0 +1,142 @@
+import { settingsRepository } from '@/lib/db/pg/repositories/settings-repository';
+import logger from '@/lib/logger';
+import type { ExportBranding } from '@/types/export';
+
+const brandingLogger = logger.withDefaults({ tag: 'export:branding' });
+
+export const EXPORT_BRANDING_SETTING_KEY = 'export.branding';
+
+const LOGO_FETCH_TIMEOUT_MS = 5_000;
+const MAX_LOGO_BYTES = 1024 * 1024;
+const HEX_COLOR_PATTERN = /^#[0-9a-f]{6}$/i;
+
+export const DEFAULT_EXPORT_BRANDING: ExportBranding = {
+  firmName: 'RG Partners',
+  logoUrl: '',
+  headerText: '',
+  footerText: 'Confidential',
+  disclaimer:
+    'This document was prepared with the assistance of AI research tools and does not constitute legal or tax advice. Verify all sources before relying on them.',
+  accentColor: '#24A0ED',
+};
+
+export const getExportBranding = async (): Promise<ExportBranding> => {
+  try {
+    const stored = await settingsRepository.get<Partial<ExportBranding>>(
+      EXPORT_BRANDING_SETTING_KEY,
+    );
+    const branding = { ...DEFAULT_EXPORT_BRANDING, ...(stored ?? {}) };
+
+    // Renderers interpolate the accent colour into CSS and DOCX styles.
+    if (!HEX_COLOR_PATTERN.test(branding.accentColor)) {
+      branding.accentColor = DEFAULT_EXPORT_BRANDING.accentColor;
+    }
+
+    return branding;
+  } catch (error) {
+    brandingLogger.error('Failed to load export branding.', error);
+    return DEFAULT_EXPORT_BRANDING;
+  }
+};
+
+export const saveExportBranding = async (
+  branding: ExportBranding,
+  updatedBy: string,
+) => {
+  await settingsRepository.set(
+    EXPORT_BRANDING_SETTING_KEY,
+    branding,
+    updatedBy,
+  );
+};
+
+export interface ExportLogo {
+  data: Buffer;
+  type: 'png' | 'jpg';
+  width: number;
+  height: number;
+}
+
+const readImageSize = (data: Buffer, type: ExportLogo['type']) => {
+  if (type === 'png') {
+    return { width: data.readUInt32BE(16), height: data.readUInt32BE(20) };
+  }
+
+  // Walk the JPEG segments until the start-of-frame marker carrying the size.
+  let offset = 2;
+  while (offset + 9 < data.length) {
+    const marker = data[offset + 1];
+    const length = data.readUInt16BE(offset + 2);
+    if (
+      marker >= 0xc0 &&
+      marker <= 0xcf &&
+      ![0xc4, 0xc8, 0xcc].includes(marker)
+    ) {
+      return {
+        height: data.readUInt16BE(offset + 5),
+        width: data.readUInt16BE(offset + 7),
+      };
+    }
+    offset += 2 + length;
+  }
+
+  return null;
+};
+
+const detectImageType = (data: Buffer): ExportLogo['type'] | null => {
+  if (
+    data
+      .subarray(0, 8)
+      .equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]))
+  ) {
+    return 'png';
+  }
+  if (data[0] === 0xff && data[1] === 0xd8) {
+    return 'jpg';
+  }
+  return null;
+};
+
+/**
+ * Downloads the branding logo so PDF and DOCX exports can embed it. Failures
+ * are logged and the export goes ahead without a logo.
+ */
+export const loadExportLogo = async (
+  logoUrl: string,
+): Promise<ExportLogo | null> => {
+  if (!logoUrl.trim()) {
+    return null;
+  }
+
+  try {
+    let data: Buffer;
+
+    if (logoUrl.startsWith('data:')) {
+      const [, payload = ''] = logoUrl.split(',', 2);
+      data = Buffer.from(payload, 'base64');
+    } else {
+      const response = await fetch(logoUrl, {
+        signal: AbortSignal.timeout(LOGO_FETCH_TIMEOUT_MS),
+      });
+      if (!response.ok) {
+        throw new Error(`Logo request failed with HTTP ${response.status}`);
+      }
+      data = Buffer.from(await response.arrayBuffer());
+    }
+
+    if (data.length > MAX_LOGO_BYTES) {
+      throw new Error('Logo exceeds the 1 MB limit');
+    }
+
+    const type = detectImageType(data);
+    const size = type ? readImageSize(data, type) : null;
+    if (!type || !size) {
+      throw new Error('Logo must be a PNG or JPEG image');
+    }
+
+    return { data, type, ...size };
+  } catch (error) {
+    brandingLogger.warn('Export logo could not be loaded.', { error });
+    return null;
+  }
+};
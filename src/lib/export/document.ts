@@ -0,0 +1,311 @@
+import type { Document } from '@langchain/core/documents';
+import { Lexer, type Token, type Tokens } from 'marked';
+import type { ExportBranding } from '@/types/export';
+
+/** Citation placeholders survive markdown lexing as private-use characters. */
+const FOOTNOTE_PLACEHOLDER = /\uE000(\d+)\uE001/g;
+const CITATION_PATTERN = /\[(\d+(?:\s*,\s*\d+)*)\](?!\()/g;
+const THINK_BLOCK_PATTERN = /<think>[\s\S]*?(<\/think>|$)/g;
+
+export interface ChatExportFootnote {
+  id: number;
+  title: string;
+  url?: string;
+}
+
+export interface ExportTextStyle {
+  bold?: boolean;
+  italic?: boolean;
+  code?: boolean;
+  strike?: boolean;
+  href?: string;
+}
+
+export type ExportInline =
+  | ({ type: 'text'; text: string } & ExportTextStyle)
+  | { type: 'footnote'; id: number }
+  | { type: 'break' };
+
+export type ExportBlock =
+  | { type: 'heading'; level: number; content: ExportInline[] }
+  | { type: 'paragraph'; content: ExportInline[] }
+  | { type: 'list'; ordered: boolean; start: number; items: ExportBlock[][] }
+  | { type: 'quote'; blocks: ExportBlock[] }
+  | { type: 'code'; text: string }
+  | {
+      type: 'table';
+      header: ExportInline[][];
+      rows: ExportInline[][][];
+    }
+  | { type: 'rule' };
+
+export interface ChatExportExchange {
+  question: string;
+  askedAt: Date;
+  /** Answer markdown with citations replaced by footnote placeholders. */
+  answer: string;
+  blocks: ExportBlock[];
+}
+
+export interface ChatExportDocument {
+  title: string;
+  createdAt: Date;
+  exportedAt: Date;
+  exchanges: ChatExportExchange[];
+  footnotes: ChatExportFootnote[];
+  branding: ExportBranding;
+}
+
+export interface ChatExportMessage {
+  role: 'user' | 'assistant' | 'source';
+  content: string | null;
+  sources: Document[] | null;
+  createdAt: Date;
+}
+
+export const toFootnotePlaceholder = (id: number) => `\uE000${id}\uE001`;
+
+export const replaceFootnotePlaceholders = (
+  text: string,
+  replace: (id: number) => string,
+) => text.replace(FOOTNOTE_PLACEHOLDER, (_, id: string) => replace(Number(id)));
+
+const toFootnote = (source: Document, id: number): ChatExportFootnote => {
+  const metadata = (source.metadata ?? {}) as Record<string, unknown>;
+  const url =
+    typeof metadata.url === 'string' && /^https?:\/\//i.test(metadata.url)
+      ? metadata.url
+      : undefined;
+  const title =
+    (typeof metadata.title === 'string' && metadata.title.trim()) ||
+    url ||
+    'Uploaded file';
+
+  return { id, title, url };
+};
+
+/**
+ * Numbers footnotes by first citation across the whole conversation, so a
+ * source cited in several answers keeps one footnote.
+ */
+class FootnoteRegistry {
+  private readonly ids = new Map<string, number>();
+  readonly footnotes: ChatExportFootnote[] = [];
+
+  resolve(source: Document) {
+    const metadata = (source.metadata ?? {}) as Record<string, unknown>;
+    const key =
+      typeof metadata.url === 'string' && metadata.url !== 'File'
+        ? metadata.url
+        : `${metadata.title ?? ''}:${source.pageContent.slice(0, 200)}`;
+
+    let id = this.ids.get(key);
+    if (id == null) {
+      id = this.footnotes.length + 1;
+      this.ids.set(key, id);
+      this.footnotes.push(toFootnote(source, id));
+    }
+    return id;
+  }
+}
+
+const linkCitations = (
+  answer: string,
+  sources: Document[],
+  registry: FootnoteRegistry,
+) =>
+  answer.replace(CITATION_PATTERN, (_, numbers: string) =>
+    numbers
+      .split(',')
+      .map((value) => sources[Number(value.trim()) - 1])
+      .filter((source): source is Document => Boolean(source))
+      .map((source) => toFootnotePlaceholder(registry.resolve(source)))
+      .join(''),
+  );
+
+const splitFootnotes = (
+  text: string,
+  style: ExportTextStyle,
+): ExportInline[] => {
+  const inlines: ExportInline[] = [];
+  let lastIndex = 0;
+
+  for (const match of text.matchAll(FOOTNOTE_PLACEHOLDER)) {
+    if (match.index > lastIndex) {
+      inlines.push({
+        type: 'text',
+        text: text.slice(lastIndex, match.index),
+        ...style,
+      });
+    }
+    inlines.push({ type: 'footnote', id: Number(match[1]) });
+    lastIndex = match.index + match[0].length;
+  }
+
+  if (lastIndex < text.length) {
+    inlines.push({ type: 'text', text: text.slice(lastIndex), ...style });
+  }
+
+  return inlines;
+};
+
+const decodeEntities = (text: string) =>
+  text
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&amp;/g, '&');
+
+const toInlines = (
+  tokens: Token[] | undefined,
+  style: ExportTextStyle = {},
+): ExportInline[] =>
+  (tokens ?? []).flatMap((token): ExportInline[] => {
+    switch (token.type) {
+      case 'strong':
+        return toInlines(token.tokens, { ...style, bold: true });
+      case 'em':
+        return toInlines(token.tokens, { ...style, italic: true });
+      case 'del':
+        return toInlines(token.tokens, { ...style, strike: true });
+      case 'codespan':
+        return splitFootnotes(decodeEntities(token.text), {
+          ...style,
+          code: true,
+        });
+      case 'link':
+        return toInlines(token.tokens, { ...style, href: token.href });
+      case 'br':
+        return [{ type: 'break' }];
+      case 'image':
+        return splitFootnotes(token.text, style);
+      case 'text':
+        return 'tokens' in token && token.tokens?.length
+          ? toInlines(token.tokens, style)
+          : splitFootnotes(decodeEntities(token.text), style);
+      default:
+        return 'text' in token && typeof token.text === 'string'
+          ? splitFootnotes(decodeEntities(token.text), style)
+          : [];
+    }
+  });
+
+const toBlocks = (tokens: Token[]): ExportBlock[] =>
+  tokens.flatMap((token): ExportBlock[] => {
+    switch (token.type) {
+      case 'heading':
+        return [
+          {
+            type: 'heading',
+            level: token.depth,
+            content: toInlines(token.tokens),
+          },
+        ];
+      case 'paragraph':
+        return [{ type: 'paragraph', content: toInlines(token.tokens) }];
+      case 'text':
+        return [
+          {
+            type: 'paragraph',
+            content: toInlines(
+              (token as Tokens.Text).tokens ?? [token as Tokens.Text],
+            ),
+          },
+        ];
+      case 'list': {
+        const list = token as Tokens.List;
+        return [
+          {
+            type: 'list',
+            ordered: list.ordered,
+            start: typeof list.start === 'number' ? list.start : 1,
+            items: list.items.map((item) => toBlocks(item.tokens)),
+          },
+        ];
+      }
+      case 'blockquote':
+        return [{ type: 'quote', blocks: toBlocks(token.tokens ?? []) }];
+      case 'code':
+        return [{ type: 'code', text: token.text }];
+      case 'table': {
+        const table = token as Tokens.Table;
+        return [
+          {
+            type: 'table',
+            header: table.header.map((cell) => toInlines(cell.tokens)),
+            rows: table.rows.map((row) =>
+              row.map((cell) => toInlines(cell.tokens)),
+            ),
+          },
+        ];
+      }
+      case 'hr':
+        return [{ type: 'rule' }];
+      default:
+        return [];
+    }
+  });
+
+export const parseExportMarkdown = (markdown: string) =>
+  toBlocks(Lexer.lex(markdown));
+
+/**
+ * Pairs each user message with the answer and sources that follow it, the
+ * same way the chat view groups messages into sections.
+ */
+export const buildChatExportDocument = ({
+  title,
+  createdAt,
+  messages,
+  branding,
+}: {
+  title: string;
+  createdAt: Date;
+  messages: ChatExportMessage[];
+  branding: ExportBranding;
+}): ChatExportDocument => {
+  const registry = new FootnoteRegistry();
+  const exchanges: ChatExportExchange[] = [];
+
+  messages.forEach((message, index) => {
+    if (message.role !== 'user') {
+      return;
+    }
+
+    const nextUserIndex = messages.findIndex(
+      (candidate, position) => position > index && candidate.role === 'user',
+    );
+    const following = messages.slice(
+      index + 1,
+      nextUserIndex === -1 ? undefined : nextUserIndex,
+    );
+
+    const assistant = following.find((item) => item.role === 'assistant');
+    const sources =
+      following.find((item) => item.role === 'source' && item.sources?.length)
+        ?.sources ?? [];
+
+    const answer = linkCitations(
+      (assistant?.content ?? '').replace(THINK_BLOCK_PATTERN, '').trim(),
+      sources,
+      registry,
+    );
+
+    exchanges.push({
+      question: message.content ?? '',
+      askedAt: message.createdAt,
+      answer,
+      blocks: parseExportMarkdown(answer),
+    });
+  });
+
+  return {
+    title,
+    createdAt,
+    exportedAt: new Date(),
+    exchanges,
+    footnotes: registry.footnotes,
+    branding,
+  };
+};
@@ -0,0 +1,443 @@
+import { format } from 'date-fns';
+import {
+  AlignmentType,
+  BorderStyle,
+  Document as DocxDocument,
+  ExternalHyperlink,
+  Footer,
+  FootnoteReferenceRun,
+  Header,
+  HeadingLevel,
+  ImageRun,
+  LevelFormat,
+  Packer,
+  PageNumber,
+  Paragraph,
+  ShadingType,
+  Table,
+  TableCell,
+  TableRow,
+  TextRun,
+  WidthType,
+  type ParagraphChild,
+} from 'docx';
+import type { ExportLogo } from './branding';
+import type { ChatExportDocument, ExportBlock, ExportInline } from './document';
+
+const ORDERED_LIST = 'ordered-list';
+const BULLET_LIST = 'bullet-list';
+const LOGO_HEIGHT_PX = 40;
+
+const HEADING_LEVELS = [
+  HeadingLevel.HEADING_1,
+  HeadingLevel.HEADING_2,
+  HeadingLevel.HEADING_3,
+  HeadingLevel.HEADING_4,
+  HeadingLevel.HEADING_5,
+  HeadingLevel.HEADING_6,
+];
+
+interface ListReference {
+  reference: string;
+  level: number;
+  instance: number;
+}
+
+interface BlockContext {
+  list?: ListReference;
+  /** Whether the next paragraph starts a list item and shows its bullet. */
+  numbered?: boolean;
+  quoted?: boolean;
+}
+
+const toDocxColor = (hex: string) => hex.replace('#', '').toUpperCase();
+
+/**
+ * Word numbers footnotes by the order of their references, so only the first
+ * citation of a source emits a real reference; later ones repeat the number
+ * as superscript text.
+ */
+class DocxWriter {
+  private readonly referenced = new Set<number>();
+  private listInstance = 0;
+
+  constructor(private readonly accentColor: string) {}
+
+  runs(inlines: ExportInline[]): ParagraphChild[] {
+    return inlines.map((inline) => {
+      if (inline.type === 'break') {
+        return new TextRun({ break: 1 });
+      }
+
+      if (inline.type === 'footnote') {
+        if (!this.referenced.has(inline.id)) {
+          this.referenced.add(inline.id);
+          return new FootnoteReferenceRun(inline.id);
+        }
+        return new TextRun({ text: String(inline.id), superScript: true });
+      }
+
+      const run = new TextRun({
+        text: inline.text,
+        bold: inline.bold,
+        italics: inline.italic,
+        strike: inline.strike,
+        font: inline.code ? 'Courier New' : undefined,
+        style: inline.href ? 'Hyperlink' : undefined,
+      });
+
+      return inline.href
+        ? new ExternalHyperlink({ link: inline.href, children: [run] })
+        : run;
+    });
+  }
+
+  blocks(
+    blocks: ExportBlock[],
+    context: BlockContext = {},
+  ): Array<Paragraph | Table> {
+    const { list, numbered, quoted } = context;
+
+    return blocks.flatMap((block): Array<Paragraph | Table> => {
+      switch (block.type) {
+        case 'heading':
+          return [
+            new Paragraph({
+              heading: HEADING_LEVELS[Math.min(block.level + 1, 5)],
+              children: this.runs(block.content),
+            }),
+          ];
+        case 'paragraph': {
+          const indent =
+            (list && !numbered ? 720 * (list.level + 1) : 0) +
+            (quoted ? 720 : 0);
+          return [
+            new Paragraph({
+              children: this.runs(block.content),
+              numbering: numbered ? list : undefined,
+              indent: indent > 0 ? { left: indent } : undefined,
+              border: quoted
+                ? {
+                    left: {
+                      style: BorderStyle.SINGLE,
+                      size: 12,
+                      color: 'CCCCCC',
+                      space: 8,
+                    },
+                  }
+                : undefined,
+              spacing: { after: 120 },
+            }),
+          ];
+        }
+        case 'list': {
+          this.listInstance += 1;
+          const nested: ListReference = {
+            reference: block.ordered ? ORDERED_LIST : BULLET_LIST,
+            level: list ? Math.min(list.level + 1, 8) : 0,
+            instance: this.listInstance,
+          };
+          // The first block of an item carries the bullet; the rest are
+          // indented continuations or nested lists.
+          return block.items.flatMap(([first, ...rest]) => [
+            ...(first
+              ? this.blocks([first], { list: nested, numbered: true, quoted })
+              : []),
+            ...this.blocks(rest, { list: nested, quoted }),
+          ]);
+        }
+        case 'quote':
+          return this.blocks(block.blocks, { list, quoted: true });
+        case 'code':
+          return block.text.split('\n').map(
+            (line) =>
+              new Paragraph({
+                children: [
+                  new TextRun({ text: line, font: 'Courier New', size: 18 }),
+                ],
+                shading: {
+                  type: ShadingType.CLEAR,
+                  fill: 'F6F8FA',
+                  color: 'auto',
+                },
+                spacing: { after: 0 },
+              }),
+          );
+        case 'table':
+          return [this.table(block.header, block.rows), new Paragraph({})];
+        case 'rule':
+          return [
+            new Paragraph({
+              border: {
+                bottom: {
+                  style: BorderStyle.SINGLE,
+                  size: 6,
+                  color: toDocxColor(this.accentColor),
+                  space: 1,
+                },
+              },
+            }),
+          ];
+      }
+    });
+  }
+
+  private table(header: ExportInline[][], rows: ExportInline[][][]) {
+    const toRow = (cells: ExportInline[][], isHeader: boolean) =>
+      new TableRow({
+        tableHeader: isHeader,
+        children: cells.map(
+          (cell) =>
+            new TableCell({
+              shading: isHeader
+                ? { type: ShadingType.CLEAR, fill: 'F0F0F0', color: 'auto' }
+                : undefined,
+              children: [
+                new Paragraph({
+                  children: this.runs(
+                    isHeader
+                      ? cell.map((inline) =>
+                          inline.type === 'text'
+                            ? { ...inline, bold: true }
+                            : inline,
+                        )
+                      : cell,
+                  ),
+                }),
+              ],
+            }),
+        ),
+      });
+
+    return new Table({
+      width: { size: 100, type: WidthType.PERCENTAGE },
+      rows: [toRow(header, true), ...rows.map((row) => toRow(row, false))],
+    });
+  }
+}
+
+const buildHeader = (document: ChatExportDocument, logo: ExportLogo | null) => {
+  const { branding } = document;
+  const children: ParagraphChild[] = [];
+
+  if (logo) {
+    children.push(
+      new ImageRun({
+        type: logo.type,
+        data: logo.data,
+        transformation: {
+          height: LOGO_HEIGHT_PX,
+          width: Math.round((logo.width / logo.height) * LOGO_HEIGHT_PX),
+        },
+      }),
+      new TextRun({ text: '  ' }),
+    );
+  }
+
+  children.push(new TextRun({ text: branding.firmName, bold: true }));
+  if (branding.headerText) {
+    children.push(
+      new TextRun({ text: `  |  ${branding.headerText}`, color: '555555' }),
+    );
+  }
+
+  return new Header({
+    children: [
+      new Paragraph({
+        children,
+        border: {
+          bottom: {
+            style: BorderStyle.SINGLE,
+            size: 12,
+            color: toDocxColor(branding.accentColor),
+            space: 4,
+          },
+        },
+      }),
+    ],
+  });
+};
+
+const buildFooter = (document: ChatExportDocument) =>
+  new Footer({
+    children: [
+      new Paragraph({
+        alignment: AlignmentType.CENTER,
+        children: [
+          new TextRun({
+            text: document.branding.footerText
+              ? `${document.branding.footerText}  |  Page `
+              : 'Page ',
+            size: 16,
+            color: '555555',
+          }),
+          new TextRun({
+            children: [PageNumber.CURRENT],
+            size: 16,
+            color: '555555',
+          }),
+          new TextRun({ text: ' of ', size: 16, color: '555555' }),
+          new TextRun({
+            children: [PageNumber.TOTAL_PAGES],
+            size: 16,
+            color: '555555',
+          }),
+        ],
+      }),
+    ],
+  });
+
+const listLevels = (ordered: boolean) =>
+  Array.from({ length: 9 }, (_, level) => ({
+    level,
+    format: ordered ? LevelFormat.DECIMAL : LevelFormat.BULLET,
+    text: ordered ? `%${level + 1}.` : level % 2 === 0 ? '•' : '◦',
+    alignment: AlignmentType.LEFT,
+    style: {
+      paragraph: { indent: { left: 720 * (level + 1), hanging: 360 } },
+    },
+  }));
+
+export const renderChatDocx = async (
+  document: ChatExportDocument,
+  logo: ExportLogo | null,
+): Promise<Buffer> => {
+  const { branding } = document;
+  const writer = new DocxWriter(branding.accentColor);
+  const accent = toDocxColor(branding.accentColor);
+
+  const children: Array<Paragraph | Table> = [
+    new Paragraph({
+      heading: HeadingLevel.TITLE,
+      children: [new TextRun(document.title)],
+    }),
+    new Paragraph({
+      children: [
+        new TextRun({
+          text: `Exported ${format(document.exportedAt, 'PPP p')}`,
+          italics: true,
+          color: '666666',
+        }),
+      ],
+    }),
+  ];
+
+  document.exchanges.forEach((exchange, index) => {
+    children.push(
+      new Paragraph({
+        heading: HeadingLevel.HEADING_1,
+        children: [new TextRun(`Question ${index + 1}`)],
+      }),
+      new Paragraph({
+        children: [
+          new TextRun({
+            text: format(exchange.askedAt, 'PPP p'),
+            italics: true,
+            color: '666666',
+            size: 18,
+          }),
+        ],
+      }),
+      ...exchange.question.split('\n').map(
+        (line) =>
+          new Paragraph({
+            children: [new TextRun({ text: line, italics: true })],
+            shading: { type: ShadingType.CLEAR, fill: 'F6F8FA', color: 'auto' },
+            border: {
+              left: {
+                style: BorderStyle.SINGLE,
+                size: 18,
+                color: accent,
+                space: 8,
+              },
+            },
+          }),
+      ),
+      new Paragraph({}),
+      ...writer.blocks(exchange.blocks),
+    );
+  });
+
+  if (branding.disclaimer) {
+    children.push(
+      new Paragraph({}),
+      new Paragraph({
+        children: [
+          new TextRun({
+            text: branding.disclaimer,
+            italics: true,
+            size: 16,
+            color: '555555',
+          }),
+        ],
+        border: {
+          top: { style: BorderStyle.SINGLE, size: 6, color: accent, space: 4 },
+        },
+      }),
+    );
+  }
+
+  const footnotes = Object.fromEntries(
+    document.footnotes.map((footnote) => [
+      footnote.id,
+      {
+        children: [
+          new Paragraph({
+            children: footnote.url
+              ? [
+                  new TextRun(`${footnote.title}, `),
+                  new ExternalHyperlink({
+                    link: footnote.url,
+                    children: [
+                      new TextRun({ text: footnote.url, style: 'Hyperlink' }),
+                    ],
+                  }),
+                ]
+              : [new TextRun(footnote.title)],
+          }),
+        ],
+      },
+    ]),
+  );
+
+  const docx = new DocxDocument({
+    title: document.title,
+    creator: branding.firmName,
+    styles: {
+      paragraphStyles: [
+        {
+          id: 'Heading1',
+          name: 'Heading 1',
+          basedOn: 'Normal',
+          next: 'Normal',
+          run: { color: accent, bold: true, size: 30 },
+          paragraph: { spacing: { before: 360, after: 120 } },
+        },
+        {
+          id: 'Heading2',
+          name: 'Heading 2',
+          basedOn: 'Normal',
+          next: 'Normal',
+          run: { color: accent, bold: true, size: 26 },
+          paragraph: { spacing: { before: 240, after: 120 } },
+        },
+      ],
+    },
+    numbering: {
+      config: [
+        { reference: ORDERED_LIST, levels: listLevels(true) },
+        { reference: BULLET_LIST, levels: listLevels(false) },
+      ],
+    },
+    footnotes,
+    sections: [
+      {
+        headers: { default: buildHeader(document, logo) },
+        footers: { default: buildFooter(document) },
+        children,
+      },
+    ],
+  });
+
+  return Packer.toBuffer(docx);
+};
@@ -0,0 +1,157 @@
+import { format } from 'date-fns';
+import type { ChatExportDocument, ExportBlock, ExportInline } from './document';
+
+const escapeHtml = (text: string) =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+const isSafeUrl = (url: string) => /^(https?:|mailto:|data:image\/)/i.test(url);
+
+const renderInlines = (inlines: ExportInline[], cited: Set<number>) =>
+  inlines
+    .map((inline) => {
+      if (inline.type === 'break') {
+        return '<br />';
+      }
+
+      if (inline.type === 'footnote') {
+        const anchor = cited.has(inline.id) ? '' : ` id="fnref-${inline.id}"`;
+        cited.add(inline.id);
+        return `<sup class="footnote-ref"${anchor}><a href="#fn-${inline.id}">${inline.id}</a></sup>`;
+      }
+
+      let html = escapeHtml(inline.text);
+      if (inline.code) html = `<code>${html}</code>`;
+      if (inline.bold) html = `<strong>${html}</strong>`;
+      if (inline.italic) html = `<em>${html}</em>`;
+      if (inline.strike) html = `<del>${html}</del>`;
+      if (inline.href && isSafeUrl(inline.href)) {
+        html = `<a href="${escapeHtml(inline.href)}">${html}</a>`;
+      }
+      return html;
+    })
+    .join('');
+
+const renderBlocks = (blocks: ExportBlock[], cited: Set<number>): string =>
+  blocks
+    .map((block) => {
+      switch (block.type) {
+        case 'heading': {
+          // Exchange titles use h2, so answer headings start one level lower.
+          const level = Math.min(block.level + 2, 6);
+          return `<h${level}>${renderInlines(block.content, cited)}</h${level}>`;
+        }
+        case 'paragraph':
+          return `<p>${renderInlines(block.content, cited)}</p>`;
+        case 'list': {
+          const tag = block.ordered ? 'ol' : 'ul';
+          const start =
+            block.ordered && block.start !== 1 ? ` start="${block.start}"` : '';
+          const items = block.items
+            .map((item) => `<li>${renderBlocks(item, cited)}</li>`)
+            .join('');
+          return `<${tag}${start}>${items}</${tag}>`;
+        }
+        case 'quote':
+          return `<blockquote>${renderBlocks(block.blocks, cited)}</blockquote>`;
+        case 'code':
+          return `<pre><code>${escapeHtml(block.text)}</code></pre>`;
+        case 'table': {
+          const header = block.header
+            .map((cell) => `<th>${renderInlines(cell, cited)}</th>`)
+            .join('');
+          const rows = block.rows
+            .map(
+              (row) =>
+                `<tr>${row.map((cell) => `<td>${renderInlines(cell, cited)}</td>`).join('')}</tr>`,
+            )
+            .join('');
+          return `<table><thead><tr>${header}</tr></thead><tbody>${rows}</tbody></table>`;
+        }
+        case 'rule':
+          return '<hr />';
+      }
+    })
+    .join('\n');
+
+const buildStyles = (accentColor: string) => `
+  body { font-family: Georgia, 'Times New Roman', serif; color: #1a1a1a; max-width: 780px; margin: 40px auto; padding: 0 24px; line-height: 1.55; }
+  header.branding { display: flex; align-items: center; justify-content: space-between; gap: 16px; border-bottom: 2px solid ${accentColor}; padding-bottom: 12px; margin-bottom: 24px; font-family: Helvetica, Arial, sans-serif; }
+  header.branding img { max-height: 48px; }
+  header.branding .firm { font-weight: bold; font-size: 18px; }
+  header.branding .note { font-size: 12px; color: #555; text-align: right; }
+  h1, h2, h3, h4, h5, h6 { font-family: Helvetica, Arial, sans-serif; color: ${accentColor}; }
+  .meta { color: #666; font-size: 13px; }
+  .question { border-left: 3px solid ${accentColor}; background: #f6f8fa; padding: 8px 14px; white-space: pre-wrap; }
+  table { border-collapse: collapse; width: 100%; margin: 12px 0; font-size: 14px; }
+  th, td { border: 1px solid #ccc; padding: 6px 8px; text-align: left; vertical-align: top; }
+  th { background: #f0f0f0; }
+  pre { background: #f6f8fa; padding: 12px; overflow-x: auto; }
+  code { font-family: Menlo, Consolas, monospace; font-size: 0.9em; }
+  blockquote { border-left: 3px solid #ddd; margin-left: 0; padding-left: 14px; color: #444; }
+  sup.footnote-ref a { text-decoration: none; color: ${accentColor}; }
+  section.footnotes { border-top: 1px solid #ccc; margin-top: 32px; font-size: 13px; }
+  footer.branding { border-top: 2px solid ${accentColor}; margin-top: 32px; padding-top: 12px; font-size: 12px; color: #555; }
+`;
+
+export const renderChatHtml = (document: ChatExportDocument) => {
+  const { branding } = document;
+  const cited = new Set<number>();
+
+  const exchanges = document.exchanges
+    .map(
+      (exchange, index) => `
+<section class="exchange">
+  <h2>Question ${index + 1}</h2>
+  <p class="meta">${escapeHtml(format(exchange.askedAt, 'PPP p'))}</p>
+  <div class="question">${escapeHtml(exchange.question)}</div>
+  ${renderBlocks(exchange.blocks, cited)}
+</section>`,
+    )
+    .join('\n');
+
+  const footnotes = document.footnotes.length
+    ? `<section class="footnotes"><ol>${document.footnotes
+        .map((footnote) => {
+          const title = escapeHtml(footnote.title);
+          const link = footnote.url
+            ? `<a href="${escapeHtml(footnote.url)}">${title}</a>`
+            : title;
+          return `<li id="fn-${footnote.id}">${link} <a href="#fnref-${footnote.id}" aria-label="Back to text">↩</a></li>`;
+        })
+        .join('')}</ol></section>`
+    : '';
+
+  const logo =
+    branding.logoUrl && isSafeUrl(branding.logoUrl)
+      ? `<img src="${escapeHtml(branding.logoUrl)}" alt="${escapeHtml(branding.firmName)}" />`
+      : '';
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8" />
+<title>${escapeHtml(document.title)}</title>
+<style>${buildStyles(branding.accentColor)}</style>
+</head>
+<body>
+<header class="branding">
+  <div>${logo}<div class="firm">${escapeHtml(branding.firmName)}</div></div>
+  <div class="note">${escapeHtml(branding.headerText)}</div>
+</header>
+<h1>${escapeHtml(document.title)}</h1>
+<p class="meta">Exported ${escapeHtml(format(document.exportedAt, 'PPP p'))}</p>
+${exchanges}
+${footnotes}
+<footer class="branding">
+  ${branding.disclaimer ? `<p><em>${escapeHtml(branding.disclaimer)}</em></p>` : ''}
+  ${branding.footerText ? `<p>${escapeHtml(branding.footerText)}</p>` : ''}
+</footer>
+</body>
+</html>
+`;
+};
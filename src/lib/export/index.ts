@@ -0,0 +1,62 @@
+import type { ChatExportFormat } from '@/types/export';
+import { loadExportLogo } from './branding';
+import type { ChatExportDocument } from './document';
+import { renderChatDocx } from './docx';
+import { renderChatHtml } from './html';
+import { renderChatMarkdown } from './markdown';
+import { renderChatPdf } from './pdf';
+
+export {
+  DEFAULT_EXPORT_BRANDING,
+  getExportBranding,
+  saveExportBranding,
+} from './branding';
+export { buildChatExportDocument } from './document';
+export type { ChatExportDocument, ChatExportMessage } from './document';
+
+export const CHAT_EXPORT_FORMATS = ['pdf', 'docx', 'md', 'html'] as const;
+
+const CONTENT_TYPES: Record<ChatExportFormat, string> = {
+  pdf: 'application/pdf',
+  docx: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  md: 'text/markdown; charset=utf-8',
+  html: 'text/html; charset=utf-8',
+};
+
+export interface RenderedChatExport {
+  body: Buffer | string;
+  contentType: string;
+  extension: ChatExportFormat;
+}
+
+export const renderChatExport = async (
+  document: ChatExportDocument,
+  format: ChatExportFormat,
+): Promise<RenderedChatExport> => {
+  const result = (body: Buffer | string) => ({
+    body,
+    contentType: CONTENT_TYPES[format],
+    extension: format,
+  });
+
+  switch (format) {
+    case 'md':
+      return result(renderChatMarkdown(document));
+    case 'html':
+      return result(renderChatHtml(document));
+    case 'docx':
+      return result(
+        await renderChatDocx(
+          document,
+          await loadExportLogo(document.branding.logoUrl),
+        ),
+      );
+    case 'pdf':
+      return result(
+        renderChatPdf(
+          document,
+          await loadExportLogo(document.branding.logoUrl),
+        ),
+      );
+  }
+};
@@ -0,0 +1,67 @@
+import { format } from 'date-fns';
+import {
+  replaceFootnotePlaceholders,
+  type ChatExportDocument,
+} from './document';
+
+const quote = (text: string) =>
+  text
+    .split('\n')
+    .map((line) => `> ${line}`)
+    .join('\n');
+
+const escapeLinkText = (text: string) => text.replace(/([[\]])/g, '\\$1');
+
+/** Keeps the answers' own markdown and turns citations into footnotes. */
+export const renderChatMarkdown = (document: ChatExportDocument) => {
+  const { branding } = document;
+  const lines: string[] = [];
+
+  if (/^https?:\/\//i.test(branding.logoUrl)) {
+    lines.push(
+      `![${escapeLinkText(branding.firmName)}](${branding.logoUrl})`,
+      '',
+    );
+  }
+
+  lines.push(`# ${document.title}`, '');
+  lines.push(
+    [branding.firmName, branding.headerText].filter(Boolean).join(' · '),
+  );
+  lines.push(`*Exported ${format(document.exportedAt, 'PPP p')}*`, '');
+
+  document.exchanges.forEach((exchange, index) => {
+    lines.push('---', '');
+    lines.push(`## Question ${index + 1}`, '');
+    lines.push(`*${format(exchange.askedAt, 'PPP p')}*`, '');
+    lines.push(quote(exchange.question), '');
+    lines.push(
+      replaceFootnotePlaceholders(exchange.answer, (id) => `[^${id}]`),
+      '',
+    );
+  });
+
+  if (document.footnotes.length > 0) {
+    lines.push('---', '');
+    document.footnotes.forEach((footnote) => {
+      lines.push(
+        footnote.url
+          ? `[^${footnote.id}]: [${escapeLinkText(footnote.title)}](${footnote.url})`
+          : `[^${footnote.id}]: ${footnote.title}`,
+      );
+    });
+    lines.push('');
+  }
+
+  if (branding.disclaimer || branding.footerText) {
+    lines.push('---', '');
+    if (branding.disclaimer) {
+      lines.push(`*${branding.disclaimer}*`, '');
+    }
+    if (branding.footerText) {
+      lines.push(branding.footerText, '');
+    }
+  }
+
+  return lines.join('\n');
+};
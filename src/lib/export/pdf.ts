@@ -0,0 +1,748 @@
+import { format } from 'date-fns';
+import jsPDF from 'jspdf';
+import type { ExportLogo } from './branding';
+import type {
+  ChatExportDocument,
+  ChatExportFootnote,
+  ExportBlock,
+  ExportInline,
+} from './document';
+
+const MARGIN = 56;
+const HEADER_HEIGHT = 36;
+const FOOTER_HEIGHT = 28;
+const LOGO_HEIGHT = 22;
+const BODY_SIZE = 10.5;
+const FOOTNOTE_SIZE = 8;
+const FOOTNOTE_LINE_HEIGHT = 10;
+const FOOTNOTE_GAP = 12;
+const LINE_SPACING = 1.35;
+const LIST_INDENT = 16;
+const QUOTE_INDENT = 14;
+const CELL_PADDING = 4;
+
+const HEADING_SIZES = [16, 14, 12.5, 11.5, 11, 10.5];
+
+type FontFamily = 'helvetica' | 'courier';
+type FontStyle = 'normal' | 'bold' | 'italic' | 'bolditalic';
+
+interface Fragment {
+  text: string;
+  x: number;
+  width: number;
+  font: FontFamily;
+  style: FontStyle;
+  size: number;
+  rise: number;
+  href?: string;
+  color?: string;
+}
+
+interface Line {
+  fragments: Fragment[];
+  height: number;
+  footnotes: number[];
+}
+
+interface TextOptions {
+  size?: number;
+  bold?: boolean;
+  italic?: boolean;
+  color?: string;
+}
+
+const REPLACEMENTS: Record<string, string> = {
+  '‘': "'",
+  '’': "'",
+  '“': '"',
+  '”': '"',
+  '–': '-',
+  '—': '-',
+  '…': '...',
+  '•': '-',
+  '→': '->',
+  '←': '<-',
+  '≠': '!=',
+  '≤': '<=',
+  '≥': '>=',
+};
+
+/**
+ * The built-in PDF fonts only cover Latin-1, so typographic punctuation is
+ * folded to ASCII and anything else outside the range is replaced.
+ */
+const toPdfText = (text: string) =>
+  text.replace(/[^\x00-\xff]/g, (char) => REPLACEMENTS[char] ?? '?');
+
+const toFontStyle = (bold?: boolean, italic?: boolean): FontStyle =>
+  bold && italic ? 'bolditalic' : bold ? 'bold' : italic ? 'italic' : 'normal';
+
+class PdfWriter {
+  readonly doc = new jsPDF({ unit: 'pt', format: 'a4' });
+  private readonly pageWidth = this.doc.internal.pageSize.getWidth();
+  private readonly pageHeight = this.doc.internal.pageSize.getHeight();
+  private readonly contentTop = MARGIN + HEADER_HEIGHT;
+  private readonly contentBottom = this.pageHeight - MARGIN - FOOTER_HEIGHT;
+  readonly contentWidth = this.pageWidth - MARGIN * 2;
+
+  private y = this.contentTop;
+  private readonly footnotes: Map<number, ChatExportFootnote>;
+  private readonly placedFootnotes = new Set<number>();
+  private pageFootnotes: ChatExportFootnote[] = [];
+  private pageFootnoteHeight = 0;
+
+  constructor(private readonly document: ChatExportDocument) {
+    this.footnotes = new Map(
+      document.footnotes.map((footnote) => [footnote.id, footnote]),
+    );
+  }
+
+  private get accent() {
+    return this.document.branding.accentColor;
+  }
+
+  private setFont(font: FontFamily, style: FontStyle, size: number) {
+    this.doc.setFont(font, style);
+    this.doc.setFontSize(size);
+  }
+
+  private measure(
+    text: string,
+    font: FontFamily,
+    style: FontStyle,
+    size: number,
+  ) {
+    this.setFont(font, style, size);
+    return this.doc.getTextWidth(text);
+  }
+
+  private footnoteText(footnote: ChatExportFootnote) {
+    return toPdfText(
+      footnote.url ? `${footnote.title}, ${footnote.url}` : footnote.title,
+    );
+  }
+
+  private footnoteHeight(footnote: ChatExportFootnote) {
+    this.setFont('helvetica', 'normal', FOOTNOTE_SIZE);
+    const lines = this.doc.splitTextToSize(
+      this.footnoteText(footnote),
+      this.contentWidth - 14,
+    ) as string[];
+    return lines.length * FOOTNOTE_LINE_HEIGHT + 2;
+  }
+
+  private bottomLimit(extraFootnoteHeight = 0) {
+    const reserved = this.pageFootnoteHeight + extraFootnoteHeight;
+    return this.contentBottom - (reserved > 0 ? reserved + FOOTNOTE_GAP : 0);
+  }
+
+  private flushFootnotes() {
+    if (this.pageFootnotes.length === 0) {
+      return;
+    }
+
+    let y = this.contentBottom - this.pageFootnoteHeight;
+    this.doc.setDrawColor('#999999');
+    this.doc.setLineWidth(0.5);
+    this.doc.line(MARGIN, y - 6, MARGIN + 120, y - 6);
+
+    for (const footnote of this.pageFootnotes) {
+      this.setFont('helvetica', 'normal', FOOTNOTE_SIZE);
+      this.doc.setTextColor('#333333');
+      const lines = this.doc.splitTextToSize(
+        this.footnoteText(footnote),
+        this.contentWidth - 14,
+      ) as string[];
+
+      this.doc.text(String(footnote.id), MARGIN, y + FOOTNOTE_SIZE);
+      lines.forEach((line, index) => {
+        this.doc.text(
+          line,
+          MARGIN + 14,
+          y + FOOTNOTE_SIZE + index * FOOTNOTE_LINE_HEIGHT,
+        );
+      });
+      if (footnote.url) {
+        this.doc.link(
+          MARGIN + 14,
+          y,
+          this.contentWidth - 14,
+          lines.length * FOOTNOTE_LINE_HEIGHT,
+          {
+            url: footnote.url,
+          },
+        );
+      }
+      y += lines.length * FOOTNOTE_LINE_HEIGHT + 2;
+    }
+
+    this.pageFootnotes = [];
+    this.pageFootnoteHeight = 0;
+  }
+
+  newPage() {
+    this.flushFootnotes();
+    this.doc.addPage();
+    this.y = this.contentTop;
+  }
+
+  space(height: number) {
+    this.y += height;
+  }
+
+  /** Greedy word wrap over styled runs; footnote refs become superscripts. */
+  layout(
+    inlines: ExportInline[],
+    width: number,
+    options: TextOptions & { font?: FontFamily } = {},
+  ): Line[] {
+    const size = options.size ?? BODY_SIZE;
+    const lineHeight = size * LINE_SPACING;
+    const lines: Line[] = [];
+    let current: Line = { fragments: [], height: lineHeight, footnotes: [] };
+    let x = 0;
+    let pendingSpace = 0;
+
+    const pushLine = () => {
+      lines.push(current);
+      current = { fragments: [], height: lineHeight, footnotes: [] };
+      x = 0;
+      pendingSpace = 0;
+    };
+
+    const place = (fragment: Omit<Fragment, 'x'>) => {
+      if (
+        current.fragments.length > 0 &&
+        x + pendingSpace + fragment.width > width
+      ) {
+        pushLine();
+      }
+      // Keep the space in the drawn text so copied text stays readable.
+      const spaced = current.fragments.length > 0 && pendingSpace > 0;
+      current.fragments.push({
+        ...fragment,
+        text: spaced ? ` ${fragment.text}` : fragment.text,
+        width: fragment.width + (spaced ? pendingSpace : 0),
+        x,
+      });
+      x += fragment.width + (spaced ? pendingSpace : 0);
+      pendingSpace = 0;
+    };
+
+    for (const inline of inlines) {
+      if (inline.type === 'break') {
+        pushLine();
+        continue;
+      }
+
+      if (inline.type === 'footnote') {
+        const text = String(inline.id);
+        const footnoteSize = size * 0.7;
+        const fragmentWidth = this.measure(
+          text,
+          'helvetica',
+          'normal',
+          footnoteSize,
+        );
+        if (current.fragments.length > 0 && x + fragmentWidth > width) {
+          pushLine();
+        }
+        current.fragments.push({
+          text,
+          x,
+          width: fragmentWidth,
+          font: 'helvetica',
+          style: 'normal',
+          size: footnoteSize,
+          rise: size * 0.35,
+          color: this.accent,
+        });
+        current.footnotes.push(inline.id);
+        x += fragmentWidth;
+        continue;
+      }
+
+      const font: FontFamily = inline.code
+        ? 'courier'
+        : options.font ?? 'helvetica';
+      const style = toFontStyle(
+        inline.bold || options.bold,
+        inline.italic || options.italic,
+      );
+      const spaceWidth = this.measure(' ', font, style, size);
+
+      for (const piece of toPdfText(inline.text).split(/(\s+)/)) {
+        if (!piece) {
+          continue;
+        }
+        if (/^\s+$/.test(piece)) {
+          if (piece.includes('\n')) {
+            pushLine();
+          } else if (current.fragments.length > 0) {
+            pendingSpace += spaceWidth;
+          }
+          continue;
+        }
+
+        let word = piece;
+        let wordWidth = this.measure(word, font, style, size);
+
+        // Break words longer than a whole line (long URLs) character by character.
+        while (wordWidth > width && word.length > 1) {
+          let cut = word.length - 1;
+          while (
+            cut > 1 &&
+            this.measure(word.slice(0, cut), font, style, size) >
+              width - x - pendingSpace
+          ) {
+            cut -= 1;
+          }
+          place({
+            text: word.slice(0, cut),
+            width: this.measure(word.slice(0, cut), font, style, size),
+            font,
+            style,
+            size,
+            rise: 0,
+            href: inline.href,
+            color: inline.href ? this.accent : options.color,
+          });
+          pushLine();
+          word = word.slice(cut);
+          wordWidth = this.measure(word, font, style, size);
+        }
+
+        place({
+          text: word,
+          width: wordWidth,
+          font,
+          style,
+          size,
+          rise: 0,
+          href: inline.href,
+          color: inline.href ? this.accent : options.color,
+        });
+      }
+    }
+
+    if (current.fragments.length > 0 || lines.length === 0) {
+      lines.push(current);
+    }
+
+    return lines;
+  }
+
+  private reserveFootnotes(ids: number[]) {
+    const fresh = ids
+      .filter((id) => !this.placedFootnotes.has(id))
+      .map((id) => this.footnotes.get(id))
+      .filter((footnote): footnote is ChatExportFootnote => Boolean(footnote));
+    const unique = Array.from(new Set(fresh));
+    return {
+      footnotes: unique,
+      height: unique.reduce(
+        (acc, footnote) => acc + this.footnoteHeight(footnote),
+        0,
+      ),
+    };
+  }
+
+  private commitFootnotes(footnotes: ChatExportFootnote[], height: number) {
+    footnotes.forEach((footnote) => this.placedFootnotes.add(footnote.id));
+    this.pageFootnotes.push(...footnotes);
+    this.pageFootnoteHeight += height;
+  }
+
+  private drawLine(line: Line, x: number, baseline: number) {
+    for (const fragment of line.fragments) {
+      this.setFont(fragment.font, fragment.style, fragment.size);
+      this.doc.setTextColor(fragment.color ?? '#1a1a1a');
+      this.doc.text(fragment.text, x + fragment.x, baseline - fragment.rise);
+      if (fragment.href) {
+        this.doc.link(
+          x + fragment.x,
+          baseline - fragment.size,
+          fragment.width,
+          fragment.size * 1.2,
+          {
+            url: fragment.href,
+          },
+        );
+      }
+    }
+  }
+
+  /**
+   * Writes wrapped lines, moving to a new page when a line and the footnotes
+   * it introduces no longer fit above the page's footnote area.
+   */
+  writeLines(
+    lines: Line[],
+    x: number,
+    decorate?: (top: number, line: Line) => void,
+  ) {
+    for (const line of lines) {
+      const pending = this.reserveFootnotes(line.footnotes);
+      if (
+        this.y + line.height > this.bottomLimit(pending.height) &&
+        this.y > this.contentTop
+      ) {
+        this.newPage();
+      }
+      this.commitFootnotes(pending.footnotes, pending.height);
+      decorate?.(this.y, line);
+      this.drawLine(line, x, this.y + line.height * 0.78);
+      this.y += line.height;
+    }
+  }
+
+  text(
+    inlines: ExportInline[],
+    options: TextOptions & { indent?: number; font?: FontFamily } = {},
+  ) {
+    const indent = options.indent ?? 0;
+    this.writeLines(
+      this.layout(inlines, this.contentWidth - indent, options),
+      MARGIN + indent,
+    );
+  }
+
+  blocks(blocks: ExportBlock[], indent = 0) {
+    for (const block of blocks) {
+      switch (block.type) {
+        case 'heading':
+          this.space(8);
+          this.text(block.content, {
+            indent,
+            bold: true,
+            size: HEADING_SIZES[Math.min(block.level, 6) - 1],
+            color: this.accent,
+          });
+          this.space(4);
+          break;
+        case 'paragraph':
+          this.text(block.content, { indent });
+          this.space(6);
+          break;
+        case 'list':
+          this.list(block, indent);
+          this.space(4);
+          break;
+        case 'quote':
+          this.quote(block.blocks, indent);
+          break;
+        case 'code':
+          this.code(block.text, indent);
+          this.space(6);
+          break;
+        case 'table':
+          this.table(block.header, block.rows, indent);
+          this.space(8);
+          break;
+        case 'rule':
+          this.ensure(10);
+          this.doc.setDrawColor(this.accent);
+          this.doc.setLineWidth(0.75);
+          this.doc.line(
+            MARGIN + indent,
+            this.y + 4,
+            MARGIN + this.contentWidth,
+            this.y + 4,
+          );
+          this.space(10);
+          break;
+      }
+    }
+  }
+
+  ensure(height: number) {
+    if (this.y + height > this.bottomLimit() && this.y > this.contentTop) {
+      this.newPage();
+    }
+  }
+
+  private list(block: Extract<ExportBlock, { type: 'list' }>, indent: number) {
+    block.items.forEach((item, index) => {
+      const marker = block.ordered ? `${block.start + index}.` : '-';
+      const [first, ...rest] = item;
+      const contentIndent = indent + LIST_INDENT;
+
+      if (first?.type === 'paragraph') {
+        const lines = this.layout(
+          first.content,
+          this.contentWidth - contentIndent,
+        );
+        this.writeLines(lines, MARGIN + contentIndent, (top, line) => {
+          if (line === lines[0]) {
+            this.setFont('helvetica', 'normal', BODY_SIZE);
+            this.doc.setTextColor('#1a1a1a');
+            this.doc.text(
+              marker,
+              MARGIN + indent + 2,
+              top + line.height * 0.78,
+            );
+          }
+        });
+        this.space(2);
+        this.blocks(rest, contentIndent);
+      } else {
+        this.blocks(item, contentIndent);
+      }
+    });
+  }
+
+  private quote(blocks: ExportBlock[], indent: number) {
+    const barX = MARGIN + indent + 3;
+    for (const block of blocks) {
+      if (block.type !== 'paragraph') {
+        this.blocks([block], indent + QUOTE_INDENT);
+        continue;
+      }
+      const lines = this.layout(
+        block.content,
+        this.contentWidth - indent - QUOTE_INDENT,
+        {
+          italic: true,
+          color: '#444444',
+        },
+      );
+      this.writeLines(lines, MARGIN + indent + QUOTE_INDENT, (top, line) => {
+        this.doc.setDrawColor('#cccccc');
+        this.doc.setLineWidth(2);
+        this.doc.line(barX, top, barX, top + line.height);
+      });
+      this.space(6);
+    }
+  }
+
+  private code(text: string, indent: number) {
+    const size = 8.5;
+    const lines = text.split('\n').flatMap((line) =>
+      this.layout(
+        [{ type: 'text', text: line || ' ', code: true }],
+        this.contentWidth - indent - 8,
+        {
+          size,
+        },
+      ),
+    );
+    this.writeLines(lines, MARGIN + indent + 4, (top, line) => {
+      this.doc.setFillColor('#f6f8fa');
+      this.doc.rect(
+        MARGIN + indent,
+        top,
+        this.contentWidth - indent,
+        line.height,
+        'F',
+      );
+    });
+  }
+
+  private table(
+    header: ExportInline[][],
+    rows: ExportInline[][][],
+    indent: number,
+  ) {
+    const columnCount = Math.max(
+      header.length,
+      ...rows.map((row) => row.length),
+    );
+    if (columnCount === 0) {
+      return;
+    }
+
+    const width = this.contentWidth - indent;
+    const columnWidth = width / columnCount;
+    const size = 9;
+
+    const drawRow = (cells: ExportInline[][], isHeader: boolean) => {
+      const laidOut = Array.from({ length: columnCount }, (_, index) =>
+        this.layout(cells[index] ?? [], columnWidth - CELL_PADDING * 2, {
+          size,
+          bold: isHeader,
+        }),
+      );
+      const height =
+        Math.max(
+          ...laidOut.map((lines) =>
+            lines.reduce((acc, line) => acc + line.height, 0),
+          ),
+        ) +
+        CELL_PADDING * 2;
+      const pending = this.reserveFootnotes(
+        laidOut.flatMap((lines) => lines.flatMap((line) => line.footnotes)),
+      );
+
+      if (
+        this.y + height > this.bottomLimit(pending.height) &&
+        this.y > this.contentTop
+      ) {
+        this.newPage();
+      }
+      this.commitFootnotes(pending.footnotes, pending.height);
+
+      laidOut.forEach((lines, index) => {
+        const cellX = MARGIN + indent + index * columnWidth;
+        if (isHeader) {
+          this.doc.setFillColor('#f0f0f0');
+          this.doc.rect(cellX, this.y, columnWidth, height, 'F');
+        }
+        this.doc.setDrawColor('#cccccc');
+        this.doc.setLineWidth(0.5);
+        this.doc.rect(cellX, this.y, columnWidth, height, 'S');
+
+        let lineTop = this.y + CELL_PADDING;
+        for (const line of lines) {
+          this.drawLine(
+            line,
+            cellX + CELL_PADDING,
+            lineTop + line.height * 0.78,
+          );
+          lineTop += line.height;
+        }
+      });
+
+      this.y += height;
+    };
+
+    drawRow(header, true);
+    rows.forEach((row) => drawRow(row, false));
+  }
+
+  /** Draws branding on every page once the page count is known. */
+  finish(logo: ExportLogo | null) {
+    this.flushFootnotes();
+
+    const { branding } = this.document;
+    const pageCount = this.doc.getNumberOfPages();
+
+    for (let page = 1; page <= pageCount; page += 1) {
+      this.doc.setPage(page);
+
+      let textX = MARGIN;
+      if (logo) {
+        const logoWidth = (logo.width / logo.height) * LOGO_HEIGHT;
+        this.doc.addImage(
+          new Uint8Array(logo.data),
+          logo.type === 'png' ? 'PNG' : 'JPEG',
+          MARGIN,
+          MARGIN - 8,
+          logoWidth,
+          LOGO_HEIGHT,
+        );
+        textX += logoWidth + 8;
+      }
+
+      this.setFont('helvetica', 'bold', 10);
+      this.doc.setTextColor('#1a1a1a');
+      this.doc.text(toPdfText(branding.firmName), textX, MARGIN + 8);
+
+      if (branding.headerText) {
+        this.setFont('helvetica', 'normal', 8);
+        this.doc.setTextColor('#555555');
+        this.doc.text(
+          toPdfText(branding.headerText),
+          MARGIN + this.contentWidth,
+          MARGIN + 8,
+          {
+            align: 'right',
+          },
+        );
+      }
+
+      this.doc.setDrawColor(this.accent);
+      this.doc.setLineWidth(1.5);
+      this.doc.line(
+        MARGIN,
+        MARGIN + 18,
+        MARGIN + this.contentWidth,
+        MARGIN + 18,
+      );
+
+      const footerY = this.pageHeight - MARGIN;
+      this.doc.setDrawColor('#dddddd');
+      this.doc.setLineWidth(0.5);
+      this.doc.line(
+        MARGIN,
+        footerY - 12,
+        MARGIN + this.contentWidth,
+        footerY - 12,
+      );
+      this.setFont('helvetica', 'normal', 8);
+      this.doc.setTextColor('#555555');
+      if (branding.footerText) {
+        this.doc.text(toPdfText(branding.footerText), MARGIN, footerY);
+      }
+      this.doc.text(
+        `Page ${page} of ${pageCount}`,
+        MARGIN + this.contentWidth,
+        footerY,
+        {
+          align: 'right',
+        },
+      );
+    }
+  }
+}
+
+export const renderChatPdf = (
+  document: ChatExportDocument,
+  logo: ExportLogo | null,
+): Buffer => {
+  const writer = new PdfWriter(document);
+  const { branding } = document;
+
+  writer.text([{ type: 'text', text: document.title, bold: true }], {
+    size: 20,
+  });
+  writer.text(
+    [
+      {
+        type: 'text',
+        text: `Exported ${format(document.exportedAt, 'PPP p')}`,
+      },
+    ],
+    { size: 9, color: '#666666' },
+  );
+  writer.space(12);
+
+  document.exchanges.forEach((exchange, index) => {
+    writer.ensure(60);
+    writer.text([{ type: 'text', text: `Question ${index + 1}` }], {
+      size: 14,
+      bold: true,
+      color: branding.accentColor,
+    });
+    writer.text([{ type: 'text', text: format(exchange.askedAt, 'PPP p') }], {
+      size: 8.5,
+      color: '#666666',
+    });
+    writer.space(4);
+    writer.blocks([
+      {
+        type: 'quote',
+        blocks: [
+          {
+            type: 'paragraph',
+            content: [{ type: 'text', text: exchange.question }],
+          },
+        ],
+      },
+    ]);
+    writer.space(4);
+    writer.blocks(exchange.blocks);
+    writer.space(10);
+  });
+
+  if (branding.disclaimer) {
+    writer.blocks([{ type: 'rule' }]);
+    writer.text([{ type: 'text', text: branding.disclaimer, italic: true }], {
+      size: 8.5,
+      color: '#555555',
+    });
+  }
+
+  writer.finish(logo);
+
+  return Buffer.from(writer.doc.output('arraybuffer'));
+};
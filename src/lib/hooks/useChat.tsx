@@ -34,6 +34,16 @@ import {
   isYoutubeFocusEnabled,
 } from '../config/features';
 import { generateHexId } from '@/lib/utils/random';
+import { linkCitations, stripCitations } from '@/lib/utils/citations';
+import {
+  PENDING_BRANCH,
+  branchKey,
+  getBranchSiblings,
+  resolveActiveBranch,
+  type BranchSelection,
+} from '@/lib/utils/branches';
+import type { ResearchProgress } from '@/lib/types/research';
+import type { McpToolCall } from '@/lib/types/mcp';
 
 export type Section = {
   userMessage: UserMessage;
@@ -43,6 +53,17 @@ export type Section = {
   sourceMessage: SourceMessage | undefined;
   thinkingEnded: boolean;
   suggestions?: string[];
+  /** Ids of every version of this question, oldest first. */
+  questionVersions: string[];
+  /** Ids of every answer generated for this question, oldest first. */
+  answerVersions: string[];
+};
+
+export type SendMessageOptions = {
+  /** Asks for another answer to this existing question. */
+  regenerateFor?: string;
+  /** Answer the question follows; defaults to the end of the shown branch. */
+  parentMessageId?: string | null;
 };
 
 type ChatContext = {
@@ -60,6 +81,8 @@ type ChatContext = {
   loading: boolean;
   notFound: boolean;
   messageAppeared: boolean;
+  researchProgress: ResearchProgress[];
+  toolCalls: McpToolCall[];
   isReady: boolean;
   hasError: boolean;
   chatModelProvider: ChatModelProvider;
@@ -68,12 +91,10 @@ type ChatContext = {
   setFocusMode: (mode: string) => void;
   setFiles: Dispatch<SetStateAction<File[]>>;
   setFileIds: Dispatch<SetStateAction<string[]>>;
-  sendMessage: (
-    message: string,
-    messageId?: string,
-    rewrite?: boolean,
-  ) => Promise<void>;
+  sendMessage: (message: string, options?: SendMessageOptions) => Promise<void>;
   rewrite: (messageId: string) => void;
+  editMessage: (messageId: string, content: string) => void;
+  selectBranch: (messageId: string) => void;
   setChatModelProvider: (provider: ChatModelProvider) => void;
   setEmbeddingModelProvider: (provider: EmbeddingModelProvider) => void;
 };
@@ -105,6 +126,12 @@ interface EmbeddingModelProvider {
   providerId: string;
 }
 
+const toChatHistory = (turns: ChatTurn[]) =>
+  turns.map((msg) => [
+    msg.role === 'user' ? 'human' : 'assistant',
+    msg.content,
+  ]) as [string, string][];
+
 const checkConfig = async (
   setChatModelProvider: (provider: ChatModelProvider) => void,
   setEmbeddingModelProvider: (provider: EmbeddingModelProvider) => void,
@@ -212,7 +239,6 @@ const loadMessages = async (
   chatId: string,
   setMessages: (messages: Message[]) => void,
   setIsMessagesLoaded: (loaded: boolean) => void,
-  setChatHistory: (history: [string, string][]) => void,
   setFocusMode: (mode: string) => void,
   setNotFound: (notFound: boolean) => void,
   setFiles: (files: File[]) => void,
@@ -237,18 +263,14 @@ const loadMessages = async (
 
   setMessages(messages);
 
-  const chatTurns = messages.filter(
-    (msg): msg is ChatTurn => msg.role === 'user' || msg.role === 'assistant',
-  );
-
-  const history = chatTurns.map((msg) => {
-    return [msg.role, msg.content];
-  }) as [string, string][];
-
   console.debug(new Date(), 'app:messages_loaded');
 
-  if (chatTurns.length > 0) {
-    document.title = chatTurns[0].content;
+  const firstQuestion = messages.find(
+    (msg): msg is UserMessage => msg.role === 'user',
+  );
+
+  if (firstQuestion) {
+    document.title = firstQuestion.content;
   }
 
   const loadedFiles = (data.chat.files ?? []).map((file: any) => {
@@ -282,7 +304,6 @@ const loadMessages = async (
 
   setFileIds(existingFileIds);
 
-  setChatHistory(history);
   setFocusMode(data.chat.focusMode);
   setIsMessagesLoaded(true);
 };
@@ -299,6 +320,8 @@ export const chatContext = createContext<ChatContext>({
   isReady: false,
   loading: false,
   messageAppeared: false,
+  researchProgress: [],
+  toolCalls: [],
   messages: [],
   chatTurns: [],
   sections: [],
@@ -307,6 +330,8 @@ export const chatContext = createContext<ChatContext>({
   chatModelProvider: { key: '', providerId: '' },
   embeddingModelProvider: { key: '', providerId: '' },
   rewrite: () => {},
+  editMessage: () => {},
+  selectBranch: () => {},
   sendMessage: async () => {},
   setFileIds: (() => {
     /* noop */
@@ -327,6 +352,8 @@ export const ChatProvider = ({ children }: { children: React.ReactNode }) => {
   const initialMessageParam =
     searchParams.get('q') ?? searchParams.get('initial');
   const initialMessage = initialMessageParam?.trim() ?? null;
+  // New chats started from a project page carry the project in the URL.
+  const projectParam = searchParams.get('project')?.trim() || null;
   const focusParamRaw = searchParams.get('focus');
   const focusParam = focusParamRaw?.trim() ?? null;
   const autoAttachParam = searchParams.get('autoAttach');
@@ -365,9 +392,14 @@ export const ChatProvider = ({ children }: { children: React.ReactNode }) => {
 
   const [loading, setLoading] = useState(false);
   const [messageAppeared, setMessageAppeared] = useState(false);
+  const [researchProgress, setResearchProgress] = useState<
+    ResearchProgress[]
+  >([]);
+  const [toolCalls, setToolCalls] = useState<McpToolCall[]>([]);
 
-  const [chatHistory, setChatHistory] = useState<[string, string][]>([]);
-  const [messages, setMessages] = useState<Message[]>([]);
+  // Every version of every message; `messages` is the branch on screen.
+  const [messageTree, setMessageTree] = useState<Message[]>([]);
+  const [branchSelection, setBranchSelection] = useState<BranchSelection>({});
 
   const [files, setFiles] = useState<File[]>([]);
   const [fileIds, setFileIds] = useState<string[]>([]);
@@ -403,12 +435,19 @@ export const ChatProvider = ({ children }: { children: React.ReactNode }) => {
   const initialFocusAppliedRef = useRef(false);
   const autoAttachTriggeredRef = useRef(false);
 
+  const messages = useMemo(
+    () => resolveActiveBranch(messageTree, branchSelection),
+    [messageTree, branchSelection],
+  );
+
   const chatTurns = useMemo((): ChatTurn[] => {
     return messages.filter(
       (msg): msg is ChatTurn => msg.role === 'user' || msg.role === 'assistant',
     );
   }, [messages]);
 
+  const chatHistory = useMemo(() => toChatHistory(chatTurns), [chatTurns]);
+
   const sections = useMemo<Section[]>(() => {
     const sections: Section[] = [];
 
@@ -439,9 +478,6 @@ export const ChatProvider = ({ children }: { children: React.ReactNode }) => {
         let suggestions: string[] = [];
 
         if (aiMessage) {
-          const citationRegex = /\[([^\]]+)\]/g;
-          const regex = /\[(\d+)\]/g;
-
           if (processedMessage.includes('<think>')) {
             const openThinkTag =
               processedMessage.match(/<think>/g)?.length || 0;
@@ -457,45 +493,11 @@ export const ChatProvider = ({ children }: { children: React.ReactNode }) => {
             thinkingEnded = true;
           }
 
-          if (
-            sourceMessage &&
-            sourceMessage.sources &&
-            sourceMessage.sources.length > 0
-          ) {
-            processedMessage = processedMessage.replace(
-              citationRegex,
-              (_, capturedContent: string) => {
-                const numbers = capturedContent
-                  .split(',')
-                  .map((numStr) => numStr.trim());
-
-                const linksHtml = numbers
-                  .map((numStr) => {
-                    const number = parseInt(numStr);
-
-                    if (isNaN(number) || number <= 0) {
-                      return `[${numStr}]`;
-                    }
-
-                    const source = sourceMessage.sources?.[number - 1];
-                    const url = source?.metadata?.url;
-
-                    if (url) {
-                      return `<citation href="${url}">${numStr}</citation>`;
-                    } else {
-                      return ``;
-                    }
-                  })
-                  .join('');
-
-                return linksHtml;
-              },
-            );
-            speechMessage = aiMessage.content.replace(regex, '');
-          } else {
-            processedMessage = processedMessage.replace(regex, '');
-            speechMessage = aiMessage.content.replace(regex, '');
-          }
+          processedMessage = linkCitations(
+            processedMessage,
+            sourceMessage?.sources,
+          );
+          speechMessage = stripCitations(aiMessage.content);
 
           const suggestionMessage = messages.find(
             (m, j) =>
@@ -517,12 +519,20 @@ export const ChatProvider = ({ children }: { children: React.ReactNode }) => {
           speechMessage,
           thinkingEnded,
           suggestions: suggestions,
+          questionVersions: getBranchSiblings(messageTree, msg).map(
+            (version) => version.messageId,
+          ),
+          answerVersions: aiMessage
+            ? getBranchSiblings(messageTree, aiMessage).map(
+                (version) => version.messageId,
+              )
+            : [],
         });
       }
     });
 
     return sections;
-  }, [messages]);
+  }, [messages, messageTree]);
 
   useEffect(() => {
     if (!session) {
@@ -580,8 +590,8 @@ export const ChatProvider = ({ children }: { children: React.ReactNode }) => {
   useEffect(() => {
     if (params.chatId && params.chatId !== chatId) {
       setChatId(params.chatId);
-      setMessages([]);
-      setChatHistory([]);
+      setMessageTree([]);
+      setBranchSelection({});
       setFiles([]);
       setFileIds([]);
       setIsMessagesLoaded(false);
@@ -612,13 +622,12 @@ export const ChatProvider = ({ children }: { children: React.ReactNode }) => {
       chatId &&
       !newChatCreated &&
       !isMessagesLoaded &&
-      messages.length === 0
+      messageTree.length === 0
     ) {
       loadMessages(
         chatId,
-        setMessages,
+        setMessageTree,
         setIsMessagesLoaded,
-        setChatHistory,
         setFocusMode,
         setNotFound,
         setFiles,
@@ -630,7 +639,7 @@ export const ChatProvider = ({ children }: { children: React.ReactNode }) => {
       setChatId(generateHexId(20));
     }
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [chatId, isMessagesLoaded, newChatCreated, messages.length]);
+  }, [chatId, isMessagesLoaded, newChatCreated, messageTree.length]);
 
   useEffect(() => {
     messagesRef.current = messages;
@@ -668,25 +677,45 @@ export const ChatProvider = ({ children }: { children: React.ReactNode }) => {
   }, [shouldAutoAttach, isReady, messages.length]);
 
   const rewrite = (messageId: string) => {
-    const index = messages.findIndex((msg) => msg.messageId === messageId);
-    const chatTurnsIndex = chatTurns.findIndex(
-      (msg) => msg.messageId === messageId,
+    const answer = chatTurns.find(
+      (msg) => msg.messageId === messageId && msg.role === 'assistant',
     );
+    const question = chatTurns.find(
+      (msg) => msg.role === 'user' && msg.messageId === answer?.parentMessageId,
+    );
+
+    if (!question) return;
 
-    if (index === -1) return;
+    sendMessage(question.content, { regenerateFor: question.messageId });
+  };
 
-    const message = chatTurns[chatTurnsIndex - 1];
+  const editMessage = (messageId: string, content: string) => {
+    const question = chatTurns.find(
+      (msg) => msg.messageId === messageId && msg.role === 'user',
+    );
+    const edited = content.trim();
 
-    setMessages((prev) => {
-      return [
-        ...prev.slice(0, messages.length > 2 ? messages.indexOf(message) : 0),
-      ];
-    });
-    setChatHistory((prev) => {
-      return [...prev.slice(0, chatTurns.length > 2 ? chatTurnsIndex - 1 : 0)];
-    });
+    if (!question || !edited || edited === question.content) return;
 
-    sendMessage(message.content, message.messageId, true);
+    // The edit becomes a sibling of the original question, which is kept.
+    sendMessage(edited, { parentMessageId: question.parentMessageId ?? null });
+  };
+
+  const selectBranch = (messageId: string) => {
+    if (loading) return;
+
+    const message = messageTree.find(
+      (msg) =>
+        msg.messageId === messageId &&
+        (msg.role === 'user' || msg.role === 'assistant'),
+    );
+
+    if (!message) return;
+
+    setBranchSelection((prev) => ({
+      ...prev,
+      [branchKey(message.parentMessageId)]: messageId,
+    }));
   };
 
   useEffect(() => {
@@ -702,8 +731,7 @@ export const ChatProvider = ({ children }: { children: React.ReactNode }) => {
 
   const sendMessage: ChatContext['sendMessage'] = async (
     message,
-    messageId,
-    rewrite = false,
+    options = {},
   ) => {
     if (loading || !message) return;
 
@@ -714,6 +742,8 @@ export const ChatProvider = ({ children }: { children: React.ReactNode }) => {
 
     setLoading(true);
     setMessageAppeared(false);
+    setResearchProgress([]);
+    setToolCalls([]);
 
     if (
       !isConfigReady ||
@@ -730,25 +760,96 @@ export const ChatProvider = ({ children }: { children: React.ReactNode }) => {
     }
 
     let recievedMessage = '';
+    let receivedToolCalls: McpToolCall[] = [];
     let added = false;
+    let answerId: string | undefined;
+
+    const regenerating = Boolean(options.regenerateFor);
+    const messageId = options.regenerateFor ?? generateHexId(7);
+    const question = chatTurns.find((msg) => msg.messageId === messageId);
+    const lastAnswer = [...chatTurns]
+      .reverse()
+      .find((msg) => msg.role === 'assistant');
+
+    let parentMessageId = lastAnswer?.messageId ?? null;
+    if (regenerating) {
+      parentMessageId = question?.parentMessageId ?? null;
+    } else if (options.parentMessageId !== undefined) {
+      parentMessageId = options.parentMessageId;
+    }
+    const parentIndex = parentMessageId
+      ? chatTurns.findIndex((msg) => msg.messageId === parentMessageId)
+      : -1;
+    const history = toChatHistory(chatTurns.slice(0, parentIndex + 1));
+
+    // Show the new question, or hide the current answer until its
+    // replacement starts streaming.
+    const selectionKey = branchKey(regenerating ? messageId : parentMessageId);
+    const previousSelection = branchSelection[selectionKey];
+
+    setBranchSelection((prev) => ({
+      ...prev,
+      [selectionKey]: regenerating ? PENDING_BRANCH : messageId,
+    }));
+
+    if (!regenerating) {
+      setMessageTree((prevMessages) => [
+        ...prevMessages,
+        {
+          content: message,
+          messageId: messageId,
+          parentMessageId,
+          chatId: chatId!,
+          role: 'user',
+          createdAt: new Date(),
+        },
+      ]);
+    }
 
-    messageId = messageId ?? generateHexId(7);
+    const restoreSelection = () => {
+      setBranchSelection((prev) => {
+        const next = { ...prev };
+        if (previousSelection === undefined) {
+          delete next[selectionKey];
+        } else {
+          next[selectionKey] = previousSelection;
+        }
+        return next;
+      });
+    };
 
-    setMessages((prevMessages) => [
-      ...prevMessages,
-      {
-        content: message,
-        messageId: messageId,
-        chatId: chatId!,
-        role: 'user',
-        createdAt: new Date(),
-      },
-    ]);
+    const discardQuestion = () => {
+      if (!regenerating) {
+        setMessageTree((prevMessages) =>
+          prevMessages.filter((entry) => entry.messageId !== messageId),
+        );
+      }
+      restoreSelection();
+    };
 
     const messageHandler = async (data: any) => {
       if (data.type === 'error') {
         toast.error(data.data);
+        if (regenerating && !added) {
+          restoreSelection();
+        }
         setLoading(false);
+        setResearchProgress([]);
+        setToolCalls([]);
+        return;
+      }
+
+      if (data.type === 'progress') {
+        setResearchProgress((prev) => [...prev, data.data]);
+        return;
+      }
+
+      if (data.type === 'toolCall' || data.type === 'toolResult') {
+        const call = data.data as McpToolCall;
+        receivedToolCalls = receivedToolCalls.some((c) => c.id === call.id)
+          ? receivedToolCalls.map((c) => (c.id === call.id ? call : c))
+          : [...receivedToolCalls, call];
+        setToolCalls(receivedToolCalls);
         return;
       }
 
@@ -757,10 +858,11 @@ export const ChatProvider = ({ children }: { children: React.ReactNode }) => {
         const sourceMessageId =
           data.messageId ?? generateHexId(7);
 
-        setMessages((prevMessages) => [
+        setMessageTree((prevMessages) => [
           ...prevMessages,
           {
             messageId: sourceMessageId,
+            parentMessageId: data.messageId,
             chatId: chatId!,
             role: 'source',
             sources,
@@ -774,20 +876,27 @@ export const ChatProvider = ({ children }: { children: React.ReactNode }) => {
 
       if (data.type === 'message') {
         if (!added) {
-          setMessages((prevMessages) => [
+          setMessageTree((prevMessages) => [
             ...prevMessages,
             {
               content: data.data,
               messageId: data.messageId,
+              parentMessageId: messageId,
               chatId: chatId!,
               role: 'assistant',
+              toolCalls: receivedToolCalls,
               createdAt: new Date(),
             },
           ]);
+          setBranchSelection((prev) => ({
+            ...prev,
+            [branchKey(messageId)]: data.messageId,
+          }));
+          answerId = data.messageId;
           added = true;
           setMessageAppeared(true);
         } else {
-          setMessages((prev) =>
+          setMessageTree((prev) =>
             prev.map((message) => {
               if (
                 message.messageId === data.messageId &&
@@ -804,17 +913,17 @@ export const ChatProvider = ({ children }: { children: React.ReactNode }) => {
       }
 
       if (data.type === 'messageEnd') {
+        setResearchProgress([]);
+        setToolCalls([]);
+
         if (!added || recievedMessage.trim().length === 0) {
+          if (regenerating && !added) {
+            restoreSelection();
+          }
           setLoading(false);
           return;
         }
 
-        setChatHistory((prevHistory) => [
-          ...prevHistory,
-          ['human', message],
-          ['assistant', recievedMessage],
-        ]);
-
         setLoading(false);
         setFiles([]);
         setFileIds([]);
@@ -853,12 +962,13 @@ export const ChatProvider = ({ children }: { children: React.ReactNode }) => {
           suggestionMessageIndex == -1
         ) {
           const suggestions = await getSuggestions(messagesRef.current);
-          setMessages((prev) => {
+          setMessageTree((prev) => {
             return [
               ...prev,
               {
                 role: 'suggestion',
                 suggestions: suggestions,
+                parentMessageId: answerId,
                 chatId: chatId!,
                 createdAt: new Date(),
                 messageId: generateHexId(7),
@@ -869,8 +979,6 @@ export const ChatProvider = ({ children }: { children: React.ReactNode }) => {
       }
     };
 
-    const messageIndex = messages.findIndex((m) => m.messageId === messageId);
-
     const res = await fetch('/api/chat', {
       method: 'POST',
       headers: {
@@ -880,6 +988,7 @@ export const ChatProvider = ({ children }: { children: React.ReactNode }) => {
         content: message,
         message: {
           messageId: messageId,
+          parentMessageId,
           chatId: chatId!,
           content: message,
         },
@@ -887,9 +996,7 @@ export const ChatProvider = ({ children }: { children: React.ReactNode }) => {
         files: fileIds,
         focusMode: focusMode,
         optimizationMode: optimizationMode,
-        history: rewrite
-          ? chatHistory.slice(0, messageIndex === -1 ? undefined : messageIndex)
-          : chatHistory,
+        history,
         chatModel: {
           key: chatModelProvider.key,
           providerId: chatModelProvider.providerId,
@@ -899,12 +1006,14 @@ export const ChatProvider = ({ children }: { children: React.ReactNode }) => {
           providerId: embeddingModelProvider.providerId,
         },
         systemInstructions: localStorage.getItem('systemInstructions'),
+        projectId: projectParam,
       }),
     });
 
     if (!res.ok) {
       let errorMessage = 'Failed to send message. Please try again.';
       let errorCode: string | undefined;
+      let errorTier: string | undefined;
 
       try {
         const errorData = await res.json();
@@ -914,15 +1023,17 @@ export const ChatProvider = ({ children }: { children: React.ReactNode }) => {
         if (typeof errorData?.code === 'string') {
           errorCode = errorData.code;
         }
+        if (typeof errorData?.tier === 'string') {
+          errorTier = errorData.tier;
+        }
       } catch (error) {
         console.warn('Failed to parse chat API error payload.', error);
       }
 
-      setMessages((prevMessages) =>
-        prevMessages.filter((entry) => entry.messageId !== messageId),
-      );
+      discardQuestion();
       const toastAction =
-        errorCode === 'guest_limit_reached'
+        // Guests hitting any entitlement limit can lift it by signing in.
+        errorCode === 'guest_limit_reached' || errorTier === 'guest'
           ? {
               label: 'Sign in',
               onClick: () => {
@@ -946,9 +1057,7 @@ export const ChatProvider = ({ children }: { children: React.ReactNode }) => {
     }
 
     if (!res.body) {
-      setMessages((prevMessages) =>
-        prevMessages.filter((entry) => entry.messageId !== messageId),
-      );
+      discardQuestion();
       toast.error('The server returned an empty response. Please try again.');
       setLoading(false);
       return;
@@ -996,6 +1105,8 @@ export const ChatProvider = ({ children }: { children: React.ReactNode }) => {
         isReady,
         loading,
         messageAppeared,
+        researchProgress,
+        toolCalls,
         notFound,
         optimizationMode,
         setFileIds,
@@ -1003,6 +1114,8 @@ export const ChatProvider = ({ children }: { children: React.ReactNode }) => {
         setFocusMode,
         setOptimizationMode,
         rewrite,
+        editMessage,
+        selectBranch,
         sendMessage,
         setChatModelProvider,
         chatModelProvider,
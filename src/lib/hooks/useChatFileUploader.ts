@@ -6,14 +6,11 @@ import { authClient } from '@/lib/auth/client';
 import { canUploadFiles } from '@/lib/auth/client-permissions';
 import { useChat, type File as ChatFile } from './useChat';
 import { generateUUID } from '@/lib/utils/random';
-
-const SUPPORTED_EXTENSIONS = ['pdf', 'docx', 'txt'] as const;
-
-const normalizeExtension = (fileName: string) =>
-  fileName.split('.').pop()?.toLowerCase() ?? '';
+import type { UploadedDocument } from '@/lib/utils/uploads';
+import { useIngestionUpload } from './useIngestionUpload';
 
 const buildChatFile = (
-  uploaded: { fileName: string; fileExtension: string; fileId: string },
+  uploaded: UploadedDocument,
   original?: globalThis.File,
 ): ChatFile => ({
   clientId: generateUUID(),
@@ -29,6 +26,7 @@ export const useChatFileUploader = () => {
   const { setFiles, setFileIds } = useChat();
   const { data: session } = authClient.useSession();
   const [isUploading, setIsUploading] = useState(false);
+  const { ingest, progress, progressLabel } = useIngestionUpload();
 
   const role = session?.user.role;
   const isAllowedToUpload = useMemo(
@@ -48,69 +46,35 @@ export const useChatFileUploader = () => {
         return;
       }
 
-      const invalid = files.find((file) => {
-        const ext = normalizeExtension(file.name);
-        return !SUPPORTED_EXTENSIONS.includes(ext as (typeof SUPPORTED_EXTENSIONS)[number]);
-      });
-
-      if (invalid) {
-        toast.error('Only PDF, DOCX, or TXT files are supported.');
-        return;
-      }
-
-      const embeddingProvider = localStorage.getItem('embeddingModelProviderId');
-      const embeddingModelKey = localStorage.getItem('embeddingModelKey');
-
-      if (!embeddingProvider || !embeddingModelKey) {
-        toast.error('Embedding model is not configured. Please choose one in settings.');
-        return;
-      }
-
-      const formData = new FormData();
-      files.forEach((file) => formData.append('files', file));
-      formData.append('embedding_model_provider_id', embeddingProvider);
-      formData.append('embedding_model_key', embeddingModelKey);
-
       setIsUploading(true);
       try {
-        const response = await fetch('/api/uploads', {
-          method: 'POST',
-          body: formData,
-        });
-
-        if (!response.ok) {
-          const errorBody = await response.json().catch(() => ({}));
-          const message =
-            typeof errorBody?.message === 'string'
-              ? errorBody.message
-              : 'Failed to upload files. Please try again.';
-          toast.error(message);
-          return;
-        }
-
-        const payload: {
-          files: Array<{ fileName: string; fileExtension: string; fileId: string }>;
-        } = await response.json();
+        const uploadedFiles = await ingest(files);
 
-        if (!Array.isArray(payload.files) || payload.files.length === 0) {
-          toast.error('Upload did not return any files.');
+        if (!uploadedFiles) {
           return;
         }
 
         setFiles((prev) => [
           ...prev,
-          ...payload.files.map((uploaded, idx) => buildChatFile(uploaded, files[idx])),
+          // ZIP uploads expand into several files, so match originals by name
+          // rather than position.
+          ...uploadedFiles.map((uploaded) =>
+            buildChatFile(
+              uploaded,
+              files.find((file) => file.name === uploaded.fileName),
+            ),
+          ),
         ]);
 
         setFileIds((prev) => [
           ...prev,
-          ...payload.files.map((uploaded) => uploaded.fileId),
+          ...uploadedFiles.map((uploaded) => uploaded.fileId),
         ]);
 
         toast.success(
-          payload.files.length === 1
+          uploadedFiles.length === 1
             ? 'File uploaded successfully.'
-            : `${payload.files.length} files uploaded successfully.`,
+            : `${uploadedFiles.length} files uploaded successfully.`,
         );
       } catch (error) {
         console.error('Failed to upload files', error);
@@ -119,11 +83,13 @@ export const useChatFileUploader = () => {
         setIsUploading(false);
       }
     },
-    [isAllowedToUpload, setFileIds, setFiles],
+    [ingest, isAllowedToUpload, setFileIds, setFiles],
   );
 
   return {
     uploadFiles,
     isUploading,
+    progress,
+    progressLabel,
   } as const;
 };
@@ -5,6 +5,9 @@ import { upload as uploadToVercelBlob } from '@vercel/blob/client';
 import { toast } from 'sonner';
 
 import { getStorageInfoAction } from '@/app/api/storage/actions';
+import type { UploadedDocument } from '@/lib/utils/uploads';
+import type { IngestionProgress } from '@/types/ingestion';
+import { useIngestionUpload } from './useIngestionUpload';
 
 export type StorageType = 'vercel-blob' | 's3' | 'local' | string;
 
@@ -27,7 +30,16 @@ type UploadOptions = {
 
 type UseFileUploadState = {
   upload: (file: File, options?: UploadOptions) => Promise<UploadResult | undefined>;
+  /**
+   * Uploads documents for search and waits until they are processed; only
+   * files that completed are returned.
+   */
+  uploadDocuments: (files: File[]) => Promise<UploadedDocument[] | null>;
   isUploading: boolean;
+  /** Processing progress of the documents being uploaded. */
+  progress: IngestionProgress[];
+  /** A short label such as "Embedding 40%" while documents are processed. */
+  progressLabel: string | null;
   storageType: StorageType | null;
 };
 
@@ -40,6 +52,7 @@ export const useFileUpload = (): UseFileUploadState => {
   const [storageInfo, setStorageInfo] = useState<StorageInfo | null>(null);
   const [loadingStorageInfo, setLoadingStorageInfo] = useState(true);
   const [isUploading, setIsUploading] = useState(false);
+  const ingestion = useIngestionUpload();
 
   useEffect(() => {
     let isMounted = true;
@@ -104,7 +117,8 @@ export const useFileUpload = (): UseFileUploadState => {
           } satisfies UploadResult;
         }
 
-        if (storageInfo?.supportsDirectUpload && storageType === 's3') {
+        // S3 and the local driver both hand out signed URLs to PUT the file to.
+        if (storageInfo?.supportsDirectUpload) {
           const response = await fetch(UPLOAD_URL_ENDPOINT, {
             method: 'POST',
             headers: { 'Content-Type': 'application/json' },
@@ -200,7 +214,10 @@ export const useFileUpload = (): UseFileUploadState => {
 
   return {
     upload,
-    isUploading: isUploading || loadingStorageInfo,
+    uploadDocuments: ingestion.ingest,
+    isUploading: isUploading || loadingStorageInfo || ingestion.isIngesting,
+    progress: ingestion.progress,
+    progressLabel: ingestion.progressLabel,
     storageType,
   };
 };
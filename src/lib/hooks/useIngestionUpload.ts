@@ -0,0 +1,38 @@
+'use client';
+
+import { useCallback, useState } from 'react';
+import {
+  formatIngestionProgress,
+  uploadDocuments,
+  type UploadedDocument,
+} from '@/lib/utils/uploads';
+import type { IngestionProgress } from '@/types/ingestion';
+
+/**
+ * Sends documents for extraction and embedding and follows their processing,
+ * so every upload surface can show the same progress and failures.
+ */
+export const useIngestionUpload = () => {
+  const [isIngesting, setIsIngesting] = useState(false);
+  const [progress, setProgress] = useState<IngestionProgress[]>([]);
+
+  const ingest = useCallback(
+    async (files: globalThis.File[]): Promise<UploadedDocument[] | null> => {
+      setIsIngesting(true);
+      try {
+        return await uploadDocuments(files, { onProgress: setProgress });
+      } finally {
+        setIsIngesting(false);
+        setProgress([]);
+      }
+    },
+    [],
+  );
+
+  return {
+    ingest,
+    isIngesting,
+    progress,
+    progressLabel: isIngesting ? formatIngestionProgress(progress) : null,
+  } as const;
+};
@@ -0,0 +1,39 @@
+import 'server-only';
+
+import { canManageMcpServers } from '@/lib/auth/client-permissions';
+import { isAdminRole } from '@/lib/auth/roles';
+import type {
+  MCPServerClientInfo,
+  MCPServerInfo,
+  McpServerSelect,
+} from '@/lib/types/mcp';
+
+type Actor = { id: string; role?: string | null };
+
+export const canAccessMcpServer = (server: McpServerSelect, actor: Actor) =>
+  server.userId === actor.id || server.visibility === 'public';
+
+/** Owners manage their own servers; admins can manage any server. */
+export const canEditMcpServer = (server: McpServerSelect, actor: Actor) =>
+  isAdminRole(actor.role) ||
+  (server.userId === actor.id && canManageMcpServers(actor.role));
+
+/**
+ * Server configs can carry API keys in headers or env vars, so they are only
+ * returned to users who are allowed to edit the server.
+ */
+export const toClientServerInfo = (
+  info: MCPServerInfo,
+  server: McpServerSelect,
+  actor: Actor,
+): MCPServerClientInfo => {
+  const canEdit = canEditMcpServer(server, actor);
+
+  return {
+    ...info,
+    config: canEdit ? info.config : undefined,
+    authorizationUrl: canEdit ? info.authorizationUrl : undefined,
+    error: info.error ? String(info.error) : undefined,
+    canEdit,
+  };
+};
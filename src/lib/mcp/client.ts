@@ -0,0 +1,315 @@
+import {
+  UnauthorizedError,
+  auth,
+} from '@modelcontextprotocol/sdk/client/auth.js';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { SSEClientTransport } from '@modelcontextprotocol/sdk/client/sse.js';
+import {
+  StdioClientTransport,
+  getDefaultEnvironment,
+} from '@modelcontextprotocol/sdk/client/stdio.js';
+import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import logger from '@/lib/logger';
+import {
+  isMCPStdioConfig,
+  type MCPRemoteConfig,
+  type MCPServerConfig,
+  type MCPServerInfo,
+  type MCPToolInfo,
+} from '@/lib/types/mcp';
+import { PgOAuthClientProvider } from './oauth';
+
+const mcpClientLogger = logger.withDefaults({ tag: 'mcp:client' });
+
+const CLIENT_INFO = { name: 'soraai', version: '1.0.0' };
+const CONNECT_TIMEOUT_MS = 15_000;
+const DEFAULT_TOOL_TIMEOUT_MS = 60_000;
+
+const parseTimeout = (value: string | undefined) => {
+  const parsed = Number(value);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : undefined;
+};
+
+const TOOL_TIMEOUT_MS =
+  parseTimeout(process.env.MCP_MAX_TOTAL_TIMEOUT) ?? DEFAULT_TOOL_TIMEOUT_MS;
+
+export type MCPClientStatus = MCPServerInfo['status'];
+
+/**
+ * A lazily connected client for a single MCP server. Remote servers are tried
+ * over Streamable HTTP first and fall back to the older SSE transport. Remote
+ * servers that require OAuth park in the `authorizing` status until the user
+ * completes the flow in their browser.
+ */
+export class MCPClient {
+  private client: Client | null = null;
+  private connecting: Promise<Client> | null = null;
+  private status: MCPClientStatus = 'disconnected';
+  private error: string | undefined;
+  private tools: MCPToolInfo[] = [];
+  private readonly authProvider: PgOAuthClientProvider | null;
+
+  constructor(
+    readonly id: string,
+    readonly name: string,
+    readonly config: MCPServerConfig,
+  ) {
+    this.authProvider = isMCPStdioConfig(config)
+      ? null
+      : new PgOAuthClientProvider(id, config.url);
+  }
+
+  getInfo(): Pick<MCPServerInfo, 'status' | 'error' | 'toolInfo'> {
+    return {
+      status: this.status,
+      error: this.error,
+      toolInfo: this.tools,
+    };
+  }
+
+  /** The URL the user must visit, while the server waits for authorization. */
+  async getAuthorizationUrl() {
+    return this.status === 'authorizing'
+      ? this.authProvider?.getAuthorizationUrl()
+      : undefined;
+  }
+
+  async connect(): Promise<Client> {
+    if (this.client) {
+      return this.client;
+    }
+
+    // An authorization may be pending from this or another instance; retrying
+    // would replace it with yet another one, so wait for the callback.
+    if (await this.authProvider?.getAuthorizationUrl()) {
+      this.status = 'authorizing';
+      this.error = undefined;
+      throw new UnauthorizedError('Authorization required');
+    }
+
+    if (!this.connecting) {
+      this.connecting = this.openConnection().finally(() => {
+        this.connecting = null;
+      });
+    }
+
+    return this.connecting;
+  }
+
+  private async openConnection() {
+    this.status = 'loading';
+    this.error = undefined;
+
+    try {
+      const client = isMCPStdioConfig(this.config)
+        ? await this.connectStdio(this.config)
+        : await this.connectRemote(this.config);
+
+      client.onclose = () => {
+        if (this.client === client) {
+          this.client = null;
+          this.status = 'disconnected';
+        }
+      };
+
+      this.client = client;
+      this.status = 'connected';
+      await this.refreshTools();
+
+      mcpClientLogger.info('Connected to MCP server.', {
+        serverId: this.id,
+        toolCount: this.tools.length,
+      });
+
+      return client;
+    } catch (error) {
+      if (
+        error instanceof UnauthorizedError &&
+        (await this.authProvider?.getAuthorizationUrl())
+      ) {
+        this.status = 'authorizing';
+        this.error = undefined;
+        mcpClientLogger.info('MCP server requires authorization.', {
+          serverId: this.id,
+        });
+        throw error;
+      }
+
+      this.status = 'disconnected';
+      this.error = error instanceof Error ? error.message : String(error);
+      mcpClientLogger.warn('Failed to connect to MCP server.', {
+        serverId: this.id,
+        error: this.error,
+      });
+      throw error;
+    }
+  }
+
+  private async connectStdio(
+    config: Extract<MCPServerConfig, { command: string }>,
+  ) {
+    const client = new Client(CLIENT_INFO);
+    const transport = new StdioClientTransport({
+      command: config.command,
+      args: config.args ?? [],
+      env: { ...getDefaultEnvironment(), ...(config.env ?? {}) },
+      stderr: 'ignore',
+    });
+
+    await client.connect(transport, { timeout: CONNECT_TIMEOUT_MS });
+    return client;
+  }
+
+  private async connectRemote(config: MCPRemoteConfig) {
+    const url = new URL(config.url);
+    const requestInit: RequestInit = { headers: config.headers ?? {} };
+    const authProvider = this.authProvider ?? undefined;
+
+    try {
+      const client = new Client(CLIENT_INFO);
+      await client.connect(
+        new StreamableHTTPClientTransport(url, { requestInit, authProvider }),
+        { timeout: CONNECT_TIMEOUT_MS },
+      );
+      return client;
+    } catch (error) {
+      if (error instanceof UnauthorizedError) {
+        throw error;
+      }
+
+      mcpClientLogger.debug(
+        'Streamable HTTP connection failed, falling back to SSE.',
+        { serverId: this.id, error },
+      );
+    }
+
+    const client = new Client(CLIENT_INFO);
+    await client.connect(
+      new SSEClientTransport(url, { requestInit, authProvider }),
+      { timeout: CONNECT_TIMEOUT_MS },
+    );
+    return client;
+  }
+
+  async refreshTools() {
+    const client = this.client;
+    if (!client) {
+      return this.tools;
+    }
+
+    const tools: MCPToolInfo[] = [];
+    let cursor: string | undefined;
+
+    do {
+      const page = await client.listTools(cursor ? { cursor } : undefined, {
+        timeout: CONNECT_TIMEOUT_MS,
+      });
+      page.tools.forEach((tool) => {
+        tools.push({
+          name: tool.name,
+          description: tool.description ?? '',
+          inputSchema: tool.inputSchema,
+        });
+      });
+      cursor = page.nextCursor;
+    } while (cursor);
+
+    this.tools = tools;
+    return tools;
+  }
+
+  /**
+   * Refreshes the OAuth access token when it is about to expire so a tool
+   * call does not fail halfway through on a 401.
+   */
+  private async ensureFreshTokens() {
+    if (!this.authProvider || !(await this.authProvider.needsRefresh())) {
+      return;
+    }
+
+    const result = await auth(this.authProvider, {
+      serverUrl: (this.config as MCPRemoteConfig).url,
+    });
+
+    if (result === 'REDIRECT') {
+      await this.disconnect();
+      this.status = 'authorizing';
+      throw new UnauthorizedError('Authorization required');
+    }
+  }
+
+  /** Exchanges the code from the OAuth callback for tokens and reconnects. */
+  async finishAuthorization(authorizationCode: string) {
+    if (!this.authProvider) {
+      throw new Error('This MCP server does not use OAuth.');
+    }
+
+    await auth(this.authProvider, {
+      serverUrl: (this.config as MCPRemoteConfig).url,
+      authorizationCode,
+    });
+
+    await this.disconnect();
+    // Connection failures are reflected in the status reported by getInfo().
+    await this.connect().catch(() => undefined);
+  }
+
+  async callTool(
+    name: string,
+    args: Record<string, unknown>,
+  ): Promise<CallToolResult> {
+    await this.ensureFreshTokens();
+    const client = await this.connect();
+
+    const result = await client.callTool({ name, arguments: args }, undefined, {
+      timeout: TOOL_TIMEOUT_MS,
+      maxTotalTimeout: TOOL_TIMEOUT_MS,
+      resetTimeoutOnProgress: true,
+    });
+
+    return result as CallToolResult;
+  }
+
+  async disconnect() {
+    const client = this.client;
+    this.client = null;
+    this.status = 'disconnected';
+    this.tools = [];
+
+    if (client) {
+      try {
+        await client.close();
+      } catch (error) {
+        mcpClientLogger.warn('Failed to close MCP client.', {
+          serverId: this.id,
+          error,
+        });
+      }
+    }
+  }
+}
+
+/** Flattens a tool result into plain text the model can read. */
+export const formatToolResult = (result: CallToolResult) => {
+  const parts = (result.content ?? []).map((item) => {
+    switch (item.type) {
+      case 'text':
+        return item.text;
+      case 'resource':
+        return 'text' in item.resource
+          ? item.resource.text
+          : `[resource ${item.resource.uri}]`;
+      case 'resource_link':
+        return `[resource ${item.uri}]`;
+      default:
+        return `[${item.type} content omitted]`;
+    }
+  });
+
+  if (parts.length === 0 && result.structuredContent) {
+    parts.push(JSON.stringify(result.structuredContent));
+  }
+
+  return parts.join('\n').trim();
+};
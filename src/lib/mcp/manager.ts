@@ -0,0 +1,86 @@
+import { MCPClient } from './client';
+import type { MCPServerInfo, McpServerSelect } from '@/lib/types/mcp';
+
+declare global {
+  // eslint-disable-next-line no-var
+  var __soraai_mcp_clients__: MCPClientsManager | undefined;
+}
+
+/**
+ * Keeps one client per MCP server for the lifetime of the process so stdio
+ * servers are spawned once and remote sessions are reused across requests.
+ */
+class MCPClientsManager {
+  private clients = new Map<string, MCPClient>();
+
+  getClient(server: McpServerSelect): MCPClient {
+    const existing = this.clients.get(server.id);
+
+    if (
+      existing &&
+      existing.name === server.name &&
+      JSON.stringify(existing.config) === JSON.stringify(server.config)
+    ) {
+      return existing;
+    }
+
+    // The server was renamed or reconfigured since the client was created.
+    void existing?.disconnect();
+
+    const client = new MCPClient(server.id, server.name, server.config);
+    this.clients.set(server.id, client);
+    return client;
+  }
+
+  /**
+   * Describes a server for the settings UI. Enabled servers are connected on
+   * demand so their tool list is available; failures surface as `error`.
+   */
+  async getServerInfo(server: McpServerSelect): Promise<MCPServerInfo> {
+    const client = this.getClient(server);
+
+    if (server.enabled) {
+      await client.connect().catch(() => undefined);
+    } else {
+      await client.disconnect();
+    }
+
+    return {
+      id: server.id,
+      name: server.name,
+      config: server.config,
+      visibility: server.visibility,
+      enabled: server.enabled,
+      userId: server.userId,
+      createdAt: server.createdAt,
+      updatedAt: server.updatedAt,
+      ...client.getInfo(),
+      authorizationUrl: await client.getAuthorizationUrl(),
+    };
+  }
+
+  async refresh(server: McpServerSelect): Promise<MCPServerInfo> {
+    await this.getClient(server).disconnect();
+    return this.getServerInfo(server);
+  }
+
+  /** Completes an OAuth authorization started while connecting. */
+  async finishAuthorization(
+    server: McpServerSelect,
+    authorizationCode: string,
+  ): Promise<MCPServerInfo> {
+    await this.getClient(server).finishAuthorization(authorizationCode);
+    return this.getServerInfo(server);
+  }
+
+  async remove(serverId: string) {
+    const client = this.clients.get(serverId);
+    this.clients.delete(serverId);
+    await client?.disconnect();
+  }
+}
+
+export const mcpClientsManager =
+  globalThis.__soraai_mcp_clients__ ?? new MCPClientsManager();
+
+globalThis.__soraai_mcp_clients__ = mcpClientsManager;
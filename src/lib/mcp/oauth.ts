@@ -0,0 +1,188 @@
+import { randomBytes } from 'crypto';
+import type { OAuthClientProvider } from '@modelcontextprotocol/sdk/client/auth.js';
+import type {
+  OAuthClientInformationMixed,
+  OAuthClientMetadata,
+  OAuthTokens,
+} from '@modelcontextprotocol/sdk/shared/auth.js';
+import { mcpOAuthRepository } from '@/lib/db/pg/repositories/mcp-oauth-repository';
+import type { McpOAuthSession } from '@/lib/types/mcp';
+
+export const MCP_OAUTH_CALLBACK_PATH = '/api/mcp/oauth/callback';
+
+/** Tokens are refreshed when they expire within this window. */
+const TOKEN_REFRESH_MARGIN_MS = 60_000;
+
+/** Tokens as persisted: the SDK shape plus the absolute expiry time. */
+type StoredTokens = OAuthTokens & { expires_at?: number };
+
+export const getMcpOAuthRedirectUrl = () =>
+  new URL(
+    MCP_OAUTH_CALLBACK_PATH,
+    process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000',
+  ).toString();
+
+/**
+ * Backs the MCP SDK's OAuth flow with the `mcp_oauth_session` table so
+ * registered clients, PKCE verifiers, pending authorization URLs and tokens
+ * survive restarts and are shared by every instance of the app. Each server
+ * keeps a single session.
+ */
+export class PgOAuthClientProvider implements OAuthClientProvider {
+  constructor(
+    private readonly serverId: string,
+    private readonly serverUrl: string,
+  ) {}
+
+  get redirectUrl() {
+    return getMcpOAuthRedirectUrl();
+  }
+
+  get clientMetadata(): OAuthClientMetadata {
+    return {
+      client_name: 'Sora AI',
+      redirect_uris: [this.redirectUrl],
+      grant_types: ['authorization_code', 'refresh_token'],
+      response_types: ['code'],
+      token_endpoint_auth_method: 'none',
+    };
+  }
+
+  /**
+   * The URL the user must visit while an authorization is pending, wherever
+   * it was started. Cleared once tokens are saved.
+   */
+  async getAuthorizationUrl() {
+    const session = await this.session();
+    if (session?.serverUrl !== this.serverUrl) {
+      return undefined;
+    }
+
+    return session.authorizationUrl;
+  }
+
+  private async session(): Promise<McpOAuthSession | null> {
+    return mcpOAuthRepository.selectByServerId(this.serverId);
+  }
+
+  private async ensureSession(): Promise<McpOAuthSession> {
+    const existing = await this.session();
+
+    // Registrations are tied to the authorization server, so a changed URL
+    // starts over with a fresh session.
+    if (existing && existing.serverUrl === this.serverUrl) {
+      return existing;
+    }
+
+    if (existing) {
+      await mcpOAuthRepository.deleteByServerId(this.serverId);
+    }
+
+    return mcpOAuthRepository.create(this.serverId, this.serverUrl);
+  }
+
+  async state() {
+    const session = await this.ensureSession();
+    const state = randomBytes(24).toString('base64url');
+    await mcpOAuthRepository.update(session.id, { state });
+    return state;
+  }
+
+  async clientInformation() {
+    const session = await this.session();
+    if (session?.serverUrl !== this.serverUrl) {
+      return undefined;
+    }
+
+    return session.clientInfo as OAuthClientInformationMixed | undefined;
+  }
+
+  async saveClientInformation(clientInformation: OAuthClientInformationMixed) {
+    const session = await this.ensureSession();
+    await mcpOAuthRepository.update(session.id, {
+      clientInfo: clientInformation as Record<string, unknown>,
+    });
+  }
+
+  async tokens() {
+    const session = await this.session();
+    if (session?.serverUrl !== this.serverUrl) {
+      return undefined;
+    }
+
+    return session.tokens as StoredTokens | undefined;
+  }
+
+  async saveTokens(tokens: OAuthTokens) {
+    const session = await this.ensureSession();
+    const stored: StoredTokens = {
+      ...tokens,
+      ...(tokens.expires_in
+        ? { expires_at: Date.now() + tokens.expires_in * 1000 }
+        : {}),
+    };
+
+    await mcpOAuthRepository.update(session.id, {
+      tokens: stored as Record<string, unknown>,
+      codeVerifier: null,
+      state: null,
+      authorizationUrl: null,
+    });
+  }
+
+  async redirectToAuthorization(authorizationUrl: URL) {
+    // The flow is finished in the user's browser; the settings UI picks the
+    // URL up from the server status.
+    const session = await this.ensureSession();
+    await mcpOAuthRepository.update(session.id, {
+      authorizationUrl: authorizationUrl.toString(),
+    });
+  }
+
+  async saveCodeVerifier(codeVerifier: string) {
+    const session = await this.ensureSession();
+    await mcpOAuthRepository.update(session.id, { codeVerifier });
+  }
+
+  async codeVerifier() {
+    const session = await this.session();
+    if (!session?.codeVerifier) {
+      throw new Error('No PKCE code verifier saved for this MCP server.');
+    }
+
+    return session.codeVerifier;
+  }
+
+  async invalidateCredentials(
+    scope: 'all' | 'client' | 'tokens' | 'verifier' | 'discovery',
+  ) {
+    const session = await this.session();
+    if (!session) {
+      return;
+    }
+
+    if (scope === 'all') {
+      await mcpOAuthRepository.deleteByServerId(this.serverId);
+      return;
+    }
+
+    await mcpOAuthRepository.update(session.id, {
+      ...(scope === 'client' ? { clientInfo: null } : {}),
+      ...(scope === 'tokens' ? { tokens: null } : {}),
+      // An authorization URL cannot be completed without its verifier.
+      ...(scope === 'verifier'
+        ? { codeVerifier: null, authorizationUrl: null }
+        : {}),
+    });
+  }
+
+  /** Whether the access token expires soon and a refresh token is available. */
+  async needsRefresh() {
+    const tokens = await this.tokens();
+    return Boolean(
+      tokens?.refresh_token &&
+        tokens.expires_at &&
+        tokens.expires_at - Date.now() < TOKEN_REFRESH_MARGIN_MS,
+    );
+  }
+}
@@ -0,0 +1,152 @@
+import type { ToolDefinition } from '@langchain/core/language_models/base';
+import { mcpCustomizationRepository } from '@/lib/db/pg/repositories/mcp-customization-repository';
+import { mcpRepository } from '@/lib/db/pg/repositories/mcp-repository';
+import logger from '@/lib/logger';
+import { formatToolResult } from './client';
+import { mcpClientsManager } from './manager';
+
+const mcpToolsLogger = logger.withDefaults({ tag: 'mcp:tools' });
+
+/** Function names accepted by every provider: ^[a-zA-Z0-9_-]{1,64}$. */
+const TOOL_NAME_MAX_LENGTH = 64;
+const MAX_TOOL_OUTPUT_LENGTH = 12_000;
+
+export interface McpAgentTool {
+  /** Model-facing name, unique across all servers in the toolset. */
+  name: string;
+  serverId: string;
+  serverName: string;
+  toolName: string;
+  definition: ToolDefinition;
+  call: (
+    args: Record<string, unknown>,
+  ) => Promise<{ output: string; isError: boolean }>;
+}
+
+export interface McpToolset {
+  tools: McpAgentTool[];
+  /** The user's server-level instructions, ready for a system prompt. */
+  instructions: string;
+}
+
+const sanitizeName = (value: string) =>
+  value.replace(/[^a-zA-Z0-9_-]+/g, '_').replace(/^_+|_+$/g, '') || 'tool';
+
+const buildToolName = (
+  serverName: string,
+  toolName: string,
+  taken: Set<string>,
+) => {
+  const base = `${sanitizeName(serverName)}__${sanitizeName(toolName)}`.slice(
+    0,
+    TOOL_NAME_MAX_LENGTH,
+  );
+
+  let name = base;
+  for (let suffix = 2; taken.has(name); suffix++) {
+    const tail = `_${suffix}`;
+    name = `${base.slice(0, TOOL_NAME_MAX_LENGTH - tail.length)}${tail}`;
+  }
+
+  taken.add(name);
+  return name;
+};
+
+const truncate = (value: string) =>
+  value.length > MAX_TOOL_OUTPUT_LENGTH
+    ? `${value.slice(0, MAX_TOOL_OUTPUT_LENGTH)}\n[output truncated]`
+    : value;
+
+/**
+ * Connects to every enabled MCP server the user can access and exposes their
+ * tools to the chat agent, with the user's custom instructions applied.
+ * Servers that fail to connect are skipped.
+ */
+export const loadMcpToolset = async (userId: string): Promise<McpToolset> => {
+  const servers = (await mcpRepository.selectAccessibleByUser(userId)).filter(
+    (server) => server.enabled,
+  );
+
+  if (servers.length === 0) {
+    return { tools: [], instructions: '' };
+  }
+
+  const [customizations, clients] = await Promise.all([
+    mcpCustomizationRepository.listForServers(
+      userId,
+      servers.map((server) => server.id),
+    ),
+    Promise.all(
+      servers.map(async (server) => {
+        const client = mcpClientsManager.getClient(server);
+        try {
+          await client.connect();
+          return client;
+        } catch (error) {
+          mcpToolsLogger.warn('Skipping unavailable MCP server.', {
+            serverId: server.id,
+            error,
+          });
+          return null;
+        }
+      }),
+    ),
+  ]);
+
+  const taken = new Set<string>();
+  const tools: McpAgentTool[] = [];
+  const instructions: string[] = [];
+
+  clients.forEach((client) => {
+    if (!client) {
+      return;
+    }
+
+    const customization = customizations.get(client.id);
+    const serverPrompt = customization?.serverPrompt.trim();
+
+    if (serverPrompt) {
+      instructions.push(`${client.name}:\n${serverPrompt}`);
+    }
+
+    client.getInfo().toolInfo.forEach((info) => {
+      const toolPrompt = customization?.tools
+        .find((tool) => tool.toolName === info.name)
+        ?.prompt.trim();
+      const name = buildToolName(client.name, info.name, taken);
+
+      tools.push({
+        name,
+        serverId: client.id,
+        serverName: client.name,
+        toolName: info.name,
+        definition: {
+          type: 'function',
+          function: {
+            name,
+            description: [
+              info.description,
+              toolPrompt ? `Usage notes: ${toolPrompt}` : '',
+            ]
+              .filter(Boolean)
+              .join('\n\n'),
+            parameters: {
+              type: 'object',
+              properties: {},
+              ...(info.inputSchema ?? {}),
+            },
+          },
+        },
+        call: async (args) => {
+          const result = await client.callTool(info.name, args);
+          return {
+            output: truncate(formatToolResult(result)),
+            isError: Boolean(result.isError),
+          };
+        },
+      });
+    });
+  });
+
+  return { tools, instructions: instructions.join('\n\n') };
+};
@@ -75,7 +75,7 @@ class AimlProvider extends BaseModelProvider<AimlConfig> {
 
   async getModelList(): Promise<ModelList> {
     const defaultModels = await this.getDefaultModels();
-    const configProvider = getConfiguredModelProviderById(this.id)!;
+    const configProvider = (await getConfiguredModelProviderById(this.id))!;
 
     return {
       embedding: [
@@ -59,7 +59,7 @@ class AnthropicProvider extends BaseModelProvider<AnthropicConfig> {
 
   async getModelList(): Promise<ModelList> {
     const defaultModels = await this.getDefaultModels();
-    const configProvider = getConfiguredModelProviderById(this.id)!;
+    const configProvider = (await getConfiguredModelProviderById(this.id))!;
 
     return {
       embedding: [],
@@ -48,7 +48,7 @@ class DeepSeekProvider extends BaseModelProvider<DeepSeekConfig> {
 
   async getModelList(): Promise<ModelList> {
     const defaultModels = await this.getDefaultModels();
-    const configProvider = getConfiguredModelProviderById(this.id)!;
+    const configProvider = (await getConfiguredModelProviderById(this.id))!;
 
     return {
       embedding: [],
@@ -74,7 +74,7 @@ class GeminiProvider extends BaseModelProvider<GeminiConfig> {
 
   async getModelList(): Promise<ModelList> {
     const defaultModels = await this.getDefaultModels();
-    const configProvider = getConfiguredModelProviderById(this.id)!;
+    const configProvider = (await getConfiguredModelProviderById(this.id))!;
 
     return {
       embedding: [
@@ -64,7 +64,7 @@ class GroqProvider extends BaseModelProvider<GroqConfig> {
 
   async getModelList(): Promise<ModelList> {
     const defaultModels = await this.getDefaultModels();
-    const configProvider = getConfiguredModelProviderById(this.id)!;
+    const configProvider = (await getConfiguredModelProviderById(this.id))!;
 
     return {
       embedding: [],
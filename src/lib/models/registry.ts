@@ -7,6 +7,9 @@ import { providers } from './providers';
 import { MinimalProvider, ModelList } from './types';
 import configManager from '../config';
 import logger from '@/lib/logger';
+import { UsageCallbackHandler } from '@/lib/usage/callbacks';
+import { meterEmbeddings } from '@/lib/usage/embeddings';
+import type { UsageContext } from '@/types/usage';
 
 const modelRegistryLogger = logger.withDefaults({ tag: 'models:registry' });
 
@@ -15,12 +18,15 @@ class ModelRegistry {
     provider: BaseModelProvider<any>;
   })[] = [];
 
+  /* Providers are loaded from the database, so every public method waits for this first. */
+  private ready: Promise<void>;
+
   constructor() {
-    this.initializeActiveProviders();
+    this.ready = this.initializeActiveProviders();
   }
 
-  private initializeActiveProviders() {
-    const configuredProviders = getConfiguredModelProviders();
+  private async initializeActiveProviders() {
+    const configuredProviders = await getConfiguredModelProviders();
 
     configuredProviders.forEach((p) => {
       try {
@@ -48,6 +54,8 @@ class ModelRegistry {
   }
 
   async getActiveProviders() {
+    await this.ready;
+
     const providers: MinimalProvider[] = [];
 
     await Promise.all(
@@ -86,35 +94,76 @@ class ModelRegistry {
     return providers;
   }
 
-  async loadChatModel(providerId: string, modelName: string) {
+  /* Pass a usage context to record every call made with the model in usage_events. */
+  async loadChatModel(
+    providerId: string,
+    modelName: string,
+    usage?: UsageContext,
+  ) {
+    await this.ready;
+
     const provider = this.activeProviders.find((p) => p.id === providerId);
 
     if (!provider) throw new Error('Invalid provider id');
 
     const model = await provider.provider.loadChatModel(modelName);
 
+    if (usage) {
+      const handler = new UsageCallbackHandler(usage, {
+        providerId,
+        providerType: provider.type,
+        model: modelName,
+      });
+
+      if (model.callbacks && !Array.isArray(model.callbacks)) {
+        model.callbacks.addHandler(handler);
+      } else {
+        model.callbacks = [...(model.callbacks ?? []), handler];
+      }
+    }
+
     return model;
   }
 
-  async loadEmbeddingModel(providerId: string, modelName: string) {
+  async loadEmbeddingModel(
+    providerId: string,
+    modelName: string,
+    usage?: UsageContext,
+  ) {
+    await this.ready;
+
     const provider = this.activeProviders.find((p) => p.id === providerId);
 
     if (!provider) throw new Error('Invalid provider id');
 
     const model = await provider.provider.loadEmbeddingModel(modelName);
 
-    return model;
+    return usage
+      ? meterEmbeddings(model, usage, {
+          providerId,
+          providerType: provider.type,
+          model: modelName,
+        })
+      : model;
   }
 
   async addProvider(
     type: string,
     name: string,
     config: Record<string, any>,
+    actorId?: string | null,
   ): Promise<ConfigModelProvider> {
+    await this.ready;
+
     const provider = providers[type];
     if (!provider) throw new Error('Invalid provider type');
 
-    const newProvider = configManager.addModelProvider(type, name, config);
+    const newProvider = await configManager.addModelProvider(
+      type,
+      name,
+      config,
+      actorId,
+    );
 
     const instance = createProviderInstance(
       provider,
@@ -160,8 +209,13 @@ class ModelRegistry {
     };
   }
 
-  async removeProvider(providerId: string): Promise<void> {
-    configManager.removeModelProvider(providerId);
+  async removeProvider(
+    providerId: string,
+    actorId?: string | null,
+  ): Promise<void> {
+    await this.ready;
+
+    await configManager.removeModelProvider(providerId, actorId);
     this.activeProviders = this.activeProviders.filter(
       (p) => p.id !== providerId,
     );
@@ -173,11 +227,15 @@ class ModelRegistry {
     providerId: string,
     name: string,
     config: any,
+    actorId?: string | null,
   ): Promise<ConfigModelProvider> {
+    await this.ready;
+
     const updated = await configManager.updateModelProvider(
       providerId,
       name,
       config,
+      actorId,
     );
     const instance = createProviderInstance(
       providers[updated.type],
@@ -211,10 +269,9 @@ class ModelRegistry {
       };
     }
 
-    this.activeProviders.push({
-      ...updated,
-      provider: instance,
-    });
+    this.activeProviders = this.activeProviders.map((p) =>
+      p.id === providerId ? { ...updated, provider: instance } : p,
+    );
 
     return {
       ...updated,
@@ -228,8 +285,16 @@ class ModelRegistry {
     providerId: string,
     type: 'embedding' | 'chat',
     model: any,
+    actorId?: string | null,
   ): Promise<any> {
-    const addedModel = configManager.addProviderModel(providerId, type, model);
+    await this.ready;
+
+    const addedModel = await configManager.addProviderModel(
+      providerId,
+      type,
+      model,
+      actorId,
+    );
     return addedModel;
   }
 
@@ -237,8 +302,16 @@ class ModelRegistry {
     providerId: string,
     type: 'embedding' | 'chat',
     modelKey: string,
+    actorId?: string | null,
   ): Promise<void> {
-    configManager.removeProviderModel(providerId, type, modelKey);
+    await this.ready;
+
+    await configManager.removeProviderModel(
+      providerId,
+      type,
+      modelKey,
+      actorId,
+    );
     return;
   }
 }
@@ -0,0 +1,53 @@
+import 'server-only';
+
+import { projectRepository } from '@/lib/db/pg/repositories/project-repository';
+import type { Project } from '@/types/project';
+
+/**
+ * Combines project-level instructions with the user's personal ones. Project
+ * instructions come first so engagement-specific guidance frames the user's
+ * own preferences.
+ */
+export const mergeSystemInstructions = (
+  project: Pick<Project, 'name' | 'instructions'> | null,
+  userInstructions: string,
+) => {
+  const projectInstructions = project?.instructions.trim() ?? '';
+  const personalInstructions = userInstructions.trim();
+
+  if (!projectInstructions) {
+    return personalInstructions;
+  }
+
+  const sections = [
+    `Project "${project!.name}" instructions:\n${projectInstructions}`,
+  ];
+  if (personalInstructions) {
+    sections.push(`Personal instructions:\n${personalInstructions}`);
+  }
+
+  return sections.join('\n\n');
+};
+
+/**
+ * Resolves the project a chat message runs in. Existing chats keep the
+ * project they belong to; new chats may be started inside one the user owns.
+ */
+export const resolveChatProject = async ({
+  userId,
+  chatProjectId,
+  requestedProjectId,
+  isNewChat,
+}: {
+  userId: string;
+  chatProjectId: string | null;
+  requestedProjectId: string | null;
+  isNewChat: boolean;
+}): Promise<Project | null> => {
+  const projectId = isNewChat ? requestedProjectId : chatProjectId;
+  if (!projectId) {
+    return null;
+  }
+
+  return projectRepository.findById(projectId, userId);
+};
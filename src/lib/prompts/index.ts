@@ -5,17 +5,30 @@ import {
 } from './webSearch';
 import { writingAssistantPrompt } from './writingAssistant';
 import {
+  deepResearchPlannerPrompt,
+  deepResearchResponseGuidelines,
+  deepResearchReviewPrompt,
+} from './deepResearch';
+import {
+  ebmBatchValidatorUserTemplate,
   ebmValidatorSystemPrompt,
   ebmValidatorUserTemplate,
 } from './ebmValidator';
+import { mcpToolCallingPrompt, mcpToolResultsPrompt } from './mcpTools';
 
 const prompts = {
   webSearchResponsePrompt,
   webSearchRetrieverPrompt,
   webSearchRetrieverFewShots,
   writingAssistantPrompt,
+  deepResearchPlannerPrompt,
+  deepResearchReviewPrompt,
+  deepResearchResponseGuidelines,
   ebmValidatorSystemPrompt,
   ebmValidatorUserTemplate,
+  ebmBatchValidatorUserTemplate,
+  mcpToolCallingPrompt,
+  mcpToolResultsPrompt,
 };
 
 export default prompts;
@@ -25,6 +38,12 @@ export {
   webSearchRetrieverPrompt,
   webSearchRetrieverFewShots,
   writingAssistantPrompt,
+  deepResearchPlannerPrompt,
+  deepResearchReviewPrompt,
+  deepResearchResponseGuidelines,
   ebmValidatorSystemPrompt,
   ebmValidatorUserTemplate,
+  ebmBatchValidatorUserTemplate,
+  mcpToolCallingPrompt,
+  mcpToolResultsPrompt,
 };
@@ -0,0 +1,368 @@
+import type { BaseChatModel } from '@langchain/core/language_models/chat_models';
+import type { Embeddings } from '@langchain/core/embeddings';
+import { Document } from '@langchain/core/documents';
+import { PromptTemplate } from '@langchain/core/prompts';
+import { StringOutputParser } from '@langchain/core/output_parsers';
+import LineListOutputParser from '../outputParsers/listLineOutputParser';
+import LineOutputParser from '../outputParsers/lineOutputParser';
+import { getDocumentsFromLinks } from '../utils/documents';
+import computeSimilarity from '../utils/computeSimilarity';
+import { searchSearxng } from '../searxng';
+import prompts from '../prompts';
+import logger from '@/lib/logger';
+import type { ResearchProgress } from '@/lib/types/research';
+
+const researchLogger = logger.withDefaults({ tag: 'search:deep-research' });
+
+const MAX_ROUNDS = 3;
+const MAX_QUERIES_PER_ROUND = 5;
+const RESULTS_PER_QUERY = 6;
+const PAGES_PER_ROUND = 5;
+/** Distinct pages needed before the reviewer is allowed to stop early. */
+const MIN_SOURCES = 4;
+const CHUNKS_PER_QUESTION = 4;
+const MAX_CHUNKS_PER_SOURCE = 3;
+const MAX_RESEARCH_DOCS = 20;
+const REVIEW_EXCERPT_LENGTH = 400;
+const AUTHORITY_BOOST = 0.15;
+
+const AUTHORITATIVE_HOST_PATTERN = /(^|\.)(gov\.rw|gov|int)$/i;
+const FAILED_FETCH_TITLE = 'Failed to retrieve content';
+
+export interface DeepResearchInput {
+  query: string;
+  chatHistory: string;
+  llm: BaseChatModel;
+  embeddings: Embeddings;
+  engines: string[];
+  onProgress: (progress: ResearchProgress) => void;
+}
+
+export interface DeepResearchResult {
+  query: string;
+  docs: Document[];
+}
+
+interface ResearchPlan {
+  question: string;
+  subQuestions: string[];
+  links: string[];
+}
+
+const strParser = new StringOutputParser();
+
+const isAuthoritative = (url: string) => {
+  try {
+    return AUTHORITATIVE_HOST_PATTERN.test(new URL(url).hostname);
+  } catch {
+    return false;
+  }
+};
+
+const planResearch = async (
+  llm: BaseChatModel,
+  query: string,
+  chatHistory: string,
+): Promise<ResearchPlan> => {
+  const output = await PromptTemplate.fromTemplate(
+    prompts.deepResearchPlannerPrompt,
+  )
+    .pipe(llm)
+    .pipe(strParser)
+    .invoke({ query, chat_history: chatHistory });
+
+  const question =
+    (await new LineOutputParser({ key: 'question' }).parse(output)) ?? query;
+  const subQuestions = await new LineListOutputParser({
+    key: 'sub_questions',
+  }).parse(output);
+  const links = await new LineListOutputParser({ key: 'links' }).parse(output);
+
+  return {
+    question: question.replace(/<think>[\s\S]*?<\/think>/g, '').trim(),
+    subQuestions: subQuestions.map((item) => item.trim()).filter(Boolean),
+    links: links.filter((link) => /^https?:\/\//i.test(link.trim())),
+  };
+};
+
+const reviewCoverage = async (
+  llm: BaseChatModel,
+  question: string,
+  queries: string[],
+  sources: Document[],
+) => {
+  const output = await PromptTemplate.fromTemplate(
+    prompts.deepResearchReviewPrompt,
+  )
+    .pipe(llm)
+    .pipe(strParser)
+    .invoke({
+      question,
+      queries: queries.join('\n'),
+      sources: sources
+        .map(
+          (doc, index) =>
+            `${index + 1}. ${doc.metadata.title} (${doc.metadata.url})\n${doc.pageContent.slice(0, REVIEW_EXCERPT_LENGTH)}`,
+        )
+        .join('\n\n'),
+    });
+
+  const sufficient = await new LineOutputParser({ key: 'sufficient' }).parse(
+    output,
+  );
+  const followUps = await new LineListOutputParser({
+    key: 'follow_ups',
+  }).parse(output);
+
+  return {
+    sufficient: sufficient?.toLowerCase().startsWith('yes') ?? false,
+    followUps: followUps.map((item) => item.trim()).filter(Boolean),
+  };
+};
+
+const searchAll = async (queries: string[], engines: string[]) => {
+  const results = await Promise.all(
+    queries.map(async (query) => {
+      try {
+        const res = await searchSearxng(query, { language: 'en', engines });
+        return res.results.slice(0, RESULTS_PER_QUERY);
+      } catch (error) {
+        researchLogger.warn('Research query failed', { query, error });
+        return [];
+      }
+    }),
+  );
+
+  return results.flat().map(
+    (result) =>
+      new Document({
+        pageContent: result.content ?? '',
+        metadata: { title: result.title, url: result.url },
+      }),
+  );
+};
+
+/**
+ * Picks the pages worth reading in full: results closest to the question,
+ * with a nudge towards official sources.
+ */
+const selectPages = async (
+  candidates: Document[],
+  questionEmbedding: number[],
+  embeddings: Embeddings,
+) => {
+  const withSnippets = candidates.filter((doc) => doc.pageContent.length > 0);
+  if (withSnippets.length === 0) {
+    return candidates.slice(0, PAGES_PER_ROUND).map((doc) => doc.metadata.url);
+  }
+
+  const snippetEmbeddings = await embeddings.embedDocuments(
+    withSnippets.map((doc) => `${doc.metadata.title} ${doc.pageContent}`),
+  );
+
+  return withSnippets
+    .map((doc, index) => ({
+      url: doc.metadata.url as string,
+      score:
+        computeSimilarity(questionEmbedding, snippetEmbeddings[index]) +
+        (isAuthoritative(doc.metadata.url) ? AUTHORITY_BOOST : 0),
+    }))
+    .sort((a, b) => b.score - a.score)
+    .slice(0, PAGES_PER_ROUND)
+    .map((item) => item.url);
+};
+
+/**
+ * Keeps the passages that best answer each research question, capping how
+ * many come from one page so the answer can cross-check several sources.
+ */
+const selectEvidence = async (
+  questions: string[],
+  docs: Document[],
+  embeddings: Embeddings,
+) => {
+  if (docs.length === 0) {
+    return [];
+  }
+
+  const [docEmbeddings, questionEmbeddings] = await Promise.all([
+    embeddings.embedDocuments(docs.map((doc) => doc.pageContent)),
+    embeddings.embedDocuments(questions),
+  ]);
+
+  const selected = new Set<number>();
+  const perSource = new Map<string, number>();
+
+  for (const questionEmbedding of questionEmbeddings) {
+    const ranked = docEmbeddings
+      .map((embedding, index) => ({
+        index,
+        score:
+          computeSimilarity(questionEmbedding, embedding) +
+          (isAuthoritative(docs[index].metadata.url) ? AUTHORITY_BOOST : 0),
+      }))
+      .sort((a, b) => b.score - a.score);
+
+    let taken = 0;
+    for (const { index } of ranked) {
+      if (taken >= CHUNKS_PER_QUESTION || selected.size >= MAX_RESEARCH_DOCS) {
+        break;
+      }
+      const url = docs[index].metadata.url as string;
+      const count = perSource.get(url) ?? 0;
+      if (selected.has(index) || count >= MAX_CHUNKS_PER_SOURCE) {
+        continue;
+      }
+      selected.add(index);
+      perSource.set(url, count + 1);
+      taken += 1;
+    }
+  }
+
+  return Array.from(selected).map((index) => docs[index]);
+};
+
+/**
+ * Quality mode research loop: plan sub-questions, search them, read the most
+ * promising pages in full and let the model decide whether another round is
+ * needed before the answer is written.
+ */
+export const runDeepResearch = async ({
+  query,
+  chatHistory,
+  llm,
+  embeddings,
+  engines,
+  onProgress,
+}: DeepResearchInput): Promise<DeepResearchResult> => {
+  const startTime = Date.now();
+
+  onProgress({ stage: 'planning', message: 'Planning research questions' });
+  const plan = await planResearch(llm, query, chatHistory);
+
+  if (plan.question === 'not_needed') {
+    return { query, docs: [] };
+  }
+
+  const questionEmbedding = await embeddings.embedQuery(plan.question);
+  const searched = new Set<string>();
+  const snippets = new Map<string, Document>();
+  const pages = new Map<string, Document[]>();
+
+  let pending = plan.subQuestions.length ? plan.subQuestions : [plan.question];
+  let links = plan.links;
+
+  for (let round = 1; round <= MAX_ROUNDS; round += 1) {
+    const queries = pending
+      .filter((item) => !searched.has(item.toLowerCase()))
+      .slice(0, MAX_QUERIES_PER_ROUND);
+
+    if (queries.length === 0 && links.length === 0) {
+      break;
+    }
+
+    if (queries.length > 0) {
+      onProgress({
+        stage: 'searching',
+        round,
+        queries,
+        message: `Searching ${queries.length} ${queries.length === 1 ? 'query' : 'queries'}`,
+      });
+      queries.forEach((item) => searched.add(item.toLowerCase()));
+
+      for (const result of await searchAll(queries, engines)) {
+        const url = result.metadata.url as string;
+        if (!snippets.has(url)) {
+          snippets.set(url, result);
+        }
+      }
+    }
+
+    const unread = Array.from(snippets.values()).filter(
+      (doc) => !pages.has(doc.metadata.url),
+    );
+    const toRead = Array.from(
+      new Set([
+        ...links,
+        ...(await selectPages(unread, questionEmbedding, embeddings)),
+      ]),
+    ).filter((url) => !pages.has(url));
+    links = [];
+
+    if (toRead.length > 0) {
+      onProgress({
+        stage: 'reading',
+        round,
+        urls: toRead,
+        message: `Reading ${toRead.length} ${toRead.length === 1 ? 'page' : 'pages'}`,
+      });
+
+      const chunks = await getDocumentsFromLinks({ links: toRead });
+      toRead.forEach((url) => pages.set(url, []));
+      for (const chunk of chunks) {
+        if (chunk.metadata.title === FAILED_FETCH_TITLE) {
+          continue;
+        }
+        pages.get(chunk.metadata.url)?.push(chunk);
+      }
+    }
+
+    if (round === MAX_ROUNDS) {
+      break;
+    }
+
+    const readSources = Array.from(pages.values())
+      .filter((chunks) => chunks.length > 0)
+      .map((chunks) => chunks[0]);
+
+    onProgress({
+      stage: 'reviewing',
+      round,
+      message: `Checking coverage across ${readSources.length} sources`,
+    });
+
+    const review = await reviewCoverage(
+      llm,
+      plan.question,
+      Array.from(searched),
+      readSources.length > 0
+        ? readSources
+        : Array.from(snippets.values()).slice(0, PAGES_PER_ROUND * 2),
+    );
+
+    if (
+      (review.sufficient && readSources.length >= MIN_SOURCES) ||
+      review.followUps.length === 0
+    ) {
+      break;
+    }
+
+    pending = review.followUps;
+  }
+
+  const pageChunks = Array.from(pages.values()).flat();
+  // Search snippets stand in for pages that could not be read.
+  const unreadSnippets = Array.from(snippets.values()).filter(
+    (doc) => doc.pageContent && !pages.get(doc.metadata.url)?.length,
+  );
+
+  const docs = await selectEvidence(
+    [plan.question, ...plan.subQuestions],
+    [...pageChunks, ...unreadSnippets],
+    embeddings,
+  );
+
+  researchLogger.info('Deep research complete', {
+    durationMs: Date.now() - startTime,
+    queries: searched.size,
+    pagesRead: pages.size,
+    docCount: docs.length,
+  });
+
+  onProgress({
+    stage: 'writing',
+    message: `Writing the answer from ${new Set(docs.map((doc) => doc.metadata.url)).size} sources`,
+  });
+
+  return { query: plan.question, docs };
+};
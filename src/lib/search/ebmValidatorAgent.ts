@@ -3,27 +3,44 @@ import type { BaseChatModel } from '@langchain/core/language_models/chat_models'
 import type { BaseMessage } from '@langchain/core/messages';
 import { HumanMessage, SystemMessage } from '@langchain/core/messages';
 import type { Embeddings } from '@langchain/core/embeddings';
-import type { MetaSearchAgentType } from './metaSearchAgent';
+import type { MetaSearchAgentType, SearchContext } from './metaSearchAgent';
 import { serverFileStorage } from '@/lib/storage';
 import { buildOriginalKey } from '@/lib/storage/uploaded-files';
 import logger from '@/lib/logger';
+import { getFileDetails } from '@/lib/utils/files';
+import { ebmValidationRepository } from '@/lib/db/pg/repositories/ebm-validation-repository';
+import { getEbmValidationPeriodStart } from '@/lib/entitlements';
 import {
+  buildBatchReportSources,
   buildValidationSources,
+  createPriorInvoiceLookup,
+  formatBatchReportMessage,
   formatValidationMessage,
+  QR_IMAGE_EXTENSIONS,
+  recordBatchReport,
+  recordValidationOutcome,
+  saveBatchReport,
+  serialiseBatchReportSummary,
   serialiseValidationOutcome,
   validateEbmInvoice,
+  validateEbmInvoiceBatch,
+  type QrImageExtension,
 } from '@/lib/ebm';
 import {
+  ebmBatchValidatorUserTemplate,
   ebmValidatorSystemPrompt,
   ebmValidatorUserTemplate,
 } from '@/lib/prompts';
 
 interface ResolvedFileReference {
   fileId: string;
-  extension: 'pdf';
+  extension: 'pdf' | QrImageExtension;
 }
 
-const SUPPORTED_EXTENSIONS: Array<ResolvedFileReference['extension']> = ['pdf'];
+const SUPPORTED_EXTENSIONS: Array<ResolvedFileReference['extension']> = [
+  'pdf',
+  ...QR_IMAGE_EXTENSIONS,
+];
 
 const serialiseDocuments = (documents: ReturnType<typeof buildValidationSources>) =>
   documents.map((doc) => ({
@@ -59,29 +76,255 @@ const normaliseLlmContent = (content: unknown): string | null => {
   return null;
 };
 
-const resolvePdfAttachment = async (
-  fileIds: string[],
+const resolveInvoiceAttachment = async (
+  fileId: string,
 ): Promise<ResolvedFileReference | null> => {
-  for (const fileId of fileIds) {
-    for (const extension of SUPPORTED_EXTENSIONS) {
-      const key = buildOriginalKey(fileId, extension);
-      try {
-        const exists = await serverFileStorage.exists(key);
-        if (exists) {
-          return { fileId, extension };
-        }
-      } catch (error) {
-        // Storage drivers may throw for missing keys; treat as non-existent and continue.
+  for (const extension of SUPPORTED_EXTENSIONS) {
+    const key = buildOriginalKey(fileId, extension);
+    try {
+      const exists = await serverFileStorage.exists(key);
+      if (exists) {
+        return { fileId, extension };
       }
+    } catch (error) {
+      // Storage drivers may throw for missing keys; treat as non-existent and continue.
     }
   }
 
   return null;
 };
 
+const resolveInvoiceAttachments = async (
+  fileIds: string[],
+): Promise<ResolvedFileReference[]> => {
+  const resolved: ResolvedFileReference[] = [];
+
+  for (const fileId of fileIds) {
+    const reference = await resolveInvoiceAttachment(fileId);
+    if (reference) {
+      resolved.push(reference);
+    }
+  }
+
+  return resolved;
+};
+
+const resolveFileName = async (fileId: string) => {
+  try {
+    const details = await getFileDetails(fileId);
+    return details.name;
+  } catch (error) {
+    return undefined;
+  }
+};
+
 const ebmLogger = logger.withDefaults({ tag: 'search:ebm-agent' });
 
+/**
+ * Validations left in the caller's monthly quota, or `null` when the plan
+ * has no limit (or the run is not tied to a user).
+ */
+const getRemainingValidations = async (context?: SearchContext) => {
+  const limit = context?.entitlement?.maxEbmValidationsPerMonth ?? null;
+  if (limit === null || !context?.userId) {
+    return null;
+  }
+
+  const used = await ebmValidationRepository.countSince(
+    context.userId,
+    getEbmValidationPeriodStart(),
+  );
+
+  return Math.max(0, limit - used);
+};
+
+/**
+ * Writes validation results to the history table. History is best-effort: a
+ * database hiccup must not cost the user the validation they just ran.
+ */
+const persistHistory = async (
+  context: SearchContext | undefined,
+  record: (userId: string) => Promise<void>,
+  details: Record<string, unknown>,
+) => {
+  if (!context?.userId) {
+    return;
+  }
+
+  try {
+    await record(context.userId);
+  } catch (error) {
+    ebmLogger.error('Failed to persist EBM validation history.', {
+      error,
+      ...details,
+    });
+  }
+};
+
+const generateNarrative = async (
+  llm: BaseChatModel,
+  prompt: string,
+  fallback: string,
+  context: Record<string, unknown>,
+) => {
+  try {
+    const response = await llm.invoke([
+      new SystemMessage(ebmValidatorSystemPrompt),
+      new HumanMessage(prompt),
+    ]);
+
+    const rawContent = (response as { content?: unknown }).content;
+    const normalised = normaliseLlmContent(rawContent);
+
+    if (normalised && normalised.trim().length > 0) {
+      return normalised.trim();
+    }
+
+    ebmLogger.warn('LLM returned empty content, using formatter fallback.', context);
+  } catch (llmError) {
+    ebmLogger.error('Failed to generate LLM narrative for EBM validation.', {
+      error: llmError,
+      ...context,
+    });
+  }
+
+  return fallback;
+};
+
 class EbmValidatorAgent implements MetaSearchAgentType {
+  private async runSingleValidation(
+    emitter: EventEmitter,
+    message: string,
+    llm: BaseChatModel,
+    resolved: ResolvedFileReference,
+    context?: SearchContext,
+  ) {
+    const file = {
+      fileId: resolved.fileId,
+      fileExtension: resolved.extension,
+      fileName: await resolveFileName(resolved.fileId),
+    };
+    const outcome = await validateEbmInvoice(file, {
+      priorInvoices: context?.userId
+        ? createPriorInvoiceLookup(context.userId)
+        : undefined,
+    });
+
+    await persistHistory(
+      context,
+      (userId) =>
+        recordValidationOutcome(file, outcome, {
+          userId,
+          chatId: context?.chatId,
+        }),
+      { fileId: resolved.fileId },
+    );
+
+    const sources = buildValidationSources(outcome);
+    emitter.emit(
+      'data',
+      JSON.stringify({
+        type: 'sources',
+        data: serialiseDocuments(sources),
+      }),
+    );
+
+    const serialisedOutcome = serialiseValidationOutcome(outcome);
+    const validationJson = JSON.stringify(serialisedOutcome, null, 2);
+
+    const prompt = ebmValidatorUserTemplate
+      .replace('{userQuery}', message)
+      .replace('{validationJson}', validationJson);
+
+    const messageText = await generateNarrative(
+      llm,
+      prompt,
+      formatValidationMessage(outcome),
+      { fileId: resolved.fileId },
+    );
+
+    emitter.emit(
+      'data',
+      JSON.stringify({
+        type: 'response',
+        data: messageText,
+      }),
+    );
+
+    ebmLogger.info('EBM validation completed successfully.', {
+      fileId: resolved.fileId,
+      summary: outcome.result.summary?.headline,
+    });
+  }
+
+  private async runBatchValidation(
+    emitter: EventEmitter,
+    message: string,
+    llm: BaseChatModel,
+    resolved: ResolvedFileReference[],
+    context?: SearchContext,
+  ) {
+    const files = await Promise.all(
+      resolved.map(async (reference) => ({
+        fileId: reference.fileId,
+        fileExtension: reference.extension,
+        fileName: await resolveFileName(reference.fileId),
+      })),
+    );
+
+    const report = await validateEbmInvoiceBatch(files, {
+      priorInvoices: context?.userId
+        ? createPriorInvoiceLookup(context.userId)
+        : undefined,
+      onProgress: (completed, total) => {
+        ebmLogger.debug('EBM batch progress.', { completed, total });
+      },
+    });
+
+    await saveBatchReport(report);
+    await persistHistory(
+      context,
+      (userId) =>
+        recordBatchReport(report, { userId, chatId: context?.chatId }),
+      { reportId: report.id },
+    );
+
+    const sources = buildBatchReportSources(report);
+    emitter.emit(
+      'data',
+      JSON.stringify({
+        type: 'sources',
+        data: serialiseDocuments(sources),
+      }),
+    );
+
+    const reportJson = JSON.stringify(serialiseBatchReportSummary(report), null, 2);
+
+    const prompt = ebmBatchValidatorUserTemplate
+      .replace('{userQuery}', message)
+      .replace('{reportJson}', reportJson);
+
+    const messageText = await generateNarrative(
+      llm,
+      prompt,
+      formatBatchReportMessage(report),
+      { reportId: report.id },
+    );
+
+    emitter.emit(
+      'data',
+      JSON.stringify({
+        type: 'response',
+        data: messageText,
+      }),
+    );
+
+    ebmLogger.info('EBM batch validation completed successfully.', {
+      reportId: report.id,
+      invoiceCount: report.totals.invoiceCount,
+    });
+  }
+
   async searchAndAnswer(
     message: string,
     history: BaseMessage[],
@@ -90,6 +333,7 @@ class EbmValidatorAgent implements MetaSearchAgentType {
     _optimizationMode: 'speed' | 'balanced' | 'quality',
     fileIds: string[],
     _systemInstructions: string,
+    context?: SearchContext,
   ) {
     const emitter = new EventEmitter();
 
@@ -106,96 +350,76 @@ class EbmValidatorAgent implements MetaSearchAgentType {
             'data',
             JSON.stringify({
               type: 'error',
-              data: 'Attach at least one PDF invoice to run the EBM validator.',
+              data: 'Attach at least one PDF or photographed invoice to run the EBM validator.',
             }),
           );
           emitter.emit('end');
           return;
         }
 
-        const resolved = await resolvePdfAttachment(fileIds);
+        const resolved = await resolveInvoiceAttachments(fileIds);
 
-        if (!resolved) {
+        if (resolved.length === 0) {
           emitter.emit(
             'data',
             JSON.stringify({
               type: 'error',
-              data: 'No attached PDF invoice could be located. Upload a Rwanda EBM PDF and retry.',
+              data: 'No attached invoice could be located. Upload a Rwanda EBM PDF or a JPEG/PNG photo of the receipt and retry.',
             }),
           );
           emitter.emit('end');
           return;
         }
 
-        try {
-          const outcome = await validateEbmInvoice({
-            fileId: resolved.fileId,
-            fileExtension: resolved.extension,
-          });
+        const remaining = await getRemainingValidations(context);
 
-          const sources = buildValidationSources(outcome);
+        if (remaining !== null && resolved.length > remaining) {
           emitter.emit(
             'data',
             JSON.stringify({
-              type: 'sources',
-              data: serialiseDocuments(sources),
+              type: 'error',
+              code: 'ebm_validation_limit_reached',
+              data:
+                remaining === 0
+                  ? 'You have used all EBM validations included in your plan this month.'
+                  : `Your plan has ${remaining} EBM validation${remaining === 1 ? '' : 's'} left this month. Attach fewer invoices and retry.`,
             }),
           );
+          emitter.emit('end');
+          return;
+        }
 
-          const serialisedOutcome = serialiseValidationOutcome(outcome);
-          const validationJson = JSON.stringify(serialisedOutcome, null, 2);
-
-          let messageText = formatValidationMessage(outcome);
-
-          try {
-            const prompt = ebmValidatorUserTemplate
-              .replace('{userQuery}', message)
-              .replace('{validationJson}', validationJson);
-
-            const response = await llm.invoke([
-              new SystemMessage(ebmValidatorSystemPrompt),
-              new HumanMessage(prompt),
-            ]);
-
-            const rawContent = (response as { content?: unknown }).content;
-            const normalised = normaliseLlmContent(rawContent);
-
-            if (normalised && normalised.trim().length > 0) {
-              messageText = normalised.trim();
-            } else {
-              ebmLogger.warn('LLM returned empty content, using formatter fallback.', {
-                fileId: resolved.fileId,
-              });
-            }
-          } catch (llmError) {
-            ebmLogger.error('Failed to generate LLM narrative for EBM validation.', {
-              error: llmError,
-              fileId: resolved.fileId,
-            });
+        try {
+          if (resolved.length === 1) {
+            await this.runSingleValidation(
+              emitter,
+              message,
+              llm,
+              resolved[0],
+              context,
+            );
+          } else {
+            await this.runBatchValidation(
+              emitter,
+              message,
+              llm,
+              resolved,
+              context,
+            );
           }
-
-          emitter.emit(
-            'data',
-            JSON.stringify({
-              type: 'response',
-              data: messageText,
-            }),
-          );
-
-          ebmLogger.info('EBM validation completed successfully.', {
-            fileId: resolved.fileId,
-            summary: outcome.result.summary?.headline,
-          });
         } catch (error) {
           ebmLogger.error('EBM validation failed.', {
             error,
-            fileId: resolved.fileId,
+            fileIds: resolved.map((reference) => reference.fileId),
           });
           emitter.emit(
             'data',
             JSON.stringify({
               type: 'error',
-              data: 'Failed to validate the attached invoice. Please try again.',
+              data:
+                resolved.length === 1
+                  ? 'Failed to validate the attached invoice. Please try again.'
+                  : 'Failed to validate the attached invoices. Please try again.',
             }),
           );
         } finally {
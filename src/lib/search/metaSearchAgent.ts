@@ -18,20 +18,33 @@ import LineOutputParser from '../outputParsers/lineOutputParser';
 import { getDocumentsFromLinks } from '../utils/documents';
 import { Document } from '@langchain/core/documents';
 import { searchSearxng } from '../searxng';
-import {
-  buildEmbeddingsKey,
-  buildExtractedKey,
-  readJsonFromStorage,
-} from '@/lib/storage/uploaded-files';
-import { serverFileStorage } from '@/lib/storage';
+import { retrieveFileChunks } from '@/lib/uploads/vector-store';
+import type { FileChunkMatch } from '@/types/file-chunk';
 import computeSimilarity from '../utils/computeSimilarity';
 import formatChatHistoryAsString from '../utils/formatHistory';
 import eventEmitter from 'events';
 import { StreamEvent } from '@langchain/core/tracers/log_stream';
 import logger from '@/lib/logger';
+import prompts from '../prompts';
+import { runDeepResearch } from './deepResearch';
+import { formatToolCallResults, runToolCalls } from './toolCalling';
+import type { McpToolset } from '@/lib/mcp/tools';
+import type { Entitlement } from '@/lib/entitlements';
 
 const searchLogger = logger.withDefaults({ tag: 'search:meta-agent' });
 
+/** Who the request is running for, for agents that persist per-user state. */
+export interface SearchContext {
+  userId?: string;
+  chatId?: string;
+  /** MCP tools the agent may call before answering. */
+  toolset?: McpToolset;
+  /** The caller's plan, for agents that meter their own usage. */
+  entitlement?: Entitlement;
+  /** Restricts matches from attached files to these pages. */
+  pageNumbers?: number[];
+}
+
 export interface MetaSearchAgentType {
   searchAndAnswer: (
     message: string,
@@ -41,6 +54,7 @@ export interface MetaSearchAgentType {
     optimizationMode: 'speed' | 'balanced' | 'quality',
     fileIds: string[],
     systemInstructions: string,
+    context?: SearchContext,
   ) => Promise<eventEmitter>;
 }
 
@@ -59,6 +73,19 @@ type BasicChainInput = {
   query: string;
 };
 
+/** Uploaded file chunks keep their position so answers can cite them. */
+const toFileDocument = (chunk: FileChunkMatch) =>
+  new Document({
+    pageContent: chunk.content,
+    metadata: {
+      title: chunk.fileName,
+      url: 'File',
+      fileId: chunk.fileId,
+      chunkIndex: chunk.chunkIndex,
+      pageNumber: chunk.pageNumber,
+    },
+  });
+
 class MetaSearchAgent implements MetaSearchAgentType {
   private config: Config;
   private strParser = new StringOutputParser();
@@ -274,13 +301,50 @@ class MetaSearchAgent implements MetaSearchAgentType {
     embeddings: Embeddings,
     optimizationMode: 'speed' | 'balanced' | 'quality',
     systemInstructions: string,
+    emitter: eventEmitter,
+    toolset?: McpToolset,
+    pageNumbers?: number[],
   ) {
+    const deepResearch =
+      this.config.searchWeb && optimizationMode === 'quality';
+    const useTools = (toolset?.tools.length ?? 0) > 0;
+
+    let systemPrompt = this.config.responsePrompt;
+    if (deepResearch) {
+      systemPrompt += prompts.deepResearchResponseGuidelines;
+    }
+    if (useTools) {
+      systemPrompt += prompts.mcpToolResultsPrompt;
+    }
+
     return RunnableSequence.from([
       RunnableMap.from({
         systemInstructions: () => systemInstructions,
         query: (input: BasicChainInput) => input.query,
         chat_history: (input: BasicChainInput) => input.chat_history,
         date: () => new Date().toISOString(),
+        tool_results: RunnableLambda.from(async (input: BasicChainInput) => {
+          if (!useTools) {
+            return '';
+          }
+
+          const calls = await runToolCalls({
+            query: input.query,
+            chatHistory: input.chat_history,
+            llm,
+            toolset: toolset!,
+            onToolCall: (call) =>
+              emitter.emit(
+                'data',
+                JSON.stringify({
+                  type: call.status === 'running' ? 'toolCall' : 'toolResult',
+                  data: call,
+                }),
+              ),
+          });
+
+          return formatToolCallResults(calls);
+        }),
         context: RunnableLambda.from(async (input: BasicChainInput) => {
           const processedHistory = formatChatHistoryAsString(
             input.chat_history,
@@ -289,7 +353,23 @@ class MetaSearchAgent implements MetaSearchAgentType {
           let docs: Document[] | null = null;
           let query = input.query;
 
-          if (this.config.searchWeb) {
+          if (deepResearch) {
+            const researchResult = await runDeepResearch({
+              query,
+              chatHistory: processedHistory,
+              llm,
+              embeddings,
+              engines: this.config.activeEngines,
+              onProgress: (progress) =>
+                emitter.emit(
+                  'data',
+                  JSON.stringify({ type: 'progress', data: progress }),
+                ),
+            });
+
+            query = researchResult.query;
+            docs = researchResult.docs;
+          } else if (this.config.searchWeb) {
             const searchRetrieverChain =
               await this.createSearchRetrieverChain(llm);
 
@@ -308,6 +388,7 @@ class MetaSearchAgent implements MetaSearchAgentType {
             fileIds,
             embeddings,
             optimizationMode,
+            pageNumbers,
           );
 
           return sortedDocs;
@@ -318,7 +399,7 @@ class MetaSearchAgent implements MetaSearchAgentType {
           .pipe(this.processDocs),
       }),
       ChatPromptTemplate.fromMessages([
-        ['system', this.config.responsePrompt],
+        ['system', systemPrompt],
         new MessagesPlaceholder('chat_history'),
         ['user', '{query}'],
       ]),
@@ -335,51 +416,13 @@ class MetaSearchAgent implements MetaSearchAgentType {
     fileIds: string[],
     embeddings: Embeddings,
     optimizationMode: 'speed' | 'balanced' | 'quality',
+    pageNumbers?: number[],
   ) {
     const rerankStart = Date.now();
     if (docs.length === 0 && fileIds.length === 0) {
       return docs;
     }
 
-    const filesData = (
-      await Promise.all(
-        fileIds.map(async (fileId) => {
-          const extractedKey = buildExtractedKey(fileId);
-          const embeddingsKey = buildEmbeddingsKey(fileId);
-
-          try {
-            const [contentExists, embeddingsExists] = await Promise.all([
-              serverFileStorage.exists(extractedKey),
-              serverFileStorage.exists(embeddingsKey),
-            ]);
-
-            if (!contentExists || !embeddingsExists) {
-              return [];
-            }
-
-            const content = await readJsonFromStorage<{
-              title: string;
-              contents: string[];
-            }>(extractedKey);
-
-            const embeddings = await readJsonFromStorage<{
-              title: string;
-              embeddings: number[][];
-            }>(embeddingsKey);
-
-            return content.contents.map((c: string, i: number) => ({
-              fileName: content.title,
-              content: c,
-              embeddings: embeddings.embeddings[i],
-            }));
-          } catch (error) {
-            searchLogger.error('Failed to load stored file embeddings', error);
-            return [];
-          }
-        }),
-      )
-    ).flat();
-
     if (query.toLocaleLowerCase() === 'summarize') {
       return docs.slice(0, 15);
     }
@@ -387,42 +430,37 @@ class MetaSearchAgent implements MetaSearchAgentType {
     const docsWithContent = docs.filter(
       (doc) => doc.pageContent && doc.pageContent.length > 0,
     );
+    const threshold = this.config.rerankThreshold ?? 0.3;
 
-    if (optimizationMode === 'speed' || this.config.rerank === false) {
-      if (filesData.length > 0) {
-        const [queryEmbedding] = await Promise.all([
-          embeddings.embedQuery(query),
-        ]);
-
-        const fileDocs = filesData.map((fileData) => {
-          return new Document({
-            pageContent: fileData.content,
-            metadata: {
-              title: fileData.fileName,
-              url: `File`,
-            },
-          });
-        });
+    if (optimizationMode === 'quality' && this.config.searchWeb) {
+      // Deep research has already ranked and capped the web sources, so only
+      // the uploaded files still need picking.
+      if (fileIds.length === 0) {
+        return docsWithContent;
+      }
 
-        const similarity = filesData.map((fileData, i) => {
-          const sim = computeSimilarity(queryEmbedding, fileData.embeddings);
+      const queryEmbedding = await embeddings.embedQuery(query);
+      const fileChunks = await retrieveFileChunks({
+        queryEmbedding,
+        fileIds,
+        limit: 8,
+        minSimilarity: threshold,
+        pageNumbers,
+      });
 
-          return {
-            index: i,
-            similarity: sim,
-          };
+      return [...fileChunks.map(toFileDocument), ...docsWithContent];
+    } else if (optimizationMode === 'speed' || this.config.rerank === false) {
+      if (fileIds.length > 0) {
+        const queryEmbedding = await embeddings.embedQuery(query);
+        const fileChunks = await retrieveFileChunks({
+          queryEmbedding,
+          fileIds,
+          limit: docsWithContent.length > 0 ? 8 : 15,
+          minSimilarity: threshold,
+          pageNumbers,
         });
 
-        let sortedDocs = similarity
-          .filter(
-            (sim) => sim.similarity > (this.config.rerankThreshold ?? 0.3),
-          )
-          .sort((a, b) => b.similarity - a.similarity)
-          .slice(0, 15)
-          .map((sim) => fileDocs[sim.index]);
-
-        sortedDocs =
-          docsWithContent.length > 0 ? sortedDocs.slice(0, 8) : sortedDocs;
+        const sortedDocs = fileChunks.map(toFileDocument);
 
         return [
           ...sortedDocs,
@@ -431,7 +469,7 @@ class MetaSearchAgent implements MetaSearchAgentType {
       } else {
         return docsWithContent.slice(0, 15);
       }
-    } else if (optimizationMode === 'balanced') {
+    } else {
       const [docEmbeddings, queryEmbedding] = await Promise.all([
         embeddings.embedDocuments(
           docsWithContent.map((doc) => doc.pageContent),
@@ -439,45 +477,37 @@ class MetaSearchAgent implements MetaSearchAgentType {
         embeddings.embedQuery(query),
       ]);
 
-      docsWithContent.push(
-        ...filesData.map((fileData) => {
-          return new Document({
-            pageContent: fileData.content,
-            metadata: {
-              title: fileData.fileName,
-              url: `File`,
-            },
-          });
-        }),
-      );
-
-      docEmbeddings.push(...filesData.map((fileData) => fileData.embeddings));
-
-      const similarity = docEmbeddings.map((docEmbedding, i) => {
-        const sim = computeSimilarity(queryEmbedding, docEmbedding);
-
-        return {
-          index: i,
-          similarity: sim,
-        };
+      const fileChunks = await retrieveFileChunks({
+        queryEmbedding,
+        fileIds,
+        limit: 15,
+        minSimilarity: threshold,
+        pageNumbers,
       });
 
-      const sortedDocs = similarity
-        .filter((sim) => sim.similarity > (this.config.rerankThreshold ?? 0.3))
+      const sortedDocs = [
+        ...docsWithContent.map((doc, i) => ({
+          doc,
+          similarity: computeSimilarity(queryEmbedding, docEmbeddings[i]),
+        })),
+        ...fileChunks.map((chunk) => ({
+          doc: toFileDocument(chunk),
+          similarity: chunk.similarity,
+        })),
+      ]
+        .filter((item) => item.similarity > threshold)
         .sort((a, b) => b.similarity - a.similarity)
         .slice(0, 15)
-        .map((sim) => docsWithContent[sim.index]);
+        .map((item) => item.doc);
 
-      searchLogger.info('Documents reranked', { 
+      searchLogger.info('Documents reranked', {
         durationMs: Date.now() - rerankStart,
         mode: optimizationMode,
-        inputDocs: docsWithContent.length,
-        outputDocs: sortedDocs.length
+        inputDocs: docsWithContent.length + fileChunks.length,
+        outputDocs: sortedDocs.length,
       });
       return sortedDocs;
     }
-
-    return [];
   }
 
   private processDocs(docs: Document[]) {
@@ -551,6 +581,7 @@ class MetaSearchAgent implements MetaSearchAgentType {
     optimizationMode: 'speed' | 'balanced' | 'quality',
     fileIds: string[],
     systemInstructions: string,
+    context?: SearchContext,
   ) {
     const startTime = Date.now();
     searchLogger.info('searchAndAnswer started', { optimizationMode, fileCount: fileIds.length });
@@ -564,6 +595,9 @@ class MetaSearchAgent implements MetaSearchAgentType {
       embeddings,
       optimizationMode,
       systemInstructions,
+      emitter,
+      context?.toolset,
+      context?.pageNumbers,
     );
     searchLogger.info('Answering chain built', { durationMs: Date.now() - chainBuildStart });
 
@@ -0,0 +1,134 @@
+import type { BaseChatModel } from '@langchain/core/language_models/chat_models';
+import {
+  AIMessage,
+  BaseMessage,
+  HumanMessage,
+  SystemMessage,
+  ToolMessage,
+} from '@langchain/core/messages';
+import prompts from '../prompts';
+import logger from '@/lib/logger';
+import { generateHexId } from '@/lib/utils/random';
+import type { McpToolset } from '@/lib/mcp/tools';
+import type { McpToolCall } from '@/lib/types/mcp';
+
+const toolCallingLogger = logger.withDefaults({ tag: 'search:tool-calling' });
+
+/** Model turns allowed to request tools before the answer is written. */
+const MAX_TOOL_ROUNDS = 4;
+
+export interface ToolCallingInput {
+  query: string;
+  chatHistory: BaseMessage[];
+  llm: BaseChatModel;
+  toolset: McpToolset;
+  onToolCall: (call: McpToolCall) => void;
+}
+
+/**
+ * Lets the model call the user's MCP tools before the answer is generated.
+ * Every call is reported twice through `onToolCall`: once when it starts and
+ * once with its result.
+ */
+export const runToolCalls = async ({
+  query,
+  chatHistory,
+  llm,
+  toolset,
+  onToolCall,
+}: ToolCallingInput): Promise<McpToolCall[]> => {
+  if (toolset.tools.length === 0 || !llm.bindTools) {
+    return [];
+  }
+
+  const model = llm.bindTools(toolset.tools.map((tool) => tool.definition));
+  const systemPrompt = toolset.instructions
+    ? `${prompts.mcpToolCallingPrompt}\nInstructions from the user for these tools:\n${toolset.instructions}`
+    : prompts.mcpToolCallingPrompt;
+
+  const messages: BaseMessage[] = [
+    new SystemMessage(systemPrompt),
+    ...chatHistory,
+    new HumanMessage(query),
+  ];
+  const calls: McpToolCall[] = [];
+
+  for (let round = 0; round < MAX_TOOL_ROUNDS; round++) {
+    const response = (await model.invoke(messages)) as AIMessage;
+    const requested = response.tool_calls ?? [];
+
+    if (requested.length === 0) {
+      break;
+    }
+
+    messages.push(response);
+
+    for (const requestedCall of requested) {
+      const tool = toolset.tools.find((t) => t.name === requestedCall.name);
+      const id = requestedCall.id ?? generateHexId(12);
+      const call: McpToolCall = {
+        id,
+        serverId: tool?.serverId ?? '',
+        serverName: tool?.serverName ?? 'Unknown',
+        toolName: tool?.toolName ?? requestedCall.name,
+        args: requestedCall.args ?? {},
+        status: 'running',
+      };
+
+      onToolCall(call);
+
+      let finished: McpToolCall;
+      if (!tool) {
+        finished = {
+          ...call,
+          status: 'error',
+          output: `Unknown tool: ${requestedCall.name}`,
+        };
+      } else {
+        try {
+          const result = await tool.call(call.args);
+          finished = {
+            ...call,
+            status: result.isError ? 'error' : 'success',
+            output: result.output,
+          };
+        } catch (error) {
+          toolCallingLogger.warn('MCP tool call failed.', {
+            serverId: call.serverId,
+            toolName: call.toolName,
+            error,
+          });
+          finished = {
+            ...call,
+            status: 'error',
+            output: error instanceof Error ? error.message : String(error),
+          };
+        }
+      }
+
+      onToolCall(finished);
+      calls.push(finished);
+      messages.push(
+        new ToolMessage({
+          tool_call_id: id,
+          content: finished.output || '(no output)',
+        }),
+      );
+    }
+  }
+
+  return calls;
+};
+
+export const formatToolCallResults = (calls: McpToolCall[]) => {
+  if (calls.length === 0) {
+    return 'No tools were called.';
+  }
+
+  return calls
+    .map(
+      (call, index) =>
+        `${index + 1}. ${call.serverName} / ${call.toolName} (${call.status === 'error' ? 'failed' : 'succeeded'})\nArguments: ${JSON.stringify(call.args)}\nOutput:\n${call.output || '(no output)'}`,
+    )
+    .join('\n\n');
+};
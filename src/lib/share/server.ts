@@ -0,0 +1,87 @@
+import 'server-only';
+
+import { asc, eq } from 'drizzle-orm';
+
+import db from '@/lib/db';
+import { messages } from '@/lib/db/schema';
+import {
+  chatShareRepository,
+  resolveShareStatus,
+} from '@/lib/db/pg/repositories/chat-share-repository';
+import logger from '@/lib/logger';
+import { resolveActiveBranch } from '@/lib/utils/branches';
+import type { Document } from '@langchain/core/documents';
+import type { ChatShareStatus } from '@/types/share';
+
+const shareLogger = logger.withDefaults({ tag: 'share' });
+
+export interface SharedChatMessage {
+  messageId: string;
+  role: 'user' | 'assistant' | 'source';
+  content: string;
+  sources: Document[];
+  createdAt: Date;
+}
+
+export type SharedChatResult =
+  | {
+      status: 'active';
+      chat: { title: string; createdAt: Date };
+      expiresAt: Date | null;
+      messages: SharedChatMessage[];
+    }
+  | { status: Exclude<ChatShareStatus, 'active'> | 'not_found' };
+
+/**
+ * The parts of a source shown publicly. Other metadata, such as uploaded
+ * file IDs and chunk positions or EBM report IDs, stays private.
+ */
+const toPublicSourceMetadata = (metadata: Record<string, unknown>) => ({
+  title: metadata.title,
+  url: metadata.url,
+  ...(metadata.img_src !== undefined ? { img_src: metadata.img_src } : {}),
+});
+
+/**
+ * Resolves a public share token to its chat. Revoked and expired links are
+ * reported as such so the page can explain why nothing is shown.
+ */
+export async function getSharedChat(token: string): Promise<SharedChatResult> {
+  const row = await chatShareRepository.findByToken(token);
+
+  if (!row) {
+    return { status: 'not_found' };
+  }
+
+  const status = resolveShareStatus(row.share);
+  if (status !== 'active') {
+    return { status };
+  }
+
+  const chatMessages = await db.query.messages.findMany({
+    where: eq(messages.chatId, row.chat.id),
+    orderBy: asc(messages.id),
+  });
+
+  chatShareRepository.recordView(row.share.id).catch((error) => {
+    shareLogger.warn('Failed to record share view.', { error });
+  });
+
+  return {
+    status,
+    chat: { title: row.chat.title, createdAt: row.chat.createdAt },
+    expiresAt: row.share.expiresAt,
+    // Shared links show the newest version of the conversation.
+    messages: resolveActiveBranch(chatMessages).map((message) => ({
+      messageId: message.messageId,
+      role: message.role,
+      content: message.content ?? '',
+      // Only titles and links are public; retrieved passages stay private.
+      sources: (message.sources ?? []).map((source) => ({
+        pageContent: '',
+        metadata: toPublicSourceMetadata(source.metadata ?? {}),
+      })),
+      createdAt: message.createdAt,
+    })),
+  };
+}
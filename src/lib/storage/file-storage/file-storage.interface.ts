@@ -35,6 +35,8 @@ export interface UploadUrlOptions {
   filename: string;
   contentType: string;
   expiresInSeconds?: number;
+  /** Largest body the URL accepts, where the driver can enforce one. */
+  maxSizeBytes?: number;
 }
 
 export type UploadUrlMethod = 'PUT' | 'POST';
@@ -57,4 +59,9 @@ export interface FileStorage {
   getMetadata(key: string): Promise<FileMetadata | null>;
   getSourceUrl(key: string): Promise<string | null>;
   getDownloadUrl?(key: string): Promise<string | null>;
+  /**
+   * Yields every stored object whose key starts with `prefix`. Used by
+   * maintenance jobs; drivers that cannot enumerate their store omit it.
+   */
+  list?(prefix?: string): AsyncIterable<FileMetadata>;
 }
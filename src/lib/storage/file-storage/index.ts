@@ -1,14 +1,19 @@
 import type { FileStorage } from './file-storage.interface';
+import { createLocalFileStorage } from './local-file-storage';
 import { createS3FileStorage } from './s3-file-storage';
 import { createVercelBlobStorage } from './vercel-blob-storage';
 
-export type FileStorageDriver = 'vercel-blob' | 's3';
+export type FileStorageDriver = 'vercel-blob' | 's3' | 'local';
 
 const isDev = process.env.NODE_ENV !== 'production';
 
 const resolveDriver = (): FileStorageDriver => {
   const candidate = process.env.FILE_STORAGE_TYPE?.trim().toLowerCase();
-  if (candidate === 'vercel-blob' || candidate === 's3') {
+  if (
+    candidate === 'vercel-blob' ||
+    candidate === 's3' ||
+    candidate === 'local'
+  ) {
     return candidate;
   }
   return 'vercel-blob';
@@ -27,6 +32,8 @@ const createFileStorage = (): FileStorage => {
       return createVercelBlobStorage();
     case 's3':
       return createS3FileStorage();
+    case 'local':
+      return createLocalFileStorage();
     default: {
       const exhaustive: never = storageDriver;
       throw new Error(`Unsupported file storage driver: ${exhaustive}`);
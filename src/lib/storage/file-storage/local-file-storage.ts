@@ -0,0 +1,347 @@
+import path from 'node:path';
+import { promises as fs } from 'node:fs';
+import crypto, { randomUUID } from 'node:crypto';
+import type {
+  FileMetadata,
+  FileStorage,
+  UploadOptions,
+  UploadUrl,
+  UploadUrlOptions,
+} from './file-storage.interface';
+import { FileNotFoundError } from './errors';
+import {
+  resolveStoragePrefix,
+  sanitizeFilename,
+  toBuffer,
+} from './storage-utils';
+
+const STORAGE_PREFIX = resolveStoragePrefix();
+const METADATA_DIR = '.metadata';
+const DEFAULT_DOWNLOAD_EXPIRES_SECONDS = 3600;
+/** Applies to upload URLs issued without an explicit size limit. */
+export const DEFAULT_UPLOAD_MAX_SIZE_BYTES = 100 * 1024 * 1024;
+
+export const LOCAL_STORAGE_ROUTE = '/api/storage/local';
+
+export type LocalSignedOperation = 'download' | 'upload';
+
+interface StoredMetadata {
+  filename: string;
+  contentType: string;
+}
+
+export const resolveLocalStorageRoot = () =>
+  path.resolve(
+    process.env.FILE_STORAGE_LOCAL_DIR || path.join(process.cwd(), 'uploads'),
+  );
+
+let cachedSigningKey: Buffer | null = null;
+
+/**
+ * URLs are signed with FILE_STORAGE_LOCAL_SECRET when set, otherwise with a
+ * key derived from BETTER_AUTH_SECRET. Rotating either invalidates every
+ * outstanding link.
+ */
+const getSigningKey = () => {
+  if (cachedSigningKey) {
+    return cachedSigningKey;
+  }
+
+  const secret =
+    process.env.FILE_STORAGE_LOCAL_SECRET || process.env.BETTER_AUTH_SECRET;
+
+  if (!secret) {
+    throw new Error(
+      'FILE_STORAGE_LOCAL_SECRET or BETTER_AUTH_SECRET must be set to sign local storage URLs',
+    );
+  }
+
+  cachedSigningKey = Buffer.from(
+    crypto.hkdfSync('sha256', secret, '', 'local-file-storage', 32),
+  );
+
+  return cachedSigningKey;
+};
+
+/** Upload URLs also sign their size limit so it cannot be raised. */
+const sign = (
+  operation: LocalSignedOperation,
+  key: string,
+  expires: number,
+  maxSize?: number,
+) =>
+  crypto
+    .createHmac('sha256', getSigningKey())
+    .update(
+      maxSize === undefined
+        ? `${operation}\n${key}\n${expires}`
+        : `${operation}\n${key}\n${expires}\n${maxSize}`,
+    )
+    .digest('base64url');
+
+export const verifyLocalSignature = (
+  operation: LocalSignedOperation,
+  key: string,
+  expires: string | null,
+  signature: string | null,
+  maxSize: string | null = null,
+) => {
+  const expiresAt = Number(expires);
+  const maxSizeBytes = maxSize === null ? undefined : Number(maxSize);
+
+  if (!signature || !Number.isInteger(expiresAt)) {
+    return false;
+  }
+
+  if (maxSizeBytes !== undefined && !Number.isSafeInteger(maxSizeBytes)) {
+    return false;
+  }
+
+  if (expiresAt * 1000 < Date.now()) {
+    return false;
+  }
+
+  const expected = Buffer.from(sign(operation, key, expiresAt, maxSizeBytes));
+  const actual = Buffer.from(signature);
+
+  return (
+    expected.length === actual.length &&
+    crypto.timingSafeEqual(expected, actual)
+  );
+};
+
+const buildRoutePath = (key: string) =>
+  `${LOCAL_STORAGE_ROUTE}/${key.split('/').map(encodeURIComponent).join('/')}`;
+
+const buildSignedUrl = (
+  operation: LocalSignedOperation,
+  key: string,
+  expiresInSeconds: number,
+  maxSize?: number,
+) => {
+  const expires = Math.floor(Date.now() / 1000) + expiresInSeconds;
+  const params = new URLSearchParams({
+    expires: String(expires),
+    signature: sign(operation, key, expires, maxSize),
+  });
+  if (maxSize !== undefined) {
+    params.set('maxSize', String(maxSize));
+  }
+
+  return {
+    url: `${buildRoutePath(key)}?${params.toString()}`,
+    expiresAt: new Date(expires * 1000),
+  };
+};
+
+const buildKey = (filename: string) => {
+  const safeName = sanitizeFilename(filename || 'file');
+  const id = randomUUID();
+  const prefix = STORAGE_PREFIX ? `${STORAGE_PREFIX}/` : '';
+  return path.posix.join(prefix, `${id}-${safeName}`);
+};
+
+const sanitizeKey = (key: string) => key.replace(/^\/+/, '');
+
+const isMissing = (error: unknown) =>
+  (error as NodeJS.ErrnoException)?.code === 'ENOENT';
+
+export const createLocalFileStorage = (): FileStorage => {
+  const root = resolveLocalStorageRoot();
+
+  // Keys come from URLs, so anything escaping the root is rejected outright.
+  const resolvePath = (key: string) => {
+    const normalized = sanitizeKey(key);
+    const filePath = path.resolve(root, normalized);
+
+    if (
+      !normalized ||
+      normalized.split('/')[0] === METADATA_DIR ||
+      !filePath.startsWith(`${root}${path.sep}`)
+    ) {
+      throw new Error(`Invalid storage key: ${key}`);
+    }
+
+    return filePath;
+  };
+
+  const resolveMetadataPath = (key: string) =>
+    path.join(root, METADATA_DIR, `${sanitizeKey(key)}.json`);
+
+  const writeAtomically = async (filePath: string, data: Buffer | string) => {
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    const tempPath = `${filePath}.${randomUUID()}.tmp`;
+    await fs.writeFile(tempPath, data);
+    await fs.rename(tempPath, filePath);
+  };
+
+  const readMetadata = async (key: string) => {
+    const filePath = resolvePath(key);
+
+    try {
+      const [stats, stored] = await Promise.all([
+        fs.stat(filePath),
+        fs
+          .readFile(resolveMetadataPath(key), 'utf8')
+          .then((json) => JSON.parse(json) as StoredMetadata)
+          .catch(() => null),
+      ]);
+
+      if (!stats.isFile()) {
+        return null;
+      }
+
+      return {
+        key: sanitizeKey(key),
+        filename: stored?.filename ?? path.posix.basename(key),
+        contentType: stored?.contentType ?? 'application/octet-stream',
+        size: stats.size,
+        uploadedAt: stats.mtime,
+      } satisfies FileMetadata;
+    } catch (error: unknown) {
+      if (isMissing(error)) {
+        return null;
+      }
+      throw error;
+    }
+  };
+
+  return {
+    async upload(content, options: UploadOptions = {}) {
+      const buffer = await toBuffer(content);
+      const key = sanitizeKey(
+        options.key ?? buildKey(options.filename ?? 'file'),
+      );
+      // Downloads are offered under the caller's filename, not the key.
+      const filename = options.filename ?? path.posix.basename(key);
+      const contentType = options.contentType || 'application/octet-stream';
+
+      await writeAtomically(resolvePath(key), buffer);
+      await writeAtomically(
+        resolveMetadataPath(key),
+        JSON.stringify({
+          filename,
+          contentType,
+        } satisfies StoredMetadata),
+      );
+
+      const metadata: FileMetadata = {
+        key,
+        filename,
+        contentType,
+        size: buffer.byteLength,
+        uploadedAt: new Date(),
+      };
+
+      return { key, sourceUrl: buildRoutePath(key), metadata };
+    },
+
+    async createUploadUrl(
+      options: UploadUrlOptions,
+    ): Promise<UploadUrl | null> {
+      const key = sanitizeKey(buildKey(options.filename || 'file'));
+      const expires = Math.max(
+        60,
+        Math.min(60 * 60 * 12, options.expiresInSeconds ?? 900),
+      );
+      const { url, expiresAt } = buildSignedUrl(
+        'upload',
+        key,
+        expires,
+        Math.floor(options.maxSizeBytes ?? DEFAULT_UPLOAD_MAX_SIZE_BYTES),
+      );
+
+      return {
+        key,
+        url,
+        method: 'PUT',
+        expiresAt,
+        headers: { 'Content-Type': options.contentType },
+      };
+    },
+
+    async download(key) {
+      try {
+        return await fs.readFile(resolvePath(key));
+      } catch (error: unknown) {
+        if (isMissing(error)) {
+          throw new FileNotFoundError(key, error);
+        }
+        throw error;
+      }
+    },
+
+    async delete(key) {
+      await Promise.all([
+        fs.rm(resolvePath(key), { force: true }),
+        fs.rm(resolveMetadataPath(key), { force: true }),
+      ]);
+    },
+
+    async exists(key) {
+      return (await readMetadata(key)) !== null;
+    },
+
+    async getMetadata(key) {
+      return readMetadata(key);
+    },
+
+    async getSourceUrl(key) {
+      return buildRoutePath(sanitizeKey(key));
+    },
+
+    async getDownloadUrl(key) {
+      if (!(await readMetadata(key))) {
+        return null;
+      }
+
+      return buildSignedUrl(
+        'download',
+        sanitizeKey(key),
+        DEFAULT_DOWNLOAD_EXPIRES_SECONDS,
+      ).url;
+    },
+
+    async *list(prefix = '') {
+      const normalizedPrefix = sanitizeKey(prefix);
+      const pending = [''];
+
+      while (pending.length > 0) {
+        const directory = pending.pop()!;
+        let entries;
+
+        try {
+          entries = await fs.readdir(path.join(root, directory), {
+            withFileTypes: true,
+          });
+        } catch (error: unknown) {
+          if (isMissing(error)) {
+            continue;
+          }
+          throw error;
+        }
+
+        for (const entry of entries) {
+          const key = path.posix.join(directory, entry.name);
+
+          if (entry.isDirectory()) {
+            if (key !== METADATA_DIR) {
+              pending.push(key);
+            }
+            continue;
+          }
+
+          // In-flight atomic writes are not objects yet.
+          if (!key.startsWith(normalizedPrefix) || key.endsWith('.tmp')) {
+            continue;
+          }
+
+          const metadata = await readMetadata(key);
+          if (metadata) {
+            yield metadata;
+          }
+        }
+      }
+    },
+  } satisfies FileStorage;
+};
@@ -4,6 +4,7 @@ import {
   DeleteObjectCommand,
   GetObjectCommand,
   HeadObjectCommand,
+  ListObjectsV2Command,
   PutObjectCommand,
   S3Client,
 } from '@aws-sdk/client-s3';
@@ -192,5 +193,30 @@ export const createS3FileStorage = (): FileStorage => {
       const command = new GetObjectCommand({ Bucket: bucket, Key: key });
       return getSignedUrl(s3, command, { expiresIn: 3600 });
     },
+
+    async *list(prefix = '') {
+      let continuationToken: string | undefined;
+
+      do {
+        const res = await s3.send(
+          new ListObjectsV2Command({ Bucket: bucket, Prefix: sanitizeKey(prefix), ContinuationToken: continuationToken }),
+        );
+
+        for (const object of res.Contents ?? []) {
+          if (!object.Key) {
+            continue;
+          }
+          yield {
+            key: object.Key,
+            filename: path.posix.basename(object.Key),
+            contentType: 'application/octet-stream',
+            size: Number(object.Size || 0),
+            uploadedAt: object.LastModified ?? undefined,
+          } satisfies FileMetadata;
+        }
+
+        continuationToken = res.IsTruncated ? res.NextContinuationToken : undefined;
+      } while (continuationToken);
+    },
   } satisfies FileStorage;
 };
@@ -1,6 +1,6 @@
 import path from 'node:path';
 import { randomUUID } from 'node:crypto';
-import { del, head, put } from '@vercel/blob';
+import { del, head, list, put } from '@vercel/blob';
 import { FileNotFoundError } from './errors';
 import type {
   FileMetadata,
@@ -145,5 +145,23 @@ export const createVercelBlobStorage = (): FileStorage => {
         throw error;
       }
     },
+
+    async *list(prefix = '') {
+      let cursor: string | undefined;
+
+      do {
+        const page = await list({ prefix: sanitizeKey(prefix), cursor });
+
+        for (const blob of page.blobs) {
+          yield mapMetadata(blob.pathname, {
+            contentType: 'application/octet-stream',
+            size: blob.size,
+            uploadedAt: blob.uploadedAt,
+          });
+        }
+
+        cursor = page.hasMore ? page.cursor : undefined;
+      } while (cursor);
+    },
   } satisfies FileStorage;
 };
@@ -19,6 +19,46 @@ export const buildEmbeddingsKey = (fileId: string) =>
 export const buildPagesKey = (fileId: string) =>
   withPrefix(`${fileId}-pages.json`);
 
+/** Every object an upload writes, in the order the upload route writes them. */
+export const buildUploadedFileKeys = (fileId: string, extension: string) => [
+  buildOriginalKey(fileId, extension),
+  buildExtractedKey(fileId),
+  buildPagesKey(fileId),
+  buildEmbeddingsKey(fileId),
+];
+
+const UPLOADED_FILE_KEY_PATTERN =
+  /^([0-9a-f]{32})(?:\.[^./]+|-extracted\.json|-pages\.json|-embeddings\.json)$/;
+
+/**
+ * Returns the file ID an upload object was written for, or null for keys
+ * that belong to something else (EBM reports, direct uploads).
+ */
+export const parseUploadedFileKey = (key: string) => {
+  const prefix = resolveStoragePrefix();
+  const sanitizedKey = key.replace(/^\/+/, '');
+  const relativeKey =
+    prefix && sanitizedKey.startsWith(`${prefix}/`)
+      ? sanitizedKey.slice(prefix.length + 1)
+      : sanitizedKey;
+
+  return UPLOADED_FILE_KEY_PATTERN.exec(relativeKey)?.[1] ?? null;
+};
+
+export const deleteUploadedFileObjects = async (
+  fileId: string,
+  extension: string,
+): Promise<void> => {
+  await Promise.all(
+    buildUploadedFileKeys(fileId, extension).map((key) =>
+      serverFileStorage.delete(key),
+    ),
+  );
+};
+
+export const buildEbmReportKey = (reportId: string) =>
+  withPrefix(`ebm-reports/${reportId}.json`);
+
 export const readJsonFromStorage = async <T>(key: string): Promise<T> => {
   const buffer = await serverFileStorage.download(key);
   return JSON.parse(buffer.toString('utf8')) as T;
@@ -3,4 +3,10 @@ export interface ChatListItem {
   title: string;
   createdAt: string;
   focusMode: string;
+  projectId?: string | null;
+}
+
+export interface ChatListPage {
+  chats: ChatListItem[];
+  nextCursor: string | null;
 }
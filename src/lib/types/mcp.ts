@@ -20,6 +20,10 @@ export type MCPRemoteConfig = z.infer<typeof MCPRemoteConfigSchema>;
 export type MCPStdioConfig = z.infer<typeof MCPStdioConfigSchema>;
 export type MCPServerConfig = MCPRemoteConfig | MCPStdioConfig;
 
+export const isMCPStdioConfig = (
+  config: MCPServerConfig,
+): config is MCPStdioConfig => 'command' in config;
+
 export type MCPToolInfo = {
   name: string;
   description: string;
@@ -39,11 +43,18 @@ export type MCPServerInfo = {
   userId: string;
   status: 'connected' | 'disconnected' | 'loading' | 'authorizing';
   error?: unknown;
+  /** Where to send the user while `status` is `'authorizing'`. */
+  authorizationUrl?: string;
   toolInfo: MCPToolInfo[];
   createdAt?: Date | string;
   updatedAt?: Date | string;
 };
 
+/** Server info as returned to the settings UI; `config` is omitted for non-editors. */
+export type MCPServerClientInfo = MCPServerInfo & {
+  canEdit: boolean;
+};
+
 export type McpServerInsert = {
   id?: string;
   name: string;
@@ -80,7 +91,35 @@ export type McpOAuthSession = {
   tokens?: Record<string, unknown>;
   codeVerifier?: string;
   state?: string;
+  authorizationUrl?: string;
   createdAt: Date;
   updatedAt: Date;
 };
 
+export type McpServerUpdate = Partial<
+  Pick<McpServerSelect, 'name' | 'config' | 'enabled' | 'visibility'>
+>;
+
+export type McpToolInstructions = {
+  toolName: string;
+  prompt: string;
+};
+
+/** A user's own notes on how the agent should use a server and its tools. */
+export type McpServerCustomization = {
+  serverPrompt: string;
+  tools: McpToolInstructions[];
+};
+
+export type McpToolCallStatus = 'running' | 'success' | 'error';
+
+/** A tool invocation made by the chat agent, streamed to and stored with the answer. */
+export type McpToolCall = {
+  id: string;
+  serverId: string;
+  serverName: string;
+  toolName: string;
+  args: Record<string, unknown>;
+  status: McpToolCallStatus;
+  output?: string;
+};
@@ -0,0 +1,15 @@
+export type ResearchStage =
+  | 'planning'
+  | 'searching'
+  | 'reading'
+  | 'reviewing'
+  | 'writing';
+
+/** Progress update streamed to the client while quality mode researches. */
+export interface ResearchProgress {
+  stage: ResearchStage;
+  message: string;
+  round?: number;
+  queries?: string[];
+  urls?: string[];
+}
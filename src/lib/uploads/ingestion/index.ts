@@ -0,0 +1,13 @@
+export { ingestionQueue } from './queue';
+export {
+  drainIngestionQueue,
+  enqueueIngestion,
+  getIngestionProgress,
+  startIngestionWorker,
+} from './worker';
+export type {
+  IngestionJobUpdate,
+  IngestionQueue,
+} from './ingestion-queue.interface';
+export { MemoryIngestionQueue } from './memory-ingestion-queue';
+export { RedisIngestionQueue } from './redis-ingestion-queue';
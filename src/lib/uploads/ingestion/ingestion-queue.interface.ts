@@ -0,0 +1,23 @@
+import type { IngestionJob } from '@/types/ingestion';
+
+export type IngestionJobUpdate = Partial<
+  Omit<IngestionJob, 'fileId' | 'userId' | 'createdAt'>
+>;
+
+export interface IngestionQueue {
+  enqueue(job: IngestionJob): Promise<void>;
+  /** Takes the oldest queued job and marks it as processing. */
+  claim(): Promise<IngestionJob | null>;
+  /** Puts a claimed job back at the end of the queue. */
+  requeue(fileId: string, update?: IngestionJobUpdate): Promise<void>;
+  /** Releases a claimed job with its final state. */
+  finish(fileId: string, update: IngestionJobUpdate): Promise<void>;
+  update(fileId: string, update: IngestionJobUpdate): Promise<void>;
+  getMany(fileIds: string[]): Promise<IngestionJob[]>;
+  /**
+   * Releases jobs claimed before the given time, e.g. by a process that
+   * exited mid-job, and returns them so the caller can `requeue` or `finish`
+   * each. A job is only returned to one caller. Only shared queues need this.
+   */
+  releaseStale?(claimedBefore: Date): Promise<IngestionJob[]>;
+}
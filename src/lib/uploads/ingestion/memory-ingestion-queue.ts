@@ -0,0 +1,94 @@
+import type { IngestionJob } from '@/types/ingestion';
+import type {
+  IngestionJobUpdate,
+  IngestionQueue,
+} from './ingestion-queue.interface';
+
+export interface MemoryIngestionQueueOptions {
+  /** How long finished jobs stay readable for status requests. */
+  jobTtlMs?: number;
+}
+
+const DEFAULT_JOB_TTL_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Keeps jobs in this process. Used when Redis is not configured, so uploads
+ * are processed by the instance that received them.
+ */
+export class MemoryIngestionQueue implements IngestionQueue {
+  private readonly jobs = new Map<string, IngestionJob>();
+  private readonly pending: string[] = [];
+  private readonly jobTtlMs: number;
+
+  constructor(options: MemoryIngestionQueueOptions = {}) {
+    this.jobTtlMs = options.jobTtlMs ?? DEFAULT_JOB_TTL_MS;
+  }
+
+  private pruneFinished() {
+    const cutoff = Date.now() - this.jobTtlMs;
+
+    this.jobs.forEach((job, fileId) => {
+      const finished = job.status === 'completed' || job.status === 'failed';
+      if (finished && Date.parse(job.updatedAt) < cutoff) {
+        this.jobs.delete(fileId);
+      }
+    });
+  }
+
+  private apply(fileId: string, update: IngestionJobUpdate) {
+    const job = this.jobs.get(fileId);
+    if (job) {
+      this.jobs.set(fileId, {
+        ...job,
+        ...update,
+        updatedAt: new Date().toISOString(),
+      });
+    }
+  }
+
+  async enqueue(job: IngestionJob): Promise<void> {
+    this.pruneFinished();
+    this.jobs.set(job.fileId, job);
+    this.pending.push(job.fileId);
+  }
+
+  async claim(): Promise<IngestionJob | null> {
+    while (this.pending.length > 0) {
+      const fileId = this.pending.shift()!;
+      if (!this.jobs.has(fileId)) {
+        continue;
+      }
+
+      this.apply(fileId, {
+        status: 'processing',
+        attempts: this.jobs.get(fileId)!.attempts + 1,
+      });
+      return { ...this.jobs.get(fileId)! };
+    }
+
+    return null;
+  }
+
+  async requeue(
+    fileId: string,
+    update: IngestionJobUpdate = {},
+  ): Promise<void> {
+    this.apply(fileId, { ...update, status: 'queued' });
+    this.pending.push(fileId);
+  }
+
+  async finish(fileId: string, update: IngestionJobUpdate): Promise<void> {
+    this.apply(fileId, update);
+  }
+
+  async update(fileId: string, update: IngestionJobUpdate): Promise<void> {
+    this.apply(fileId, update);
+  }
+
+  async getMany(fileIds: string[]): Promise<IngestionJob[]> {
+    return fileIds.flatMap((fileId) => {
+      const job = this.jobs.get(fileId);
+      return job ? [{ ...job }] : [];
+    });
+  }
+}
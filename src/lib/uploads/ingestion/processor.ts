@@ -0,0 +1,133 @@
+import 'server-only';
+
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { RecursiveCharacterTextSplitter } from '@langchain/textsplitters';
+import { uploadedFileRepository } from '@/lib/db/pg/repositories/uploaded-file-repository';
+import ModelRegistry from '@/lib/models/registry';
+import { serverFileStorage } from '@/lib/storage';
+import {
+  buildEmbeddingsKey,
+  buildExtractedKey,
+  buildOriginalKey,
+  buildPagesKey,
+  writeJsonToStorage,
+} from '@/lib/storage/uploaded-files';
+import { loadUpload } from '@/lib/uploads/loaders';
+import { indexFileChunks } from '@/lib/uploads/vector-store';
+import type { IngestionJob } from '@/types/ingestion';
+import { ingestionQueue } from './queue';
+
+const splitter = new RecursiveCharacterTextSplitter({
+  chunkSize: 500,
+  chunkOverlap: 100,
+});
+
+/** Chunks embedded per request; progress is reported after each batch. */
+const EMBEDDING_BATCH_SIZE = 64;
+
+/** A failure that retrying cannot fix; its message is shown to the user. */
+export class IngestionError extends Error {
+  constructor(message: string, cause?: unknown) {
+    super(message);
+    this.name = 'IngestionError';
+    if (cause instanceof Error) {
+      this.cause = cause;
+    }
+  }
+}
+
+const extractDocuments = async (job: IngestionJob, buffer: Buffer) => {
+  const tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'soraai-'));
+  const tempFilePath = path.join(tempDir, `${job.fileId}.${job.extension}`);
+
+  try {
+    await fs.writeFile(tempFilePath, buffer);
+
+    const loaded = await loadUpload({
+      name: job.fileName,
+      extension: job.extension,
+      buffer,
+      filePath: tempFilePath,
+    });
+    const documents = loaded.chunked
+      ? loaded.documents
+      : await splitter.splitDocuments(loaded.documents);
+
+    return { documents, pages: loaded.pages };
+  } catch (error) {
+    throw new IngestionError(
+      `${job.fileName} could not be read. It may be damaged or protected.`,
+      error,
+    );
+  } finally {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  }
+};
+
+/**
+ * Extracts and embeds a stored upload, writing the extracted, pages and
+ * embeddings objects and, where pgvector is available, its chunk index.
+ */
+export const processIngestionJob = async (job: IngestionJob) => {
+  const record = await uploadedFileRepository.findById(job.fileId, job.userId);
+  if (!record) {
+    throw new IngestionError(`${job.fileName} was deleted.`);
+  }
+
+  const buffer = await serverFileStorage.download(
+    buildOriginalKey(job.fileId, job.extension),
+  );
+  const { documents, pages } = await extractDocuments(job, buffer);
+  const contents = documents.map((doc) => doc.pageContent);
+
+  await writeJsonToStorage(buildExtractedKey(job.fileId), {
+    title: job.fileName,
+    contents,
+  });
+  await writeJsonToStorage(buildPagesKey(job.fileId), {
+    title: job.fileName,
+    pages,
+  });
+  await ingestionQueue.update(job.fileId, {
+    stage: 'parsed',
+    chunks: contents.length,
+    embeddedChunks: 0,
+  });
+
+  const model = await new ModelRegistry().loadEmbeddingModel(
+    job.embeddingProviderId,
+    job.embeddingModelKey,
+    { feature: 'uploads', userId: job.userId },
+  );
+
+  const embeddings: number[][] = [];
+  for (let start = 0; start < contents.length; start += EMBEDDING_BATCH_SIZE) {
+    embeddings.push(
+      ...(await model.embedDocuments(
+        contents.slice(start, start + EMBEDDING_BATCH_SIZE),
+      )),
+    );
+    await ingestionQueue.update(job.fileId, {
+      embeddedChunks: embeddings.length,
+    });
+  }
+
+  await writeJsonToStorage(buildEmbeddingsKey(job.fileId), {
+    title: job.fileName,
+    embeddings,
+  });
+  await indexFileChunks(
+    job.fileId,
+    documents.map((doc, index) => ({
+      chunkIndex: index,
+      pageNumber:
+        typeof doc.metadata.pageNumber === 'number'
+          ? doc.metadata.pageNumber
+          : null,
+      content: contents[index],
+      embedding: embeddings[index],
+    })),
+  );
+};
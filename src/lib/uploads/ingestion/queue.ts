@@ -0,0 +1,30 @@
+import 'server-only';
+
+import { getRedisClient } from '@/lib/cache/redis-client';
+import type { IngestionQueue } from './ingestion-queue.interface';
+import { MemoryIngestionQueue } from './memory-ingestion-queue';
+import { RedisIngestionQueue } from './redis-ingestion-queue';
+
+declare global {
+  // eslint-disable-next-line no-var
+  var __soraai_ingestion_queue__: IngestionQueue | undefined;
+}
+
+const createIngestionQueue = (): IngestionQueue => {
+  const redis = getRedisClient();
+
+  if (redis) {
+    return new RedisIngestionQueue({ redis, keyPrefix: 'soraai:' });
+  }
+
+  return new MemoryIngestionQueue();
+};
+
+/**
+ * Kept on globalThis in every environment: route handlers and the worker
+ * must share one in-memory queue when Redis is not configured.
+ */
+export const ingestionQueue =
+  globalThis.__soraai_ingestion_queue__ ?? createIngestionQueue();
+
+globalThis.__soraai_ingestion_queue__ = ingestionQueue;
@@ -0,0 +1,210 @@
+import type { Redis } from '@upstash/redis';
+import type { IngestionJob } from '@/types/ingestion';
+import type {
+  IngestionJobUpdate,
+  IngestionQueue,
+} from './ingestion-queue.interface';
+
+export interface RedisIngestionQueueOptions {
+  redis: Redis;
+  keyPrefix?: string;
+  /** How long jobs stay readable after their last update. */
+  jobTtlMs?: number;
+}
+
+const DEFAULT_JOB_TTL_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Moves the oldest pending member into the claimed set in one step, so a
+ * worker that dies mid-claim cannot drop a job that is in neither.
+ */
+const CLAIM_SCRIPT = `
+local member = redis.call('RPOP', KEYS[1])
+if member then
+  redis.call('ZADD', KEYS[2], ARGV[1], member)
+end
+return member
+`;
+
+/**
+ * Shares jobs between instances: pending file IDs sit in a list, claimed
+ * ones in a sorted set scored by claim time so `releaseStale` can recover
+ * jobs whose worker went away.
+ */
+export class RedisIngestionQueue implements IngestionQueue {
+  private readonly redis: Redis;
+  private readonly keyPrefix: string;
+  private readonly jobTtlMs: number;
+
+  constructor(options: RedisIngestionQueueOptions) {
+    this.redis = options.redis;
+    this.keyPrefix = options.keyPrefix ?? '';
+    this.jobTtlMs = options.jobTtlMs ?? DEFAULT_JOB_TTL_MS;
+  }
+
+  private get queueKey() {
+    return `${this.keyPrefix}ingestion:queue`;
+  }
+
+  private get processingKey() {
+    return `${this.keyPrefix}ingestion:processing`;
+  }
+
+  private jobKey(fileId: string) {
+    return `${this.keyPrefix}ingestion:job:${fileId}`;
+  }
+
+  /**
+   * The client deserialises JSON automatically, so an all-digit file ID
+   * would come back as a number; members are stored JSON-encoded instead.
+   */
+  private encodeMember(fileId: string) {
+    return JSON.stringify(fileId);
+  }
+
+  private decodeMember(member: unknown) {
+    if (typeof member !== 'string') {
+      return String(member);
+    }
+    try {
+      return String(JSON.parse(member));
+    } catch {
+      return member;
+    }
+  }
+
+  private parseJob(value: unknown): IngestionJob | null {
+    if (value === null || value === undefined) {
+      return null;
+    }
+    if (typeof value === 'string') {
+      try {
+        return JSON.parse(value) as IngestionJob;
+      } catch {
+        return null;
+      }
+    }
+    return value as IngestionJob;
+  }
+
+  private async readJob(fileId: string) {
+    return this.parseJob(await this.redis.get(this.jobKey(fileId)));
+  }
+
+  private async writeJob(job: IngestionJob) {
+    await this.redis.set(this.jobKey(job.fileId), JSON.stringify(job), {
+      px: this.jobTtlMs,
+    });
+  }
+
+  private async apply(fileId: string, update: IngestionJobUpdate) {
+    const job = await this.readJob(fileId);
+    if (!job) {
+      return null;
+    }
+
+    const next = { ...job, ...update, updatedAt: new Date().toISOString() };
+    await this.writeJob(next);
+    return next;
+  }
+
+  async enqueue(job: IngestionJob): Promise<void> {
+    await this.writeJob(job);
+    await this.redis.lpush(this.queueKey, this.encodeMember(job.fileId));
+  }
+
+  async claim(): Promise<IngestionJob | null> {
+    for (;;) {
+      const member = await this.redis.eval<[number], unknown>(
+        CLAIM_SCRIPT,
+        [this.queueKey, this.processingKey],
+        [Date.now()],
+      );
+      if (member === null || member === undefined) {
+        return null;
+      }
+
+      const fileId = this.decodeMember(member);
+      const job = await this.readJob(fileId);
+      if (!job) {
+        // The job expired while queued; nothing is left to recover.
+        await this.redis.zrem(this.processingKey, this.encodeMember(fileId));
+        continue;
+      }
+
+      return this.apply(fileId, {
+        status: 'processing',
+        attempts: job.attempts + 1,
+      });
+    }
+  }
+
+  async requeue(
+    fileId: string,
+    update: IngestionJobUpdate = {},
+  ): Promise<void> {
+    await this.apply(fileId, { ...update, status: 'queued' });
+    await this.redis.zrem(this.processingKey, this.encodeMember(fileId));
+    await this.redis.lpush(this.queueKey, this.encodeMember(fileId));
+  }
+
+  async finish(fileId: string, update: IngestionJobUpdate): Promise<void> {
+    await this.apply(fileId, update);
+    await this.redis.zrem(this.processingKey, this.encodeMember(fileId));
+  }
+
+  async update(fileId: string, update: IngestionJobUpdate): Promise<void> {
+    await this.apply(fileId, update);
+    // Progress counts as a heartbeat, so only silent jobs look stale.
+    await this.redis.zadd(
+      this.processingKey,
+      { xx: true },
+      { score: Date.now(), member: this.encodeMember(fileId) },
+    );
+  }
+
+  async getMany(fileIds: string[]): Promise<IngestionJob[]> {
+    if (fileIds.length === 0) {
+      return [];
+    }
+
+    const values = await this.redis.mget<unknown[]>(
+      ...fileIds.map((fileId) => this.jobKey(fileId)),
+    );
+
+    return values.flatMap((value) => {
+      const job = this.parseJob(value);
+      return job ? [job] : [];
+    });
+  }
+
+  async releaseStale(claimedBefore: Date): Promise<IngestionJob[]> {
+    const members = await this.redis.zrange<unknown[]>(
+      this.processingKey,
+      0,
+      claimedBefore.getTime(),
+      { byScore: true },
+    );
+    const released: IngestionJob[] = [];
+
+    for (const member of members) {
+      const fileId = this.decodeMember(member);
+      // Whoever removes the member owns the job, so concurrent sweeps cannot
+      // retry the same job twice.
+      const removed = await this.redis.zrem(
+        this.processingKey,
+        this.encodeMember(fileId),
+      );
+      if (removed === 0) {
+        continue;
+      }
+
+      const job = await this.readJob(fileId);
+      if (job) {
+        released.push(job);
+      }
+    }
+
+    return released;
+  }
+}
@@ -0,0 +1,257 @@
+import 'server-only';
+
+import { uploadedFileRepository } from '@/lib/db/pg/repositories/uploaded-file-repository';
+import logger from '@/lib/logger';
+import { serverFileStorage } from '@/lib/storage';
+import { buildEmbeddingsKey } from '@/lib/storage/uploaded-files';
+import type { IngestionJob, IngestionProgress } from '@/types/ingestion';
+import { IngestionError, processIngestionJob } from './processor';
+import { ingestionQueue } from './queue';
+
+const ingestionLogger = logger.withDefaults({ tag: 'uploads:ingestion' });
+
+const DEFAULT_CONCURRENCY = 1;
+const DEFAULT_POLL_INTERVAL_SECONDS = 10;
+const MAX_ATTEMPTS = 3;
+/** Claimed jobs without progress for this long are assumed abandoned. */
+const STALE_CLAIM_MS = 15 * 60 * 1000;
+
+const readNonNegativeInteger = (value: string | undefined, fallback: number) => {
+  const parsed = Number(value);
+  return value?.trim() && Number.isInteger(parsed) && parsed >= 0
+    ? parsed
+    : fallback;
+};
+
+declare global {
+  // eslint-disable-next-line no-var
+  var __soraai_ingestion_worker__:
+    | { activeRunners: number; poller?: NodeJS.Timeout }
+    | undefined;
+}
+
+const workerState = () => {
+  globalThis.__soraai_ingestion_worker__ ??= { activeRunners: 0 };
+  return globalThis.__soraai_ingestion_worker__;
+};
+
+export const enqueueIngestion = async (
+  params: Pick<
+    IngestionJob,
+    | 'fileId'
+    | 'userId'
+    | 'fileName'
+    | 'extension'
+    | 'embeddingProviderId'
+    | 'embeddingModelKey'
+  >,
+) => {
+  const now = new Date().toISOString();
+
+  await ingestionQueue.enqueue({
+    ...params,
+    status: 'queued',
+    stage: 'stored',
+    chunks: 0,
+    embeddedChunks: 0,
+    attempts: 0,
+    error: null,
+    createdAt: now,
+    updatedAt: now,
+  });
+};
+
+const toProgress = (job: IngestionJob): IngestionProgress => ({
+  fileId: job.fileId,
+  fileName: job.fileName,
+  status: job.status,
+  stage: job.stage,
+  chunks: job.chunks,
+  embeddedChunks: job.embeddedChunks,
+  error: job.error,
+});
+
+/**
+ * Reports a file whose job is gone (expired, or lost with an in-memory
+ * queue). Its stored embeddings decide whether it was processed; IDs that
+ * are not the caller's own files are reported the same way as lost ones.
+ */
+const resolveUntrackedProgress = async (
+  fileId: string,
+  userId: string,
+): Promise<IngestionProgress> => {
+  const record = await uploadedFileRepository.findById(fileId, userId);
+  const processed =
+    record !== null &&
+    (await serverFileStorage.exists(buildEmbeddingsKey(fileId)));
+
+  return {
+    fileId,
+    fileName: record?.name ?? '',
+    status: processed ? 'completed' : 'failed',
+    stage: processed ? 'embedded' : 'stored',
+    chunks: 0,
+    embeddedChunks: 0,
+    error: processed
+      ? null
+      : `${record?.name ?? 'This file'} is no longer being processed. Please upload it again.`,
+  };
+};
+
+/**
+ * Returns progress for every requested file. Jobs belonging to someone else
+ * are never reported; like files without a job, they show as failed unless
+ * the caller's own upload was already processed.
+ */
+export const getIngestionProgress = async (
+  fileIds: string[],
+  userId: string,
+): Promise<IngestionProgress[]> => {
+  const jobs = new Map(
+    (await ingestionQueue.getMany(fileIds))
+      .filter((job) => job.userId === userId)
+      .map((job) => [job.fileId, job]),
+  );
+
+  return Promise.all(
+    fileIds.map((fileId) => {
+      const job = jobs.get(fileId);
+      return job ? toProgress(job) : resolveUntrackedProgress(fileId, userId);
+    }),
+  );
+};
+
+const failureMessage = (job: IngestionJob) =>
+  `${job.fileName} could not be processed. Please try again.`;
+
+const runJob = async (job: IngestionJob) => {
+  try {
+    await processIngestionJob(job);
+    await ingestionQueue.finish(job.fileId, {
+      status: 'completed',
+      stage: 'embedded',
+      error: null,
+    });
+  } catch (error) {
+    if (!(error instanceof IngestionError) && job.attempts < MAX_ATTEMPTS) {
+      ingestionLogger.warn('Retrying upload ingestion.', {
+        fileId: job.fileId,
+        attempt: job.attempts,
+        error,
+      });
+      await ingestionQueue.requeue(job.fileId);
+      return;
+    }
+
+    ingestionLogger.error('Failed to ingest upload.', {
+      fileId: job.fileId,
+      error,
+    });
+    await ingestionQueue.finish(job.fileId, {
+      status: 'failed',
+      error:
+        error instanceof IngestionError ? error.message : failureMessage(job),
+    });
+  }
+};
+
+const runUntilEmpty = async () => {
+  const state = workerState();
+  state.activeRunners += 1;
+
+  try {
+    for (;;) {
+      const job = await ingestionQueue.claim();
+      if (!job) {
+        return;
+      }
+      await runJob(job);
+    }
+  } catch (error) {
+    ingestionLogger.error('Ingestion worker stopped unexpectedly.', error);
+  } finally {
+    state.activeRunners -= 1;
+  }
+};
+
+/**
+ * Retries jobs whose worker went away. A job that keeps taking its worker
+ * down (e.g. by running out of memory) is failed once it has used its
+ * attempts, instead of being picked up forever.
+ */
+const recoverStaleJobs = async () => {
+  const stale =
+    (await ingestionQueue.releaseStale?.(
+      new Date(Date.now() - STALE_CLAIM_MS),
+    )) ?? [];
+
+  for (const job of stale) {
+    if (job.attempts < MAX_ATTEMPTS) {
+      ingestionLogger.info('Requeued abandoned ingestion job.', {
+        fileId: job.fileId,
+        attempt: job.attempts,
+      });
+      await ingestionQueue.requeue(job.fileId);
+      continue;
+    }
+
+    ingestionLogger.error('Abandoned ingestion job has no attempts left.', {
+      fileId: job.fileId,
+      attempts: job.attempts,
+    });
+    await ingestionQueue.finish(job.fileId, {
+      status: 'failed',
+      error: failureMessage(job),
+    });
+  }
+};
+
+/**
+ * Processes queued uploads in this process until the queue is empty, with
+ * up to INGESTION_CONCURRENCY jobs at a time. Runners already active here
+ * count towards the limit, so calling this again is cheap.
+ */
+export const drainIngestionQueue = async () => {
+  const concurrency = Math.max(
+    1,
+    readNonNegativeInteger(
+      process.env.INGESTION_CONCURRENCY,
+      DEFAULT_CONCURRENCY,
+    ),
+  );
+
+  try {
+    await recoverStaleJobs();
+  } catch (error) {
+    ingestionLogger.error('Failed to requeue abandoned ingestion jobs.', error);
+  }
+
+  const available = concurrency - workerState().activeRunners;
+  await Promise.all(
+    Array.from({ length: Math.max(0, available) }, () => runUntilEmpty()),
+  );
+};
+
+/**
+ * Polls the queue from this process so jobs left by other instances or a
+ * restart are picked up. Uploads also start a drain as soon as they are
+ * queued; set INGESTION_POLL_INTERVAL_SECONDS=0 to rely on that alone.
+ */
+export const startIngestionWorker = () => {
+  const state = workerState();
+  const intervalSeconds = readNonNegativeInteger(
+    process.env.INGESTION_POLL_INTERVAL_SECONDS,
+    DEFAULT_POLL_INTERVAL_SECONDS,
+  );
+
+  if (intervalSeconds === 0 || state.poller) {
+    return;
+  }
+
+  state.poller = setInterval(() => {
+    void drainIngestionQueue();
+  }, intervalSeconds * 1000);
+  state.poller.unref?.();
+
+  void drainIngestionQueue();
+};
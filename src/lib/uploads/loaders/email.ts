@@ -0,0 +1,244 @@
+import { convertHtmlToText } from './html';
+import { pagesToDocuments, type LoadedUpload, type UploadSource } from './types';
+
+/**
+ * A minimal RFC 5322/MIME reader for saved emails. It extracts the headers
+ * people search for, the readable body (plain text preferred over HTML) and
+ * attachment names; attachment contents are not indexed.
+ */
+
+interface MimePart {
+  headers: Map<string, string>;
+  /** Raw body with every byte kept as one latin1 character. */
+  body: string;
+}
+
+interface CollectedContent {
+  plain: string[];
+  html: string[];
+  attachments: string[];
+}
+
+const SUMMARY_HEADERS = ['subject', 'from', 'to', 'cc', 'date'];
+
+const toTitleCase = (name: string) =>
+  name.charAt(0).toUpperCase() + name.slice(1);
+
+const decodeCharset = (bytes: Buffer, charset = 'utf-8') => {
+  try {
+    return new TextDecoder(charset).decode(bytes);
+  } catch {
+    return bytes.toString('utf8');
+  }
+};
+
+const decodeQuotedPrintable = (value: string) =>
+  Buffer.from(
+    value
+      .replace(/=\r?\n/g, '')
+      .replace(/=([0-9A-F]{2})/gi, (_, hex: string) =>
+        String.fromCharCode(parseInt(hex, 16)),
+      ),
+    'latin1',
+  );
+
+/** Decodes RFC 2047 encoded words such as `=?UTF-8?B?...?=`. */
+const decodeHeaderValue = (value: string) =>
+  Buffer.from(value, 'latin1')
+    .toString('utf8')
+    .replace(/(\?=)\s+(=\?)/g, '$1$2')
+    .replace(
+      /=\?([^?]+)\?([bq])\?([^?]*)\?=/gi,
+      (_, charset: string, encoding: string, text: string) =>
+        decodeCharset(
+          encoding.toLowerCase() === 'b'
+            ? Buffer.from(text, 'base64')
+            : decodeQuotedPrintable(text.replace(/_/g, ' ')),
+          charset,
+        ),
+    );
+
+const parseHeaders = (block: string) => {
+  const headers = new Map<string, string>();
+
+  block
+    .replace(/\r?\n[ \t]+/g, ' ')
+    .split(/\r?\n/)
+    .forEach((line) => {
+      const separator = line.indexOf(':');
+      if (separator <= 0) {
+        return;
+      }
+      const name = line.slice(0, separator).trim().toLowerCase();
+      if (!headers.has(name)) {
+        headers.set(name, line.slice(separator + 1).trim());
+      }
+    });
+
+  return headers;
+};
+
+/** Splits `type/subtype; key="value"` into its value and parameters. */
+const parseStructuredHeader = (value = '') => {
+  const [main, ...rest] = value.split(';');
+  const parameters = new Map<string, string>();
+
+  rest.forEach((parameter) => {
+    const separator = parameter.indexOf('=');
+    if (separator > 0) {
+      parameters.set(
+        parameter.slice(0, separator).trim().toLowerCase(),
+        parameter
+          .slice(separator + 1)
+          .trim()
+          .replace(/^"(.*)"$/, '$1'),
+      );
+    }
+  });
+
+  return { value: main.trim().toLowerCase(), parameters };
+};
+
+const parsePart = (raw: string): MimePart => {
+  const separator = /\r?\n\r?\n/.exec(raw);
+
+  if (!separator) {
+    return { headers: parseHeaders(raw), body: '' };
+  }
+
+  return {
+    headers: parseHeaders(raw.slice(0, separator.index)),
+    body: raw.slice(separator.index + separator[0].length),
+  };
+};
+
+const splitMultipart = (body: string, boundary: string) => {
+  const parts: MimePart[] = [];
+  const segments = body.split(`--${boundary}`).slice(1);
+
+  for (const segment of segments) {
+    if (segment.startsWith('--')) {
+      break;
+    }
+    parts.push(parsePart(segment.replace(/^\r?\n/, '').replace(/\r?\n$/, '')));
+  }
+
+  return parts;
+};
+
+const decodeBody = (part: MimePart) => {
+  const encoding = part.headers
+    .get('content-transfer-encoding')
+    ?.trim()
+    .toLowerCase();
+
+  if (encoding === 'base64') {
+    return Buffer.from(part.body.replace(/\s+/g, ''), 'base64');
+  }
+  if (encoding === 'quoted-printable') {
+    return decodeQuotedPrintable(part.body);
+  }
+  return Buffer.from(part.body, 'latin1');
+};
+
+const collectContent = (part: MimePart, content: CollectedContent) => {
+  const contentType = parseStructuredHeader(
+    part.headers.get('content-type') || 'text/plain',
+  );
+  const disposition = parseStructuredHeader(
+    part.headers.get('content-disposition'),
+  );
+  const filename =
+    disposition.parameters.get('filename') ??
+    contentType.parameters.get('name');
+
+  if (contentType.value.startsWith('multipart/')) {
+    const boundary = contentType.parameters.get('boundary');
+    if (!boundary) {
+      return;
+    }
+
+    const children = splitMultipart(part.body, boundary);
+
+    if (contentType.value !== 'multipart/alternative') {
+      children.forEach((child) => collectContent(child, content));
+      return;
+    }
+
+    // Alternatives carry the same message; keep the plainest readable one.
+    const versions = children.map((child) => {
+      const version: CollectedContent = { plain: [], html: [], attachments: [] };
+      collectContent(child, version);
+      return version;
+    });
+    const chosen =
+      versions.find((version) => version.plain.length > 0) ??
+      versions.find((version) => version.html.length > 0);
+
+    if (chosen) {
+      content.plain.push(...chosen.plain);
+      content.html.push(...chosen.html);
+    }
+    versions.forEach((version) =>
+      content.attachments.push(...version.attachments),
+    );
+    return;
+  }
+
+  if (contentType.value === 'message/rfc822' && !filename) {
+    collectContent(parsePart(decodeBody(part).toString('latin1')), content);
+    return;
+  }
+
+  const isText =
+    contentType.value === 'text/plain' || contentType.value === 'text/html';
+
+  if (disposition.value === 'attachment' || !isText) {
+    if (filename) {
+      content.attachments.push(decodeHeaderValue(filename));
+    }
+    return;
+  }
+
+  const text = decodeCharset(
+    decodeBody(part),
+    contentType.parameters.get('charset'),
+  );
+
+  if (contentType.value === 'text/html') {
+    content.html.push(text);
+  } else {
+    content.plain.push(text);
+  }
+};
+
+/** Loads `.eml` messages as a single page: summary headers, body, attachments. */
+export const loadEmail = (source: UploadSource): LoadedUpload => {
+  const message = parsePart(source.buffer.toString('latin1'));
+  const content: CollectedContent = { plain: [], html: [], attachments: [] };
+  collectContent(message, content);
+
+  const headerLines = SUMMARY_HEADERS.flatMap((name) => {
+    const value = message.headers.get(name);
+    return value ? [`${toTitleCase(name)}: ${decodeHeaderValue(value)}`] : [];
+  });
+  const body =
+    content.plain.length > 0
+      ? content.plain.join('\n\n')
+      : content.html.map(convertHtmlToText).join('\n\n');
+
+  const sections = [headerLines.join('\n'), body.replace(/\r\n/g, '\n').trim()];
+  if (content.attachments.length > 0) {
+    sections.push(`Attachments: ${content.attachments.join(', ')}`);
+  }
+
+  const pages = [
+    { pageNumber: 1, text: sections.filter(Boolean).join('\n\n') },
+  ];
+
+  return {
+    documents: pagesToDocuments(source.name, pages),
+    pages,
+    chunked: false,
+  };
+};
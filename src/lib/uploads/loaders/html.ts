@@ -0,0 +1,33 @@
+import { load as loadHtml } from 'cheerio';
+import { htmlToText } from 'html-to-text';
+import { pagesToDocuments, type LoadedUpload, type UploadSource } from './types';
+
+/** Plain text of an HTML document, keeping table layout and dropping links. */
+export const convertHtmlToText = (html: string) =>
+  htmlToText(html, {
+    wordwrap: false,
+    selectors: [
+      { selector: 'a', options: { ignoreHref: true } },
+      { selector: 'img', format: 'skip' },
+      { selector: 'table', format: 'dataTable' },
+    ],
+  }).trim();
+
+/** Loads HTML pages (e.g. saved reports or web exports) as a single page. */
+export const loadHtmlDocument = (source: UploadSource): LoadedUpload => {
+  const html = source.buffer.toString('utf8');
+  const title = loadHtml(html)('title').first().text().trim();
+  const body = convertHtmlToText(html);
+  const pages = [
+    {
+      pageNumber: 1,
+      text: title && !body.startsWith(title) ? `${title}\n\n${body}` : body,
+    },
+  ];
+
+  return {
+    documents: pagesToDocuments(source.name, pages),
+    pages,
+    chunked: false,
+  };
+};
@@ -0,0 +1,62 @@
+import { DocxLoader } from '@langchain/community/document_loaders/fs/docx';
+import { recognizeImageText } from '../ocr';
+import { loadEmail } from './email';
+import { loadHtmlDocument } from './html';
+import { loadPdf } from './pdf';
+import { loadPresentation } from './presentation';
+import { loadSpreadsheet } from './spreadsheet';
+import { pagesToDocuments, type LoadedUpload, type UploadSource } from './types';
+
+export type { LoadedUpload, UploadSource } from './types';
+
+export const IMAGE_UPLOAD_EXTENSIONS = new Set(['jpg', 'jpeg', 'png', 'webp']);
+
+const singlePage = (source: UploadSource, text: string): LoadedUpload => {
+  const pages = [{ pageNumber: 1, text }];
+  return {
+    documents: pagesToDocuments(source.name, pages),
+    pages,
+    chunked: false,
+  };
+};
+
+/**
+ * Extracts the text of an uploaded file into embeddable documents and a page
+ * snapshot. Unknown extensions are rejected by the uploads route before this
+ * is called.
+ */
+export const loadUpload = async (
+  source: UploadSource,
+): Promise<LoadedUpload> => {
+  switch (source.extension) {
+    case 'pdf':
+      return loadPdf(source);
+    case 'docx': {
+      const docs = await new DocxLoader(source.filePath).load();
+      return singlePage(
+        source,
+        docs.map((doc) => doc.pageContent).join('\n\n'),
+      );
+    }
+    case 'xlsx':
+    case 'xls':
+    case 'csv':
+      return loadSpreadsheet(source);
+    case 'pptx':
+      return loadPresentation(source);
+    case 'html':
+    case 'htm':
+      return loadHtmlDocument(source);
+    case 'eml':
+      return loadEmail(source);
+    case 'txt':
+      return singlePage(source, source.buffer.toString('utf8'));
+    default:
+      if (IMAGE_UPLOAD_EXTENSIONS.has(source.extension)) {
+        // Even without recognisable text a single page is kept so downstream
+        // consumers (e.g. the EBM validator) can still resolve a snapshot.
+        return singlePage(source, await recognizeImageText(source.buffer));
+      }
+      return { documents: [], pages: [], chunked: false };
+  }
+};
@@ -0,0 +1,35 @@
+import { extractPdfTextPages, type EbmTextPage } from '@/lib/ebm';
+import { recognizePdfPages } from '../ocr';
+import { pagesToDocuments, type LoadedUpload, type UploadSource } from './types';
+
+/** Pages with less text than this are treated as scans and sent to OCR. */
+const MIN_TEXT_LAYER_CHARS = 20;
+
+/**
+ * Loads a PDF page by page, keeping pdf.js text positions in the page
+ * snapshot so EBM templates can use area-based extraction. Pages without a
+ * usable text layer (scans, photographed receipts saved as PDF) are rendered
+ * and read with OCR when it is enabled.
+ */
+export const loadPdf = async (source: UploadSource): Promise<LoadedUpload> => {
+  let pages: EbmTextPage[] = await extractPdfTextPages(source.buffer);
+
+  const scannedPages = pages
+    .filter((page) => page.text.trim().length < MIN_TEXT_LAYER_CHARS)
+    .map((page) => page.pageNumber);
+  const recognized = await recognizePdfPages(source.buffer, scannedPages);
+
+  if (recognized.size > 0) {
+    pages = pages.map((page) =>
+      recognized.has(page.pageNumber)
+        ? { ...page, text: recognized.get(page.pageNumber)! }
+        : page,
+    );
+  }
+
+  return {
+    documents: pagesToDocuments(source.name, pages),
+    pages,
+    chunked: false,
+  };
+};
@@ -0,0 +1,108 @@
+import path from 'path';
+import { load as loadXml, type CheerioAPI } from 'cheerio';
+import JSZip from 'jszip';
+import { pagesToDocuments, type LoadedUpload, type UploadSource } from './types';
+
+const SLIDE_PATTERN = /^ppt\/slides\/slide(\d+)\.xml$/;
+
+const readXml = async (zip: JSZip, filePath: string) => {
+  const file = zip.file(filePath);
+  return file ? loadXml(await file.async('string'), { xml: true }) : null;
+};
+
+/** Maps relationship IDs to part paths, resolved against the owning part. */
+const readRelationships = async (zip: JSZip, partPath: string) => {
+  const directory = path.posix.dirname(partPath);
+  const relsPath = path.posix.join(
+    directory,
+    '_rels',
+    `${path.posix.basename(partPath)}.rels`,
+  );
+  const $ = await readXml(zip, relsPath);
+  const relationships = new Map<string, { type: string; target: string }>();
+
+  $?.('Relationship').each((_, element) => {
+    const id = $(element).attr('Id');
+    const target = $(element).attr('Target');
+    if (id && target) {
+      relationships.set(id, {
+        type: $(element).attr('Type') ?? '',
+        target: path.posix.normalize(path.posix.join(directory, target)),
+      });
+    }
+  });
+
+  return relationships;
+};
+
+const readParagraphs = ($: CheerioAPI) =>
+  $('a\\:p')
+    .map((_, paragraph) =>
+      $(paragraph)
+        .find('a\\:t')
+        .map((_, run) => $(run).text())
+        .get()
+        .join('')
+        .trim(),
+    )
+    .get()
+    .filter(Boolean);
+
+/** Slides in presentation order, falling back to file numbering. */
+const resolveSlidePaths = async (zip: JSZip) => {
+  const presentation = await readXml(zip, 'ppt/presentation.xml');
+  const relationships = await readRelationships(zip, 'ppt/presentation.xml');
+  const ordered =
+    presentation?.('p\\:sldId')
+      .map((_, element) => {
+        const id = presentation(element).attr('r:id');
+        return id ? relationships.get(id)?.target : undefined;
+      })
+      .get()
+      .filter((target): target is string => Boolean(target)) ?? [];
+
+  if (ordered.length > 0) {
+    return ordered;
+  }
+
+  return Object.keys(zip.files)
+    .filter((name) => SLIDE_PATTERN.test(name))
+    .sort(
+      (a, b) =>
+        Number(SLIDE_PATTERN.exec(a)![1]) - Number(SLIDE_PATTERN.exec(b)![1]),
+    );
+};
+
+/** Loads PPTX decks: one page per slide, with speaker notes appended. */
+export const loadPresentation = async (
+  source: UploadSource,
+): Promise<LoadedUpload> => {
+  const zip = await JSZip.loadAsync(source.buffer);
+  const pages: LoadedUpload['pages'] = [];
+
+  for (const slidePath of await resolveSlidePaths(zip)) {
+    const slide = await readXml(zip, slidePath);
+    if (!slide) {
+      continue;
+    }
+
+    const notesPath = Array.from(
+      (await readRelationships(zip, slidePath)).values(),
+    ).find((relationship) => relationship.type.endsWith('/notesSlide'))?.target;
+    const notes = notesPath ? await readXml(zip, notesPath) : null;
+
+    const sections = [`Slide ${pages.length + 1}`, ...readParagraphs(slide)];
+    const noteParagraphs = notes ? readParagraphs(notes) : [];
+    if (noteParagraphs.length > 0) {
+      sections.push('', 'Notes:', ...noteParagraphs);
+    }
+
+    pages.push({ pageNumber: pages.length + 1, text: sections.join('\n') });
+  }
+
+  return {
+    documents: pagesToDocuments(source.name, pages),
+    pages,
+    chunked: false,
+  };
+};
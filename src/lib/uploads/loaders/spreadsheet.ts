@@ -0,0 +1,136 @@
+import { Document } from '@langchain/core/documents';
+import * as XLSX from 'xlsx';
+import type { LoadedUpload, UploadSource } from './types';
+
+/**
+ * Row groups are kept well under the embedding context so a chunk still
+ * carries its sheet name and header row alongside the figures.
+ */
+const MAX_CHUNK_CHARS = 1500;
+
+const formatCell = (value: unknown) =>
+  String(value ?? '')
+    .replace(/\s+/g, ' ')
+    .replace(/\|/g, '\\|')
+    .trim();
+
+const formatRow = (cells: string[]) => `| ${cells.join(' | ')} |`;
+
+const readWorkbook = (source: UploadSource) =>
+  source.extension === 'csv'
+    ? // CSV values are kept as written; auto-typing would turn account codes
+      // into numbers and reformat dates.
+      XLSX.read(source.buffer.toString('utf8'), { type: 'string', raw: true })
+    : XLSX.read(source.buffer, { type: 'buffer', cellDates: true });
+
+interface SheetRow {
+  rowNumber: number;
+  cells: string[];
+}
+
+const readRows = (sheet: XLSX.WorkSheet): SheetRow[] => {
+  const firstRow = sheet['!ref'] ? XLSX.utils.decode_range(sheet['!ref']).s.r : 0;
+  const rows = XLSX.utils.sheet_to_json<unknown[]>(sheet, {
+    header: 1,
+    raw: false,
+    defval: '',
+    blankrows: true,
+  });
+
+  return rows
+    .map((row, index) => {
+      const cells = row.map(formatCell);
+      while (cells.length > 0 && !cells[cells.length - 1]) {
+        cells.pop();
+      }
+      return { rowNumber: firstRow + index + 1, cells };
+    })
+    .filter((row) => row.cells.length > 0);
+};
+
+/**
+ * Loads XLSX, XLS and CSV files. Every sheet becomes a page rendered as a
+ * Markdown table, and is embedded in row groups that repeat the sheet name
+ * and header row so each chunk still reads as a table.
+ */
+export const loadSpreadsheet = (source: UploadSource): LoadedUpload => {
+  const workbook = readWorkbook(source);
+  const documents: Document[] = [];
+  const pages: LoadedUpload['pages'] = [];
+
+  workbook.SheetNames.forEach((sheetName) => {
+    const rows = readRows(workbook.Sheets[sheetName]);
+    if (rows.length === 0) {
+      return;
+    }
+
+    const [header, ...body] = rows;
+    const width = Math.max(...rows.map((row) => row.cells.length));
+    const pad = (cells: string[]) =>
+      Array.from({ length: width }, (_, index) => cells[index] ?? '');
+    const headerLines = [
+      formatRow(pad(header.cells)),
+      formatRow(Array(width).fill('---')),
+    ];
+    const title =
+      workbook.SheetNames.length > 1 || source.extension !== 'csv'
+        ? `Sheet: ${sheetName}`
+        : source.name;
+
+    const pageNumber = pages.length + 1;
+
+    pages.push({
+      pageNumber,
+      text: [
+        title,
+        ...headerLines,
+        ...body.map((row) => formatRow(pad(row.cells))),
+      ].join('\n'),
+    });
+
+    let group: SheetRow[] = [];
+    let groupLength = 0;
+
+    const flush = () => {
+      if (group.length === 0) {
+        return;
+      }
+      const first = group[0].rowNumber;
+      const last = group[group.length - 1].rowNumber;
+      documents.push(
+        new Document({
+          pageContent: [
+            `${title} (rows ${first}-${last})`,
+            ...headerLines,
+            ...group.map((row) => formatRow(pad(row.cells))),
+          ].join('\n'),
+          metadata: { title: source.name, sheet: sheetName, pageNumber },
+        }),
+      );
+      group = [];
+      groupLength = 0;
+    };
+
+    if (body.length === 0) {
+      documents.push(
+        new Document({
+          pageContent: [title, headerLines[0]].join('\n'),
+          metadata: { title: source.name, sheet: sheetName, pageNumber },
+        }),
+      );
+      return;
+    }
+
+    body.forEach((row) => {
+      const length = formatRow(pad(row.cells)).length + 1;
+      if (groupLength + length > MAX_CHUNK_CHARS) {
+        flush();
+      }
+      group.push(row);
+      groupLength += length;
+    });
+    flush();
+  });
+
+  return { documents, pages, chunked: true };
+};
@@ -0,0 +1,33 @@
+import { Document } from '@langchain/core/documents';
+import type { EbmTextPage } from '@/lib/ebm';
+
+export interface UploadSource {
+  name: string;
+  extension: string;
+  buffer: Buffer;
+  /** Temporary copy on disk for loaders that only read from a path. */
+  filePath: string;
+}
+
+export interface LoadedUpload {
+  /** Text to embed. */
+  documents: Document[];
+  /** Page snapshot stored for citations and the EBM validator. */
+  pages: EbmTextPage[];
+  /**
+   * Set when `documents` are already chunked (e.g. spreadsheet row groups)
+   * and must not be split again.
+   */
+  chunked: boolean;
+}
+
+export const pagesToDocuments = (title: string, pages: EbmTextPage[]) =>
+  pages
+    .filter((page) => page.text.trim())
+    .map(
+      (page) =>
+        new Document({
+          pageContent: page.text,
+          metadata: { title, pageNumber: page.pageNumber },
+        }),
+    );
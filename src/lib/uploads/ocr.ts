@@ -0,0 +1,146 @@
+import { createWorker, type Worker } from 'tesseract.js';
+import { openPdfDocument, renderPdfPage } from '@/lib/ebm/pdfDocument';
+import logger from '@/lib/logger';
+import { parseEnvBoolean } from '@/lib/utils/env';
+
+const ocrLogger = logger.withDefaults({ tag: 'uploads:ocr' });
+
+/** Render scale for scanned pages; ~150 DPI for a typical A4 page. */
+const PDF_RENDER_SCALE = 2;
+const DEFAULT_MAX_PDF_PAGES = 30;
+
+/**
+ * Off unless OCR_ENABLED is set: without OCR_LANG_PATH, Tesseract fetches its
+ * language data from a public CDN, which a deployment should choose to allow.
+ */
+export const isOcrEnabled = () =>
+  parseEnvBoolean(process.env.OCR_ENABLED, false);
+
+const resolveLanguages = () =>
+  (process.env.OCR_LANGUAGES || 'eng')
+    .split(/[+,\s]+/)
+    .map((language) => language.trim())
+    .filter(Boolean);
+
+const resolveMaxPdfPages = () => {
+  const parsed = Number(process.env.OCR_MAX_PDF_PAGES);
+  return Number.isInteger(parsed) && parsed > 0
+    ? parsed
+    : DEFAULT_MAX_PDF_PAGES;
+};
+
+declare global {
+  // eslint-disable-next-line no-var
+  var __soraai_ocr_worker__: Promise<Worker> | undefined;
+}
+
+/**
+ * One Tesseract worker is shared by the process; it queues jobs, so
+ * concurrent uploads are recognised one after another. Language data is
+ * downloaded on first use unless OCR_LANG_PATH points at a local copy.
+ *
+ * If the worker cannot start (usually missing language data), the failure
+ * is kept and OCR stays off until the server restarts.
+ */
+const getWorker = () => {
+  if (!globalThis.__soraai_ocr_worker__) {
+    globalThis.__soraai_ocr_worker__ = new Promise<Worker>(
+      (resolve, reject) => {
+        createWorker(resolveLanguages(), undefined, {
+          langPath: process.env.OCR_LANG_PATH || undefined,
+          cachePath: process.env.OCR_CACHE_DIR || undefined,
+          // tesseract.js never settles createWorker when language data fails
+          // to load and rethrows job failures unless a handler is set; job
+          // promises still reject, so this only needs to end start-up.
+          errorHandler: (error) => reject(error),
+        }).then(resolve, reject);
+      },
+    );
+    globalThis.__soraai_ocr_worker__.catch((error) =>
+      ocrLogger.error('Failed to start the OCR worker.', { error }),
+    );
+  }
+
+  return globalThis.__soraai_ocr_worker__;
+};
+
+/**
+ * Recognises the text in an encoded image (PNG, JPEG, WebP). OCR is best
+ * effort: when it is disabled or fails the upload continues without text.
+ */
+export const recognizeImageText = async (image: Buffer): Promise<string> => {
+  if (!isOcrEnabled()) {
+    return '';
+  }
+
+  try {
+    const worker = await getWorker();
+    const { data } = await worker.recognize(image);
+    return data.text.trim();
+  } catch (error) {
+    ocrLogger.warn('Failed to recognise image text.', { error });
+    return '';
+  }
+};
+
+/**
+ * Renders the given PDF pages and recognises their text. Returns text by
+ * page number; pages beyond OCR_MAX_PDF_PAGES are skipped.
+ */
+export const recognizePdfPages = async (
+  pdfBuffer: Buffer,
+  pageNumbers: number[],
+): Promise<Map<number, string>> => {
+  const recognized = new Map<number, string>();
+
+  if (!isOcrEnabled() || pageNumbers.length === 0) {
+    return recognized;
+  }
+
+  const maxPages = resolveMaxPdfPages();
+  if (pageNumbers.length > maxPages) {
+    ocrLogger.info('Limiting OCR to the first scanned pages.', {
+      scannedPages: pageNumbers.length,
+      maxPages,
+    });
+  }
+
+  let doc;
+  try {
+    doc = await openPdfDocument(pdfBuffer);
+  } catch (error) {
+    ocrLogger.warn('Failed to open PDF for OCR.', { error });
+    return recognized;
+  }
+
+  try {
+    for (const pageNumber of pageNumbers.slice(0, maxPages)) {
+      if (pageNumber < 1 || pageNumber > doc.numPages) {
+        continue;
+      }
+
+      let rendered;
+      try {
+        rendered = await renderPdfPage(doc, pageNumber, PDF_RENDER_SCALE);
+        const text = await recognizeImageText(
+          rendered.canvas.toBuffer('image/png'),
+        );
+        if (text) {
+          recognized.set(pageNumber, text);
+        }
+      } catch (error) {
+        ocrLogger.warn('Failed to render PDF page for OCR.', {
+          pageNumber,
+          error,
+        });
+      } finally {
+        rendered?.cleanup();
+      }
+    }
+  } finally {
+    await doc.cleanup();
+    await doc.destroy();
+  }
+
+  return recognized;
+};
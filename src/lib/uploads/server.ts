@@ -0,0 +1,195 @@
+import 'server-only';
+
+import { uploadedFileRepository } from '@/lib/db/pg/repositories/uploaded-file-repository';
+import logger from '@/lib/logger';
+import { resolveStoragePrefix, serverFileStorage } from '@/lib/storage';
+import {
+  deleteUploadedFileObjects,
+  parseUploadedFileKey,
+} from '@/lib/storage/uploaded-files';
+import type { UploadSweepResult, UploadedFile } from '@/types/uploaded-file';
+
+const uploadsLogger = logger.withDefaults({ tag: 'uploads' });
+
+const DEFAULT_ORPHAN_GRACE_HOURS = 24;
+const DEFAULT_SWEEP_INTERVAL_MINUTES = 360;
+const LOOKUP_BATCH_SIZE = 500;
+
+const readNonNegativeNumber = (value: string | undefined, fallback: number) => {
+  const parsed = Number(value);
+  return value?.trim() && Number.isFinite(parsed) && parsed >= 0
+    ? parsed
+    : fallback;
+};
+
+/**
+ * How long an upload may sit unattached before it counts as orphaned. Files
+ * are uploaded before the message that uses them is sent, so this must
+ * outlast a drafting session.
+ */
+const resolveOrphanGraceMs = () => {
+  const hours = readNonNegativeNumber(
+    process.env.UPLOAD_ORPHAN_GRACE_HOURS,
+    DEFAULT_ORPHAN_GRACE_HOURS,
+  );
+  return hours * 60 * 60 * 1000;
+};
+
+/**
+ * Deletes every stored object of the given uploads, then their records. A
+ * record is only removed once its objects are gone so a failed delete is
+ * retried by the next sweep.
+ */
+export const deleteUploadedFiles = async (
+  files: Pick<UploadedFile, 'id' | 'extension'>[],
+) => {
+  const deleted: string[] = [];
+
+  for (const file of files) {
+    try {
+      await deleteUploadedFileObjects(file.id, file.extension);
+      deleted.push(file.id);
+    } catch (error) {
+      uploadsLogger.warn('Failed to delete uploaded file objects.', {
+        fileId: file.id,
+        error,
+      });
+    }
+  }
+
+  await uploadedFileRepository.deleteMany(deleted);
+
+  return deleted.length;
+};
+
+/** Removes one of the user's uploads and drops it from their chats and projects. */
+export const deleteUploadedFileForUser = async (
+  fileId: string,
+  userId: string,
+) => {
+  const file = await uploadedFileRepository.findById(fileId, userId);
+
+  if (!file) {
+    return false;
+  }
+
+  await uploadedFileRepository.detachReferences(file.id, userId);
+  await deleteUploadedFileObjects(file.id, file.extension);
+  await uploadedFileRepository.deleteMany([file.id]);
+
+  return true;
+};
+
+/** Call before deleting a chat; its record link is cleared by the delete. */
+export const deleteChatUploadedFiles = async (chatId: string) =>
+  deleteUploadedFiles(await uploadedFileRepository.listOwnedByChat(chatId));
+
+/** Call before deleting a user; their records cascade with the user row. */
+export const deleteUserUploadedFiles = async (userId: string) =>
+  deleteUploadedFiles(await uploadedFileRepository.listByUser(userId));
+
+/**
+ * Deletes upload objects nothing points at any more: records left without a
+ * chat or project, and objects in storage with no record at all (failed
+ * uploads, or files whose chat was removed outside the app). Only objects
+ * older than the grace period are touched.
+ */
+export const sweepOrphanedUploads = async (): Promise<UploadSweepResult> => {
+  const cutoff = new Date(Date.now() - resolveOrphanGraceMs());
+
+  const deletedFiles = await deleteUploadedFiles(
+    await uploadedFileRepository.listUnattached(cutoff),
+  );
+
+  let deletedObjects = 0;
+
+  if (serverFileStorage.list) {
+    const prefix = resolveStoragePrefix();
+    const candidates = new Map<string, string[]>();
+
+    for await (const object of serverFileStorage.list(
+      prefix ? `${prefix}/` : '',
+    )) {
+      const fileId = parseUploadedFileKey(object.key);
+      if (!fileId || !object.uploadedAt || object.uploadedAt >= cutoff) {
+        continue;
+      }
+      candidates.set(fileId, [...(candidates.get(fileId) ?? []), object.key]);
+    }
+
+    const fileIds = Array.from(candidates.keys());
+    const known = new Set<string>();
+
+    for (let i = 0; i < fileIds.length; i += LOOKUP_BATCH_SIZE) {
+      const batch = await uploadedFileRepository.findExistingIds(
+        fileIds.slice(i, i + LOOKUP_BATCH_SIZE),
+      );
+      batch.forEach((fileId) => known.add(fileId));
+    }
+
+    for (const [fileId, keys] of candidates) {
+      if (known.has(fileId)) {
+        continue;
+      }
+      for (const key of keys) {
+        try {
+          await serverFileStorage.delete(key);
+          deletedObjects += 1;
+        } catch (error) {
+          uploadsLogger.warn('Failed to delete orphaned upload object.', {
+            key,
+            error,
+          });
+        }
+      }
+    }
+  }
+
+  return { deletedFiles, deletedObjects };
+};
+
+declare global {
+  // eslint-disable-next-line no-var
+  var __soraai_upload_sweeper__: NodeJS.Timeout | undefined;
+}
+
+/**
+ * Runs `sweepOrphanedUploads` on an interval inside this process. Set
+ * UPLOAD_SWEEP_INTERVAL_MINUTES=0 to disable it, e.g. when an external
+ * scheduler calls /api/files/sweep instead.
+ */
+export const startUploadSweeper = () => {
+  const intervalMinutes = readNonNegativeNumber(
+    process.env.UPLOAD_SWEEP_INTERVAL_MINUTES,
+    DEFAULT_SWEEP_INTERVAL_MINUTES,
+  );
+
+  if (intervalMinutes === 0 || globalThis.__soraai_upload_sweeper__) {
+    return;
+  }
+
+  let running = false;
+
+  const run = async () => {
+    if (running) {
+      return;
+    }
+    running = true;
+    try {
+      const result = await sweepOrphanedUploads();
+      if (result.deletedFiles > 0 || result.deletedObjects > 0) {
+        uploadsLogger.info('Removed orphaned uploads.', result);
+      }
+    } catch (error) {
+      uploadsLogger.error('Failed to sweep orphaned uploads.', error);
+    } finally {
+      running = false;
+    }
+  };
+
+  globalThis.__soraai_upload_sweeper__ = setInterval(
+    run,
+    intervalMinutes * 60 * 1000,
+  );
+  globalThis.__soraai_upload_sweeper__.unref?.();
+};
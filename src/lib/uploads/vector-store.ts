@@ -0,0 +1,287 @@
+import 'server-only';
+
+import { fileChunkRepository } from '@/lib/db/pg/repositories/file-chunk-repository';
+import logger from '@/lib/logger';
+import { serverFileStorage } from '@/lib/storage';
+import {
+  buildEmbeddingsKey,
+  buildExtractedKey,
+  buildPagesKey,
+  readJsonFromStorage,
+} from '@/lib/storage/uploaded-files';
+import computeSimilarity from '@/lib/utils/computeSimilarity';
+import type { FileChunk, FileChunkMatch } from '@/types/file-chunk';
+
+const vectorLogger = logger.withDefaults({ tag: 'uploads:vector-store' });
+
+type VectorStoreMode = 'auto' | 'pgvector' | 'json';
+
+/**
+ * VECTOR_STORE=json skips pgvector even where it is installed; `pgvector`
+ * behaves like the default but warns when the extension is missing.
+ */
+const resolveMode = (): VectorStoreMode => {
+  const mode = process.env.VECTOR_STORE?.trim().toLowerCase();
+  return mode === 'pgvector' || mode === 'json' ? mode : 'auto';
+};
+
+declare global {
+  // eslint-disable-next-line no-var
+  var __soraai_vector_store_available__: Promise<boolean> | undefined;
+  // eslint-disable-next-line no-var
+  var __soraai_vector_store_backfills__:
+    | Map<string, Promise<boolean>>
+    | undefined;
+}
+
+/**
+ * Whether uploaded file chunks are indexed in pgvector. The answer is kept
+ * for the life of the process; a failed check is retried on the next call.
+ */
+export const isVectorStoreAvailable = (): Promise<boolean> => {
+  const mode = resolveMode();
+
+  if (mode === 'json') {
+    return Promise.resolve(false);
+  }
+
+  globalThis.__soraai_vector_store_available__ ??= fileChunkRepository
+    .isAvailable()
+    .then((available) => {
+      if (!available && mode === 'pgvector') {
+        vectorLogger.warn(
+          'VECTOR_STORE is pgvector but the chunks table is missing; using stored embeddings.',
+        );
+      }
+      return available;
+    })
+    .catch((error) => {
+      vectorLogger.error('Failed to check for the pgvector store.', error);
+      globalThis.__soraai_vector_store_available__ = undefined;
+      return false;
+    });
+
+  return globalThis.__soraai_vector_store_available__;
+};
+
+/**
+ * Replaces a file's indexed chunks. Returns false when pgvector is not in
+ * use or the write failed; the `-embeddings.json` object written alongside
+ * keeps the file searchable either way.
+ */
+export const indexFileChunks = async (
+  fileId: string,
+  chunks: FileChunk[],
+): Promise<boolean> => {
+  if (!(await isVectorStoreAvailable())) {
+    return false;
+  }
+
+  try {
+    await fileChunkRepository.replaceForFile(fileId, chunks);
+    return true;
+  } catch (error) {
+    vectorLogger.error('Failed to index file chunks.', { fileId, error });
+    return false;
+  }
+};
+
+/**
+ * Indexes an older upload in the background. Concurrent searches over the
+ * same file share one write instead of each replacing its chunks.
+ */
+const backfillFileChunks = (fileId: string, chunks: FileChunk[]) => {
+  const backfills = (globalThis.__soraai_vector_store_backfills__ ??=
+    new Map());
+
+  if (!backfills.has(fileId)) {
+    backfills.set(
+      fileId,
+      indexFileChunks(fileId, chunks).finally(() => backfills.delete(fileId)),
+    );
+  }
+};
+
+/**
+ * Recovers each chunk's page from the stored page snapshot. Chunks were
+ * split from pages in order, so each is looked up from the page the
+ * previous one came from; chunks that match no page keep a null page.
+ */
+const assignPageNumbers = async (
+  fileId: string,
+  contents: string[],
+): Promise<Array<number | null>> => {
+  const key = buildPagesKey(fileId);
+
+  if (!(await serverFileStorage.exists(key))) {
+    return contents.map(() => null);
+  }
+
+  const { pages } = await readJsonFromStorage<{
+    pages?: Array<{ pageNumber?: number; text?: string }>;
+  }>(key);
+  const snapshot = (pages ?? []).map((page, index) => ({
+    pageNumber:
+      typeof page.pageNumber === 'number' ? page.pageNumber : index + 1,
+    text: page.text ?? '',
+  }));
+  let cursor = 0;
+
+  return contents.map((text) => {
+    const needle = text.trim();
+    const offset = snapshot
+      .slice(cursor)
+      .findIndex((page) => needle !== '' && page.text.includes(needle));
+
+    if (offset === -1) {
+      return null;
+    }
+
+    cursor += offset;
+    return snapshot[cursor].pageNumber;
+  });
+};
+
+type RetrieveFileChunksParams = {
+  queryEmbedding: number[];
+  fileIds: string[];
+  limit: number;
+  minSimilarity?: number;
+  /** Restricts matches to these pages (or slides, sheets) of the files. */
+  pageNumbers?: number[];
+};
+
+/**
+ * Scores files without indexed chunks from their stored extracted text and
+ * embeddings. With pgvector available the chunks are indexed as they are
+ * read, so each older upload is only scanned this way once.
+ */
+const searchStoredEmbeddings = async (
+  queryEmbedding: number[],
+  fileIds: string[],
+  backfill: boolean,
+  pageNumbers?: number[],
+): Promise<FileChunkMatch[]> => {
+  const matches = await Promise.all(
+    fileIds.map(async (fileId) => {
+      const extractedKey = buildExtractedKey(fileId);
+      const embeddingsKey = buildEmbeddingsKey(fileId);
+
+      try {
+        const [contentExists, embeddingsExists] = await Promise.all([
+          serverFileStorage.exists(extractedKey),
+          serverFileStorage.exists(embeddingsKey),
+        ]);
+
+        if (!contentExists || !embeddingsExists) {
+          return [];
+        }
+
+        const [content, stored] = await Promise.all([
+          readJsonFromStorage<{ title: string; contents: string[] }>(
+            extractedKey,
+          ),
+          readJsonFromStorage<{ title: string; embeddings: number[][] }>(
+            embeddingsKey,
+          ),
+        ]);
+
+        // The page snapshot can be large, so it is only read when the pages
+        // are going to be stored or filtered on.
+        const chunkPages =
+          backfill || pageNumbers?.length
+            ? await assignPageNumbers(fileId, content.contents)
+            : content.contents.map(() => null);
+        const chunks: FileChunk[] = content.contents
+          .map((text, index) => ({
+            chunkIndex: index,
+            pageNumber: chunkPages[index],
+            content: text,
+            embedding: stored.embeddings[index],
+          }))
+          .filter((chunk) => Array.isArray(chunk.embedding));
+
+        if (backfill) {
+          backfillFileChunks(fileId, chunks);
+        }
+
+        return chunks
+          .filter(
+            (chunk) =>
+              !pageNumbers?.length ||
+              (chunk.pageNumber !== null &&
+                pageNumbers.includes(chunk.pageNumber)),
+          )
+          .map(({ embedding, ...chunk }) => ({
+            ...chunk,
+            fileId,
+            fileName: content.title,
+            similarity: computeSimilarity(queryEmbedding, embedding),
+          }));
+      } catch (error) {
+        vectorLogger.error('Failed to load stored file embeddings.', {
+          fileId,
+          error,
+        });
+        return [];
+      }
+    }),
+  );
+
+  return matches.flat();
+};
+
+/**
+ * Finds the chunks of the given files closest to a query embedding, best
+ * first. Indexed files are searched in pgvector; the rest fall back to
+ * their `-embeddings.json` objects.
+ */
+export const retrieveFileChunks = async ({
+  queryEmbedding,
+  fileIds,
+  limit,
+  minSimilarity,
+  pageNumbers,
+}: RetrieveFileChunksParams): Promise<FileChunkMatch[]> => {
+  if (fileIds.length === 0 || limit <= 0) {
+    return [];
+  }
+
+  const useVectorStore = await isVectorStoreAvailable();
+  let indexedFileIds = new Set<string>();
+  let vectorMatches: FileChunkMatch[] = [];
+
+  if (useVectorStore) {
+    try {
+      indexedFileIds = await fileChunkRepository.findIndexedFileIds(fileIds);
+      vectorMatches = await fileChunkRepository.search({
+        embedding: queryEmbedding,
+        fileIds: Array.from(indexedFileIds),
+        pageNumbers,
+        limit,
+        minSimilarity,
+      });
+    } catch (error) {
+      vectorLogger.error('Vector search failed; using stored embeddings.', error);
+      indexedFileIds = new Set();
+      vectorMatches = [];
+    }
+  }
+
+  const storedMatches = await searchStoredEmbeddings(
+    queryEmbedding,
+    fileIds.filter((fileId) => !indexedFileIds.has(fileId)),
+    useVectorStore,
+    pageNumbers,
+  );
+
+  return [
+    ...vectorMatches,
+    ...storedMatches.filter(
+      (match) =>
+        minSimilarity === undefined || match.similarity > minSimilarity,
+    ),
+  ]
+    .sort((a, b) => b.similarity - a.similarity)
+    .slice(0, limit);
+};
@@ -0,0 +1,109 @@
+import { BaseCallbackHandler } from '@langchain/core/callbacks/base';
+import {
+  AIMessage,
+  AIMessageChunk,
+  type BaseMessage,
+} from '@langchain/core/messages';
+import type { ChatGeneration, LLMResult } from '@langchain/core/outputs';
+import type { Serialized } from '@langchain/core/load/serializable';
+import type { UsageContext } from '@/types/usage';
+import { estimateTokens } from './pricing';
+import { recordUsage, type UsageModelInfo } from './recorder';
+
+type RunStart = { startedAt: number; estimatedInputTokens: number };
+
+const messageText = (message: BaseMessage) =>
+  typeof message.content === 'string'
+    ? message.content
+    : JSON.stringify(message.content);
+
+/**
+ * Token usage reported by the provider. Chat models expose it on each
+ * message's `usage_metadata`; older integrations only fill `llmOutput`.
+ */
+const getReportedUsage = (output: LLMResult) => {
+  let inputTokens = 0;
+  let outputTokens = 0;
+  let reported = false;
+
+  for (const generation of output.generations.flat()) {
+    const { message } = generation as Partial<ChatGeneration>;
+    const usage =
+      AIMessage.isInstance(message) || AIMessageChunk.isInstance(message)
+        ? message.usage_metadata
+        : undefined;
+    if (usage) {
+      inputTokens += usage.input_tokens;
+      outputTokens += usage.output_tokens;
+      reported = true;
+    }
+  }
+
+  if (reported) {
+    return { inputTokens, outputTokens };
+  }
+
+  const tokenUsage = output.llmOutput?.tokenUsage;
+  if (tokenUsage) {
+    return {
+      inputTokens: tokenUsage.promptTokens ?? 0,
+      outputTokens: tokenUsage.completionTokens ?? 0,
+    };
+  }
+
+  return null;
+};
+
+/**
+ * Records provider, model, tokens, latency and cost for every call made
+ * through a chat model. Attached by `ModelRegistry.loadChatModel`, so chains
+ * that receive the model are metered without changes.
+ */
+export class UsageCallbackHandler extends BaseCallbackHandler {
+  name = 'usage_callback_handler';
+
+  private runs = new Map<string, RunStart>();
+
+  constructor(
+    private readonly context: UsageContext,
+    private readonly model: UsageModelInfo,
+  ) {
+    super();
+  }
+
+  handleChatModelStart(
+    _llm: Serialized,
+    messages: BaseMessage[][],
+    runId: string,
+  ) {
+    this.runs.set(runId, {
+      startedAt: Date.now(),
+      estimatedInputTokens: estimateTokens(
+        messages.flat().map(messageText).join(''),
+      ),
+    });
+  }
+
+  async handleLLMEnd(output: LLMResult, runId: string) {
+    const run = this.runs.get(runId);
+    this.runs.delete(runId);
+
+    const reported = getReportedUsage(output);
+    const outputText = output.generations
+      .flat()
+      .map((generation) => generation.text)
+      .join('');
+
+    await recordUsage(this.context, this.model, {
+      kind: 'chat',
+      inputTokens: reported?.inputTokens ?? run?.estimatedInputTokens ?? 0,
+      outputTokens: reported?.outputTokens ?? estimateTokens(outputText),
+      tokensEstimated: !reported,
+      latencyMs: run ? Date.now() - run.startedAt : 0,
+    });
+  }
+
+  handleLLMError(_err: unknown, runId: string) {
+    this.runs.delete(runId);
+  }
+}
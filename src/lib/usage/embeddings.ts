@@ -0,0 +1,43 @@
+import type { Embeddings } from '@langchain/core/embeddings';
+import type { UsageContext } from '@/types/usage';
+import { estimateTokens } from './pricing';
+import { recordUsage, type UsageModelInfo } from './recorder';
+
+/**
+ * Embeddings have no callback hooks, so the instance's embed methods are
+ * wrapped instead. Few providers report embedding usage; tokens are
+ * estimated from the input text.
+ */
+export const meterEmbeddings = <T extends Embeddings>(
+  embeddings: T,
+  context: UsageContext,
+  model: UsageModelInfo,
+): T => {
+  const embedDocuments = embeddings.embedDocuments.bind(embeddings);
+  const embedQuery = embeddings.embedQuery.bind(embeddings);
+
+  const measure = async <R>(texts: string[], run: () => Promise<R>) => {
+    const startedAt = Date.now();
+    const result = await run();
+
+    void recordUsage(context, model, {
+      kind: 'embedding',
+      inputTokens: texts.reduce(
+        (total, text) => total + estimateTokens(text),
+        0,
+      ),
+      outputTokens: 0,
+      tokensEstimated: true,
+      latencyMs: Date.now() - startedAt,
+    });
+
+    return result;
+  };
+
+  embeddings.embedDocuments = (documents: string[]) =>
+    measure(documents, () => embedDocuments(documents));
+  embeddings.embedQuery = (document: string) =>
+    measure([document], () => embedQuery(document));
+
+  return embeddings;
+};
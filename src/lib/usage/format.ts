@@ -0,0 +1,15 @@
+const compactNumber = new Intl.NumberFormat('en-US', {
+  notation: 'compact',
+  maximumFractionDigits: 1,
+});
+
+export const formatTokens = (value: number) => compactNumber.format(value);
+
+/** Sub-cent amounts keep four decimals so small usage does not read as $0. */
+export const formatCost = (value: number) =>
+  value > 0 && value < 0.01
+    ? `$${value.toFixed(4)}`
+    : `$${value.toLocaleString('en-US', {
+        minimumFractionDigits: 2,
+        maximumFractionDigits: 2,
+      })}`;
@@ -0,0 +1,86 @@
+/** USD per million tokens. */
+type ModelPrice = { input: number; output: number };
+
+/** Providers that run models locally and cost nothing per token. */
+const LOCAL_PROVIDER_TYPES = new Set([
+  'ollama',
+  'lmstudio',
+  'lemonade',
+  'transformers',
+]);
+
+/**
+ * List prices keyed by model id prefix; the longest matching prefix wins so
+ * `gpt-4o-mini` is not priced as `gpt-4o`. Dated snapshots such as
+ * `gpt-4o-2024-08-06` resolve to their family.
+ */
+const MODEL_PRICES: Record<string, ModelPrice> = {
+  'gpt-5': { input: 1.25, output: 10 },
+  'gpt-5-mini': { input: 0.25, output: 2 },
+  'gpt-5-nano': { input: 0.05, output: 0.4 },
+  'gpt-4.1': { input: 2, output: 8 },
+  'gpt-4.1-mini': { input: 0.4, output: 1.6 },
+  'gpt-4.1-nano': { input: 0.1, output: 0.4 },
+  'gpt-4o': { input: 2.5, output: 10 },
+  'gpt-4o-mini': { input: 0.15, output: 0.6 },
+  'gpt-4-turbo': { input: 10, output: 30 },
+  'gpt-3.5-turbo': { input: 0.5, output: 1.5 },
+  o1: { input: 15, output: 60 },
+  o3: { input: 2, output: 8 },
+  'o3-mini': { input: 1.1, output: 4.4 },
+  'o4-mini': { input: 1.1, output: 4.4 },
+  'text-embedding-3-small': { input: 0.02, output: 0 },
+  'text-embedding-3-large': { input: 0.13, output: 0 },
+  'text-embedding-ada-002': { input: 0.1, output: 0 },
+  'claude-3-haiku': { input: 0.25, output: 1.25 },
+  'claude-3-5-haiku': { input: 0.8, output: 4 },
+  'claude-haiku-4': { input: 1, output: 5 },
+  'claude-3-5-sonnet': { input: 3, output: 15 },
+  'claude-3-7-sonnet': { input: 3, output: 15 },
+  'claude-sonnet-4': { input: 3, output: 15 },
+  'claude-3-opus': { input: 15, output: 75 },
+  'claude-opus-4': { input: 15, output: 75 },
+  'gemini-1.5-flash': { input: 0.075, output: 0.3 },
+  'gemini-1.5-pro': { input: 1.25, output: 5 },
+  'gemini-2.0-flash': { input: 0.1, output: 0.4 },
+  'gemini-2.5-flash': { input: 0.3, output: 2.5 },
+  'gemini-2.5-pro': { input: 1.25, output: 10 },
+  'deepseek-chat': { input: 0.27, output: 1.1 },
+  'deepseek-reasoner': { input: 0.55, output: 2.19 },
+};
+
+const findModelPrice = (model: string): ModelPrice | null => {
+  // Gemini ids arrive as `models/gemini-...`.
+  const id = model.toLowerCase().replace(/^models\//, '');
+
+  let match: string | null = null;
+  for (const prefix of Object.keys(MODEL_PRICES)) {
+    if (id.startsWith(prefix) && (!match || prefix.length > match.length)) {
+      match = prefix;
+    }
+  }
+
+  return match ? MODEL_PRICES[match] : null;
+};
+
+/** Estimated cost of a call in USD, or `null` when the model is not priced. */
+export const estimateCost = (
+  providerType: string,
+  model: string,
+  inputTokens: number,
+  outputTokens: number,
+) => {
+  if (LOCAL_PROVIDER_TYPES.has(providerType)) {
+    return 0;
+  }
+
+  const price = findModelPrice(model);
+  if (!price) {
+    return null;
+  }
+
+  return (inputTokens * price.input + outputTokens * price.output) / 1_000_000;
+};
+
+/** Rough token count for providers that do not report usage. */
+export const estimateTokens = (text: string) => Math.ceil(text.length / 4);
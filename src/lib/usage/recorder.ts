@@ -0,0 +1,55 @@
+import { usageRepository } from '@/lib/db/pg/repositories/usage-repository';
+import logger from '@/lib/logger';
+import type { UsageContext, UsageKind } from '@/types/usage';
+import { estimateCost } from './pricing';
+
+const usageLogger = logger.withDefaults({ tag: 'usage' });
+
+/** The model a metered call went to. */
+export interface UsageModelInfo {
+  providerId: string;
+  providerType: string;
+  model: string;
+}
+
+export interface UsageMeasurement {
+  kind: UsageKind;
+  inputTokens: number;
+  outputTokens: number;
+  tokensEstimated: boolean;
+  latencyMs: number;
+}
+
+/**
+ * Stores one model call. Metering must never fail the request it measures,
+ * so write errors are logged and swallowed.
+ */
+export const recordUsage = async (
+  context: UsageContext,
+  model: UsageModelInfo,
+  measurement: UsageMeasurement,
+) => {
+  const cost = estimateCost(
+    model.providerType,
+    model.model,
+    measurement.inputTokens,
+    measurement.outputTokens,
+  );
+
+  try {
+    await usageRepository.insert({
+      userId: context.userId ?? null,
+      chatId: context.chatId ?? null,
+      feature: context.feature,
+      ...model,
+      ...measurement,
+      estimatedCost: cost === null ? null : cost.toFixed(6),
+    });
+  } catch (error) {
+    usageLogger.warn('Failed to record model usage.', {
+      feature: context.feature,
+      model: model.model,
+      error,
+    });
+  }
+};
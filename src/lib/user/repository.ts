@@ -1,6 +1,7 @@
 import { and, count, eq, gte, sql } from 'drizzle-orm';
 
 import { pgDb } from '@/lib/db';
+import { usageRepository } from '@/lib/db/pg/repositories/usage-repository';
 import {
   accounts,
   chats,
@@ -138,19 +139,23 @@ export const userRepository = {
     since.setDate(since.getDate() - 30);
     since.setHours(0, 0, 0, 0);
 
-    const [aggregates] = await pgDb
-      .select({
-        chatCount: sql<number>`COUNT(DISTINCT ${chats.id})`.as('chatCount'),
-        messageCount: count(messages.id).as('messageCount'),
-      })
-      .from(chats)
-      .leftJoin(messages, eq(messages.chatId, chats.id))
-      .where(and(eq(chats.userId, userId), gte(chats.createdAt, since)));
+    const [[aggregates], usage] = await Promise.all([
+      pgDb
+        .select({
+          chatCount: sql<number>`COUNT(DISTINCT ${chats.id})`.as('chatCount'),
+          messageCount: count(messages.id).as('messageCount'),
+        })
+        .from(chats)
+        .leftJoin(messages, eq(messages.chatId, chats.id))
+        .where(and(eq(chats.userId, userId), gte(chats.createdAt, since))),
+      usageRepository.getUserSummary(userId, since),
+    ]);
 
     return {
       chatCount: Number(aggregates?.chatCount ?? 0),
       messageCount: Number(aggregates?.messageCount ?? 0),
       period: 'Last 30 Days',
+      usage,
     };
   },
 };
@@ -1,4 +1,5 @@
 import type { SessionUser } from '@/lib/auth/auth-instance';
+import type { UserUsageSummary } from '@/types/usage';
 
 export type UserPreferences = {
   displayName?: string;
@@ -38,6 +39,8 @@ export type UserStats = {
   chatCount: number;
   messageCount: number;
   period: string;
+  /** Model calls billed to the user over the same period. */
+  usage: UserUsageSummary;
 };
 
 export type UserSessionInfo = {
@@ -0,0 +1,127 @@
+/**
+ * Messages in a chat form a tree: a question points at the answer it follows
+ * and an answer points at its question. Sources and suggestions hang off the
+ * answer they belong to. Editing a question or regenerating an answer adds a
+ * sibling instead of replacing the original.
+ */
+export interface BranchMessage {
+  messageId: string;
+  parentMessageId?: string | null;
+  role: string;
+}
+
+/** Chosen child per parent message, keyed by `branchKey`. */
+export type BranchSelection = Record<string, string>;
+
+const ROOT_BRANCH_KEY = '__root__';
+
+/** Marks a branch whose new answer has been requested but not streamed yet. */
+export const PENDING_BRANCH = '__pending__';
+
+export const branchKey = (parentMessageId?: string | null) =>
+  parentMessageId ?? ROOT_BRANCH_KEY;
+
+/** Versions of a message, oldest first, including the message itself. */
+export const getBranchSiblings = <T extends BranchMessage>(
+  messages: T[],
+  message: BranchMessage,
+) =>
+  messages.filter(
+    (candidate) =>
+      candidate.role === message.role &&
+      branchKey(candidate.parentMessageId) ===
+        branchKey(message.parentMessageId),
+  );
+
+const pickChild = <T extends BranchMessage>(
+  messages: T[],
+  parentMessageId: string | null,
+  role: 'user' | 'assistant',
+  selection: BranchSelection,
+) => {
+  const candidates = messages.filter(
+    (message) =>
+      message.role === role &&
+      branchKey(message.parentMessageId) === branchKey(parentMessageId),
+  );
+  const selected = selection[branchKey(parentMessageId)];
+
+  if (selected === PENDING_BRANCH) {
+    return undefined;
+  }
+
+  return (
+    candidates.find((message) => message.messageId === selected) ??
+    candidates[candidates.length - 1]
+  );
+};
+
+/**
+ * Walks the tree from the first question down the selected (or newest)
+ * version at every step and returns that conversation in reading order.
+ */
+export const resolveActiveBranch = <T extends BranchMessage>(
+  messages: T[],
+  selection: BranchSelection = {},
+): T[] => {
+  const knownIds = new Set(
+    messages
+      .filter(
+        (message) => message.role === 'user' || message.role === 'assistant',
+      )
+      .map((message) => message.messageId),
+  );
+  const visited = new Set<string>();
+  const branch: T[] = [];
+  let parentMessageId: string | null = null;
+
+  while (true) {
+    const question: T | undefined = pickChild(
+      messages,
+      parentMessageId,
+      'user',
+      selection,
+    );
+
+    if (!question || visited.has(question.messageId)) {
+      break;
+    }
+
+    visited.add(question.messageId);
+    branch.push(question);
+
+    const answer: T | undefined = pickChild(
+      messages,
+      question.messageId,
+      'assistant',
+      selection,
+    );
+
+    if (!answer) {
+      // A streaming answer sends its sources before the answer itself exists.
+      branch.push(
+        ...messages.filter(
+          (message) =>
+            message.role === 'source' &&
+            (message.parentMessageId === question.messageId ||
+              !knownIds.has(message.parentMessageId ?? '')),
+        ),
+      );
+      break;
+    }
+
+    const attachments = messages.filter(
+      (message) =>
+        message.parentMessageId === answer.messageId && message.role !== 'user',
+    );
+
+    branch.push(
+      ...attachments.filter((message) => message.role === 'source'),
+      answer,
+      ...attachments.filter((message) => message.role !== 'source'),
+    );
+    parentMessageId = answer.messageId;
+  }
+
+  return branch;
+};
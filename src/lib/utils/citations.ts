@@ -0,0 +1,38 @@
+import type { Document } from '@langchain/core/documents';
+
+const CITATION_GROUP_PATTERN = /\[([^\]]+)\]/g;
+const CITATION_PATTERN = /\[(\d+)\]/g;
+
+/**
+ * Turns `[1]` and `[1, 2]` markers into `<citation>` tags pointing at the
+ * matching source. Markers are dropped when there are no sources to link.
+ */
+export const linkCitations = (content: string, sources?: Document[]) => {
+  if (!sources || sources.length === 0) {
+    return content.replace(CITATION_PATTERN, '');
+  }
+
+  return content.replace(
+    CITATION_GROUP_PATTERN,
+    (_, capturedContent: string) => {
+      const numbers = capturedContent.split(',').map((numStr) => numStr.trim());
+
+      return numbers
+        .map((numStr) => {
+          const number = parseInt(numStr);
+
+          if (isNaN(number) || number <= 0) {
+            return `[${numStr}]`;
+          }
+
+          const url = sources[number - 1]?.metadata?.url;
+
+          return url ? `<citation href="${url}">${numStr}</citation>` : ``;
+        })
+        .join('');
+    },
+  );
+};
+
+export const stripCitations = (content: string) =>
+  content.replace(CITATION_PATTERN, '');
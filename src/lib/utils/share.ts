@@ -0,0 +1,9 @@
+export const SHARE_EXPIRY_OPTIONS = [
+  { label: 'Never', days: null },
+  { label: '1 day', days: 1 },
+  { label: '7 days', days: 7 },
+  { label: '30 days', days: 30 },
+] as const;
+
+export const buildShareUrl = (token: string) =>
+  `${window.location.origin}/share/${token}`;
@@ -0,0 +1,183 @@
+import { toast } from 'sonner';
+import type { IngestionProgress } from '@/types/ingestion';
+
+export const SUPPORTED_UPLOAD_EXTENSIONS = [
+  'pdf',
+  'docx',
+  'txt',
+  'csv',
+  'xlsx',
+  'xls',
+  'pptx',
+  'html',
+  'htm',
+  'eml',
+  'jpg',
+  'jpeg',
+  'png',
+  'webp',
+  'zip',
+] as const;
+
+export const SUPPORTED_UPLOAD_ACCEPT = SUPPORTED_UPLOAD_EXTENSIONS.map(
+  (extension) => `.${extension}`,
+).join(',');
+
+export type UploadedDocument = {
+  fileName: string;
+  fileExtension: string;
+  fileId: string;
+};
+
+type UploadDocumentsOptions = {
+  /** Called whenever the server reports new processing progress. */
+  onProgress?: (progress: IngestionProgress[]) => void;
+};
+
+const normalizeExtension = (fileName: string) =>
+  fileName.split('.').pop()?.toLowerCase() ?? '';
+
+const isIngestionFinished = (job: IngestionProgress) =>
+  job.status === 'completed' || job.status === 'failed';
+
+/**
+ * Follows the processing of uploaded files over server-sent events until
+ * every requested file is reported as finished.
+ */
+export const watchIngestion = (
+  fileIds: string[],
+  onProgress?: (progress: IngestionProgress[]) => void,
+): Promise<IngestionProgress[]> =>
+  new Promise((resolve, reject) => {
+    const source = new EventSource(
+      `/api/uploads/status?ids=${encodeURIComponent(fileIds.join(','))}`,
+    );
+
+    source.onmessage = (event) => {
+      const { files }: { files: IngestionProgress[] } = JSON.parse(event.data);
+      onProgress?.(files);
+
+      const finished = files.filter(isIngestionFinished);
+      if (
+        fileIds.every((fileId) => finished.some((job) => job.fileId === fileId))
+      ) {
+        source.close();
+        resolve(files);
+      }
+    };
+
+    // EventSource reconnects by itself; it only gives up on HTTP errors.
+    source.onerror = () => {
+      if (source.readyState === EventSource.CLOSED) {
+        reject(new Error('Lost track of file processing.'));
+      }
+    };
+  });
+
+/** A short label for an upload button, e.g. "Embedding 40%". */
+export const formatIngestionProgress = (progress: IngestionProgress[]) => {
+  if (progress.length === 0) {
+    return 'Uploading';
+  }
+
+  if (progress.length > 1) {
+    const finished = progress.filter(isIngestionFinished).length;
+    return `Processing ${finished}/${progress.length}`;
+  }
+
+  const [job] = progress;
+
+  if (job.status === 'queued') {
+    return 'Queued';
+  }
+  if (isIngestionFinished(job)) {
+    return job.status === 'completed' ? 'Ready' : 'Failed';
+  }
+  if (job.stage === 'stored') {
+    return 'Reading';
+  }
+
+  const percent =
+    job.chunks > 0 ? Math.floor((job.embeddedChunks / job.chunks) * 100) : 0;
+  return `Embedding ${percent}%`;
+};
+
+/**
+ * Sends files to the uploads API for extraction and embedding with the
+ * user's configured embedding model, then waits until they are processed.
+ * Only files that completed are returned; the rest are reported with a
+ * toast. When nothing is usable the result is null.
+ */
+export const uploadDocuments = async (
+  files: globalThis.File[],
+  options: UploadDocumentsOptions = {},
+): Promise<UploadedDocument[] | null> => {
+  const invalid = files.find((file) => {
+    const ext = normalizeExtension(file.name);
+    return !SUPPORTED_UPLOAD_EXTENSIONS.includes(
+      ext as (typeof SUPPORTED_UPLOAD_EXTENSIONS)[number],
+    );
+  });
+
+  if (invalid) {
+    toast.error(
+      'Supported files are PDF, Word, Excel, CSV, PowerPoint, HTML, EML, text, images and ZIP archives.',
+    );
+    return null;
+  }
+
+  const embeddingProvider = localStorage.getItem('embeddingModelProviderId');
+  const embeddingModelKey = localStorage.getItem('embeddingModelKey');
+
+  if (!embeddingProvider || !embeddingModelKey) {
+    toast.error(
+      'Embedding model is not configured. Please choose one in settings.',
+    );
+    return null;
+  }
+
+  const formData = new FormData();
+  files.forEach((file) => formData.append('files', file));
+  formData.append('embedding_model_provider_id', embeddingProvider);
+  formData.append('embedding_model_key', embeddingModelKey);
+
+  const response = await fetch('/api/uploads', {
+    method: 'POST',
+    body: formData,
+  });
+
+  if (!response.ok) {
+    const errorBody = await response.json().catch(() => ({}));
+    const message =
+      typeof errorBody?.message === 'string'
+        ? errorBody.message
+        : 'Failed to upload files. Please try again.';
+    toast.error(message);
+    return null;
+  }
+
+  const payload: { files: UploadedDocument[] } = await response.json();
+
+  if (!Array.isArray(payload.files) || payload.files.length === 0) {
+    toast.error('Upload did not return any files.');
+    return null;
+  }
+
+  const progress = await watchIngestion(
+    payload.files.map((file) => file.fileId),
+    options.onProgress,
+  );
+  const ready: UploadedDocument[] = [];
+
+  payload.files.forEach((file) => {
+    const job = progress.find((entry) => entry.fileId === file.fileId);
+
+    if (job?.status === 'completed') {
+      ready.push(file);
+    } else {
+      toast.error(job?.error ?? `${file.fileName} could not be processed.`);
+    }
+  });
+
+  return ready.length > 0 ? ready : null;
+};
@@ -1,6 +1,6 @@
 import { NextResponse, type NextRequest } from 'next/server';
 
-const PUBLIC_PATHS = ['/sign-in', '/sign-up', '/ping'];
+const PUBLIC_PATHS = ['/sign-in', '/sign-up', '/ping', '/share', '/api/files/sweep'];
 
 const isPublicPath = (pathname: string) =>
   PUBLIC_PATHS.some((path) =>
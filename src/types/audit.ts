@@ -0,0 +1,56 @@
+export type AuditAction =
+  | 'user.role_updated'
+  | 'user.banned'
+  | 'user.unbanned'
+  | 'user.deleted'
+  | 'user.impersonated'
+  | 'provider.created'
+  | 'provider.updated'
+  | 'provider.deleted'
+  | 'provider.model_added'
+  | 'provider.model_removed'
+  | 'config.updated'
+  | 'branding.updated';
+
+export type AuditTargetType = 'user' | 'model_provider' | 'config' | 'branding';
+
+export interface AuditChange {
+  field: string;
+  before: unknown;
+  after: unknown;
+}
+
+export interface AuditLogEntry {
+  id: string;
+  action: AuditAction;
+  actorId: string | null;
+  actorName: string | null;
+  actorEmail: string | null;
+  impersonatedBy: string | null;
+  targetType: AuditTargetType;
+  targetId: string | null;
+  /** Email of the target when it is a user. */
+  targetLabel: string | null;
+  changes: AuditChange[];
+  ipAddress: string | null;
+  userAgent: string | null;
+  createdAt: Date;
+}
+
+export interface AuditLogQuery {
+  action?: AuditAction;
+  targetType?: AuditTargetType;
+  actorId?: string;
+  targetId?: string;
+  from?: Date;
+  to?: Date;
+  limit?: number;
+  offset?: number;
+}
+
+export interface AuditLogPaginated {
+  entries: AuditLogEntry[];
+  total: number;
+  limit: number;
+  offset: number;
+}
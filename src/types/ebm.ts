@@ -0,0 +1,54 @@
+import type {
+  EbmFieldComparison,
+  EbmQrPayload,
+  EbmValidationStatus,
+} from '@/lib/ebm/types';
+
+export interface EbmValidationsQuery {
+  sellerTin?: string;
+  buyerTin?: string;
+  invoiceNumber?: string;
+  status?: EbmValidationStatus;
+  chatId?: string;
+  reportId?: string;
+  /** Inclusive lower bound on the invoice issue date (yyyy-MM-dd). */
+  issuedFrom?: string;
+  /** Inclusive upper bound on the invoice issue date (yyyy-MM-dd). */
+  issuedTo?: string;
+  limit?: number;
+  offset?: number;
+}
+
+export interface EbmValidationRecord {
+  id: string;
+  chatId: string | null;
+  fileId: string;
+  fileName: string | null;
+  reportId: string | null;
+  status: EbmValidationStatus;
+  templateName: string | null;
+  sellerTin: string | null;
+  buyerTin: string | null;
+  invoiceNumber: string | null;
+  issueDate: string | null;
+  totalAmount: number | null;
+  vatAmount: number | null;
+  currency: string | null;
+  headline: string | null;
+  qrPayload: EbmQrPayload | null;
+  matches: EbmFieldComparison[];
+  errors: string[];
+  createdAt: Date;
+}
+
+export type EbmValidationListItem = Omit<
+  EbmValidationRecord,
+  'qrPayload' | 'matches' | 'errors'
+>;
+
+export interface EbmValidationsPaginated {
+  validations: EbmValidationListItem[];
+  total: number;
+  limit: number;
+  offset: number;
+}
@@ -0,0 +1,16 @@
+export type ChatExportFormat = 'pdf' | 'docx' | 'md' | 'html';
+
+/**
+ * Firm branding applied to exported conversations. Configured by admins and
+ * stored as a single application setting.
+ */
+export interface ExportBranding {
+  firmName: string;
+  /** PNG or JPEG, as an http(s) or data: URL. */
+  logoUrl: string;
+  headerText: string;
+  footerText: string;
+  disclaimer: string;
+  /** Hex colour used for headings and rules. */
+  accentColor: string;
+}
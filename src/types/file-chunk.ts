@@ -0,0 +1,14 @@
+export interface FileChunk {
+  chunkIndex: number;
+  /** Page (or slide, sheet) the chunk came from, when the format has them. */
+  pageNumber: number | null;
+  content: string;
+  embedding: number[];
+}
+
+export interface FileChunkMatch extends Omit<FileChunk, 'embedding'> {
+  fileId: string;
+  fileName: string;
+  /** Cosine similarity to the query, from -1 to 1. */
+  similarity: number;
+}
@@ -0,0 +1,38 @@
+/**
+ * How far an upload has got. Originals are stored before the upload request
+ * returns; extraction and embedding happen in the background.
+ */
+export type IngestionStage = 'stored' | 'parsed' | 'embedded';
+
+export type IngestionStatus = 'queued' | 'processing' | 'completed' | 'failed';
+
+export interface IngestionJob {
+  /** The uploaded file's ID; each file has at most one job. */
+  fileId: string;
+  userId: string;
+  fileName: string;
+  extension: string;
+  embeddingProviderId: string;
+  embeddingModelKey: string;
+  status: IngestionStatus;
+  stage: IngestionStage;
+  /** Chunks produced by extraction; 0 until the file has been parsed. */
+  chunks: number;
+  embeddedChunks: number;
+  attempts: number;
+  error: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/** The part of a job reported to the uploading user. */
+export type IngestionProgress = Pick<
+  IngestionJob,
+  | 'fileId'
+  | 'fileName'
+  | 'status'
+  | 'stage'
+  | 'chunks'
+  | 'embeddedChunks'
+  | 'error'
+>;
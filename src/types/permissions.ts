@@ -3,6 +3,7 @@ export const APP_RESOURCES = {
   CONFIG: 'config',
   CHAT: 'chat',
   UPLOAD: 'upload',
+  MCP: 'mcp',
 } as const;
 
 export type AppResource = (typeof APP_RESOURCES)[keyof typeof APP_RESOURCES];
@@ -0,0 +1,21 @@
+export interface ProjectFile {
+  fileId: string;
+  name: string;
+}
+
+export interface Project {
+  id: string;
+  name: string;
+  description: string | null;
+  instructions: string;
+  files: ProjectFile[];
+  chatCount: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/** A project as returned by the API, with dates serialised to ISO strings. */
+export type ProjectListItem = Omit<Project, 'createdAt' | 'updatedAt'> & {
+  createdAt: string;
+  updatedAt: string;
+};
@@ -0,0 +1,25 @@
+export type ChatShareStatus = 'active' | 'expired' | 'revoked';
+
+export interface ChatShare {
+  id: string;
+  token: string;
+  chatId: string;
+  chatTitle: string;
+  status: ChatShareStatus;
+  expiresAt: Date | null;
+  revokedAt: Date | null;
+  viewCount: number;
+  lastViewedAt: Date | null;
+  createdAt: Date;
+}
+
+/** A share as returned by the API, with dates serialised to ISO strings. */
+export type ChatShareListItem = Omit<
+  ChatShare,
+  'expiresAt' | 'revokedAt' | 'lastViewedAt' | 'createdAt'
+> & {
+  expiresAt: string | null;
+  revokedAt: string | null;
+  lastViewedAt: string | null;
+  createdAt: string;
+};
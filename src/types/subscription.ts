@@ -0,0 +1,17 @@
+export type SubscriptionStatus =
+  | 'active'
+  | 'trialing'
+  | 'past_due'
+  | 'canceled';
+
+export interface Subscription {
+  id: string;
+  userId: string;
+  plan: string;
+  status: SubscriptionStatus;
+  currentPeriodEnd: Date | null;
+  provider: string;
+  externalId: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
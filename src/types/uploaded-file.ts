@@ -0,0 +1,20 @@
+export interface UploadedFile {
+  id: string;
+  name: string;
+  extension: string;
+  contentType: string | null;
+  size: number;
+  chatId: string | null;
+  chatTitle: string | null;
+  createdAt: Date;
+}
+
+/** An uploaded file as returned by the API, with dates serialised to ISO strings. */
+export type UploadedFileListItem = Omit<UploadedFile, 'createdAt'> & {
+  createdAt: string;
+};
+
+export interface UploadSweepResult {
+  deletedFiles: number;
+  deletedObjects: number;
+}
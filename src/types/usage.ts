@@ -0,0 +1,63 @@
+/** Parts of the app that call models on a user's behalf. */
+export type UsageFeature =
+  | 'chat'
+  | 'search'
+  | 'suggestions'
+  | 'images'
+  | 'videos'
+  | 'uploads';
+
+export type UsageKind = 'chat' | 'embedding';
+
+/** Who a model call is billed to, passed when loading the model. */
+export interface UsageContext {
+  feature: UsageFeature;
+  userId?: string | null;
+  chatId?: string | null;
+}
+
+export interface UsageTotals {
+  requests: number;
+  inputTokens: number;
+  outputTokens: number;
+  /** USD, summed over calls with a known price. */
+  estimatedCost: number;
+  averageLatencyMs: number;
+}
+
+export interface UsageByModel extends UsageTotals {
+  providerType: string;
+  model: string;
+}
+
+export interface UsageByFeature extends UsageTotals {
+  feature: UsageFeature;
+}
+
+export interface UsageByUser extends UsageTotals {
+  userId: string;
+  name: string | null;
+  email: string | null;
+}
+
+export interface UsageByDay {
+  day: string;
+  requests: number;
+  inputTokens: number;
+  outputTokens: number;
+  estimatedCost: number;
+}
+
+export interface UserUsageSummary {
+  totals: UsageTotals;
+  byModel: UsageByModel[];
+}
+
+export interface OrgUsageSummary {
+  since: string;
+  totals: UsageTotals;
+  byFeature: UsageByFeature[];
+  byModel: UsageByModel[];
+  topUsers: UsageByUser[];
+  byDay: UsageByDay[];
+}